@@ -0,0 +1,238 @@
+import axios from 'axios'
+import { EloquaApiErrorInfo, EloquaDependency } from '../shared/apiTypes'
+import { abortedErrorInfo } from '../shared/apiErrors'
+
+export class ApiErrorMapper {
+  private static readonly REQUEST_ID_HEADERS = ['x-request-id', 'x-eloqua-request-id', 'x-correlation-id', 'x-oracle-dms-ecid']
+  private static readonly RETRYABLE_STATUSES = [408, 429, 502, 503, 504]
+  private static readonly RETRYABLE_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE']
+  private static readonly MAX_BODY_LENGTH = 20000
+
+  /**
+   * Converts any error raised while calling Eloqua into a serializable envelope
+   * @param error - The caught error (usually an AxiosError)
+   * @param method - HTTP method of the failed request
+   * @param endpoint - Endpoint of the failed request
+   * @returns EloquaApiErrorInfo
+   */
+  static fromError(error: unknown, method?: string, endpoint?: string): EloquaApiErrorInfo {
+    if (axios.isCancel(error)) {
+      return abortedErrorInfo(method, endpoint)
+    }
+
+    if (!axios.isAxiosError(error)) {
+      return {
+        status: null,
+        message: `API call failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        validationMessages: [],
+        dependencies: [],
+        retryable: false,
+        method,
+        endpoint
+      }
+    }
+
+    const response = error.response
+    if (!response) {
+      return {
+        status: null,
+        code: error.code,
+        message: `Network error (${error.code || 'unknown'}): ${error.message}`,
+        validationMessages: [],
+        dependencies: [],
+        retryable: !!error.code && this.RETRYABLE_CODES.includes(error.code),
+        method,
+        endpoint
+      }
+    }
+
+    const headers = (response.headers || {}) as Record<string, any>
+    const body = this.limitBody(response.data)
+    const validationMessages = this.extractValidationMessages(body)
+    const dependencies = this.extractDependencies(body)
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      code: this.extractErrorCode(body) || error.code,
+      message: this.describe(response.status, validationMessages[0] || error.message),
+      validationMessages,
+      dependencies,
+      requestId: this.extractRequestId(headers),
+      retryable: this.RETRYABLE_STATUSES.includes(response.status),
+      retryAfterMs: this.parseRetryAfter(headers['retry-after']),
+      method,
+      endpoint,
+      body
+    }
+  }
+
+  /**
+   * Builds an envelope for requests rejected before they were sent
+   * @param errors - Validation errors for the IPC input
+   * @returns EloquaApiErrorInfo
+   */
+  static invalidRequest(errors: string[]): EloquaApiErrorInfo {
+    return {
+      status: null,
+      code: 'INVALID_REQUEST',
+      message: `Invalid API call parameters: ${errors.join(', ')}`,
+      validationMessages: errors,
+      dependencies: [],
+      retryable: false
+    }
+  }
+
+  /**
+   * Builds an envelope for a call made with an unknown or closed session
+   * @param method - HTTP method of the rejected request
+   * @param endpoint - Endpoint of the rejected request
+   * @returns EloquaApiErrorInfo
+   */
+  static invalidSession(method?: string, endpoint?: string): EloquaApiErrorInfo {
+    return {
+      status: 401,
+      code: 'INVALID_SESSION',
+      message: 'Session expired. Please log in again.',
+      validationMessages: [],
+      dependencies: [],
+      retryable: false,
+      method,
+      endpoint
+    }
+  }
+
+  static extractRequestId(headers: Record<string, any>): string | undefined {
+    for (const name of this.REQUEST_ID_HEADERS) {
+      const value = headers[name]
+      if (value) {
+        return String(value)
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Parses a Retry-After header given either as seconds or as an HTTP date
+   * @param value - Raw header value
+   * @returns number | undefined - Delay in milliseconds
+   */
+  static parseRetryAfter(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined
+    }
+
+    const text = String(value).trim()
+    if (/^\d+(\.\d+)?$/.test(text)) {
+      return Math.round(parseFloat(text) * 1000)
+    }
+
+    const date = Date.parse(text)
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now())
+    }
+
+    return undefined
+  }
+
+  private static describe(status: number, detail: string): string {
+    switch (status) {
+      case 401:
+        return 'Authentication failed. Please log in again.'
+      case 403:
+        return 'Access denied for this operation.'
+      case 404:
+        return `API error (404): Resource not found`
+      case 412:
+        return `API error (412): The asset has dependencies that must be removed first`
+      case 429:
+        return 'API error (429): Rate limit exceeded'
+      default:
+        return `API error (${status}): ${detail}`
+    }
+  }
+
+  // Eloqua REST returns an array of ObjectValidationError items, Bulk 2.0 returns { failures: [...] }
+  private static extractValidationMessages(body: any): string[] {
+    if (!body) return []
+    if (typeof body === 'string') {
+      return body.trim() && !body.trim().startsWith('<') ? [body.trim()] : []
+    }
+
+    const items: any[] = Array.isArray(body)
+      ? body
+      : Array.isArray(body.failures)
+        ? body.failures
+        : Array.isArray(body.errors)
+          ? body.errors
+          : []
+
+    const messages = items
+      .map(item => {
+        if (typeof item === 'string') return item
+        if (!item || typeof item !== 'object') return ''
+        if (item.message) return String(item.message)
+        const field = item.property || item.field
+        const reason = item.requirement?.type || item.constraint || item.type
+        if (field && reason) return `${field}: ${reason}`
+        return reason ? String(reason) : ''
+      })
+      .filter(message => message.length > 0)
+
+    if (messages.length === 0 && typeof body.error === 'string') {
+      messages.push(body.error)
+    }
+    if (messages.length === 0 && typeof body.message === 'string') {
+      messages.push(body.message)
+    }
+
+    return messages
+  }
+
+  private static extractDependencies(body: any): EloquaDependency[] {
+    if (!body || typeof body !== 'object') return []
+
+    const raw: any[] = []
+    if (Array.isArray(body.dependencies)) {
+      raw.push(...body.dependencies)
+    }
+    if (Array.isArray(body)) {
+      for (const item of body) {
+        if (Array.isArray(item?.requirement?.dependencies)) {
+          raw.push(...item.requirement.dependencies)
+        }
+        if (Array.isArray(item?.dependencies)) {
+          raw.push(...item.dependencies)
+        }
+      }
+    }
+
+    return raw
+      .filter(dep => dep && dep.id !== undefined && dep.type)
+      .map(dep => ({
+        id: dep.id,
+        name: dep.name,
+        type: String(dep.type),
+        permissions: Array.isArray(dep.permissions) ? dep.permissions : undefined
+      }))
+  }
+
+  private static extractErrorCode(body: any): string | undefined {
+    if (!body || typeof body !== 'object') return undefined
+    if (body.code || body.errorCode) {
+      return String(body.code || body.errorCode)
+    }
+    const first = Array.isArray(body) ? body[0] : Array.isArray(body.failures) ? body.failures[0] : undefined
+    if (first && typeof first === 'object') {
+      return first.requirement?.type || first.constraint || first.type
+    }
+    return undefined
+  }
+
+  private static limitBody(body: unknown): unknown {
+    if (typeof body === 'string' && body.length > this.MAX_BODY_LENGTH) {
+      return `${body.slice(0, this.MAX_BODY_LENGTH)}... [truncated]`
+    }
+    return body
+  }
+}
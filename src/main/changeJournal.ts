@@ -0,0 +1,115 @@
+import { app } from 'electron'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { ChangeJournalEntry, ChangeJournalSummary, toChangeJournalSummary } from '../shared/changeJournal'
+
+// Older entries are dropped with their snapshots once the journal holds this many
+const MAX_ENTRIES = 1000
+const ENTRY_ID = /^change-[a-z0-9-]{1,80}$/
+
+/**
+ * Undo journal under userData/change-journal. index.json lists the entries
+ * newest first; each entry with the snapshot of its asset is stored in
+ * entries/<id>.json, as snapshots of complete forms can be large.
+ */
+export class ChangeJournal {
+  private static index: ChangeJournalSummary[] | null = null
+  // Changes made in parallel would otherwise overwrite each other's index
+  private static writes: Promise<void> = Promise.resolve()
+
+  private static get rootDir(): string {
+    return path.join(app.getPath('userData'), 'change-journal')
+  }
+
+  private static get indexPath(): string {
+    return path.join(this.rootDir, 'index.json')
+  }
+
+  private static getEntryPath(id: string): string {
+    if (!ENTRY_ID.test(id)) {
+      throw new Error('Invalid journal entry id')
+    }
+    return path.join(this.rootDir, 'entries', `${id}.json`)
+  }
+
+  static async list(): Promise<ChangeJournalSummary[]> {
+    if (!this.index) {
+      try {
+        const stored = JSON.parse(await fs.readFile(this.indexPath, 'utf8'))
+        this.index = Array.isArray(stored) ? stored : []
+      } catch {
+        this.index = []
+      }
+    }
+    return [...this.index!]
+  }
+
+  /**
+   * Reads an entry with its snapshot
+   * @param id - Entry id
+   * @returns Promise<ChangeJournalEntry | null> - The entry, or null when it was dropped
+   */
+  static async get(id: string): Promise<ChangeJournalEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getEntryPath(id), 'utf8'))
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Stores a new or updated entry and drops the oldest ones past the limit
+   * @param entry - Entry with its snapshot
+   * @returns Promise<ChangeJournalSummary> - Line of the entry in the journal
+   */
+  static async save(entry: ChangeJournalEntry): Promise<ChangeJournalSummary> {
+    const entryPath = this.getEntryPath(entry.id)
+    const summary = toChangeJournalSummary(entry)
+
+    await this.enqueue(async () => {
+      await fs.mkdir(path.dirname(entryPath), { recursive: true })
+      await fs.writeFile(entryPath, JSON.stringify(entry), 'utf8')
+
+      // An updated entry keeps its place
+      const entries = await this.list()
+      const position = entries.findIndex(item => item.id === entry.id)
+      if (position >= 0) {
+        entries[position] = summary
+      } else {
+        entries.unshift(summary)
+      }
+      const dropped = entries.splice(MAX_ENTRIES)
+      await this.writeIndex(entries)
+      await Promise.all(dropped.map(item => fs.rm(this.getEntryPath(item.id), { force: true })))
+    })
+    return summary
+  }
+
+  static async delete(id: string): Promise<void> {
+    const entryPath = this.getEntryPath(id)
+    await this.enqueue(async () => {
+      await this.writeIndex((await this.list()).filter(item => item.id !== id))
+      await fs.rm(entryPath, { force: true })
+    })
+  }
+
+  static async clear(): Promise<void> {
+    await this.enqueue(async () => {
+      this.index = []
+      await fs.rm(this.rootDir, { recursive: true, force: true })
+    })
+  }
+
+  private static async writeIndex(entries: ChangeJournalSummary[]): Promise<void> {
+    this.index = entries
+    await fs.mkdir(this.rootDir, { recursive: true })
+    await fs.writeFile(this.indexPath, JSON.stringify(entries), 'utf8')
+  }
+
+  private static enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(task)
+    // A failed write is reported to its caller and does not block the next one
+    this.writes = next.catch(() => {})
+    return next
+  }
+}
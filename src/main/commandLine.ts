@@ -0,0 +1,335 @@
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { SecureCredentialManager } from './secureCredentialManager'
+import { SessionManager } from './sessionManager'
+import { SecurityUtils } from './security'
+import { login } from './eloquaLogin'
+import { createHeadlessApi } from './headlessApi'
+import { HeadlessRunner } from '../shared/headlessRunner'
+import { EloquaLoginRequest, EloquaSession } from '../shared/types'
+import { ToolResult } from '../shared/toolFramework'
+import { getResultRows } from '../shared/pipeline'
+
+// Exit codes of the command line
+export const EXIT_SUCCESS = 0
+export const EXIT_FAILURE = 1
+export const EXIT_USAGE = 2
+
+const COMMANDS = ['run', 'list', 'help']
+
+const USAGE = `Usage:
+  eloqua-admin-toolbox run <tool-id> [options]
+  eloqua-admin-toolbox list
+  eloqua-admin-toolbox help
+
+Options for run:
+  --params <file>      JSON file with the tool parameters
+  --out <file>         Write the result here; without it the result is printed
+  --format <csv|json>  Format of --out; defaults to its extension
+  --rows <path>        Dot path to the rows to write, e.g. fields
+  --site <name>        Stored account to sign in with, together with --user
+  --user <name>
+  --demo               Run against the local demo instance
+  --no-cache           Do not use cached responses
+  --allow-changes      Required for runs that change data in Eloqua
+
+Credentials come from ELOQUA_SITE, ELOQUA_USERNAME and ELOQUA_PASSWORD (plus
+ELOQUA_CLIENT_ID and ELOQUA_CLIENT_SECRET for OAuth), or from an account
+stored in the keychain by the app.
+
+Exit codes: 0 success, 1 the run failed, 2 invalid command or parameters.`
+
+export interface CommandLineRun {
+  command: 'run'
+  toolId: string
+  paramsFile?: string
+  outFile?: string
+  format?: 'csv' | 'json'
+  rowsPath?: string
+  siteName?: string
+  username?: string
+  demo: boolean
+  bypassCache: boolean
+  allowChanges: boolean
+}
+
+export type CommandLine = CommandLineRun | { command: 'list' } | { command: 'help' }
+
+// A command line that cannot be run; reported with the usage text
+export class CommandLineError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CommandLineError'
+  }
+}
+
+/**
+ * Finds a command in the process arguments. Chromium and Electron switches
+ * before the command are left to Electron.
+ * @param args - Arguments after the executable (and the app path when unpackaged)
+ * @returns string[] | null - The command and its arguments, or null to open the window
+ */
+export function findCommand(args: string[]): string[] | null {
+  const index = args.findIndex(arg => !arg.startsWith('-'))
+  return index !== -1 && COMMANDS.includes(args[index]) ? args.slice(index) : null
+}
+
+/**
+ * Parses a command and its options
+ * @param args - Command and its arguments, as returned by findCommand
+ * @returns CommandLine - The parsed command
+ * @throws CommandLineError - When an option is unknown or misses its value
+ */
+export function parseCommandLine(args: string[]): CommandLine {
+  const [command, ...rest] = args
+  if (command === 'help') return { command: 'help' }
+  if (command === 'list') {
+    if (rest.length > 0) throw new CommandLineError('list takes no arguments')
+    return { command: 'list' }
+  }
+
+  const run: CommandLineRun = { command: 'run', toolId: '', demo: false, bypassCache: false, allowChanges: false }
+  const valueOf = (index: number) => {
+    const value = rest[index + 1]
+    if (value === undefined || value.startsWith('--')) {
+      throw new CommandLineError(`${rest[index]} needs a value`)
+    }
+    return value
+  }
+
+  for (let index = 0; index < rest.length; index++) {
+    const arg = rest[index]
+    switch (arg) {
+      case '--params': run.paramsFile = valueOf(index++); break
+      case '--out': run.outFile = valueOf(index++); break
+      case '--rows': run.rowsPath = valueOf(index++); break
+      case '--site': run.siteName = valueOf(index++); break
+      case '--user': run.username = valueOf(index++); break
+      case '--format': {
+        const format = valueOf(index++)
+        if (format !== 'csv' && format !== 'json') {
+          throw new CommandLineError('--format must be csv or json')
+        }
+        run.format = format
+        break
+      }
+      case '--demo': run.demo = true; break
+      case '--no-cache': run.bypassCache = true; break
+      case '--allow-changes': run.allowChanges = true; break
+      default:
+        if (arg.startsWith('-') || run.toolId) {
+          throw new CommandLineError(`Unknown argument: ${arg}`)
+        }
+        run.toolId = arg
+    }
+  }
+
+  if (!run.toolId) {
+    throw new CommandLineError('run needs a tool id; see the list command')
+  }
+  if (!!run.siteName !== !!run.username) {
+    throw new CommandLineError('--site and --user go together')
+  }
+  return run
+}
+
+/**
+ * Runs a command and reports on stdout and stderr
+ * @param args - Command and its arguments, as returned by findCommand
+ * @param loadRunner - Loads the tools bundle
+ * @returns Promise<number> - Exit code
+ */
+export async function runCommandLine(args: string[], loadRunner: () => HeadlessRunner): Promise<number> {
+  let commandLine: CommandLine
+  try {
+    commandLine = parseCommandLine(args)
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`)
+    return EXIT_USAGE
+  }
+
+  if (commandLine.command === 'help') {
+    console.log(USAGE)
+    return EXIT_SUCCESS
+  }
+
+  let runner: HeadlessRunner
+  try {
+    runner = loadRunner()
+  } catch (error) {
+    console.error(`Failed to load the tools: ${error instanceof Error ? error.message : error}`)
+    return EXIT_FAILURE
+  }
+
+  if (commandLine.command === 'list') {
+    for (const tool of runner.listTools()) {
+      console.log(`${tool.id}\t${tool.name}${tool.mutating ? ' (can change data)' : ''}`)
+    }
+    return EXIT_SUCCESS
+  }
+
+  try {
+    return await runTool(commandLine, runner)
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error)
+    return error instanceof CommandLineError ? EXIT_USAGE : EXIT_FAILURE
+  }
+}
+
+async function runTool(run: CommandLineRun, runner: HeadlessRunner): Promise<number> {
+  if (!runner.listTools().some(tool => tool.id === run.toolId)) {
+    throw new CommandLineError(`Unknown tool "${run.toolId}"; see the list command`)
+  }
+
+  const parameters = run.paramsFile ? await readParameters(run.paramsFile) : {}
+  if (runner.isToolRunMutating(run.toolId, parameters) && !run.allowChanges) {
+    throw new CommandLineError(`This run of ${run.toolId} changes data in Eloqua; pass --allow-changes to run it`)
+  }
+
+  const session = await openSession(run)
+  const outputDir = path.dirname(path.resolve(run.outFile || 'output'))
+  const abortController = new AbortController()
+  const stop = () => {
+    console.error('Stopping...')
+    abortController.abort()
+  }
+  process.on('SIGINT', stop)
+  process.on('SIGTERM', stop)
+
+  let result: ToolResult
+  try {
+    result = await runner.runTool({
+      toolId: run.toolId,
+      parameters,
+      session,
+      // Files a tool streams are written next to --out under the tool's file name
+      api: createHeadlessApi(fileName => path.join(outputDir, path.basename(fileName))),
+      signal: abortController.signal,
+      bypassCache: run.bypassCache,
+      onProgress: message => console.error(message),
+      onItem: item => {
+        if (item.status === 'failed') {
+          console.error(`Failed: ${item.label || item.id}${item.error ? ` - ${item.error}` : ''}`)
+        }
+      }
+    })
+  } finally {
+    process.off('SIGINT', stop)
+    process.off('SIGTERM', stop)
+    SessionManager.close(session.sessionId)
+  }
+
+  if (result.fieldErrors) {
+    throw new CommandLineError(`Invalid parameters: ${result.error}`)
+  }
+  if (result.cancelled) {
+    console.error(result.message || 'Stopped')
+  } else if (!result.success) {
+    console.error(result.error || 'The run failed')
+  } else if (result.message) {
+    console.error(result.message)
+  }
+
+  // Partial results of a stopped or failed run are written too
+  if (result.data !== undefined) {
+    await writeResult(run, result.data)
+  }
+  return result.success && !result.cancelled ? EXIT_SUCCESS : EXIT_FAILURE
+}
+
+async function readParameters(filePath: string): Promise<Record<string, unknown>> {
+  let parameters: unknown
+  try {
+    parameters = JSON.parse(await fs.readFile(filePath, 'utf8'))
+  } catch (error) {
+    throw new CommandLineError(`Cannot read parameters from ${filePath}: ${error instanceof Error ? error.message : error}`)
+  }
+  if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) {
+    throw new CommandLineError(`${filePath} must hold a JSON object of tool parameters`)
+  }
+  return parameters as Record<string, unknown>
+}
+
+// Signs in from the environment, the demo instance or an account in the keychain
+async function openSession(run: CommandLineRun): Promise<EloquaSession> {
+  if (run.demo) {
+    return login({ method: 'demo' })
+  }
+
+  const env = process.env
+  const siteName = run.siteName || env.ELOQUA_SITE
+  const username = run.username || env.ELOQUA_USERNAME
+  if (env.ELOQUA_PASSWORD) {
+    if (!siteName || !username) {
+      throw new CommandLineError('ELOQUA_PASSWORD needs ELOQUA_SITE and ELOQUA_USERNAME')
+    }
+    const request: EloquaLoginRequest = env.ELOQUA_CLIENT_ID && env.ELOQUA_CLIENT_SECRET
+      ? { method: 'oauth-password', siteName, username, password: env.ELOQUA_PASSWORD, clientId: env.ELOQUA_CLIENT_ID, clientSecret: env.ELOQUA_CLIENT_SECRET }
+      : { method: 'basic', siteName, username, password: env.ELOQUA_PASSWORD }
+    return login(request)
+  }
+
+  let account = siteName && username ? { siteName, username } : null
+  if (!account) {
+    const stored = await SecureCredentialManager.listCredentialAccounts()
+    if (stored.length !== 1) {
+      throw new CommandLineError(stored.length === 0
+        ? 'No credentials: set ELOQUA_SITE, ELOQUA_USERNAME and ELOQUA_PASSWORD, or sign in once in the app'
+        : 'Several accounts are stored in the keychain; pass --site and --user')
+    }
+    account = stored[0]
+  }
+
+  const session = await SessionManager.resume(account.siteName, account.username)
+  if (!session) {
+    throw new Error(`No stored credentials for ${account.siteName}\\${account.username}; sign in once in the app or set ELOQUA_PASSWORD`)
+  }
+  return session
+}
+
+/**
+ * Turns ToolResult.data into file content. A file the tool generated
+ * (exportData) is kept as is unless a format or rows are asked for; other
+ * data, or the rows at rowsPath, become JSON or CSV.
+ * @param data - ToolResult.data
+ * @param format - Output format; unset to keep a generated file, else JSON
+ * @param rowsPath - Dot path to the rows to write
+ * @returns { content, extension } - Content and the extension that suits it
+ */
+export function formatResultData(data: any, format?: 'csv' | 'json', rowsPath?: string): { content: string, extension: string } {
+  const generated = typeof data?.exportData === 'string' ? data.exportData as string : null
+  if (generated !== null && !format && !rowsPath) {
+    const extension = typeof data.filename === 'string' ? path.extname(data.filename).slice(1) : ''
+    return { content: generated, extension: extension || 'txt' }
+  }
+  if (format === 'csv') {
+    const rows = getResultRows(data, rowsPath).filter(row => typeof row === 'object' && !Array.isArray(row))
+    return { content: SecurityUtils.arrayToSecureCSV(rows), extension: 'csv' }
+  }
+  if (rowsPath) {
+    return { content: JSON.stringify(getResultRows(data, rowsPath), null, 2), extension: 'json' }
+  }
+  // The generated file would repeat the data as one long string
+  return { content: JSON.stringify(generated !== null ? { ...data, exportData: undefined } : data, null, 2), extension: 'json' }
+}
+
+// Writes ToolResult.data to --out, or to stdout without it
+async function writeResult(run: CommandLineRun, data: any) {
+  const format = run.format || (run.rowsPath || typeof data?.exportData !== 'string' ? formatFromExtension(run.outFile) : undefined)
+  const { content } = formatResultData(data, format, run.rowsPath)
+
+  if (!run.outFile) {
+    process.stdout.write(`${content}\n`)
+    return
+  }
+  try {
+    await fs.writeFile(run.outFile, content, 'utf8')
+  } catch (error) {
+    throw new Error(`Failed to write ${run.outFile}: ${error instanceof Error ? error.message : error}`)
+  }
+  console.error(`Wrote ${path.resolve(run.outFile)}`)
+}
+
+function formatFromExtension(filePath?: string): 'csv' | 'json' {
+  return filePath && path.extname(filePath).toLowerCase() === '.csv' ? 'csv' : 'json'
+}
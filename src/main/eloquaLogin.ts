@@ -0,0 +1,259 @@
+import axios from 'axios'
+import { SecureCredentialManager, EloquaCredentials } from './secureCredentialManager'
+import { SessionManager } from './sessionManager'
+import { EloquaOAuthClient } from './oauthClient'
+import { MockEloquaServer } from './mockEloquaServer'
+import { NetworkSettings } from './networkSettings'
+import { EloquaDemoSimulation, EloquaLoginRequest, EloquaSession } from '../shared/types'
+
+// Verifies an Authorization header (Basic or Bearer) against the Eloqua login
+// service and returns the login info (base URL, site, user). Throws user-facing
+// messages for common failures. With a base URL override the login service is
+// skipped and the header is checked against the pod directly.
+export async function verifyAuthorization(authorization: string, loginBaseUrl?: string): Promise<any> {
+  const baseUrlOverride = loginBaseUrl ? undefined : await NetworkSettings.getBaseUrlOverride()
+  const url = baseUrlOverride
+    ? `${baseUrlOverride}/api/REST/2.0/system/users?count=1`
+    : `${loginBaseUrl || EloquaOAuthClient.getLoginBaseUrl()}/id`
+
+  try {
+    const response = await axios.get(url, {
+      headers: {
+        'Authorization': authorization,
+        'Content-Type': 'application/json'
+      },
+      timeout: 10000,
+      ...await NetworkSettings.getRequestConfig(url)
+    })
+
+    if (baseUrlOverride) {
+      // The pod accepted the credentials; it does not say which site or user they belong to
+      return { urls: { base: baseUrlOverride } }
+    }
+    
+    // Validate response structure before returning
+    if (!response.data) {
+      console.error('Main process - No response data from Eloqua')
+      throw new Error('No response received from Eloqua API. Please check your internet connection.')
+    }
+    
+    // Check if Eloqua returned an error in the response body
+    if (response.data.error || response.data.errors) {
+      console.error('Main process - Eloqua API error in response:', response.data)
+      const errorMessage = response.data.error || (response.data.errors && response.data.errors[0])
+      if (typeof errorMessage === 'string') {
+        if (errorMessage.toLowerCase().includes('invalid') || errorMessage.toLowerCase().includes('unauthorized')) {
+          throw new Error('Invalid credentials. Please check your username and password.')
+        }
+        if (errorMessage.toLowerCase().includes('not found') || errorMessage.toLowerCase().includes('site')) {
+          throw new Error('Site not found. Please check your site name.')
+        }
+        throw new Error(`Eloqua API error: ${errorMessage}`)
+      }
+    }
+    
+    // Check for missing URLs structure (indicates invalid site/credentials)
+    if (!response.data.urls || !response.data.urls.base) {
+      console.error('Main process - Invalid Eloqua response structure:', {
+        status: response.status,
+        hasData: !!response.data,
+        hasUrls: !!(response.data && response.data.urls),
+        hasBase: !!(response.data && response.data.urls && response.data.urls.base),
+        responseData: response.data
+      })
+      
+      // This usually means invalid site name or credentials
+      if (!response.data.urls) {
+        throw new Error('Invalid credentials or site name. Please verify your login information.')
+      } else {
+        throw new Error('Invalid response from Eloqua API. Please verify your site name is correct.')
+      }
+    }
+    
+    console.log('Main process - Returning valid response data:', {
+      hasData: !!response.data,
+      dataType: typeof response.data,
+      hasUrls: !!(response.data && response.data.urls),
+      hasBase: !!(response.data && response.data.urls && response.data.urls.base)
+    })
+    
+    return response.data
+  } catch (error) {
+    console.error('Main process - Login error:', {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      isAxiosError: axios.isAxiosError(error),
+      status: axios.isAxiosError(error) ? error.response?.status : 'N/A',
+      code: axios.isAxiosError(error) ? error.code : 'N/A',
+      fullError: error
+    })
+    
+    if (axios.isAxiosError(error)) {
+      console.error('Main process - Axios error details:', {
+        code: error.code,
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        data: error.response?.data,
+        url: error.config?.url,
+        method: error.config?.method
+      })
+      
+      if (error.response?.status === 401) {
+        throw new Error('Invalid credentials. Please check your username and password.')
+      }
+      if (error.response?.status === 403) {
+        throw new Error('Access denied. You may not have the required "Advanced Users - Marketing" permissions.')
+      }
+      if (error.response?.status === 404) {
+        throw new Error('Site not found. Please check your site name.')
+      }
+      if (error.code === 'ENOTFOUND') {
+        throw new Error('DNS lookup failed. Please check your internet connection and DNS settings.')
+      }
+      if (error.code === 'ECONNREFUSED') {
+        throw new Error('Connection refused. Please check your firewall and internet connection.')
+      }
+      if (error.code === 'ETIMEDOUT') {
+        throw new Error('Connection timeout. The server took too long to respond.')
+      }
+      if (error.code === 'ECONNABORTED') {
+        throw new Error('Connection aborted. Please try again.')
+      }
+      
+      // Generic network error
+      throw new Error(`Network error (${error.code || error.response?.status}): ${error.message}`)
+    }
+    
+    throw new Error(`Login failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Signs in with a login request from the sign-in page or the command line.
+ * Basic and OAuth accounts are remembered in the OS keychain so they can be
+ * resumed; demo sessions are not.
+ * @param request - Sign-in method and its credentials
+ * @returns Promise<EloquaSession> - Session info without any secrets
+ */
+export async function login(request: EloquaLoginRequest): Promise<EloquaSession> {
+  if (!request || typeof request !== 'object') {
+    throw new Error('Invalid login request')
+  }
+
+  if (request.method === 'oauth-password' || request.method === 'oauth-code') {
+    return loginWithOAuth(request)
+  }
+
+  if (request.method === 'demo') {
+    return loginToDemoInstance(request.simulation)
+  }
+
+  const credentials: EloquaCredentials = {
+    siteName: request.siteName,
+    username: request.username,
+    password: request.password
+  }
+
+  // Validate credentials before use
+  const validation = SecureCredentialManager.validateCredentials(credentials)
+  if (!validation.valid) {
+    throw new Error(`Invalid credentials: ${validation.errors.join(', ')}`)
+  }
+
+  const authString = SecureCredentialManager.createAuthString(credentials)
+  const loginData = await verifyAuthorization(`Basic ${Buffer.from(authString).toString('base64')}`)
+  const baseUrl: string = loginData.urls.base
+  const userId: string | undefined = loginData.user?.id
+
+  try {
+    // Remember the account in the OS keychain so the session can be resumed
+    await SecureCredentialManager.storeCredentials({ ...credentials, baseUrl, userId })
+  } catch (error) {
+    console.error('Failed to store credentials in keychain:', error)
+  }
+
+  return SessionManager.open(credentials, baseUrl, userId)
+}
+
+// OAuth sign-in: password grant or browser authorization code. The client id and
+// secret are kept per account in the keychain together with the refresh token.
+async function loginWithOAuth(request: Extract<EloquaLoginRequest, { method: 'oauth-password' | 'oauth-code' }>): Promise<EloquaSession> {
+  const clientId = typeof request.clientId === 'string' ? request.clientId.trim() : ''
+  const clientSecret = typeof request.clientSecret === 'string' ? request.clientSecret : ''
+  if (!clientId || clientId.length > 200 || !clientSecret || clientSecret.length > 500) {
+    throw new Error('Invalid credentials: OAuth client id and secret are required')
+  }
+  const client = { clientId, clientSecret }
+
+  let tokens
+  let redirectUri: string | undefined
+  if (request.method === 'oauth-password') {
+    const validation = SecureCredentialManager.validateCredentials(request)
+    if (!validation.valid) {
+      throw new Error(`Invalid credentials: ${validation.errors.join(', ')}`)
+    }
+    tokens = await EloquaOAuthClient.passwordGrant(client, request.siteName, request.username, request.password)
+  } else {
+    const port = request.redirectPort
+    if (port !== undefined && (!Number.isInteger(port) || port < 1024 || port > 65535)) {
+      throw new Error('Invalid credentials: redirect port must be between 1024 and 65535')
+    }
+    const result = await EloquaOAuthClient.authorizeWithBrowser(client, port)
+    tokens = result.tokens
+    redirectUri = result.redirectUri
+  }
+
+  const loginData = await verifyAuthorization(`Bearer ${tokens.accessToken}`)
+  const account = {
+    siteName: request.method === 'oauth-password' ? request.siteName : loginData.site?.name,
+    username: request.method === 'oauth-password' ? request.username : loginData.user?.userName,
+    baseUrl: loginData.urls.base as string,
+    userId: loginData.user?.id as string | undefined
+  }
+  if (!account.siteName || !account.username) {
+    if (await NetworkSettings.getBaseUrlOverride()) {
+      throw new Error('Browser sign-in needs login.eloqua.com/id to find your site. Use OAuth Password, or remove the base URL override.')
+    }
+    throw new Error('Eloqua did not return the site or user for this sign-in')
+  }
+
+  try {
+    await SecureCredentialManager.storeOAuthAccount(account.siteName, account.username, {
+      ...client,
+      refreshToken: tokens.refreshToken,
+      redirectUri,
+      baseUrl: account.baseUrl,
+      userId: account.userId
+    })
+  } catch (error) {
+    console.error('Failed to store OAuth account in keychain:', error)
+  }
+
+  return SessionManager.openOAuth(account, client, tokens, redirectUri)
+}
+
+// Demo instance: a local mock Eloqua server with seeded data. Every sign-in starts
+// from fresh data, and the session is never stored in the keychain.
+async function loginToDemoInstance(simulation: EloquaDemoSimulation = {}): Promise<EloquaSession> {
+  const limits: EloquaDemoSimulation = {}
+  for (const key of ['throttleEvery', 'expireSessionAfter'] as const) {
+    const value = simulation[key]
+    if (value !== undefined && value !== 0) {
+      if (!Number.isInteger(value) || value < 2 || value > 10000) {
+        throw new Error('Invalid demo settings: request counts must be whole numbers between 2 and 10000')
+      }
+      limits[key] = value
+    }
+  }
+
+  let baseUrl: string
+  try {
+    baseUrl = await MockEloquaServer.start(limits)
+  } catch (error) {
+    throw new Error(`Failed to start demo instance: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+
+  const credentials = MockEloquaServer.credentials
+  const authString = SecureCredentialManager.createAuthString(credentials)
+  const loginData = await verifyAuthorization(`Basic ${Buffer.from(authString).toString('base64')}`, baseUrl)
+  return SessionManager.open(credentials, loginData.urls.base, String(loginData.user.id), 'demo')
+}
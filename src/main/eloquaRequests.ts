@@ -0,0 +1,205 @@
+import axios from 'axios'
+import { SessionManager } from './sessionManager'
+import { TrafficRecorder } from './trafficRecorder'
+import { NetworkSettings, NetworkRequestConfig } from './networkSettings'
+import { ApiErrorMapper } from './apiErrorMapper'
+import { RetryPolicy, RetrySettings } from './retryPolicy'
+import { apiRateGovernor } from './ipcHandlers'
+import { EloquaApiCallResult, EloquaApiErrorInfo, EloquaRequestOptions, EloquaRetryNotice, EloquaTrafficEntry } from '../shared/apiTypes'
+import { abortedErrorInfo } from '../shared/apiErrors'
+
+// Where a call reports its retries and the traffic it recorded: the window
+// that made the call, or the command-line runner
+export interface ApiCallListener {
+  onRetry: (notice: EloquaRetryNotice) => void
+  onTraffic: (entry: EloquaTrafficEntry) => void
+}
+
+// In-flight API calls by caller-supplied request id, so a Stop can abort them
+const inFlightRequests = new Map<string, AbortController>()
+
+// Sends one API request through the rate governor, retrying according to
+// RetryPolicy and announcing each retry to the listener
+async function sendWithRetry(
+  listener: ApiCallListener,
+  baseUrl: string,
+  config: any,
+  retrySettings: RetrySettings,
+  signal: AbortSignal,
+  runId: string | undefined
+): Promise<EloquaApiCallResult> {
+  const { method, url } = config
+  const endpoint = url.slice(baseUrl.length)
+  let errorInfo: EloquaApiErrorInfo
+  let attempt = 0
+
+  for (;; attempt++) {
+    if (signal.aborted) {
+      return { ok: false, error: abortedErrorInfo(method, endpoint) }
+    }
+
+    try {
+      const response = await apiRateGovernor.schedule(baseUrl, () => axios({ ...config, signal }), signal)
+      return {
+        ok: true,
+        status: response.status,
+        data: response.data,
+        requestId: ApiErrorMapper.extractRequestId(response.headers as Record<string, any>),
+        attempts: attempt + 1
+      }
+    } catch (error) {
+      // A call stopped while queued in the governor never reached axios
+      errorInfo = signal.aborted ? abortedErrorInfo(method, endpoint) : ApiErrorMapper.fromError(error, method, endpoint)
+    }
+
+    if (!RetryPolicy.shouldRetry(method, errorInfo, attempt, retrySettings)) {
+      break
+    }
+
+    const delayMs = RetryPolicy.getDelay(attempt, errorInfo, retrySettings)
+    if (errorInfo.status === 429) {
+      // Throttling applies to the whole instance, not just this request
+      apiRateGovernor.pause(baseUrl, delayMs)
+    }
+
+    const notice: EloquaRetryNotice = {
+      runId,
+      method,
+      endpoint,
+      attempt: attempt + 1,
+      maxRetries: retrySettings.maxRetries,
+      delayMs,
+      status: errorInfo.status,
+      reason: RetryPolicy.describeReason(errorInfo)
+    }
+    listener.onRetry(notice)
+
+    // Wait out the backoff, but wake up immediately if the call is aborted
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(finish, delayMs)
+      function finish() {
+        clearTimeout(timer)
+        signal.removeEventListener('abort', finish)
+        resolve()
+      }
+      signal.addEventListener('abort', finish)
+    })
+  }
+
+  if (errorInfo.code === 'ABORTED') {
+    return { ok: false, error: errorInfo }
+  }
+
+  errorInfo.attempts = attempt + 1
+  if (attempt > 0) {
+    errorInfo.message = `${errorInfo.message} (gave up after ${attempt + 1} attempts)`
+  }
+
+  console.error('Main process - API call error:', {
+    method,
+    endpoint,
+    status: errorInfo.status,
+    code: errorInfo.code,
+    requestId: errorInfo.requestId,
+    attempts: errorInfo.attempts,
+    message: errorInfo.message
+  })
+  return { ok: false, error: errorInfo }
+}
+
+/**
+ * Signs, sends and records one API call. Every call that reaches Eloqua is
+ * recorded for the traffic inspector and passed to the listener.
+ * @param listener - Receives retry notices and the recorded traffic entry
+ * @param sessionId - Session the call is signed with
+ * @param method - HTTP method
+ * @param endpoint - Path below the instance base URL
+ * @param data - Request body
+ * @param options - Retry settings, request id and run tag
+ * @param replayOf - Traffic entry this call replays
+ * @returns Promise<EloquaApiCallResult> - Result envelope; never rejects
+ */
+export async function performApiCall(
+  listener: ApiCallListener,
+  sessionId: string,
+  method: string,
+  endpoint: string,
+  data: any,
+  options: EloquaRequestOptions | undefined,
+  replayOf?: string
+): Promise<EloquaApiCallResult> {
+  const requestAuth = await SessionManager.getRequestAuth(sessionId)
+  if (!requestAuth) {
+    return { ok: false, error: ApiErrorMapper.invalidSession(method, endpoint) }
+  }
+  // The pod the session signed in to, including a base URL override in effect then
+  const { authorization, baseUrl } = requestAuth
+
+  let network: NetworkRequestConfig
+  try {
+    network = await NetworkSettings.getRequestConfig(`${baseUrl}${endpoint}`)
+  } catch (error) {
+    return { ok: false, error: ApiErrorMapper.fromError(error, method, endpoint) }
+  }
+  
+  const config: any = {
+    method,
+    url: `${baseUrl}${endpoint}`,
+    headers: {
+      'Authorization': authorization,
+      'Content-Type': 'application/json'
+    },
+    timeout: 30000,
+    ...network
+  }
+  
+  if (data) {
+    config.data = data
+  }
+
+  const controller = new AbortController()
+  const requestId: string | undefined = options?.requestId
+  if (requestId) {
+    inFlightRequests.set(requestId, controller)
+  }
+
+  const startedAt = Date.now()
+  let result: EloquaApiCallResult
+  try {
+    result = await sendWithRetry(listener, baseUrl, config, RetryPolicy.resolve(options), controller.signal, options?.runId)
+  } finally {
+    if (requestId) {
+      inFlightRequests.delete(requestId)
+    }
+  }
+
+  const entry = TrafficRecorder.record({
+    method,
+    endpoint,
+    data,
+    url: config.url,
+    authorization,
+    startedAt,
+    runId: options?.runId,
+    toolId: options?.toolId,
+    replayOf
+  }, result)
+  listener.onTraffic(entry)
+
+  return result
+}
+
+/**
+ * Aborts an in-flight API call started with options.requestId
+ * @param requestId - Request id the caller sent with the call
+ * @returns boolean - False when the call already finished
+ */
+export function abortApiCall(requestId: string): boolean {
+  const controller = inFlightRequests.get(requestId)
+  if (!controller) {
+    return false
+  }
+
+  controller.abort()
+  return true
+}
@@ -0,0 +1,141 @@
+import { createWriteStream, WriteStream, promises as fs } from 'fs'
+import { randomUUID } from 'crypto'
+import { SecurityUtils } from './security'
+
+export type ExportFileFormat = 'csv' | 'jsonl'
+
+interface OpenExportFile {
+  stream: WriteStream
+  filePath: string
+  format: ExportFileFormat
+  columns: string[] | null
+  rowCount: number
+}
+
+/**
+ * Incremental writer for large exports. Rows arrive from the renderer page by
+ * page and are appended to disk, so a full export never has to fit in memory.
+ */
+export class ExportFileWriter {
+  private static readonly files = new Map<string, OpenExportFile>()
+
+  /**
+   * Opens a file for writing
+   * @param filePath - Destination chosen by the user
+   * @param format - csv (header from columns or the first row) or jsonl (one JSON object per line)
+   * @param columns - Optional CSV column order
+   * @returns string - Id used to append to and close the file
+   */
+  static open(filePath: string, format: ExportFileFormat, columns?: string[]): string {
+    const id = randomUUID()
+    const stream = createWriteStream(filePath, { encoding: 'utf8' })
+    // Surface write errors on the next append or close instead of crashing main
+    stream.on('error', error => console.error('Export file write failed:', error))
+
+    this.files.set(id, {
+      stream,
+      filePath,
+      format,
+      columns: columns && columns.length > 0 ? columns : null,
+      rowCount: 0
+    })
+    return id
+  }
+
+  /**
+   * Appends rows to an open file
+   * @param id - Id returned by open
+   * @param rows - Rows to write
+   * @returns Promise<number> - Total rows written so far
+   */
+  static async append(id: string, rows: Array<Record<string, any>>): Promise<number> {
+    const file = this.getFile(id)
+    if (rows.length === 0) {
+      return file.rowCount
+    }
+
+    let chunk = ''
+    if (file.format === 'jsonl') {
+      chunk = rows.map(row => JSON.stringify(row)).join('\n') + '\n'
+    } else {
+      if (!file.columns) {
+        file.columns = Object.keys(rows[0])
+      }
+      if (file.rowCount === 0) {
+        chunk += file.columns.map(column => SecurityUtils.sanitizeCSVValue(column)).join(',') + '\n'
+      }
+      const columns = file.columns
+      chunk += rows.map(row => columns.map(column => SecurityUtils.sanitizeCSVValue(row[column])).join(',')).join('\n') + '\n'
+    }
+
+    await this.write(file.stream, chunk)
+    file.rowCount += rows.length
+    return file.rowCount
+  }
+
+  /**
+   * Flushes and closes a file
+   * @param id - Id returned by open
+   * @returns Promise<{filePath: string, rowCount: number}>
+   */
+  static async close(id: string): Promise<{ filePath: string; rowCount: number }> {
+    const file = this.getFile(id)
+    this.files.delete(id)
+
+    await new Promise<void>((resolve, reject) => {
+      file.stream.once('error', reject)
+      file.stream.end(() => resolve())
+    })
+    return { filePath: file.filePath, rowCount: file.rowCount }
+  }
+
+  /**
+   * Closes a file and deletes the partial output (failed or cancelled exports)
+   * @param id - Id returned by open
+   * @returns Promise<void>
+   */
+  static async discard(id: string): Promise<void> {
+    const file = this.files.get(id)
+    if (!file) {
+      return
+    }
+    this.files.delete(id)
+
+    file.stream.destroy()
+    await fs.unlink(file.filePath).catch(() => {})
+  }
+
+  static async discardAll(): Promise<void> {
+    await Promise.all(Array.from(this.files.keys()).map(id => this.discard(id)))
+  }
+
+  private static getFile(id: string): OpenExportFile {
+    const file = this.files.get(id)
+    if (!file) {
+      throw new Error('Export file is not open')
+    }
+    return file
+  }
+
+  private static write(stream: WriteStream, chunk: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (stream.destroyed) {
+        reject(new Error('Export file was closed'))
+        return
+      }
+
+      stream.write(chunk, error => {
+        if (error) {
+          reject(error)
+        }
+      })
+
+      // Respect backpressure so large exports don't buffer in memory
+      if (stream.writableNeedDrain) {
+        stream.once('drain', () => resolve())
+      } else {
+        resolve()
+      }
+    })
+  }
+}
@@ -0,0 +1,91 @@
+import * as path from 'path'
+import { SessionManager } from './sessionManager'
+import { ResponseDiskCache } from './responseDiskCache'
+import { ExportFileWriter } from './exportFileWriter'
+import { TrafficRecorder } from './trafficRecorder'
+import { ChangeJournal } from './changeJournal'
+import { ApiErrorMapper } from './apiErrorMapper'
+import { SecurityUtils } from './security'
+import { ApiCallListener, abortApiCall, performApiCall } from './eloquaRequests'
+import type { ToolServiceApi } from './preload'
+import { EloquaRetryNotice } from '../shared/apiTypes'
+import { HeadlessRunner } from '../shared/headlessRunner'
+import { EloquaSession } from '../shared/types'
+
+/**
+ * Loads the tools bundle built by build:cli. The tools are written for the
+ * renderer, so main never compiles them itself.
+ * @returns HeadlessRunner - Exports of dist/cli/headlessRunner.js
+ * @throws Error - When the bundle has not been built
+ */
+export function loadHeadlessRunner(): HeadlessRunner {
+  return require(path.join(__dirname, '../cli/headlessRunner.js'))
+}
+
+// Session of a disk cache call; the window's handlers check the same
+function getCacheSession(sessionId: string): EloquaSession {
+  const session = SessionManager.get(sessionId)
+  if (!session) {
+    throw new Error('Session expired or not found. Please sign in again.')
+  }
+  return session
+}
+
+/**
+ * Builds the API the Eloqua services call when a tool runs from the command
+ * line: the same main-process code the window's IPC handlers use, called
+ * directly. Export files are written where resolveExportPath says, without a
+ * save dialog.
+ * @param resolveExportPath - Path for an export file the tool names
+ * @returns ToolServiceApi - API to install with setToolServiceApi
+ */
+export function createHeadlessApi(resolveExportPath: (fileName: string) => string): ToolServiceApi {
+  const retryListeners = new Set<(notice: EloquaRetryNotice) => void>()
+  const listener: ApiCallListener = {
+    onRetry: notice => retryListeners.forEach(callback => callback(notice)),
+    // Traffic stays in the recorder; nothing shows it during a command-line run
+    onTraffic: () => {}
+  }
+
+  return {
+    eloquaApiCall: async ({ sessionId, method, endpoint, data, options }) => {
+      const validation = SecurityUtils.validateIpcInput('eloqua:apiCall', [{ sessionId, method, endpoint, data, options }])
+      if (!validation.valid) {
+        return { ok: false, error: ApiErrorMapper.invalidRequest(validation.errors) }
+      }
+      return performApiCall(listener, sessionId, method, endpoint, data, options)
+    },
+    eloquaAbortRequest: async requestId => abortApiCall(requestId),
+    onApiRetry: callback => {
+      retryListeners.add(callback)
+      return () => {
+        retryListeners.delete(callback)
+      }
+    },
+    replayTraffic: async (entryId, sessionId) => {
+      const request = TrafficRecorder.getRequest(entryId)
+      if (!request) {
+        return { ok: false, error: ApiErrorMapper.invalidRequest(['This call is no longer available for replay']) }
+      }
+      return performApiCall(listener, sessionId, request.method, request.endpoint, request.data, undefined, entryId)
+    },
+
+    getCachedResponse: async (sessionId, key, group) => ResponseDiskCache.get(getCacheSession(sessionId), key, group),
+    setCachedResponse: async (sessionId, key, group, entry) => ResponseDiskCache.set(getCacheSession(sessionId), key, group, entry),
+    invalidateCachedResponses: async (sessionId, groups) => ResponseDiskCache.invalidate(getCacheSession(sessionId), groups),
+    clearResponseCache: () => ResponseDiskCache.clear(),
+    getCacheSettings: () => ResponseDiskCache.getSettings(),
+    setCacheSettings: settings => ResponseDiskCache.setSettings(settings),
+
+    openExportFile: async (fileName, format, columns) => {
+      const filePath = resolveExportPath(fileName)
+      return { fileId: ExportFileWriter.open(filePath, format, columns), filePath }
+    },
+    appendExportRows: (fileId, rows) => ExportFileWriter.append(fileId, rows),
+    closeExportFile: fileId => ExportFileWriter.close(fileId),
+    discardExportFile: fileId => ExportFileWriter.discard(fileId),
+
+    // Changes made from the command line can be undone from the app's Undo Journal page
+    saveChangeJournalEntry: entry => ChangeJournal.save(entry)
+  }
+}
@@ -1,8 +1,10 @@
 import { ipcMain, IpcMainInvokeEvent } from 'electron'
 import { SecurityUtils } from './security'
+import { RateGovernor } from './rateGovernor'
+import { ELOQUA_RATE_LIMITS } from '../shared/apiTypes'
 
-// Rate limiter for API calls
-const apiRateLimiter = SecurityUtils.createRateLimiter(100, 60000) // 100 requests per minute
+// Rate governor for Eloqua API calls, keyed by instance base URL
+export const apiRateGovernor = new RateGovernor(ELOQUA_RATE_LIMITS)
 
 export function registerSecureHandler(
   channel: string,
@@ -16,14 +18,6 @@ export function registerSecureHandler(
         throw new Error(`Invalid input: ${validation.errors.join(', ')}`)
       }
 
-      // Apply rate limiting for API calls
-      if (channel.startsWith('eloqua:')) {
-        const identifier = `${event.sender.id}` // Use sender ID for rate limiting
-        if (!apiRateLimiter.check(identifier)) {
-          throw new Error('Rate limit exceeded. Please wait before making more requests.')
-        }
-      }
-
       // Execute the handler
       return await handler(event, ...args)
     } catch (error) {
@@ -38,7 +32,7 @@ export function removeSecureHandler(channel: string) {
   ipcMain.removeHandler(channel)
 }
 
-// Clear rate limit for a specific sender
-export function clearRateLimit(senderId: string) {
-  apiRateLimiter.reset(senderId)
-}
\ No newline at end of file
+// Clear rate governor state for a specific Eloqua instance
+export function clearRateLimit(baseUrl: string) {
+  apiRateGovernor.reset(baseUrl)
+}
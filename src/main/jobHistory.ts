@@ -0,0 +1,108 @@
+import { app } from 'electron'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { ToolJobRecord, ToolJobSummary, toToolJobSummary } from '../shared/toolJobs'
+
+// Older runs are dropped with their results once the history holds this many
+const MAX_RUNS = 200
+const JOB_ID = /^job-[a-z0-9-]{1,80}$/
+
+/**
+ * History of finished tool runs under userData/job-history. index.json lists
+ * the runs newest first; each run's parameters and result payload are stored
+ * in runs/<id>.json so the list can be read without loading every result.
+ */
+export class JobHistory {
+  private static index: ToolJobSummary[] | null = null
+  // Runs finishing together would otherwise overwrite each other's index
+  private static writes: Promise<void> = Promise.resolve()
+
+  private static get rootDir(): string {
+    return path.join(app.getPath('userData'), 'job-history')
+  }
+
+  private static get indexPath(): string {
+    return path.join(this.rootDir, 'index.json')
+  }
+
+  private static getRecordPath(id: string): string {
+    if (!JOB_ID.test(id)) {
+      throw new Error('Invalid job id')
+    }
+    return path.join(this.rootDir, 'runs', `${id}.json`)
+  }
+
+  static async list(): Promise<ToolJobSummary[]> {
+    if (!this.index) {
+      try {
+        const stored = JSON.parse(await fs.readFile(this.indexPath, 'utf8'))
+        this.index = Array.isArray(stored) ? stored : []
+      } catch {
+        this.index = []
+      }
+    }
+    return [...this.index!]
+  }
+
+  /**
+   * Reads the full record of a run
+   * @param id - Job id
+   * @returns Promise<ToolJobRecord | null> - The record, or null when it was dropped
+   */
+  static async get(id: string): Promise<ToolJobRecord | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getRecordPath(id), 'utf8'))
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Stores a finished run and drops the oldest ones past the limit
+   * @param record - Run with its parameters and result
+   * @returns Promise<ToolJobSummary> - Line added to the history
+   */
+  static async save(record: ToolJobRecord): Promise<ToolJobSummary> {
+    const recordPath = this.getRecordPath(record.id)
+    const summary = toToolJobSummary(record)
+
+    await this.enqueue(async () => {
+      await fs.mkdir(path.dirname(recordPath), { recursive: true })
+      await fs.writeFile(recordPath, JSON.stringify(record), 'utf8')
+
+      const runs = [summary, ...(await this.list()).filter(run => run.id !== record.id)]
+      const dropped = runs.splice(MAX_RUNS)
+      await this.writeIndex(runs)
+      await Promise.all(dropped.map(run => fs.rm(this.getRecordPath(run.id), { force: true })))
+    })
+    return summary
+  }
+
+  static async delete(id: string): Promise<void> {
+    const recordPath = this.getRecordPath(id)
+    await this.enqueue(async () => {
+      await this.writeIndex((await this.list()).filter(run => run.id !== id))
+      await fs.rm(recordPath, { force: true })
+    })
+  }
+
+  static async clear(): Promise<void> {
+    await this.enqueue(async () => {
+      this.index = []
+      await fs.rm(this.rootDir, { recursive: true, force: true })
+    })
+  }
+
+  private static async writeIndex(runs: ToolJobSummary[]): Promise<void> {
+    this.index = runs
+    await fs.mkdir(this.rootDir, { recursive: true })
+    await fs.writeFile(this.indexPath, JSON.stringify(runs), 'utf8')
+  }
+
+  private static enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(task)
+    // A failed write is reported to its caller and does not block the next one
+    this.writes = next.catch(() => {})
+    return next
+  }
+}
@@ -1,12 +1,39 @@
-import { app, BrowserWindow, ipcMain, dialog, globalShortcut } from 'electron'
+import { app, BrowserWindow, ipcMain, dialog, globalShortcut, Menu, Tray } from 'electron'
 import { join } from 'path'
 import { promises as fs } from 'fs'
-import axios from 'axios'
 import { isDev } from './utils'
-import { SecureCredentialManager, EloquaCredentials } from './secureCredentialManager'
+import { SecureCredentialManager } from './secureCredentialManager'
 import { SecurityUtils } from './security'
+import { SessionManager } from './sessionManager'
+import { MockEloquaServer } from './mockEloquaServer'
+import { ExportFileWriter, ExportFileFormat } from './exportFileWriter'
+import { TrafficRecorder } from './trafficRecorder'
+import { ResponseDiskCache } from './responseDiskCache'
+import { NetworkSettings } from './networkSettings'
+import { JobHistory } from './jobHistory'
+import { ChangeJournal } from './changeJournal'
+import { PluginStore } from './pluginStore'
+import { PipelineStore } from './pipelineStore'
+import { PresetStore } from './presetStore'
+import { ScheduleStore } from './scheduleStore'
+import { ToolScheduler } from './toolScheduler'
+import { ApiErrorMapper } from './apiErrorMapper'
+import { ApiCallListener, abortApiCall, performApiCall } from './eloquaRequests'
+import { login } from './eloquaLogin'
+import { findCommand, runCommandLine } from './commandLine'
+import { loadHeadlessRunner } from './headlessApi'
+import { EloquaApiCallResult, EloquaCachedResponse, EloquaCacheSettings, EloquaNetworkSettingsUpdate, EloquaTrafficFilter } from '../shared/apiTypes'
+import { EloquaLoginRequest, EloquaSession } from '../shared/types'
+import { ToolJobRecord } from '../shared/toolJobs'
+import { ChangeJournalEntry } from '../shared/changeJournal'
+import { Pipeline } from '../shared/pipeline'
+import { ToolPreset, createToolPresetFile, parseToolPresetFile } from '../shared/toolPreset'
+import { ToolSchedule } from '../shared/toolSchedule'
 
 let mainWindow: BrowserWindow | null = null
+let tray: Tray | null = null
+
+PluginStore.registerScheme()
 
 function createWindow() {
   mainWindow = new BrowserWindow({
@@ -51,12 +78,31 @@ function createWindow() {
   })
 }
 
-app.whenReady().then(() => {
+// A command such as "run <tool-id>" runs a tool without opening the window
+const commandArgs = findCommand(process.argv.slice(app.isPackaged ? 1 : 2))
+
+app.whenReady().then(async () => {
   // Initialize security utilities
   SecurityUtils.initialize()
+
+  if (commandArgs) {
+    const code = await runCommandLine(commandArgs, loadHeadlessRunner)
+    // app.exit skips will-quit
+    ExportFileWriter.discardAll()
+    MockEloquaServer.stop()
+    app.exit(code)
+    return
+  }
+
+  PluginStore.registerProtocol()
   
   createWindow()
 
+  ToolScheduler.start({
+    onChange: () => mainWindow?.webContents.send('schedules:changed'),
+    onOpen: openWindow
+  }).catch(error => console.error('Failed to start the scheduler:', error))
+
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow()
@@ -64,15 +110,47 @@ app.whenReady().then(() => {
   })
 })
 
-app.on('window-all-closed', () => {
+app.on('window-all-closed', async () => {
+  // Enabled schedules keep running from the tray
+  if (ToolScheduler.hasEnabledSchedules()) {
+    await showTray()
+    return
+  }
   if (process.platform !== 'darwin') {
     app.quit()
   }
 })
 
+// Shows the window, or opens it again from the tray
+function openWindow() {
+  if (!mainWindow) {
+    createWindow()
+    return
+  }
+  mainWindow.show()
+  mainWindow.focus()
+}
+
+async function showTray() {
+  if (tray) return
+  // The executable's icon, so packaging needs no separate tray image
+  tray = new Tray(await app.getFileIcon(process.execPath, { size: 'small' }))
+  tray.setToolTip('Eloqua Admin Toolbox - schedules are running')
+  tray.setContextMenu(Menu.buildFromTemplate([
+    { label: 'Open Eloqua Admin Toolbox', click: () => openWindow() },
+    { type: 'separator' },
+    { label: 'Quit', click: () => app.quit() }
+  ]))
+  tray.on('click', () => openWindow())
+}
+
 app.on('will-quit', () => {
   // Unregister all shortcuts
   globalShortcut.unregisterAll()
+  ToolScheduler.stop()
+  // Don't leave half-written exports behind
+  ExportFileWriter.discardAll()
+  MockEloquaServer.stop()
 })
 
 // Utility functions
@@ -157,6 +235,64 @@ ipcMain.handle('csv:export', async (_, data: any[], fileName: string) => {
   }
 })
 
+// Streaming exports: the file is chosen once, then rows are appended page by page
+ipcMain.handle('exportFile:open', async (_, fileName: string, format: ExportFileFormat, columns?: string[]) => {
+  if (typeof fileName !== 'string' || (format !== 'csv' && format !== 'jsonl')) {
+    throw new Error('Invalid export file parameters')
+  }
+  if (columns !== undefined && (!Array.isArray(columns) || columns.some(column => typeof column !== 'string'))) {
+    throw new Error('Export columns must be an array of strings')
+  }
+
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    defaultPath: sanitizeFileName(fileName),
+    filters: format === 'csv'
+      ? [{ name: 'CSV Files', extensions: ['csv'] }, { name: 'All Files', extensions: ['*'] }]
+      : [{ name: 'JSON Lines', extensions: ['jsonl'] }, { name: 'All Files', extensions: ['*'] }]
+  })
+
+  if (result.canceled || !result.filePath) {
+    return null
+  }
+
+  try {
+    return { fileId: ExportFileWriter.open(result.filePath, format, columns), filePath: result.filePath }
+  } catch (error) {
+    throw new Error(`Failed to open export file: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+})
+
+ipcMain.handle('exportFile:append', async (_, fileId: string, rows: Array<Record<string, any>>) => {
+  if (typeof fileId !== 'string' || !Array.isArray(rows)) {
+    throw new Error('Invalid export rows')
+  }
+
+  try {
+    return await ExportFileWriter.append(fileId, rows)
+  } catch (error) {
+    throw new Error(`Failed to write export rows: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+})
+
+ipcMain.handle('exportFile:close', async (_, fileId: string) => {
+  if (typeof fileId !== 'string') {
+    throw new Error('Export file id must be a string')
+  }
+
+  try {
+    return await ExportFileWriter.close(fileId)
+  } catch (error) {
+    throw new Error(`Failed to finish export file: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+})
+
+ipcMain.handle('exportFile:discard', async (_, fileId: string) => {
+  if (typeof fileId !== 'string') {
+    throw new Error('Export file id must be a string')
+  }
+  await ExportFileWriter.discard(fileId)
+})
+
 // System info
 ipcMain.handle('system:getInfo', () => {
   return {
@@ -171,246 +307,397 @@ ipcMain.handle('security:sanitizeFileName', (_, fileName: string) => {
   return sanitizeFileName(fileName)
 })
 
-// Eloqua API calls
-ipcMain.handle('eloqua:testConnection', async (_, credentials: EloquaCredentials) => {
-  try {
-    // Validate credentials before use
-    const validation = SecureCredentialManager.validateCredentials(credentials)
-    if (!validation.valid) {
-      throw new Error(`Invalid credentials: ${validation.errors.join(', ')}`)
-    }
-    
-    // Create the authentication string using secure method
-    const authString = SecureCredentialManager.createAuthString(credentials)
-    
-    // Base64 encode the authentication string
-    const encodedAuth = Buffer.from(authString).toString('base64')
-    
-    
-    const response = await axios.get('https://login.eloqua.com/id', {
-      headers: {
-        'Authorization': `Basic ${encodedAuth}`,
-        'Content-Type': 'application/json'
-      },
-      timeout: 10000,
-    })
-    
-    // Validate response structure before returning
-    if (!response.data) {
-      console.error('Main process - No response data from Eloqua')
-      throw new Error('No response received from Eloqua API. Please check your internet connection.')
-    }
-    
-    // Check if Eloqua returned an error in the response body
-    if (response.data.error || response.data.errors) {
-      console.error('Main process - Eloqua API error in response:', response.data)
-      const errorMessage = response.data.error || (response.data.errors && response.data.errors[0])
-      if (typeof errorMessage === 'string') {
-        if (errorMessage.toLowerCase().includes('invalid') || errorMessage.toLowerCase().includes('unauthorized')) {
-          throw new Error('Invalid credentials. Please check your username and password.')
-        }
-        if (errorMessage.toLowerCase().includes('not found') || errorMessage.toLowerCase().includes('site')) {
-          throw new Error('Site not found. Please check your site name.')
-        }
-        throw new Error(`Eloqua API error: ${errorMessage}`)
-      }
-    }
-    
-    // Check for missing URLs structure (indicates invalid site/credentials)
-    if (!response.data.urls || !response.data.urls.base) {
-      console.error('Main process - Invalid Eloqua response structure:', {
-        status: response.status,
-        hasData: !!response.data,
-        hasUrls: !!(response.data && response.data.urls),
-        hasBase: !!(response.data && response.data.urls && response.data.urls.base),
-        responseData: response.data
-      })
-      
-      // This usually means invalid site name or credentials
-      if (!response.data.urls) {
-        throw new Error('Invalid credentials or site name. Please verify your login information.')
-      } else {
-        throw new Error('Invalid response from Eloqua API. Please verify your site name is correct.')
-      }
-    }
-    
-    console.log('Main process - Returning valid response data:', {
-      hasData: !!response.data,
-      dataType: typeof response.data,
-      hasUrls: !!(response.data && response.data.urls),
-      hasBase: !!(response.data && response.data.urls && response.data.urls.base)
-    })
-    
-    return response.data
-  } catch (error) {
-    console.error('Main process - Login error:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      isAxiosError: axios.isAxiosError(error),
-      status: axios.isAxiosError(error) ? error.response?.status : 'N/A',
-      code: axios.isAxiosError(error) ? error.code : 'N/A',
-      fullError: error
-    })
-    
-    if (axios.isAxiosError(error)) {
-      console.error('Main process - Axios error details:', {
-        code: error.code,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        data: error.response?.data,
-        url: error.config?.url,
-        method: error.config?.method
-      })
-      
-      if (error.response?.status === 401) {
-        throw new Error('Invalid credentials. Please check your username and password.')
-      }
-      if (error.response?.status === 403) {
-        throw new Error('Access denied. You may not have the required "Advanced Users - Marketing" permissions.')
-      }
-      if (error.response?.status === 404) {
-        throw new Error('Site not found. Please check your site name.')
-      }
-      if (error.code === 'ENOTFOUND') {
-        throw new Error('DNS lookup failed. Please check your internet connection and DNS settings.')
-      }
-      if (error.code === 'ECONNREFUSED') {
-        throw new Error('Connection refused. Please check your firewall and internet connection.')
-      }
-      if (error.code === 'ETIMEDOUT') {
-        throw new Error('Connection timeout. The server took too long to respond.')
+// Retries and recorded traffic are pushed back to the window that made the call
+function windowListener(sender: Electron.WebContents): ApiCallListener {
+  return {
+    onRetry: notice => {
+      if (!sender.isDestroyed()) {
+        sender.send('eloqua:apiRetry', notice)
       }
-      if (error.code === 'ECONNABORTED') {
-        throw new Error('Connection aborted. Please try again.')
+    },
+    onTraffic: entry => {
+      if (!sender.isDestroyed()) {
+        sender.send('eloqua:traffic', entry)
       }
-      
-      // Generic network error
-      throw new Error(`Network error (${error.code || error.response?.status}): ${error.message}`)
     }
-    
-    throw new Error(`Login failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
-})
+}
 
 // Eloqua API calls with authenticated session
-ipcMain.handle('eloqua:apiCall', async (_, { baseUrl, authString, method, endpoint, data }) => {
+// Always resolves with an EloquaApiCallResult envelope: errors thrown from an
+// ipcMain handler lose everything except their message on the way to the renderer.
+// Requests are signed here from the session; the renderer only sends its session id.
+ipcMain.handle('eloqua:apiCall', async (event, { sessionId, method, endpoint, data, options }): Promise<EloquaApiCallResult> => {
+  // Validate input parameters
+  const validation = SecurityUtils.validateIpcInput('eloqua:apiCall', [{ sessionId, method, endpoint, data, options }])
+  if (!validation.valid) {
+    return { ok: false, error: ApiErrorMapper.invalidRequest(validation.errors) }
+  }
+
+  return performApiCall(windowListener(event.sender), sessionId, method, endpoint, data, options)
+})
+
+// Abort an in-flight API call started with options.requestId
+ipcMain.handle('eloqua:abortRequest', async (_, requestId: string) => {
+  if (typeof requestId !== 'string') {
+    throw new Error('Request id must be a string')
+  }
+  return abortApiCall(requestId)
+})
+
+// Traffic inspector
+ipcMain.handle('traffic:list', (_, filter?: EloquaTrafficFilter) => {
+  return TrafficRecorder.list(filter && typeof filter === 'object' ? filter : {})
+})
+
+ipcMain.handle('traffic:clear', () => {
+  TrafficRecorder.clear()
+})
+
+// Sends a recorded call again with the caller's session
+ipcMain.handle('traffic:replay', async (event, entryId: string, sessionId: string): Promise<EloquaApiCallResult> => {
+  if (typeof entryId !== 'string' || typeof sessionId !== 'string') {
+    return { ok: false, error: ApiErrorMapper.invalidRequest(['Entry id and session id must be strings']) }
+  }
+
+  const request = TrafficRecorder.getRequest(entryId)
+  if (!request) {
+    return { ok: false, error: ApiErrorMapper.invalidRequest(['This call is no longer available for replay']) }
+  }
+
+  return performApiCall(windowListener(event.sender), sessionId, request.method, request.endpoint, request.data, undefined, entryId)
+})
+
+ipcMain.handle('traffic:exportHar', async (_, filter?: EloquaTrafficFilter) => {
+  const entries = TrafficRecorder.list(filter && typeof filter === 'object' ? filter : {})
+  if (entries.length === 0) {
+    throw new Error('There are no recorded calls to export')
+  }
+
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    defaultPath: `eloqua-traffic-${new Date().toISOString().split('T')[0]}.har`,
+    filters: [
+      { name: 'HTTP Archive', extensions: ['har'] },
+      { name: 'All Files', extensions: ['*'] }
+    ]
+  })
+  if (result.canceled || !result.filePath) {
+    return null
+  }
+
   try {
-    // Validate input parameters
-    const validation = SecurityUtils.validateIpcInput('eloqua:apiCall', [{ baseUrl, authString, method, endpoint, data }])
-    if (!validation.valid) {
-      throw new Error(`Invalid API call parameters: ${validation.errors.join(', ')}`)
-    }
-    
-    // Sanitize auth string
-    const sanitizedAuthString = SecurityUtils.sanitizeAuthString(authString)
-    const encodedAuth = Buffer.from(sanitizedAuthString).toString('base64')
-    
-    const config: any = {
-      method,
-      url: `${baseUrl}${endpoint}`,
-      headers: {
-        'Authorization': `Basic ${encodedAuth}`,
-        'Content-Type': 'application/json'
-      },
-      timeout: 30000,
-    }
-    
-    if (data) {
-      config.data = data
-    }
-    
-    const response = await axios(config)
-    return response.data
+    await fs.writeFile(result.filePath, JSON.stringify(TrafficRecorder.toHar(entries, app.getVersion()), null, 2), 'utf8')
+    return result.filePath
   } catch (error) {
-    console.error('Main process - API call error:', error)
-    
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        throw new Error('Authentication failed. Please log in again.')
-      }
-      if (error.response?.status === 403) {
-        throw new Error('Access denied for this operation.')
-      }
-      
-      throw new Error(`API error (${error.response?.status}): ${error.message}`)
-    }
-    
-    throw new Error(`API call failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    throw new Error(`Failed to export HAR file: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 })
 
+// Disk tier of the response cache. Entries are scoped to the site and user of
+// the caller's session; the memory tier lives in the renderer.
+function getCacheSession(sessionId: string, key?: string, group?: string): EloquaSession {
+  const validation = SecurityUtils.validateIpcInput('responseCache:access', [{ sessionId, key, group }])
+  if (!validation.valid) {
+    throw new Error(`Invalid cache request: ${validation.errors.join(', ')}`)
+  }
 
-// Secure credential storage using OS keychain
-// Note: We no longer store credentials in memory for security
-let currentSessionInfo: { siteName?: string; username?: string } | null = null
+  const session = SessionManager.get(sessionId)
+  if (!session) {
+    throw new Error('Session expired or not found. Please sign in again.')
+  }
+  return session
+}
 
-ipcMain.handle('auth:getCredentials', async () => {
-  // Always fetch from keychain instead of memory
-  if (currentSessionInfo?.siteName && currentSessionInfo?.username) {
-    try {
-      return await SecureCredentialManager.getCredentials(
-        currentSessionInfo.siteName,
-        currentSessionInfo.username
-      )
-    } catch (error) {
-      console.error('Failed to fetch credentials from keychain:', error)
-      return null
-    }
+ipcMain.handle('responseCache:get', async (_, sessionId: string, key: string, group: string) => {
+  return ResponseDiskCache.get(getCacheSession(sessionId, key, group), key, group)
+})
+
+ipcMain.handle('responseCache:set', async (_, sessionId: string, key: string, group: string, entry: EloquaCachedResponse) => {
+  if (!entry || typeof entry !== 'object' || typeof entry.expiresAt !== 'number' || typeof entry.storedAt !== 'number') {
+    throw new Error('Invalid cache entry')
+  }
+  await ResponseDiskCache.set(getCacheSession(sessionId, key, group), key, group, entry)
+})
+
+ipcMain.handle('responseCache:invalidate', async (_, sessionId: string, groups: string[] | null) => {
+  if (groups !== null && (!Array.isArray(groups) || groups.some(group => typeof group !== 'string'))) {
+    throw new Error('Cache groups must be an array of strings')
+  }
+  await ResponseDiskCache.invalidate(getCacheSession(sessionId), groups)
+})
+
+ipcMain.handle('responseCache:clear', async () => {
+  await ResponseDiskCache.clear()
+})
+
+ipcMain.handle('responseCache:getSettings', async () => {
+  return ResponseDiskCache.getSettings()
+})
+
+ipcMain.handle('responseCache:setSettings', async (_, settings: EloquaCacheSettings) => {
+  if (!settings || typeof settings !== 'object' || typeof settings.persistent !== 'boolean') {
+    throw new Error('Invalid cache settings')
+  }
+  return ResponseDiskCache.setSettings(settings)
+})
+
+// Proxy, CA bundle and base URL settings, used by sign-in and every API call
+ipcMain.handle('network:getSettings', async () => {
+  return NetworkSettings.getSettings()
+})
+
+// A new base URL override receives the sign-in credentials, so its host is
+// confirmed here, where a page or plugin in the renderer cannot answer for the user
+ipcMain.handle('network:setSettings', async (_, settings: EloquaNetworkSettingsUpdate) => {
+  return NetworkSettings.setSettings(settings, async baseUrl => {
+    const result = await dialog.showMessageBox(mainWindow!, {
+      type: 'warning',
+      title: 'Confirm Base URL Override',
+      message: `Send your Eloqua sign-ins to ${new URL(baseUrl).host}?`,
+      detail: 'Sign-ins made from now on check your credentials against this pod and send all API calls there. Sessions already open keep their pod.',
+      buttons: ['Use This Pod', 'Cancel'],
+      defaultId: 1,
+      cancelId: 1
+    })
+    return result.response === 0
+  })
+})
+
+// CA bundles are picked in a main-process dialog; setSettings accepts no other new path
+ipcMain.handle('network:chooseCaBundle', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Choose CA Bundle',
+    properties: ['openFile'],
+    filters: [
+      { name: 'Certificates', extensions: ['pem', 'crt', 'cer'] },
+      { name: 'All Files', extensions: ['*'] }
+    ]
+  })
+  if (result.canceled) {
+    return null
+  }
+  NetworkSettings.allowCaBundle(result.filePaths[0])
+  return result.filePaths[0]
+})
+
+// History of finished tool runs; the runs themselves execute in the renderer, or
+// in the scheduler for scheduled runs
+ipcMain.handle('jobs:list', async () => {
+  return JobHistory.list()
+})
+
+ipcMain.handle('jobs:get', async (_, id: string) => {
+  return JobHistory.get(id)
+})
+
+ipcMain.handle('jobs:save', async (_, record: ToolJobRecord) => {
+  if (!record || typeof record !== 'object' || typeof record.id !== 'string' || typeof record.toolId !== 'string' ||
+      !record.result || typeof record.result !== 'object' || !Array.isArray(record.failedItems)) {
+    throw new Error('Invalid job record')
+  }
+  return JobHistory.save(record)
+})
+
+ipcMain.handle('jobs:delete', async (_, id: string) => {
+  await JobHistory.delete(id)
+})
+
+ipcMain.handle('jobs:clear', async () => {
+  await JobHistory.clear()
+})
+
+// Undo journal; EloquaApiService saves an entry before it changes a journaled asset
+ipcMain.handle('changeJournal:list', async () => {
+  return ChangeJournal.list()
+})
+
+ipcMain.handle('changeJournal:get', async (_, id: string) => {
+  return ChangeJournal.get(id)
+})
+
+ipcMain.handle('changeJournal:save', async (_, entry: ChangeJournalEntry) => {
+  if (!entry || typeof entry !== 'object' || typeof entry.id !== 'string' || typeof entry.endpoint !== 'string' ||
+      typeof entry.assetId !== 'string' || (entry.method !== 'PUT' && entry.method !== 'DELETE')) {
+    throw new Error('Invalid journal entry')
+  }
+  return ChangeJournal.save(entry)
+})
+
+ipcMain.handle('changeJournal:delete', async (_, id: string) => {
+  await ChangeJournal.delete(id)
+})
+
+ipcMain.handle('changeJournal:clear', async () => {
+  await ChangeJournal.clear()
+})
+
+// Tool schedules; they run here, through the command-line tools bundle
+ipcMain.handle('schedules:list', async () => {
+  return ToolScheduler.getStatuses()
+})
+
+ipcMain.handle('schedules:save', async (_, schedule: ToolSchedule) => {
+  await ScheduleStore.save(schedule)
+  await ToolScheduler.refresh()
+  return ToolScheduler.getStatuses()
+})
+
+ipcMain.handle('schedules:delete', async (_, id: string) => {
+  if (typeof id !== 'string') {
+    throw new Error('Schedule id must be a string')
+  }
+  await ScheduleStore.delete(id)
+  await ToolScheduler.refresh()
+  return ToolScheduler.getStatuses()
+})
+
+ipcMain.handle('schedules:runNow', async (_, id: string) => {
+  if (typeof id !== 'string') {
+    throw new Error('Schedule id must be a string')
   }
-  return null
+  ToolScheduler.runNow(id)
+  return ToolScheduler.getStatuses()
 })
 
-ipcMain.handle('auth:setCredentials', async (_, credentials: EloquaCredentials | null) => {
+ipcMain.handle('schedules:chooseFolder', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Choose Output Folder',
+    properties: ['openDirectory', 'createDirectory']
+  })
+  return result.canceled ? null : result.filePaths[0]
+})
+
+// Saved tool pipelines; they run in the renderer like single tools
+ipcMain.handle('pipelines:list', async () => {
+  return PipelineStore.list()
+})
+
+ipcMain.handle('pipelines:save', async (_, pipeline: Pipeline) => {
+  return PipelineStore.save(pipeline)
+})
+
+ipcMain.handle('pipelines:delete', async (_, id: string) => {
+  if (typeof id !== 'string') {
+    throw new Error('Invalid pipeline id')
+  }
+  return PipelineStore.delete(id)
+})
+
+// Saved parameter presets; the renderer applies them to a tool's form
+ipcMain.handle('presets:list', async () => {
+  return PresetStore.list()
+})
+
+ipcMain.handle('presets:save', async (_, preset: ToolPreset) => {
+  return PresetStore.save(preset)
+})
+
+ipcMain.handle('presets:delete', async (_, id: string) => {
+  if (typeof id !== 'string') {
+    throw new Error('Invalid preset id')
+  }
+  return PresetStore.delete(id)
+})
+
+ipcMain.handle('presets:export', async (_, toolId?: string) => {
+  const presets = (await PresetStore.list()).filter(preset => !toolId || preset.toolId === toolId)
+  if (presets.length === 0) {
+    throw new Error('There are no presets to export')
+  }
+
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    defaultPath: `${toolId || 'eloqua'}-presets.json`,
+    filters: [
+      { name: 'JSON Files', extensions: ['json'] },
+      { name: 'All Files', extensions: ['*'] }
+    ]
+  })
+  if (result.canceled || !result.filePath) {
+    return null
+  }
+
   try {
-    if (credentials) {
-      // Validate credentials before storing
-      const validation = SecureCredentialManager.validateCredentials(credentials)
-      if (!validation.valid) {
-        throw new Error(`Invalid credentials: ${validation.errors.join(', ')}`)
-      }
-      
-      // Store credentials securely in OS keychain
-      await SecureCredentialManager.storeCredentials(credentials)
-      // Only store session info, not actual credentials
-      currentSessionInfo = { 
-        siteName: credentials.siteName, 
-        username: credentials.username 
-      }
-      
-      // Credentials stored securely
-    } else {
-      // Clear credentials
-      if (currentSessionInfo?.siteName && currentSessionInfo?.username) {
-        await SecureCredentialManager.removeCredentials(
-          currentSessionInfo.siteName,
-          currentSessionInfo.username
-        )
-      }
-      currentSessionInfo = null
-      
-      // Credentials cleared
-    }
+    await fs.writeFile(result.filePath, JSON.stringify(createToolPresetFile(presets), null, 2), 'utf8')
+    return result.filePath
   } catch (error) {
-    console.error('Failed to handle credential storage:', error)
-    throw error
+    throw new Error(`Failed to export presets: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 })
 
-// Additional secure credential management handlers
-ipcMain.handle('auth:loadStoredCredentials', async (_, siteName: string, username: string) => {
-  try {
-    const credentials = await SecureCredentialManager.getCredentials(siteName, username)
-    if (credentials) {
-      // Only store session info, not actual credentials
-      currentSessionInfo = { siteName, username }
-      return credentials
-    }
+ipcMain.handle('presets:import', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Import Presets',
+    properties: ['openFile'],
+    filters: [
+      { name: 'JSON Files', extensions: ['json'] },
+      { name: 'All Files', extensions: ['*'] }
+    ]
+  })
+  if (result.canceled || result.filePaths.length === 0) {
     return null
+  }
+
+  const presets = parseToolPresetFile(await fs.readFile(result.filePaths[0], 'utf8'))
+  return { imported: presets.length, presets: await PresetStore.saveAll(presets) }
+})
+
+// Tool plugins; enabled bundles are served over toolbox-plugin:// and loaded by the renderer
+ipcMain.handle('plugins:list', async () => {
+  return PluginStore.list()
+})
+
+ipcMain.handle('plugins:setEnabled', async (_, id: string, enabled: boolean) => {
+  if (typeof id !== 'string' || typeof enabled !== 'boolean') {
+    throw new Error('Invalid plugin setting')
+  }
+  return PluginStore.setEnabled(id, enabled)
+})
+
+ipcMain.handle('plugins:openFolder', async () => {
+  await PluginStore.openFolder()
+})
+
+// Sessions: credentials live in the OS keychain and in SessionManager; the
+// renderer only receives an opaque session id
+ipcMain.handle('auth:login', async (_, request: EloquaLoginRequest): Promise<EloquaSession> => {
+  return login(request)
+})
+
+ipcMain.handle('auth:resumeSession', async (_, siteName: string, username: string) => {
+  try {
+    return await SessionManager.resume(siteName, username)
   } catch (error) {
-    console.error('Failed to load stored credentials:', error)
+    console.error('Failed to resume stored session:', error)
+    return null
+  }
+})
+
+ipcMain.handle('auth:getSession', async (_, sessionId: string) => {
+  if (typeof sessionId !== 'string') {
     return null
   }
+  return SessionManager.get(sessionId)
 })
 
+ipcMain.handle('auth:logout', async (_, sessionId: string) => {
+  if (typeof sessionId !== 'string') {
+    return
+  }
+
+  const session = SessionManager.close(sessionId)
+  if (session?.authMethod === 'demo') {
+    // Nothing was stored for the demo instance
+    return
+  }
+  if (session?.authMethod === 'oauth') {
+    // Keep the client id and secret for the next sign-in, drop the refresh token
+    await SecureCredentialManager.clearOAuthTokens(session.siteName, session.username)
+  } else if (session) {
+    await SecureCredentialManager.removeCredentials(session.siteName, session.username)
+  }
+})
+
+// Additional secure credential management handlers
 ipcMain.handle('auth:listStoredAccounts', async () => {
   try {
     return await SecureCredentialManager.listCredentialAccounts()
@@ -423,7 +710,7 @@ ipcMain.handle('auth:listStoredAccounts', async () => {
 ipcMain.handle('auth:clearAllCredentials', async () => {
   try {
     const result = await SecureCredentialManager.clearAllCredentials()
-    currentSessionInfo = null
+    SessionManager.closeAll()
     return result
   } catch (error) {
     console.error('Failed to clear all credentials:', error)
@@ -0,0 +1,382 @@
+// Seed data for the demo instance served by MockEloquaServer. Shapes follow the
+// Eloqua REST 1.0/2.0 and Bulk 2.0 responses the tools read; REST timestamps are
+// Unix seconds as strings, Bulk timestamps ISO 8601, as Eloqua returns them.
+
+export const DEMO_SITE = { id: '100200300', name: 'DemoCompany' }
+export const DEMO_USER = { id: '9', userName: 'Demo.User', displayName: 'Demo User', password: 'demo-password' }
+
+export interface MockDependency {
+  id: string
+  name: string
+  type: string
+}
+
+export interface MockBulkDefinition {
+  uri: string
+  kind: 'export' | 'import'
+  // e.g. /contacts or /customObjects/7
+  entityPath: string
+  name: string
+  fields: Record<string, string>
+  identifierFieldName?: string
+  filter?: string
+  createdAt: string
+  // Rows staged with POST {uri}/data, applied when the import syncs
+  stagedRows: Array<Record<string, any>>
+}
+
+export interface MockSync {
+  id: number
+  syncedInstanceUri: string
+  status: 'pending' | 'active' | 'success' | 'warning' | 'error'
+  createdAt: string
+  createdBy: string
+  syncStartedAt?: string
+  syncEndedAt?: string
+  // GETs left before a pending sync reports finalStatus
+  pollsRemaining: number
+  finalStatus: 'success' | 'warning' | 'error'
+  data: Array<Record<string, any>>
+  logs: Array<{ severity: string; statusCode: string; message: string; count?: number; createdAt: string }>
+  rejects: Array<{ recordIndex: number; statusCode: string; message: string; invalidFields: string[]; fieldValues: Record<string, any> }>
+}
+
+export interface MockCustomObject {
+  id: string
+  name: string
+  fields: Array<{ id: string; name: string; internalName: string; dataType: string }>
+  records: Array<Record<string, string>>
+}
+
+export interface MockEloquaData {
+  emails: any[]
+  emailGroups: any[]
+  forms: any[]
+  formSubmissions: Record<string, any[]>
+  campaigns: any[]
+  programs: any[]
+  landingPages: any[]
+  contactFields: any[]
+  contacts: Array<Record<string, string>>
+  accounts: Array<Record<string, string>>
+  customObjects: MockCustomObject[]
+  definitions: Map<string, MockBulkDefinition>
+  syncs: Map<number, MockSync>
+  // Assets that reference another asset, keyed by "type:id" of the referenced asset
+  dependencies: Record<string, MockDependency[]>
+  nextId: number
+}
+
+const DAY = 24 * 60 * 60
+
+function unixTime(daysAgo: number): string {
+  return String(Math.floor(Date.UTC(2024, 5, 1) / 1000) - daysAgo * DAY)
+}
+
+function isoTime(daysAgo: number): string {
+  return new Date(Date.UTC(2024, 5, 1) - daysAgo * DAY * 1000).toISOString()
+}
+
+function assetAudit(daysAgo: number) {
+  return {
+    createdAt: unixTime(daysAgo + 30),
+    createdBy: DEMO_USER.id,
+    createdByName: DEMO_USER.displayName,
+    updatedAt: unixTime(daysAgo),
+    updatedBy: DEMO_USER.id,
+    updatedByName: DEMO_USER.displayName
+  }
+}
+
+const FIRST_NAMES = ['Ada', 'Grace', 'Alan', 'Edsger', 'Barbara', 'Donald', 'Frances', 'John', 'Margaret', 'Ken']
+const LAST_NAMES = ['Lovelace', 'Hopper', 'Turing', 'Dijkstra', 'Liskov', 'Knuth', 'Allen', 'Backus', 'Hamilton', 'Thompson']
+const COMPANIES = ['Analytical Engines', 'Compiler Works', 'Enigma Labs', 'Shortest Path Inc', 'Abstraction Co']
+
+/**
+ * Builds a fresh copy of the demo instance data. Every demo sign-in starts from
+ * this seed, so destructive tools can be exercised repeatedly.
+ * @returns MockEloquaData - Mutable demo data
+ */
+export function createMockEloquaData(): MockEloquaData {
+  const emails = Array.from({ length: 24 }, (_, index) => {
+    const id = String(1001 + index)
+    const name = index % 3 === 0 ? `Newsletter ${2024 - Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}` : `Product Update ${index + 1}`
+    return {
+      type: 'Email',
+      currentStatus: index % 5 === 0 ? 'Draft' : 'Active',
+      id,
+      name,
+      subject: `${name} from ${DEMO_SITE.name}`,
+      folderId: '42',
+      emailGroupId: String(1 + (index % 2)),
+      isPlainTextEditable: 'false',
+      isTracked: 'true',
+      sendPlainTextOnly: 'false',
+      htmlContent: {
+        type: 'RawHtmlContent',
+        contentSource: 'editor',
+        html: `<html><body><h1>${name}</h1><p>Hello <span class="eloquaemail">FirstName</span>,</p><a href="https://example.com/demo">Read more</a></body></html>`
+      },
+      plainText: `${name}\n\nHello,\n\nRead more: https://example.com/demo`,
+      permissions: ['Retrieve', 'SetSecurity', 'Delete', 'Update'],
+      ...assetAudit(index)
+    }
+  })
+
+  const emailGroups = [
+    { type: 'EmailGroup', id: '1', name: 'Newsletters', isVisibleInOutlookPlugin: 'true', emailIds: emails.filter(email => email.emailGroupId === '1').map(email => email.id) },
+    { type: 'EmailGroup', id: '2', name: 'Product Announcements', isVisibleInOutlookPlugin: 'false', emailIds: emails.filter(email => email.emailGroupId === '2').map(email => email.id) }
+  ]
+
+  const formElement = (id: string, name: string, htmlName: string, dataType = 'text') => ({
+    type: 'FormField',
+    id,
+    name,
+    htmlName,
+    dataType,
+    displayType: 'text',
+    validations: []
+  })
+
+  const forms = [
+    { id: '201', name: 'Contact Us', htmlName: 'contactUs' },
+    { id: '202', name: 'Webinar Registration', htmlName: 'webinarRegistration' },
+    { id: '203', name: 'Newsletter Subscribe', htmlName: 'newsletterSubscribe' },
+    { id: '204', name: 'Legacy Download Form', htmlName: 'legacyDownload' }
+  ].map((form, index) => ({
+    type: 'Form',
+    currentStatus: 'Draft',
+    ...form,
+    folderId: '43',
+    emailAddressFormFieldId: `${form.id}01`,
+    elements: [
+      formElement(`${form.id}01`, 'Email Address', 'emailAddress'),
+      formElement(`${form.id}02`, 'First Name', 'firstName'),
+      formElement(`${form.id}03`, 'Last Name', 'lastName'),
+      formElement(`${form.id}04`, 'Company', 'company')
+    ],
+    processingType: 'externalEmail',
+    processingSteps: [],
+    submitFailedLandingPageId: '-1',
+    isHidden: 'false',
+    ...assetAudit(index * 7)
+  }))
+
+  const formSubmissions: Record<string, any[]> = {}
+  forms.forEach((form, formIndex) => {
+    formSubmissions[form.id] = Array.from({ length: 3 + formIndex * 2 }, (_, index) => ({
+      type: 'FormData',
+      id: String(form.id) + String(index + 1).padStart(3, '0'),
+      contactId: String(5001 + index),
+      submittedAt: unixTime(index + 1),
+      fieldValues: [
+        { type: 'FieldValue', id: `${form.id}01`, value: `${FIRST_NAMES[index % 10].toLowerCase()}@example.com` },
+        { type: 'FieldValue', id: `${form.id}02`, value: FIRST_NAMES[index % 10] },
+        { type: 'FieldValue', id: `${form.id}03`, value: LAST_NAMES[index % 10] }
+      ]
+    }))
+  })
+
+  const landingPages = [
+    { type: 'LandingPage', id: '301', name: 'Webinar Sign-up Page', relativePath: '/webinar', ...assetAudit(3) },
+    { type: 'LandingPage', id: '302', name: 'Legacy Download Page', relativePath: '/legacy', ...assetAudit(90) }
+  ]
+
+  const campaigns = [
+    { id: '401', name: 'Spring Webinar Series', status: 'Active', emailIds: ['1001', '1002'], formIds: ['202'] },
+    { id: '402', name: 'Monthly Newsletter', status: 'Active', emailIds: ['1004', '1007', '1010'], formIds: ['203'] },
+    { id: '403', name: 'Legacy Nurture', status: 'Completed', emailIds: ['1003'], formIds: ['204'] },
+    { id: '404', name: 'Q3 Product Launch', status: 'Draft', emailIds: ['1005'], formIds: [] as string[] }
+  ].map((campaign, index) => ({
+    type: 'Campaign',
+    currentStatus: campaign.status,
+    id: campaign.id,
+    name: campaign.name,
+    folderId: '44',
+    campaignCategory: 'contact',
+    isEmailMarketingCampaign: 'false',
+    isMemberAllowedReEntry: 'false',
+    isReadOnly: 'false',
+    isSyncedWithCRM: 'false',
+    startAt: unixTime(60 - index * 10),
+    endAt: unixTime(-90),
+    budgetedCost: '0',
+    actualCost: '0',
+    elements: [
+      { type: 'CampaignSegment', id: `${campaign.id}1`, name: 'Audience' },
+      ...campaign.emailIds.map((emailId, position) => ({ type: 'CampaignEmail', id: `${campaign.id}${position + 2}`, name: `Send email ${emailId}`, emailId }))
+    ],
+    ...assetAudit(index * 5)
+  }))
+
+  const programs = [
+    { id: '501', name: 'Lead Scoring Sync', status: 'Active' },
+    { id: '502', name: 'Data Normalization', status: 'Active' },
+    { id: '503', name: 'Legacy Cleanup', status: 'Draft' }
+  ].map((program, index) => ({
+    type: 'Program',
+    currentStatus: program.status,
+    id: program.id,
+    name: program.name,
+    folderId: '45',
+    defaultEntityType: 'Contact',
+    elements: [
+      { type: 'ProgramListener', id: `${program.id}1`, name: 'Listener' },
+      { type: 'ProgramAction', id: `${program.id}2`, name: 'Update Contacts' }
+    ],
+    ...assetAudit(index * 11)
+  }))
+
+  const contactField = (id: string, name: string, internalName: string, dataType = 'text', isSystem = false) => ({
+    type: 'ContactField',
+    id,
+    name,
+    internalName,
+    dataType,
+    displayType: 'text',
+    isReadOnly: 'false',
+    isRequired: internalName === 'C_EmailAddress' ? 'true' : 'false',
+    isStandard: isSystem ? 'true' : 'false',
+    isPopulatedInOutlookPlugin: 'false',
+    updateType: 'always',
+    ...assetAudit(120)
+  })
+
+  const contactFields = [
+    contactField('100001', 'Email Address', 'C_EmailAddress', 'emailAddress', true),
+    contactField('100002', 'First Name', 'C_FirstName', 'text', true),
+    contactField('100003', 'Last Name', 'C_LastName', 'text', true),
+    contactField('100004', 'Company', 'C_Company', 'text', true),
+    contactField('100005', 'Country', 'C_Country', 'text', true),
+    contactField('100006', 'Lead Score', 'C_Lead_Score1', 'number'),
+    contactField('100301', 'Legacy Region Code', 'C_Legacy_Region_Code1', 'text'),
+    contactField('100302', 'Old Campaign Source', 'C_Old_Campaign_Source1', 'text'),
+    contactField('100303', 'Unused Text Field', 'C_Unused_Text_Field1', 'text')
+  ]
+
+  const contacts = Array.from({ length: 60 }, (_, index) => ({
+    ContactID: String(5001 + index),
+    C_EmailAddress: `${FIRST_NAMES[index % 10].toLowerCase()}.${LAST_NAMES[Math.floor(index / 10) % 10].toLowerCase()}${index}@example.com`,
+    C_FirstName: FIRST_NAMES[index % 10],
+    C_LastName: LAST_NAMES[Math.floor(index / 10) % 10],
+    C_Company: COMPANIES[index % COMPANIES.length],
+    C_Country: index % 3 === 0 ? 'Canada' : 'United States',
+    C_Lead_Score1: String((index * 7) % 100),
+    C_Legacy_Region_Code1: index % 4 === 0 ? 'NA-EAST' : '',
+    C_Old_Campaign_Source1: '',
+    C_Unused_Text_Field1: ''
+  }))
+
+  const accounts = COMPANIES.map((company, index) => ({
+    AccountID: String(7001 + index),
+    M_CompanyName: company,
+    M_Country: index % 2 === 0 ? 'United States' : 'Canada',
+    M_City: ['Boston', 'Toronto', 'Austin', 'Vancouver', 'Denver'][index]
+  }))
+
+  const customObjects: MockCustomObject[] = [{
+    id: '7',
+    name: 'Event Registrations',
+    fields: [
+      { id: '71', name: 'Email Address', internalName: 'Email_Address1', dataType: 'emailAddress' },
+      { id: '72', name: 'Event Name', internalName: 'Event_Name1', dataType: 'text' },
+      { id: '73', name: 'Attended', internalName: 'Attended1', dataType: 'text' }
+    ],
+    records: contacts.slice(0, 12).map((contact, index) => ({
+      CustomObjectRecordID: String(8001 + index),
+      Email_Address1: contact.C_EmailAddress,
+      Event_Name1: index % 2 === 0 ? 'Spring Webinar' : 'User Conference',
+      Attended1: index % 3 === 0 ? 'Yes' : 'No'
+    }))
+  }]
+
+  // Bulk definitions that still reference the legacy contact fields, so deleting
+  // those fields returns 412 with dependencies until the definitions are removed
+  const definitions = new Map<string, MockBulkDefinition>()
+  const legacyDefinitions: MockBulkDefinition[] = [
+    {
+      uri: '/contacts/exports/12',
+      kind: 'export',
+      entityPath: '/contacts',
+      name: 'Nightly region export',
+      fields: { email: '{{Contact.Field(C_EmailAddress)}}', region: '{{Contact.Field(C_Legacy_Region_Code1)}}' },
+      createdAt: isoTime(200),
+      stagedRows: []
+    },
+    {
+      uri: '/contacts/imports/13',
+      kind: 'import',
+      entityPath: '/contacts',
+      name: 'Campaign source backfill',
+      fields: { email: '{{Contact.Field(C_EmailAddress)}}', source: '{{Contact.Field(C_Old_Campaign_Source1)}}' },
+      identifierFieldName: 'email',
+      createdAt: isoTime(180),
+      stagedRows: []
+    },
+    {
+      uri: '/contacts/exports/14',
+      kind: 'export',
+      entityPath: '/contacts',
+      name: 'Legacy region audit',
+      fields: { email: '{{Contact.Field(C_EmailAddress)}}', region: '{{Contact.Field(C_Legacy_Region_Code1)}}' },
+      createdAt: isoTime(150),
+      stagedRows: []
+    }
+  ]
+  legacyDefinitions.forEach(definition => definitions.set(definition.uri, definition))
+
+  const syncs = new Map<number, MockSync>()
+  const seedSync = (id: number, syncedInstanceUri: string, status: MockSync['status'], daysAgo: number) => {
+    syncs.set(id, {
+      id,
+      syncedInstanceUri,
+      status,
+      createdAt: isoTime(daysAgo),
+      createdBy: DEMO_USER.userName,
+      syncStartedAt: isoTime(daysAgo),
+      syncEndedAt: status === 'active' ? undefined : isoTime(daysAgo),
+      pollsRemaining: 0,
+      finalStatus: status === 'warning' || status === 'error' ? status : 'success',
+      data: [],
+      logs: [{ severity: 'information', statusCode: 'ELQ-00001', message: 'Total records processed.', count: 60, createdAt: isoTime(daysAgo) }],
+      rejects: []
+    })
+  }
+  seedSync(21, '/contacts/exports/12', 'success', 30)
+  seedSync(22, '/contacts/exports/12', 'success', 29)
+  seedSync(23, '/contacts/imports/13', 'warning', 28)
+  seedSync(24, '/contacts/exports/14', 'error', 20)
+  seedSync(25, '/contacts/exports/14', 'success', 10)
+  seedSync(26, '/contacts/exports/12', 'active', 0)
+
+  const dependencies: Record<string, MockDependency[]> = {}
+  const addDependency = (key: string, dependency: MockDependency) => {
+    dependencies[key] = [...(dependencies[key] || []), dependency]
+  }
+  campaigns.forEach(campaign => {
+    const source = { id: campaign.id, name: campaign.name, type: 'Campaign' }
+    campaign.elements.forEach((element: any) => element.emailId && addDependency(`email:${element.emailId}`, source))
+  })
+  addDependency('form:202', { id: '301', name: 'Webinar Sign-up Page', type: 'LandingPage' })
+  addDependency('form:204', { id: '302', name: 'Legacy Download Page', type: 'LandingPage' })
+  addDependency('form:204', { id: '403', name: 'Legacy Nurture', type: 'Campaign' })
+  addDependency('contact/field:100006', { id: '501', name: 'Lead Scoring Sync', type: 'Program' })
+
+  return {
+    emails,
+    emailGroups,
+    forms,
+    formSubmissions,
+    campaigns,
+    programs,
+    landingPages,
+    contactFields,
+    contacts,
+    accounts,
+    customObjects,
+    definitions,
+    syncs,
+    dependencies,
+    nextId: 100
+  }
+}
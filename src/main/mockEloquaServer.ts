@@ -0,0 +1,701 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { EloquaDemoSimulation } from '../shared/types'
+import { SecureCredentialManager } from './secureCredentialManager'
+import {
+  createMockEloquaData,
+  DEMO_SITE,
+  DEMO_USER,
+  MockBulkDefinition,
+  MockEloquaData,
+  MockSync
+} from './mockEloquaFixtures'
+
+interface MockRequest {
+  method: string
+  // Lower-cased path without the query string
+  path: string
+  query: URLSearchParams
+  body: any
+}
+
+interface MockResponse {
+  status: number
+  body?: any
+  headers?: Record<string, string>
+}
+
+type MockRoute = [method: string, pattern: RegExp, handler: (request: MockRequest, match: RegExpMatchArray) => MockResponse]
+
+/**
+ * Local stand-in for an Eloqua instance, used by the "Demo instance" sign-in.
+ * Serves the login service (/id), the REST 1.0/2.0 asset endpoints, Bulk 2.0
+ * definitions and syncs, and form submissions (/e/f2) from seeded fixture data
+ * on a loopback port. Failures can be simulated: 401 once the session expires,
+ * 412 with dependencies for assets still in use, and 429 throttling.
+ */
+export class MockEloquaServer {
+  private static server: Server | null = null
+  private static baseUrl: string | null = null
+  private static data: MockEloquaData = createMockEloquaData()
+  private static simulation: EloquaDemoSimulation = {}
+  private static requestCount = 0
+
+  static readonly credentials = {
+    siteName: DEMO_SITE.name,
+    username: DEMO_USER.userName,
+    password: DEMO_USER.password
+  }
+
+  /**
+   * Starts the server (or reuses the running one) with freshly seeded data
+   * @param simulation - Failures to reproduce for this demo session
+   * @returns Promise<string> - Base URL of the demo instance, e.g. http://127.0.0.1:50123
+   */
+  static async start(simulation: EloquaDemoSimulation = {}): Promise<string> {
+    this.data = createMockEloquaData()
+    this.simulation = simulation
+    this.requestCount = 0
+
+    if (this.server && this.baseUrl) {
+      return this.baseUrl
+    }
+
+    const server = createServer((req, res) => this.handle(req, res))
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(0, '127.0.0.1', () => resolve())
+    })
+
+    const { port } = server.address() as AddressInfo
+    this.server = server
+    this.baseUrl = `http://127.0.0.1:${port}`
+    return this.baseUrl
+  }
+
+  static stop(): void {
+    this.server?.close()
+    this.server = null
+    this.baseUrl = null
+  }
+
+  private static async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let response: MockResponse
+    try {
+      const url = new URL(req.url || '/', 'http://127.0.0.1')
+      const rawBody = await this.readBody(req)
+      const isForm = (req.headers['content-type'] || '').includes('application/x-www-form-urlencoded')
+      const request: MockRequest = {
+        method: (req.method || 'GET').toUpperCase(),
+        path: url.pathname.toLowerCase().replace(/\/+$/, ''),
+        query: url.searchParams,
+        body: rawBody ? (isForm ? Object.fromEntries(new URLSearchParams(rawBody)) : JSON.parse(rawBody)) : undefined
+      }
+      response = this.route(request, req.headers.authorization)
+    } catch (error) {
+      response = { status: 400, body: [{ type: 'ObjectValidationError', requirement: { type: 'ValidRequestRequirement' }, value: error instanceof Error ? error.message : 'Bad request' }] }
+    }
+
+    const headers: Record<string, string> = { 'X-Request-Id': `demo-${Date.now().toString(36)}`, ...response.headers }
+    if (response.body === undefined) {
+      res.writeHead(response.status, headers)
+      res.end()
+    } else if (typeof response.body === 'string') {
+      res.writeHead(response.status, { 'Content-Type': 'text/html; charset=utf-8', ...headers })
+      res.end(response.body)
+    } else {
+      res.writeHead(response.status, { 'Content-Type': 'application/json; charset=utf-8', ...headers })
+      res.end(JSON.stringify(response.body))
+    }
+  }
+
+  private static readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = []
+      req.on('data', chunk => chunks.push(chunk))
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+      req.on('error', reject)
+    })
+  }
+
+  private static route(request: MockRequest, authorization: string | undefined): MockResponse {
+    // Form submissions are anonymous, like the real f2 endpoint
+    if (request.path === '/e/f2' && request.method === 'POST') {
+      return this.submitForm({ ...Object.fromEntries(request.query), ...(request.body || {}) })
+    }
+
+    if (authorization !== this.expectedAuthorization()) {
+      return { status: 401 }
+    }
+
+    if (request.path === '/id' && request.method === 'GET') {
+      return { status: 200, body: this.loginInfo() }
+    }
+
+    this.requestCount++
+    const { expireSessionAfter, throttleEvery } = this.simulation
+    if (expireSessionAfter && this.requestCount > expireSessionAfter) {
+      return { status: 401 }
+    }
+    if (throttleEvery && this.requestCount % throttleEvery === 0) {
+      return { status: 429, headers: { 'Retry-After': '1' }, body: { message: 'Too many requests' } }
+    }
+
+    for (const [method, pattern, handler] of this.routes) {
+      const match = request.path.match(pattern)
+      if (match && method === request.method) {
+        return handler(request, match)
+      }
+    }
+    return { status: 404 }
+  }
+
+  private static expectedAuthorization(): string {
+    return `Basic ${Buffer.from(SecureCredentialManager.createAuthString(this.credentials)).toString('base64')}`
+  }
+
+  private static loginInfo() {
+    const base = this.baseUrl!
+    return {
+      site: { id: Number(DEMO_SITE.id), name: DEMO_SITE.name },
+      user: { id: Number(DEMO_USER.id), username: DEMO_USER.userName, userName: DEMO_USER.userName, displayName: DEMO_USER.displayName },
+      urls: {
+        base,
+        apis: {
+          soap: { standard: `${base}/API/{version}/Service.svc`, dataTransfer: `${base}/API/{version}/DataTransferService.svc` },
+          rest: { standard: `${base}/API/REST/{version}/`, bulk: `${base}/API/Bulk/{version}/` }
+        }
+      }
+    }
+  }
+
+  private static readonly routes: MockRoute[] = [
+    // REST 1.0
+    ['GET', /^\/api\/rest\/1\.0\/system\/user$/, () => ({ status: 200, body: { type: 'User', id: DEMO_USER.id, name: DEMO_USER.displayName, loginName: DEMO_USER.userName } })],
+    ['GET', /^\/api\/rest\/1\.0\/assets\/email\/groups$/, request => MockEloquaServer.restPage(request, MockEloquaServer.data.emailGroups)],
+    ['GET', /^\/api\/rest\/[12]\.0\/assets\/emails$/, request => MockEloquaServer.restPage(request, MockEloquaServer.data.emails)],
+    ['GET', /^\/api\/rest\/[12]\.0\/assets\/email\/(\d+)$/, (_, match) => MockEloquaServer.findAsset(MockEloquaServer.data.emails, match[1])],
+    ['GET', /^\/api\/rest\/[12]\.0\/assets\/forms$/, request => MockEloquaServer.restPage(request, MockEloquaServer.data.forms)],
+    ['GET', /^\/api\/rest\/[12]\.0\/assets\/form\/(\d+)$/, (_, match) => MockEloquaServer.findAsset(MockEloquaServer.data.forms, match[1])],
+    ['POST', /^\/api\/rest\/[12]\.0\/assets\/form$/, request => MockEloquaServer.createForm(request.body)],
+    ['PUT', /^\/api\/rest\/[12]\.0\/assets\/form\/(\d+)$/, (request, match) => MockEloquaServer.updateForm(match[1], request.body)],
+    ['DELETE', /^\/api\/rest\/1\.0\/assets\/form\/(\d+)$/, (_, match) => MockEloquaServer.deleteAsset(MockEloquaServer.data.forms, 'form', match[1])],
+    ['GET', /^\/api\/rest\/1\.0\/data\/form\/(\d+)$/, (request, match) => MockEloquaServer.restPage(request, MockEloquaServer.data.formSubmissions[match[1]] || [])],
+    ['GET', /^\/api\/rest\/[12]\.0\/assets\/campaigns$/, request => MockEloquaServer.restPage(request, MockEloquaServer.data.campaigns)],
+    ['GET', /^\/api\/rest\/[12]\.0\/assets\/campaign\/(\d+)$/, (_, match) => MockEloquaServer.findAsset(MockEloquaServer.data.campaigns, match[1])],
+    ['GET', /^\/api\/rest\/[12]\.0\/assets\/programs$/, request => MockEloquaServer.restPage(request, MockEloquaServer.data.programs)],
+    ['GET', /^\/api\/rest\/[12]\.0\/assets\/program\/(\d+)$/, (_, match) => MockEloquaServer.findAsset(MockEloquaServer.data.programs, match[1])],
+    ['GET', /^\/api\/rest\/[12]\.0\/assets\/landingpages$/, request => MockEloquaServer.restPage(request, MockEloquaServer.data.landingPages)],
+    ['GET', /^\/api\/rest\/1\.0\/assets\/contact\/fields$/, request => MockEloquaServer.restPage(request, MockEloquaServer.data.contactFields)],
+    ['GET', /^\/api\/rest\/1\.0\/assets\/contact\/field\/(\d+)$/, (_, match) => MockEloquaServer.findAsset(MockEloquaServer.data.contactFields, match[1])],
+    ['POST', /^\/api\/rest\/1\.0\/assets\/contact\/field$/, request => MockEloquaServer.createContactField(request.body)],
+    ['DELETE', /^\/api\/rest\/1\.0\/assets\/contact\/field\/(\d+)$/, (_, match) => MockEloquaServer.deleteContactField(match[1])],
+    ['GET', /^\/api\/rest\/1\.0\/bulk\/(imports|exports)$/, request => MockEloquaServer.restPage(request, [])],
+    ['GET', /^\/api\/rest\/1\.0\/bulk$/, request => MockEloquaServer.restPage(request, [])],
+
+    // REST 2.0 dependencies
+    ['GET', /^\/api\/rest\/2\.0\/assets\/(email|form|landingpage|contact\/field|contact\/segment|contact\/filter|contact\/list)\/(\d+)\/dependencies$/,
+      (_, match) => ({ status: 200, body: MockEloquaServer.data.dependencies[`${match[1]}:${match[2]}`] || [] })],
+
+    // Bulk 2.0 definitions
+    ['GET', /^\/api\/bulk\/2\.0(\/contacts|\/accounts|\/customobjects\/\d+)\/fields$/, (request, match) => MockEloquaServer.bulkPage(request, MockEloquaServer.bulkFields(match[1]))],
+    ['POST', /^\/api\/bulk\/2\.0(\/contacts|\/accounts|\/activities|\/customobjects\/\d+)\/(exports|imports)$/,
+      (request, match) => MockEloquaServer.createDefinition(match[1], match[2] === 'exports' ? 'export' : 'import', request.body)],
+    ['GET', /^\/api\/bulk\/2\.0(\/contacts|\/accounts|\/activities|\/customobjects\/\d+)\/(exports|imports)$/,
+      (request, match) => MockEloquaServer.bulkPage(request, Array.from(MockEloquaServer.data.definitions.values())
+        .filter(definition => definition.entityPath.toLowerCase() === match[1] && `${definition.kind}s` === match[2])
+        .map(definition => MockEloquaServer.definitionBody(definition)))],
+    ['GET', /^\/api\/bulk\/2\.0((?:\/contacts|\/accounts|\/activities|\/customobjects\/\d+)\/(?:exports|imports)\/\d+)$/,
+      (_, match) => MockEloquaServer.findDefinition(match[1])],
+    ['DELETE', /^\/api\/bulk\/2\.0((?:\/contacts|\/accounts|\/activities|\/customobjects\/\d+)\/(?:exports|imports)\/\d+)$/,
+      (_, match) => MockEloquaServer.deleteDefinition(match[1])],
+    ['POST', /^\/api\/bulk\/2\.0((?:\/contacts|\/accounts|\/customobjects\/\d+)\/imports\/\d+)\/data$/,
+      (request, match) => MockEloquaServer.stageImportData(match[1], request.body)],
+
+    // Bulk 2.0 syncs
+    ['GET', /^\/api\/bulk\/2\.0\/syncs$/, request => MockEloquaServer.bulkPage(request, Array.from(MockEloquaServer.data.syncs.values()).map(sync => MockEloquaServer.syncBody(sync)))],
+    ['POST', /^\/api\/bulk\/2\.0\/syncs$/, request => MockEloquaServer.createSync(request.body)],
+    ['GET', /^\/api\/bulk\/2\.0\/syncs\/(\d+)$/, (_, match) => MockEloquaServer.pollSync(Number(match[1]))],
+    ['DELETE', /^\/api\/bulk\/2\.0\/syncs\/(\d+)$/, (_, match) => MockEloquaServer.deleteSync(Number(match[1]))],
+    ['GET', /^\/api\/bulk\/2\.0\/syncs\/(\d+)\/(data|logs|rejects)$/, (request, match) => MockEloquaServer.syncItems(request, Number(match[1]), match[2] as 'data' | 'logs' | 'rejects')]
+  ]
+
+  // REST 1.0/2.0 collections: page/count in, elements/page/pageSize/total out
+  private static restPage(request: MockRequest, items: any[]): MockResponse {
+    const filtered = this.applySearch(items, request.query.get('search'))
+    const page = Math.max(Number(request.query.get('page')) || 1, 1)
+    const count = Math.min(Math.max(Number(request.query.get('count')) || 1000, 1), 1000)
+    return {
+      status: 200,
+      body: {
+        elements: filtered.slice((page - 1) * count, page * count),
+        page,
+        pageSize: count,
+        total: filtered.length
+      }
+    }
+  }
+
+  // Bulk 2.0 collections: offset/limit in, items/totalResults/hasMore out
+  private static bulkPage(request: MockRequest, items: any[]): MockResponse {
+    const offset = Math.max(Number(request.query.get('offset')) || 0, 0)
+    const limit = Math.min(Math.max(Number(request.query.get('limit')) || 1000, 1), 50000)
+    const page = items.slice(offset, offset + limit)
+    return {
+      status: 200,
+      body: {
+        items: page,
+        totalResults: items.length,
+        limit,
+        offset,
+        count: page.length,
+        hasMore: offset + page.length < items.length
+      }
+    }
+  }
+
+  // Supports the common name='value*' form of Eloqua search, or a bare term
+  private static applySearch(items: any[], search: string | null): any[] {
+    if (!search) {
+      return items
+    }
+    const term = (search.includes('=') ? search.slice(search.indexOf('=') + 1) : search).replace(/^['"]|['"]$/g, '')
+    const escaped = term.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+    const pattern = new RegExp(search.includes('=') ? `^${escaped}$` : escaped, 'i')
+    return items.filter(item => pattern.test(String(item.name ?? '')) || String(item.id) === term)
+  }
+
+  private static findAsset(items: any[], id: string): MockResponse {
+    const asset = items.find(item => item.id === id)
+    return asset ? { status: 200, body: asset } : { status: 404 }
+  }
+
+  private static dependencyConflict(key: string): MockResponse | null {
+    const dependencies = this.data.dependencies[key] || []
+    if (dependencies.length === 0) {
+      return null
+    }
+    return {
+      status: 412,
+      body: [{
+        type: 'ObjectValidationError',
+        container: { type: 'ObjectKey', objectType: key.split(':')[0], objectId: key.split(':')[1] },
+        requirement: { type: 'NoDependenciesRequirement', dependencies }
+      }]
+    }
+  }
+
+  private static deleteAsset(items: any[], type: string, id: string): MockResponse {
+    const index = items.findIndex(item => item.id === id)
+    if (index === -1) {
+      return { status: 404 }
+    }
+    const conflict = this.dependencyConflict(`${type}:${id}`)
+    if (conflict) {
+      return conflict
+    }
+    items.splice(index, 1)
+    return { status: 200 }
+  }
+
+  private static deleteContactField(id: string): MockResponse {
+    const field = this.data.contactFields.find(item => item.id === id)
+    if (!field) {
+      return { status: 404 }
+    }
+    if (field.isStandard === 'true') {
+      return { status: 403, body: { message: 'System fields cannot be deleted' } }
+    }
+
+    // Bulk definitions that map the field block its deletion, like in Eloqua
+    const statement = `contact.field(${String(field.internalName).toLowerCase()})`
+    const bulkDependencies = Array.from(this.data.definitions.values())
+      .filter(definition => Object.values(definition.fields).some(value => value.toLowerCase().includes(statement)))
+      .map(definition => ({
+        id: definition.uri.split('/').pop()!,
+        name: definition.name,
+        type: definition.kind === 'export' ? 'BulkExport' : 'BulkImport'
+      }))
+    this.data.dependencies[`contact/field:${id}`] = [
+      ...(this.data.dependencies[`contact/field:${id}`] || []).filter(dependency => !dependency.type.startsWith('Bulk')),
+      ...bulkDependencies
+    ]
+
+    const conflict = this.dependencyConflict(`contact/field:${id}`)
+    if (conflict) {
+      return conflict
+    }
+    this.data.contactFields = this.data.contactFields.filter(item => item.id !== id)
+    this.data.contacts.forEach(contact => delete contact[field.internalName])
+    return { status: 200 }
+  }
+
+  private static createContactField(body: any): MockResponse {
+    if (!body || typeof body.name !== 'string' || !body.name.trim()) {
+      return { status: 400, body: [{ type: 'ObjectValidationError', property: 'name', requirement: { type: 'NotNullRequirement' } }] }
+    }
+
+    const now = String(Math.floor(Date.now() / 1000))
+    const field = {
+      type: 'ContactField',
+      dataType: 'text',
+      displayType: 'text',
+      ...body,
+      id: String(++this.data.nextId),
+      isStandard: 'false',
+      createdAt: now,
+      createdBy: DEMO_USER.id,
+      updatedAt: now,
+      updatedBy: DEMO_USER.id
+    }
+    this.data.contactFields.push(field)
+    return { status: 201, body: field }
+  }
+
+  private static createForm(body: any): MockResponse {
+    if (!body || typeof body.name !== 'string' || !body.name.trim()) {
+      return { status: 400, body: [{ type: 'ObjectValidationError', property: 'name', requirement: { type: 'NotNullRequirement' } }] }
+    }
+    if (this.data.forms.some(form => form.name.toLowerCase() === body.name.toLowerCase())) {
+      return { status: 400, body: [{ type: 'ObjectValidationError', property: 'name', requirement: { type: 'UniquenessRequirement' }, value: body.name }] }
+    }
+
+    const now = String(Math.floor(Date.now() / 1000))
+    const form = {
+      type: 'Form',
+      currentStatus: 'Draft',
+      elements: [],
+      ...body,
+      id: String(++this.data.nextId),
+      createdAt: now,
+      createdBy: DEMO_USER.id,
+      updatedAt: now,
+      updatedBy: DEMO_USER.id
+    }
+    this.data.forms.push(form)
+    this.data.formSubmissions[form.id] = []
+    return { status: 201, body: form }
+  }
+
+  private static updateForm(id: string, body: any): MockResponse {
+    const form = this.data.forms.find(item => item.id === id)
+    if (!form) {
+      return { status: 404 }
+    }
+    Object.assign(form, body || {}, { id, updatedAt: String(Math.floor(Date.now() / 1000)), updatedBy: DEMO_USER.id })
+    return { status: 200, body: form }
+  }
+
+  private static submitForm(values: Record<string, string>): MockResponse {
+    const form = this.data.forms.find(item => item.htmlName.toLowerCase() === String(values.elqFormName || '').toLowerCase())
+    if (!form || values.elqSiteID !== DEMO_SITE.id) {
+      // Eloqua answers unknown forms with an error page rather than an error status
+      return { status: 200, body: '<html><body><p>The form you submitted could not be found.</p></body></html>' }
+    }
+
+    this.data.formSubmissions[form.id].push({
+      type: 'FormData',
+      id: String(++this.data.nextId),
+      submittedAt: String(Math.floor(Date.now() / 1000)),
+      fieldValues: form.elements
+        .filter((element: any) => values[element.htmlName] !== undefined)
+        .map((element: any) => ({ type: 'FieldValue', id: element.id, value: values[element.htmlName] }))
+    })
+    return { status: 200, body: '<html><body><p>Thank you for your submission.</p></body></html>' }
+  }
+
+  private static bulkFields(entityPath: string): any[] {
+    const field = (name: string, internalName: string, dataType: string, statement: string, readOnly = false) => ({
+      name,
+      internalName,
+      dataType,
+      hasReadOnlyConstraint: readOnly,
+      hasNotNullConstraint: false,
+      hasUniquenessConstraint: readOnly,
+      statement,
+      uri: `${entityPath}/fields/${internalName}`
+    })
+
+    if (entityPath === '/contacts') {
+      return [
+        field('Contact ID', 'ContactID', 'number', '{{Contact.Id}}', true),
+        ...this.data.contactFields.map(contactField =>
+          field(contactField.name, contactField.internalName, contactField.dataType, `{{Contact.Field(${contactField.internalName})}}`))
+      ]
+    }
+    if (entityPath === '/accounts') {
+      return [
+        field('Account ID', 'AccountID', 'number', '{{Account.Id}}', true),
+        field('Company Name', 'M_CompanyName', 'text', '{{Account.Field(M_CompanyName)}}'),
+        field('Country', 'M_Country', 'text', '{{Account.Field(M_Country)}}'),
+        field('City', 'M_City', 'text', '{{Account.Field(M_City)}}')
+      ]
+    }
+
+    const customObject = this.findCustomObject(entityPath)
+    if (!customObject) {
+      return []
+    }
+    return [
+      field('Record ID', 'CustomObjectRecordID', 'number', `{{CustomObject[${customObject.id}].Id}}`, true),
+      ...customObject.fields.map(coField =>
+        field(coField.name, coField.internalName, coField.dataType, `{{CustomObject[${customObject.id}].Field(${coField.internalName})}}`))
+    ]
+  }
+
+  private static findCustomObject(entityPath: string) {
+    const id = entityPath.match(/^\/customobjects\/(\d+)$/i)?.[1]
+    return this.data.customObjects.find(customObject => customObject.id === id)
+  }
+
+  private static entityRecords(entityPath: string): Array<Record<string, string>> | null {
+    const path = entityPath.toLowerCase()
+    if (path === '/contacts') return this.data.contacts
+    if (path === '/accounts') return this.data.accounts
+    return this.findCustomObject(path)?.records || null
+  }
+
+  // Resolves a field statement to the record key it reads, e.g. {{Contact.Field(C_FirstName)}} to C_FirstName
+  private static statementKey(entityPath: string, statement: string): string | null {
+    const field = statement.match(/\.Field\(([^)]+)\)\}\}$/i)
+    if (field) {
+      return field[1]
+    }
+    return /\.Id\}\}$/i.test(statement) ? this.idKey(entityPath) : null
+  }
+
+  private static idKey(entityPath: string): string {
+    const path = entityPath.toLowerCase()
+    return path === '/contacts' ? 'ContactID' : path === '/accounts' ? 'AccountID' : 'CustomObjectRecordID'
+  }
+
+  private static createDefinition(entityPath: string, kind: 'export' | 'import', body: any): MockResponse {
+    const fields = body?.fields
+    if (!body?.name || !fields || typeof fields !== 'object' || Object.keys(fields).length === 0) {
+      return { status: 400, body: { failures: [{ field: 'fields', constraint: 'Must contain at least one field' }] } }
+    }
+    if (entityPath !== '/activities' && !this.entityRecords(entityPath)) {
+      return { status: 404 }
+    }
+    for (const [key, statement] of Object.entries<string>(fields)) {
+      if (typeof statement !== 'string' || (entityPath !== '/activities' && !this.statementKey(entityPath, statement))) {
+        return { status: 400, body: { failures: [{ field: key, constraint: `Invalid field statement: ${statement}` }] } }
+      }
+    }
+    if (kind === 'import' && !(body.identifierFieldName in fields)) {
+      return { status: 400, body: { failures: [{ field: 'identifierFieldName', constraint: 'Must be one of the definition fields' }] } }
+    }
+
+    const segment = entityPath.replace(/^\/customobjects/, '/customObjects')
+    const definition: MockBulkDefinition = {
+      uri: `${segment}/${kind}s/${++this.data.nextId}`,
+      kind,
+      entityPath: segment,
+      name: String(body.name),
+      fields,
+      identifierFieldName: body.identifierFieldName,
+      filter: body.filter,
+      createdAt: new Date().toISOString(),
+      stagedRows: []
+    }
+    this.data.definitions.set(definition.uri.toLowerCase(), definition)
+    return { status: 201, body: this.definitionBody(definition) }
+  }
+
+  private static definitionBody(definition: MockBulkDefinition) {
+    return {
+      name: definition.name,
+      fields: definition.fields,
+      ...(definition.kind === 'import'
+        ? { identifierFieldName: definition.identifierFieldName, isSyncTriggeredOnImport: false }
+        : { filter: definition.filter }),
+      dataRetentionDuration: 'PT12H',
+      uri: definition.uri,
+      createdBy: DEMO_USER.userName,
+      createdAt: definition.createdAt,
+      updatedBy: DEMO_USER.userName,
+      updatedAt: definition.createdAt
+    }
+  }
+
+  private static findDefinition(uri: string): MockResponse {
+    const definition = this.data.definitions.get(uri)
+    return definition ? { status: 200, body: this.definitionBody(definition) } : { status: 404 }
+  }
+
+  private static deleteDefinition(uri: string): MockResponse {
+    return this.data.definitions.delete(uri) ? { status: 204 } : { status: 404 }
+  }
+
+  private static stageImportData(uri: string, rows: any): MockResponse {
+    const definition = this.data.definitions.get(uri)
+    if (!definition) {
+      return { status: 404 }
+    }
+    if (!Array.isArray(rows)) {
+      return { status: 400, body: { failures: [{ field: 'data', constraint: 'Must be an array of records' }] } }
+    }
+    definition.stagedRows.push(...rows)
+    return { status: 204 }
+  }
+
+  private static createSync(body: any): MockResponse {
+    const definition = this.data.definitions.get(String(body?.syncedInstanceUri || '').toLowerCase())
+    if (!definition) {
+      return { status: 400, body: { failures: [{ field: 'syncedInstanceUri', constraint: 'Must reference an existing definition' }] } }
+    }
+
+    const now = new Date().toISOString()
+    const sync: MockSync = {
+      id: ++this.data.nextId,
+      syncedInstanceUri: definition.uri,
+      status: 'pending',
+      createdAt: now,
+      createdBy: DEMO_USER.userName,
+      // Report 'active' once before finishing so polling code paths run
+      pollsRemaining: 2,
+      finalStatus: 'success',
+      data: [],
+      logs: [],
+      rejects: []
+    }
+
+    if (definition.kind === 'export') {
+      this.runExport(definition, sync)
+    } else {
+      this.runImport(definition, sync)
+    }
+
+    this.data.syncs.set(sync.id, sync)
+    return { status: 201, body: this.syncBody(sync) }
+  }
+
+  private static runExport(definition: MockBulkDefinition, sync: MockSync): void {
+    const records = this.entityRecords(definition.entityPath) || []
+    sync.data = records.map(record => {
+      const row: Record<string, any> = {}
+      for (const [key, statement] of Object.entries(definition.fields)) {
+        const recordKey = this.statementKey(definition.entityPath, statement)
+        row[key] = recordKey ? record[recordKey] ?? '' : ''
+      }
+      return row
+    })
+    sync.logs.push(this.log('information', 'ELQ-00102', 'Total records staged for export.', sync.data.length))
+  }
+
+  private static runImport(definition: MockBulkDefinition, sync: MockSync): void {
+    const records = this.entityRecords(definition.entityPath)
+    if (!records) {
+      sync.finalStatus = 'error'
+      sync.logs.push(this.log('error', 'ELQ-00107', 'The import target no longer exists.'))
+      return
+    }
+
+    const keyFor = (field: string) => this.statementKey(definition.entityPath, definition.fields[field])!
+    const idKey = this.idKey(definition.entityPath)
+    const identifierKey = keyFor(definition.identifierFieldName!)
+    const emailKeys = new Set(Object.keys(definition.fields).filter(field => /email/i.test(keyFor(field))))
+    let created = 0
+    let updated = 0
+
+    definition.stagedRows.forEach((row, recordIndex) => {
+      const invalidFields = Object.keys(row).filter(field =>
+        !(field in definition.fields) || (emailKeys.has(field) && row[field] && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(String(row[field]))))
+      const identifier = String(row[definition.identifierFieldName!] ?? '').trim()
+      if (invalidFields.length > 0 || !identifier) {
+        sync.rejects.push({
+          recordIndex,
+          statusCode: invalidFields.length > 0 ? 'ELQ-00040' : 'ELQ-00034',
+          message: invalidFields.length > 0 ? `Invalid value for ${invalidFields.join(', ')}` : 'The identifier field is blank',
+          invalidFields: invalidFields.length > 0 ? invalidFields : [definition.identifierFieldName!],
+          fieldValues: row
+        })
+        return
+      }
+
+      let record = records.find(candidate => String(candidate[identifierKey] ?? '').toLowerCase() === identifier.toLowerCase())
+      if (!record) {
+        record = { [idKey]: String(++this.data.nextId) }
+        records.push(record)
+        created++
+      } else {
+        updated++
+      }
+      for (const [field, value] of Object.entries(row)) {
+        const key = keyFor(field)
+        if (key !== idKey) {
+          record[key] = String(value ?? '')
+        }
+      }
+    })
+
+    sync.logs.push(this.log('information', 'ELQ-00001', 'Total records processed.', definition.stagedRows.length))
+    sync.logs.push(this.log('information', 'ELQ-00004', 'Records created.', created))
+    sync.logs.push(this.log('information', 'ELQ-00022', 'Records updated.', updated))
+    if (sync.rejects.length > 0) {
+      sync.finalStatus = 'warning'
+      sync.logs.push(this.log('warning', 'ELQ-00144', 'Records rejected.', sync.rejects.length))
+    }
+    definition.stagedRows = []
+  }
+
+  private static log(severity: string, statusCode: string, message: string, count?: number) {
+    return { severity, statusCode, message, count, createdAt: new Date().toISOString() }
+  }
+
+  private static syncBody(sync: MockSync) {
+    return {
+      syncedInstanceUri: sync.syncedInstanceUri,
+      syncStartedAt: sync.syncStartedAt,
+      syncEndedAt: sync.syncEndedAt,
+      status: sync.status,
+      createdAt: sync.createdAt,
+      createdBy: sync.createdBy,
+      uri: `/syncs/${sync.id}`
+    }
+  }
+
+  private static pollSync(id: number): MockResponse {
+    const sync = this.data.syncs.get(id)
+    if (!sync) {
+      return { status: 404 }
+    }
+
+    if (sync.status === 'pending' || sync.status === 'active') {
+      if (sync.pollsRemaining > 0) {
+        sync.pollsRemaining--
+        sync.status = 'active'
+        sync.syncStartedAt = sync.syncStartedAt || new Date().toISOString()
+      }
+      if (sync.pollsRemaining === 0) {
+        sync.status = sync.finalStatus
+        sync.syncEndedAt = new Date().toISOString()
+      }
+    }
+    return { status: 200, body: this.syncBody(sync) }
+  }
+
+  private static deleteSync(id: number): MockResponse {
+    const sync = this.data.syncs.get(id)
+    if (!sync) {
+      return { status: 404 }
+    }
+    if (sync.status === 'pending' || sync.status === 'active') {
+      return { status: 409, body: { failures: [{ field: 'status', constraint: 'A sync that is still running cannot be deleted' }] } }
+    }
+    this.data.syncs.delete(id)
+    return { status: 204 }
+  }
+
+  private static syncItems(request: MockRequest, id: number, kind: 'data' | 'logs' | 'rejects'): MockResponse {
+    const sync = this.data.syncs.get(id)
+    if (!sync) {
+      return { status: 404 }
+    }
+    const syncUri = `/syncs/${id}`
+    const items = kind === 'data'
+      ? sync.data
+      : (kind === 'logs' ? sync.logs : sync.rejects).map(item => ({ ...item, syncUri }))
+    return this.bulkPage(request, items)
+  }
+}
@@ -0,0 +1,371 @@
+import { app, session } from 'electron'
+import { promises as fs } from 'fs'
+import * as http from 'http'
+import * as https from 'https'
+import * as path from 'path'
+import * as tls from 'tls'
+import { Duplex } from 'stream'
+import { EloquaNetworkSettings, EloquaNetworkSettingsUpdate, EloquaProxyMode } from '../shared/apiTypes'
+import { SecureCredentialManager } from './secureCredentialManager'
+
+// Transport settings merged into an axios request config
+export interface NetworkRequestConfig {
+  httpsAgent?: https.Agent
+  // Proxies are handled by the agent; this stops axios from applying HTTP(S)_PROXY on its own
+  proxy: false
+}
+
+type StoredNetworkSettings = Omit<EloquaNetworkSettings, 'hasProxyPassword'>
+
+const PROXY_MODES: EloquaProxyMode[] = ['direct', 'system', 'pac', 'manual']
+const MAX_CA_BUNDLES = 20
+// Sign-ins with an override send the credentials there, so it must be an Eloqua pod
+const ELOQUA_POD_HOST = /^[a-z0-9-]+(\.[a-z0-9-]+)*\.eloqua\.com$/i
+
+/**
+ * HTTPS agent that reaches its targets through an HTTP(S) proxy. Each
+ * connection opens a CONNECT tunnel and runs TLS to Eloqua inside it, so a
+ * re-signing proxy is only trusted when its CA is in the agent's bundle.
+ */
+class ProxyTunnelAgent extends https.Agent {
+  constructor(private readonly proxy: URL, private readonly proxyAuthorization: string | undefined, options: https.AgentOptions) {
+    super(options)
+  }
+
+  // Returns nothing so the agent waits for the callback once the tunnel is open
+  createConnection(options: any, callback: (error: Error | null, socket?: Duplex) => void): any {
+    const target = `${options.host}:${options.port}`
+    const useTls = this.proxy.protocol === 'https:'
+    const connectOptions: https.RequestOptions = {
+      host: this.proxy.hostname,
+      port: Number(this.proxy.port) || (useTls ? 443 : 80),
+      method: 'CONNECT',
+      path: target,
+      headers: this.proxyAuthorization
+        ? { Host: target, 'Proxy-Authorization': this.proxyAuthorization }
+        : { Host: target },
+      // An HTTPS proxy's own certificate may come from the extra bundles too
+      ca: this.options.ca,
+      timeout: options.timeout
+    }
+
+    let settled = false
+    const finish = (error: Error | null, socket?: Duplex) => {
+      if (!settled) {
+        settled = true
+        callback(error, socket)
+      }
+    }
+
+    const request = (useTls ? https : http).request(connectOptions)
+    request.once('connect', (response, socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy()
+        finish(new Error(response.statusCode === 407
+          ? 'Proxy authentication failed (407). Check the proxy username and password in the network settings.'
+          : `Proxy refused the connection to ${target} (${response.statusCode} ${response.statusMessage || ''})`.trim()))
+        return
+      }
+      finish(null, tls.connect({ ...options, socket, servername: options.servername || options.host }))
+    })
+    request.once('timeout', () => request.destroy(new Error(`Proxy ${this.proxy.host} did not respond`)))
+    request.once('error', error => finish(error))
+    request.end()
+  }
+}
+
+/**
+ * Proxy, trusted CA and base URL settings for corporate networks, stored in
+ * userData/network-settings.json with the proxy password in the OS keychain.
+ * Every request the main process sends to Eloqua (sign-in, OAuth tokens and
+ * API calls) takes its agent from here.
+ */
+export class NetworkSettings {
+  private static settings: StoredNetworkSettings | null = null
+  // PEM certificates for the agents, undefined when only the built-in CAs are trusted
+  private static caCertificates: Promise<string[] | undefined> | null = null
+  private static agents = new Map<string, https.Agent>()
+  // Session used only to evaluate the OS proxy settings and PAC scripts
+  private static resolver: Promise<Electron.Session> | null = null
+  // CA bundles picked in the main-process file dialog; no other new path is accepted
+  private static chosenCaBundles = new Set<string>()
+
+  private static get filePath(): string {
+    return path.join(app.getPath('userData'), 'network-settings.json')
+  }
+
+  static async getSettings(): Promise<EloquaNetworkSettings> {
+    const settings = await this.load()
+    return {
+      ...settings,
+      caBundlePaths: [...settings.caBundlePaths],
+      hasProxyPassword: !!(await SecureCredentialManager.getProxyPassword())
+    }
+  }
+
+  /**
+   * Lets setSettings accept a CA bundle the user picked in the file dialog
+   * @param bundlePath - Path the dialog returned
+   */
+  static allowCaBundle(bundlePath: string) {
+    this.chosenCaBundles.add(bundlePath)
+  }
+
+  /**
+   * Validates and saves new settings. Open connections are dropped so the next
+   * request uses them.
+   * @param update - New settings, with the proxy password when it changes
+   * @param confirmBaseUrlOverride - Asks the user whether sign-ins may go to a new override
+   * @returns Promise<EloquaNetworkSettings> - Settings now in effect
+   * @throws Error - When a CA bundle was neither stored before nor picked in the file dialog, or the new override was not confirmed
+   */
+  static async setSettings(
+    update: EloquaNetworkSettingsUpdate,
+    confirmBaseUrlOverride: (baseUrl: string) => Promise<boolean>
+  ): Promise<EloquaNetworkSettings> {
+    const settings = this.validate(update)
+    const stored = await this.load()
+    for (const bundlePath of settings.caBundlePaths) {
+      if (!stored.caBundlePaths.includes(bundlePath) && !this.chosenCaBundles.has(bundlePath)) {
+        throw new Error('Invalid network settings: CA bundles must be added with Add PEM Bundle')
+      }
+    }
+    if (settings.baseUrlOverride && settings.baseUrlOverride !== stored.baseUrlOverride && !await confirmBaseUrlOverride(settings.baseUrlOverride)) {
+      throw new Error('The base URL override was not confirmed, so the settings were not saved')
+    }
+    // Reject unreadable bundles now rather than on the next request
+    const certificates = await this.readCaBundles(settings.caBundlePaths)
+
+    if (update.proxyPassword !== undefined) {
+      if (typeof update.proxyPassword !== 'string' || update.proxyPassword.length > 500) {
+        throw new Error('Invalid network settings: proxy password is too long')
+      }
+      await SecureCredentialManager.storeProxyPassword(update.proxyPassword || null)
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.writeFile(this.filePath, JSON.stringify(settings, null, 2), 'utf8')
+
+    this.settings = settings
+    this.resetConnections()
+    this.caCertificates = Promise.resolve(certificates)
+    return this.getSettings()
+  }
+
+  /**
+   * Works out how a request is sent: directly or through the proxy in effect
+   * for its URL, trusting the extra CA bundles either way
+   * @param url - Full URL of the request
+   * @returns Promise<NetworkRequestConfig> - Fields to merge into the axios config
+   */
+  static async getRequestConfig(url: string): Promise<NetworkRequestConfig> {
+    const target = new URL(url)
+    // The demo instance runs on this machine and is never proxied
+    if (target.protocol !== 'https:' || this.isLoopback(target.hostname)) {
+      return { proxy: false }
+    }
+
+    const settings = await this.load()
+    const proxy = await this.resolveProxy(settings, target)
+    const key = proxy ? proxy.href : 'direct'
+
+    let agent = this.agents.get(key)
+    if (!agent) {
+      const options: https.AgentOptions = { keepAlive: true, ca: await this.getCaCertificates(settings) }
+      agent = proxy
+        ? new ProxyTunnelAgent(proxy, await this.getProxyAuthorization(settings), options)
+        : new https.Agent(options)
+      this.agents.set(key, agent)
+    }
+    return { httpsAgent: agent, proxy: false }
+  }
+
+  // Used at sign-in only: the session keeps the pod it signed in to, so a later
+  // change of the override never sends an open session's credentials elsewhere
+  static async getBaseUrlOverride(): Promise<string | undefined> {
+    return (await this.load()).baseUrlOverride
+  }
+
+  private static async load(): Promise<StoredNetworkSettings> {
+    if (!this.settings) {
+      try {
+        this.settings = this.validate(JSON.parse(await fs.readFile(this.filePath, 'utf8')))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.warn('Ignoring invalid network settings:', error instanceof Error ? error.message : error)
+        }
+        this.settings = { proxyMode: 'direct', caBundlePaths: [] }
+      }
+    }
+    return this.settings
+  }
+
+  private static validate(input: any): StoredNetworkSettings {
+    if (!input || typeof input !== 'object') {
+      throw new Error('Invalid network settings')
+    }
+    const fail = (message: string): never => {
+      throw new Error(`Invalid network settings: ${message}`)
+    }
+
+    const proxyMode: EloquaProxyMode = input.proxyMode
+    if (!PROXY_MODES.includes(proxyMode)) {
+      fail('unknown proxy mode')
+    }
+    const settings: StoredNetworkSettings = { proxyMode, caBundlePaths: [] }
+
+    if (proxyMode === 'manual') {
+      const proxyUrl = this.parseUrl(input.proxyUrl, ['http:', 'https:']) || fail('proxy URL must be an http:// or https:// URL')
+      if (proxyUrl.username || proxyUrl.password) {
+        fail('enter the proxy credentials in the username and password fields, not in the URL')
+      }
+      settings.proxyUrl = proxyUrl.origin
+    }
+    if (proxyMode === 'pac') {
+      settings.pacUrl = (this.parseUrl(input.pacUrl, ['http:', 'https:', 'file:']) || fail('PAC URL must be an http://, https:// or file:// URL')).href
+    }
+
+    if (input.proxyUsername !== undefined && input.proxyUsername !== '') {
+      if (typeof input.proxyUsername !== 'string' || input.proxyUsername.length > 200) {
+        fail('proxy username is too long')
+      }
+      settings.proxyUsername = input.proxyUsername
+    }
+
+    const caBundlePaths = input.caBundlePaths ?? []
+    if (!Array.isArray(caBundlePaths) || caBundlePaths.length > MAX_CA_BUNDLES) {
+      fail(`at most ${MAX_CA_BUNDLES} CA bundles are supported`)
+    }
+    for (const bundlePath of caBundlePaths) {
+      if (typeof bundlePath !== 'string' || !path.isAbsolute(bundlePath)) {
+        fail('CA bundle paths must be absolute')
+      }
+    }
+    settings.caBundlePaths = caBundlePaths
+
+    if (input.baseUrlOverride) {
+      const baseUrl = this.parseUrl(input.baseUrlOverride, ['https:']) || fail('base URL override must be an https:// URL')
+      if (!ELOQUA_POD_HOST.test(baseUrl.hostname) || baseUrl.port) {
+        fail('base URL override must be an Eloqua pod, e.g. https://secure.p03.eloqua.com')
+      }
+      settings.baseUrlOverride = baseUrl.origin
+    }
+
+    return settings
+  }
+
+  private static parseUrl(value: unknown, protocols: string[]): URL | null {
+    if (typeof value !== 'string' || value.length > 2000) {
+      return null
+    }
+    try {
+      const url = new URL(value.trim())
+      return protocols.includes(url.protocol) ? url : null
+    } catch {
+      return null
+    }
+  }
+
+  // Built-in CAs plus the extra bundles; passing `ca` replaces Node's defaults, so both are needed
+  private static async readCaBundles(bundlePaths: string[]): Promise<string[] | undefined> {
+    if (bundlePaths.length === 0) {
+      return undefined
+    }
+
+    const certificates = [...tls.rootCertificates]
+    for (const bundlePath of bundlePaths) {
+      let pem: string
+      try {
+        pem = await fs.readFile(bundlePath, 'utf8')
+      } catch (error) {
+        throw new Error(`Cannot read CA bundle ${bundlePath}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+      if (!pem.includes('-----BEGIN CERTIFICATE-----')) {
+        throw new Error(`${bundlePath} is not a PEM certificate bundle`)
+      }
+      certificates.push(pem)
+    }
+    return certificates
+  }
+
+  private static getCaCertificates(settings: StoredNetworkSettings): Promise<string[] | undefined> {
+    if (!this.caCertificates) {
+      this.caCertificates = this.readCaBundles(settings.caBundlePaths).catch(error => {
+        // A bundle that went missing since it was saved should not block every request
+        console.warn('Using the built-in certificate authorities only:', error instanceof Error ? error.message : error)
+        return undefined
+      })
+    }
+    return this.caCertificates
+  }
+
+  private static async resolveProxy(settings: StoredNetworkSettings, target: URL): Promise<URL | null> {
+    switch (settings.proxyMode) {
+      case 'manual':
+        return new URL(settings.proxyUrl!)
+      case 'system':
+      case 'pac': {
+        const resolver = await this.getResolver(settings)
+        return this.parseProxyList(await resolver.resolveProxy(target.href))
+      }
+      default:
+        return null
+    }
+  }
+
+  private static getResolver(settings: StoredNetworkSettings): Promise<Electron.Session> {
+    if (!this.resolver) {
+      const resolverSession = session.fromPartition('network-settings')
+      const config: Electron.Config = settings.proxyMode === 'pac'
+        ? { mode: 'pac_script', pacScript: settings.pacUrl }
+        : { mode: 'system' }
+      this.resolver = resolverSession.setProxy(config).then(() => resolverSession)
+    }
+    return this.resolver
+  }
+
+  /**
+   * Picks the first usable entry of a PAC-style proxy list
+   * @param list - e.g. "PROXY proxy.example.com:8080; DIRECT"
+   * @returns URL | null - The proxy, or null for a direct connection
+   */
+  private static parseProxyList(list: string): URL | null {
+    let sawSocks = false
+    for (const entry of list.split(';').map(part => part.trim()).filter(Boolean)) {
+      const [kind, hostPort] = entry.split(/\s+/)
+      switch (kind.toUpperCase()) {
+        case 'DIRECT':
+          return null
+        case 'PROXY':
+          return new URL(`http://${hostPort}`)
+        case 'HTTPS':
+          return new URL(`https://${hostPort}`)
+        default:
+          sawSocks = true
+      }
+    }
+    if (sawSocks) {
+      throw new Error('The system or PAC settings name a SOCKS proxy, which is not supported. Enter an HTTP proxy manually instead.')
+    }
+    return null
+  }
+
+  private static async getProxyAuthorization(settings: StoredNetworkSettings): Promise<string | undefined> {
+    if (!settings.proxyUsername) {
+      return undefined
+    }
+    const password = (await SecureCredentialManager.getProxyPassword()) || ''
+    return `Basic ${Buffer.from(`${settings.proxyUsername}:${password}`).toString('base64')}`
+  }
+
+  private static resetConnections() {
+    this.agents.forEach(agent => agent.destroy())
+    this.agents.clear()
+    this.caCertificates = null
+    this.resolver = null
+  }
+
+  private static isLoopback(hostname: string): boolean {
+    return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]'
+  }
+}
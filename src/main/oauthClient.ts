@@ -0,0 +1,213 @@
+import { createServer, Server } from 'http'
+import { randomBytes } from 'crypto'
+import { shell } from 'electron'
+import axios from 'axios'
+import { NetworkSettings } from './networkSettings'
+
+export interface OAuthClientCredentials {
+  clientId: string
+  clientSecret: string
+}
+
+export interface OAuthTokens {
+  accessToken: string
+  refreshToken?: string
+  tokenType: string
+  // Epoch milliseconds
+  expiresAt: number
+}
+
+export class EloquaOAuthClient {
+  private static readonly DEFAULT_LOGIN_URL = 'https://login.eloqua.com'
+  private static readonly DEFAULT_REDIRECT_PORT = 48321
+  private static readonly CALLBACK_PATH = '/oauth/callback'
+  private static readonly AUTHORIZE_TIMEOUT_MS = 5 * 60 * 1000
+  private static readonly DEFAULT_EXPIRES_IN_SECONDS = 8 * 60 * 60
+
+  /**
+   * Base URL of the Eloqua login service. ELOQUA_LOGIN_URL points the app at a
+   * local stand-in (http is only accepted for localhost/127.0.0.1).
+   * @returns string
+   */
+  static getLoginBaseUrl(): string {
+    const override = process.env.ELOQUA_LOGIN_URL
+    if (!override) {
+      return this.DEFAULT_LOGIN_URL
+    }
+
+    try {
+      const url = new URL(override)
+      const isLoopback = url.hostname === 'localhost' || url.hostname === '127.0.0.1'
+      if (url.protocol === 'https:' || (url.protocol === 'http:' && isLoopback)) {
+        return url.origin
+      }
+    } catch {
+      // Fall through to the default below
+    }
+
+    console.warn('Ignoring invalid ELOQUA_LOGIN_URL, using the default login service')
+    return this.DEFAULT_LOGIN_URL
+  }
+
+  static getRedirectUri(port: number = this.DEFAULT_REDIRECT_PORT): string {
+    return `http://127.0.0.1:${port}${this.CALLBACK_PATH}`
+  }
+
+  /**
+   * Runs the authorization-code flow: opens the Eloqua consent page in the
+   * system browser and receives the code on a loopback redirect
+   * @param client - Client id and secret of the Eloqua app
+   * @param port - Loopback port registered as the app's redirect URI
+   * @returns Promise<{tokens: OAuthTokens, redirectUri: string}>
+   */
+  static async authorizeWithBrowser(client: OAuthClientCredentials, port: number = this.DEFAULT_REDIRECT_PORT): Promise<{ tokens: OAuthTokens, redirectUri: string }> {
+    const state = randomBytes(16).toString('hex')
+    const redirectUri = this.getRedirectUri(port)
+
+    const code = await new Promise<string>((resolve, reject) => {
+      let server: Server | null = null
+      const timer = setTimeout(() => finish(new Error('Timed out waiting for the Eloqua sign-in to complete')), this.AUTHORIZE_TIMEOUT_MS)
+
+      const finish = (error: Error | null, value?: string) => {
+        clearTimeout(timer)
+        server?.close()
+        if (error) {
+          reject(error)
+        } else {
+          resolve(value!)
+        }
+      }
+
+      server = createServer((req, res) => {
+        const url = new URL(req.url || '/', redirectUri)
+        if (url.pathname !== this.CALLBACK_PATH) {
+          res.writeHead(404)
+          res.end()
+          return
+        }
+
+        const error = url.searchParams.get('error')
+        const returnedCode = url.searchParams.get('code')
+        const success = !error && !!returnedCode && url.searchParams.get('state') === state
+
+        res.writeHead(success ? 200 : 400, { 'Content-Type': 'text/html; charset=utf-8' })
+        res.end(success
+          ? '<p>Signed in to Eloqua. You can close this window and return to Eloqua Admin Toolbox.</p>'
+          : '<p>Eloqua sign-in failed. Please return to Eloqua Admin Toolbox and try again.</p>')
+
+        if (error) {
+          finish(new Error(`Eloqua sign-in was not completed: ${error}`))
+        } else if (!success) {
+          finish(new Error('Invalid OAuth callback (missing code or state mismatch)'))
+        } else {
+          finish(null, returnedCode!)
+        }
+      })
+
+      server.on('error', (error: NodeJS.ErrnoException) => {
+        finish(new Error(error.code === 'EADDRINUSE'
+          ? `Redirect port ${port} is already in use`
+          : `Failed to start OAuth redirect listener: ${error.message}`))
+      })
+
+      server.listen(port, '127.0.0.1', () => {
+        const authorizeUrl = new URL('/auth/oauth2/authorize', this.getLoginBaseUrl())
+        authorizeUrl.searchParams.set('response_type', 'code')
+        authorizeUrl.searchParams.set('client_id', client.clientId)
+        authorizeUrl.searchParams.set('redirect_uri', redirectUri)
+        authorizeUrl.searchParams.set('scope', 'full')
+        authorizeUrl.searchParams.set('state', state)
+
+        shell.openExternal(authorizeUrl.toString()).catch(error => {
+          finish(new Error(`Failed to open the browser: ${error instanceof Error ? error.message : 'Unknown error'}`))
+        })
+      })
+    })
+
+    const tokens = await this.requestToken(client, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri
+    })
+
+    return { tokens, redirectUri }
+  }
+
+  /**
+   * Resource-owner password grant
+   * @param client - Client id and secret of the Eloqua app
+   * @param siteName - Eloqua company (site) name
+   * @param username - Eloqua username
+   * @param password - Eloqua password
+   * @returns Promise<OAuthTokens>
+   */
+  static async passwordGrant(client: OAuthClientCredentials, siteName: string, username: string, password: string): Promise<OAuthTokens> {
+    return this.requestToken(client, {
+      grant_type: 'password',
+      scope: 'full',
+      username: `${siteName}\\${username}`,
+      password
+    })
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token
+   * @param client - Client id and secret of the Eloqua app
+   * @param refreshToken - Refresh token from an earlier grant
+   * @param redirectUri - Redirect URI used for the original authorization, if any
+   * @returns Promise<OAuthTokens>
+   */
+  static async refresh(client: OAuthClientCredentials, refreshToken: string, redirectUri?: string): Promise<OAuthTokens> {
+    const tokens = await this.requestToken(client, {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      scope: 'full',
+      ...(redirectUri ? { redirect_uri: redirectUri } : {})
+    })
+
+    // Eloqua may omit the refresh token when it is unchanged
+    return { ...tokens, refreshToken: tokens.refreshToken || refreshToken }
+  }
+
+  private static async requestToken(client: OAuthClientCredentials, body: Record<string, string>): Promise<OAuthTokens> {
+    if (!client.clientId || !client.clientSecret) {
+      throw new Error('OAuth client id and secret are required')
+    }
+
+    const basic = Buffer.from(`${client.clientId}:${client.clientSecret}`).toString('base64')
+
+    try {
+      const url = `${this.getLoginBaseUrl()}/auth/oauth2/token`
+      const response = await axios.post(url, body, {
+        headers: {
+          'Authorization': `Basic ${basic}`,
+          'Content-Type': 'application/json'
+        },
+        timeout: 15000,
+        ...await NetworkSettings.getRequestConfig(url)
+      })
+
+      const data = response.data || {}
+      if (!data.access_token) {
+        throw new Error('Token response did not include an access token')
+      }
+
+      const expiresIn = Number(data.expires_in) || this.DEFAULT_EXPIRES_IN_SECONDS
+      return {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+        tokenType: data.token_type || 'bearer',
+        expiresAt: Date.now() + expiresIn * 1000
+      }
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        const detail = error.response.data?.error_description || error.response.data?.error || error.message
+        if (error.response.status === 400 || error.response.status === 401) {
+          throw new Error(`OAuth token request rejected: ${detail}`)
+        }
+        throw new Error(`OAuth token request failed (${error.response.status}): ${detail}`)
+      }
+      throw new Error(`OAuth token request failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+}
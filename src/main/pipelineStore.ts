@@ -0,0 +1,68 @@
+import { app } from 'electron'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { Pipeline, validatePipeline } from '../shared/pipeline'
+
+/**
+ * Saved tool pipelines, kept together in userData/pipelines.json, most
+ * recently changed first. Pipelines run in the renderer; this only stores them.
+ */
+export class PipelineStore {
+  private static pipelines: Pipeline[] | null = null
+  // Saves made together would otherwise overwrite each other
+  private static writes: Promise<void> = Promise.resolve()
+
+  private static get filePath(): string {
+    return path.join(app.getPath('userData'), 'pipelines.json')
+  }
+
+  static async list(): Promise<Pipeline[]> {
+    if (!this.pipelines) {
+      try {
+        const stored = JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+        // A pipeline damaged by hand editing is left out rather than breaking the page
+        this.pipelines = Array.isArray(stored) ? stored.filter(pipeline => !validatePipeline(pipeline)) : []
+      } catch {
+        this.pipelines = []
+      }
+    }
+    return [...this.pipelines!]
+  }
+
+  /**
+   * Adds a pipeline or replaces the one with the same id
+   * @param pipeline - Pipeline to store
+   * @returns Promise<Pipeline[]> - Saved pipelines
+   */
+  static async save(pipeline: Pipeline): Promise<Pipeline[]> {
+    const problem = validatePipeline(pipeline)
+    if (problem) {
+      throw new Error(problem)
+    }
+
+    await this.enqueue(async () => {
+      const others = (await this.list()).filter(saved => saved.id !== pipeline.id)
+      await this.write([pipeline, ...others])
+    })
+    return this.list()
+  }
+
+  static async delete(id: string): Promise<Pipeline[]> {
+    await this.enqueue(async () => {
+      await this.write((await this.list()).filter(saved => saved.id !== id))
+    })
+    return this.list()
+  }
+
+  private static async write(pipelines: Pipeline[]): Promise<void> {
+    this.pipelines = pipelines
+    await fs.writeFile(this.filePath, JSON.stringify(pipelines, null, 2), 'utf8')
+  }
+
+  private static enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(task)
+    // A failed write is reported to its caller and does not block the next one
+    this.writes = next.catch(() => {})
+    return next
+  }
+}
@@ -0,0 +1,130 @@
+import { app, protocol, shell } from 'electron'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { PLUGIN_SCHEME, ToolPluginInfo, ToolPluginManifest, isPluginApiLevelSupported, validatePluginManifest } from '../shared/pluginManifest'
+
+/**
+ * Tool plugins under userData/plugins. Each folder is named after its plugin id
+ * and holds manifest.json plus the bundle. Plugins are off until enabled on the
+ * Plugins page; the enabled ids are kept in userData/plugin-settings.json. Only
+ * enabled, compatible plugins are served to the renderer, over toolbox-plugin://<id>/.
+ */
+export class PluginStore {
+  private static enabledIds: Set<string> | null = null
+
+  static get rootDir(): string {
+    return path.join(app.getPath('userData'), 'plugins')
+  }
+
+  private static get settingsPath(): string {
+    return path.join(app.getPath('userData'), 'plugin-settings.json')
+  }
+
+  // Must run before the app is ready so bundles can be imported as ES modules
+  static registerScheme() {
+    protocol.registerSchemesAsPrivileged([{
+      scheme: PLUGIN_SCHEME,
+      privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true }
+    }])
+  }
+
+  // Serves the files of enabled plugins; anything else is answered with 404
+  static registerProtocol() {
+    protocol.handle(PLUGIN_SCHEME, async request => {
+      const url = new URL(request.url)
+      const filePath = await this.resolvePluginFile(url.hostname, decodeURIComponent(url.pathname))
+      if (!filePath) {
+        return new Response('Not found', { status: 404 })
+      }
+
+      const body = await fs.readFile(filePath)
+      return new Response(body, {
+        headers: {
+          'Content-Type': /\.m?js$/.test(filePath) ? 'text/javascript' : 'application/octet-stream',
+          // The dev server loads the renderer from another origin
+          'Access-Control-Allow-Origin': '*'
+        }
+      })
+    })
+  }
+
+  static async list(): Promise<ToolPluginInfo[]> {
+    const enabledIds = await this.getEnabledIds()
+
+    let folders: string[]
+    try {
+      const entries = await fs.readdir(this.rootDir, { withFileTypes: true })
+      folders = entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort()
+    } catch {
+      return []
+    }
+
+    return Promise.all(folders.map(async (folder): Promise<ToolPluginInfo> => {
+      let manifest: ToolPluginManifest
+      try {
+        manifest = JSON.parse(await fs.readFile(path.join(this.rootDir, folder, 'manifest.json'), 'utf8'))
+      } catch (error) {
+        return { id: folder, manifest: null, enabled: false, compatible: false, error: `Cannot read manifest.json: ${error instanceof Error ? error.message : 'Unknown error'}` }
+      }
+
+      const problem = validatePluginManifest(manifest)
+        || (manifest.id !== folder ? `Folder name must match the plugin id "${manifest.id}"` : null)
+      return {
+        id: folder,
+        manifest: problem ? null : manifest,
+        enabled: !problem && enabledIds.has(folder),
+        compatible: !problem && isPluginApiLevelSupported(manifest.apiLevel),
+        error: problem || undefined
+      }
+    }))
+  }
+
+  /**
+   * Turns a plugin on or off. The renderer loads plugins once, so the change
+   * applies after the window reloads.
+   * @param id - Plugin id
+   * @param enabled - True to load the plugin from the next reload on
+   * @returns Promise<ToolPluginInfo[]> - Plugins with their new state
+   */
+  static async setEnabled(id: string, enabled: boolean): Promise<ToolPluginInfo[]> {
+    const enabledIds = await this.getEnabledIds()
+    if (enabled) {
+      enabledIds.add(id)
+    } else {
+      enabledIds.delete(id)
+    }
+    await fs.writeFile(this.settingsPath, JSON.stringify({ enabled: Array.from(enabledIds) }), 'utf8')
+    return this.list()
+  }
+
+  static async openFolder(): Promise<void> {
+    await fs.mkdir(this.rootDir, { recursive: true })
+    const error = await shell.openPath(this.rootDir)
+    if (error) {
+      throw new Error(`Failed to open the plugins folder: ${error}`)
+    }
+  }
+
+  private static async getEnabledIds(): Promise<Set<string>> {
+    if (!this.enabledIds) {
+      try {
+        const stored = JSON.parse(await fs.readFile(this.settingsPath, 'utf8'))
+        this.enabledIds = new Set(Array.isArray(stored.enabled) ? stored.enabled.filter((id: unknown) => typeof id === 'string') : [])
+      } catch {
+        this.enabledIds = new Set()
+      }
+    }
+    return this.enabledIds
+  }
+
+  private static async resolvePluginFile(id: string, filePath: string): Promise<string | null> {
+    const plugin = (await this.list()).find(info => info.id === id)
+    if (!plugin || !plugin.enabled || !plugin.compatible) {
+      return null
+    }
+
+    const pluginDir = path.join(this.rootDir, id)
+    const resolved = path.resolve(pluginDir, `.${filePath}`)
+    return resolved.startsWith(pluginDir + path.sep) ? resolved : null
+  }
+}
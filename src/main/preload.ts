@@ -1,4 +1,12 @@
 import { contextBridge, ipcRenderer } from 'electron'
+import type { EloquaApiCallResult, EloquaCachedResponse, EloquaCacheSettings, EloquaNetworkSettings, EloquaNetworkSettingsUpdate, EloquaRequestOptions, EloquaRetryNotice, EloquaTrafficEntry, EloquaTrafficFilter } from '../shared/apiTypes'
+import type { EloquaLoginRequest, EloquaSession } from '../shared/types'
+import type { ToolJobRecord, ToolJobSummary } from '../shared/toolJobs'
+import type { ToolPluginInfo } from '../shared/pluginManifest'
+import type { Pipeline } from '../shared/pipeline'
+import type { ToolSchedule, ToolScheduleStatus } from '../shared/toolSchedule'
+import type { ToolPreset } from '../shared/toolPreset'
+import type { ChangeJournalEntry, ChangeJournalSummary } from '../shared/changeJournal'
 
 // Basic input validation helpers
 function validateString(value: any, maxLength: number = 1000): string {
@@ -41,6 +49,12 @@ export type IpcApi = {
   // CSV export
   exportCsv: (data: any[], fileName: string) => Promise<string>
   
+  // Streaming export files (rows are appended page by page)
+  openExportFile: (fileName: string, format: 'csv' | 'jsonl', columns?: string[]) => Promise<{ fileId: string, filePath: string } | null>
+  appendExportRows: (fileId: string, rows: Array<Record<string, any>>) => Promise<number>
+  closeExportFile: (fileId: string) => Promise<{ filePath: string, rowCount: number }>
+  discardExportFile: (fileId: string) => Promise<void>
+  
   // System info
   getSystemInfo: () => Promise<{
     platform: string
@@ -52,24 +66,104 @@ export type IpcApi = {
   sanitizeFileName: (fileName: string) => Promise<string>
   
   // Eloqua API
-  eloquaTestConnection: (credentials: any) => Promise<any>
   eloquaApiCall: (params: {
-    baseUrl: string
-    authString: string
+    sessionId: string
     method: string
     endpoint: string
     data?: any
-  }) => Promise<any>
+    options?: EloquaRequestOptions
+  }) => Promise<EloquaApiCallResult>
+  eloquaAbortRequest: (requestId: string) => Promise<boolean>
+  onApiRetry: (callback: (notice: EloquaRetryNotice) => void) => () => void
+  
+  // Traffic inspector (entries are redacted in the main process)
+  listTraffic: (filter?: EloquaTrafficFilter) => Promise<EloquaTrafficEntry[]>
+  clearTraffic: () => Promise<void>
+  replayTraffic: (entryId: string, sessionId: string) => Promise<EloquaApiCallResult>
+  exportTrafficHar: (filter?: EloquaTrafficFilter) => Promise<string | null>
+  onTrafficEntry: (callback: (entry: EloquaTrafficEntry) => void) => () => void
+  
+  // Response cache disk tier (the memory tier lives in the renderer)
+  getCachedResponse: (sessionId: string, key: string, group: string) => Promise<EloquaCachedResponse | null>
+  setCachedResponse: (sessionId: string, key: string, group: string, entry: EloquaCachedResponse) => Promise<void>
+  invalidateCachedResponses: (sessionId: string, groups: string[] | null) => Promise<void>
+  clearResponseCache: () => Promise<void>
+  getCacheSettings: () => Promise<EloquaCacheSettings>
+  setCacheSettings: (settings: EloquaCacheSettings) => Promise<EloquaCacheSettings>
+  
+  // Network settings (the proxy password is write-only)
+  getNetworkSettings: () => Promise<EloquaNetworkSettings>
+  setNetworkSettings: (settings: EloquaNetworkSettingsUpdate) => Promise<EloquaNetworkSettings>
+  chooseCaBundle: () => Promise<string | null>
+  
+  // Run history (records include parameters and the result payload)
+  listJobs: () => Promise<ToolJobSummary[]>
+  getJob: (id: string) => Promise<ToolJobRecord | null>
+  saveJob: (record: ToolJobRecord) => Promise<ToolJobSummary>
+  deleteJob: (id: string) => Promise<void>
+  clearJobs: () => Promise<void>
+  
+  // Undo journal (entries include the snapshot of the asset before the change)
+  listChangeJournal: () => Promise<ChangeJournalSummary[]>
+  getChangeJournalEntry: (id: string) => Promise<ChangeJournalEntry | null>
+  saveChangeJournalEntry: (entry: ChangeJournalEntry) => Promise<ChangeJournalSummary>
+  deleteChangeJournalEntry: (id: string) => Promise<void>
+  clearChangeJournal: () => Promise<void>
+  
+  // Saved tool pipelines
+  listPipelines: () => Promise<Pipeline[]>
+  savePipeline: (pipeline: Pipeline) => Promise<Pipeline[]>
+  deletePipeline: (id: string) => Promise<Pipeline[]>
   
+  // Saved parameter presets; export and import show a file dialog and resolve to null when cancelled
+  listPresets: () => Promise<ToolPreset[]>
+  savePreset: (preset: ToolPreset) => Promise<ToolPreset[]>
+  deletePreset: (id: string) => Promise<ToolPreset[]>
+  exportPresets: (toolId?: string) => Promise<string | null>
+  importPresets: () => Promise<{ imported: number, presets: ToolPreset[] } | null>
   
-  // Auth management  
-  getCredentials: () => Promise<any>
-  setCredentials: (credentials: any) => Promise<void>
-  loadStoredCredentials: (siteName: string, username: string) => Promise<any>
+  // Tool schedules (they run in the main process while the app or its tray icon is running)
+  listSchedules: () => Promise<ToolScheduleStatus[]>
+  saveSchedule: (schedule: ToolSchedule) => Promise<ToolScheduleStatus[]>
+  deleteSchedule: (id: string) => Promise<ToolScheduleStatus[]>
+  runScheduleNow: (id: string) => Promise<ToolScheduleStatus[]>
+  chooseScheduleFolder: () => Promise<string | null>
+  onSchedulesChanged: (callback: () => void) => () => void
+  
+  // Tool plugins (changes apply after the window reloads)
+  listPlugins: () => Promise<ToolPluginInfo[]>
+  setPluginEnabled: (id: string, enabled: boolean) => Promise<ToolPluginInfo[]>
+  openPluginsFolder: () => Promise<void>
+  
+  // Auth management (passwords and client secrets are sent once at login and never returned)
+  login: (request: EloquaLoginRequest) => Promise<EloquaSession>
+  logout: (sessionId: string) => Promise<void>
+  getSession: (sessionId: string) => Promise<EloquaSession | null>
+  resumeSession: (siteName: string, username: string) => Promise<EloquaSession | null>
   listStoredAccounts: () => Promise<Array<{siteName: string, username: string}>>
   clearAllCredentials: () => Promise<boolean>
 }
 
+// The part of the API the renderer's Eloqua services call. The command-line
+// runner supplies its own implementation in the main process.
+export type ToolServiceApi = Pick<IpcApi,
+  | 'eloquaApiCall'
+  | 'eloquaAbortRequest'
+  | 'onApiRetry'
+  | 'replayTraffic'
+  | 'getCachedResponse'
+  | 'setCachedResponse'
+  | 'invalidateCachedResponses'
+  | 'clearResponseCache'
+  | 'getCacheSettings'
+  | 'setCacheSettings'
+  | 'openExportFile'
+  | 'appendExportRows'
+  | 'closeExportFile'
+  | 'discardExportFile'
+  | 'saveChangeJournalEntry'
+>
+
 const api: IpcApi = {
   // App utilities
   getVersion: () => ipcRenderer.invoke('app:getVersion'),
@@ -93,6 +187,27 @@ const api: IpcApi = {
     validateString(fileName, 255)
     return ipcRenderer.invoke('csv:export', data, fileName)
   },
+  openExportFile: (fileName, format, columns) => {
+    validateString(fileName, 255)
+    if (columns !== undefined) {
+      validateArray(columns, 1000)
+    }
+    return ipcRenderer.invoke('exportFile:open', fileName, format, columns)
+  },
+  appendExportRows: (fileId, rows) => {
+    validateString(fileId, 100)
+    // One Bulk API page holds up to 50,000 rows
+    validateArray(rows, 50000)
+    return ipcRenderer.invoke('exportFile:append', fileId, rows)
+  },
+  closeExportFile: (fileId) => {
+    validateString(fileId, 100)
+    return ipcRenderer.invoke('exportFile:close', fileId)
+  },
+  discardExportFile: (fileId) => {
+    validateString(fileId, 100)
+    return ipcRenderer.invoke('exportFile:discard', fileId)
+  },
   
   // System info
   getSystemInfo: () => ipcRenderer.invoke('system:getInfo'),
@@ -101,24 +216,208 @@ const api: IpcApi = {
   sanitizeFileName: (fileName) => ipcRenderer.invoke('security:sanitizeFileName', fileName),
   
   // Eloqua API
-  eloquaTestConnection: (credentials) => {
-    validateObject(credentials)
-    return ipcRenderer.invoke('eloqua:testConnection', credentials)
-  },
   eloquaApiCall: (params) => {
     validateObject(params)
-    if (params.baseUrl) validateString(params.baseUrl, 500)
-    if (params.authString) validateString(params.authString, 1000)
+    if (params.sessionId) validateString(params.sessionId, 100)
     if (params.method) validateString(params.method, 10)
     if (params.endpoint) validateString(params.endpoint, 1000)
     return ipcRenderer.invoke('eloqua:apiCall', params)
   },
+  eloquaAbortRequest: (requestId) => {
+    validateString(requestId, 100)
+    return ipcRenderer.invoke('eloqua:abortRequest', requestId)
+  },
+  onApiRetry: (callback) => {
+    const listener = (_event: Electron.IpcRendererEvent, notice: EloquaRetryNotice) => callback(notice)
+    ipcRenderer.on('eloqua:apiRetry', listener)
+    return () => {
+      ipcRenderer.removeListener('eloqua:apiRetry', listener)
+    }
+  },
+  
+  // Traffic inspector
+  listTraffic: (filter) => {
+    if (filter !== undefined) validateObject(filter)
+    return ipcRenderer.invoke('traffic:list', filter)
+  },
+  clearTraffic: () => ipcRenderer.invoke('traffic:clear'),
+  replayTraffic: (entryId, sessionId) => {
+    validateString(entryId, 100)
+    validateString(sessionId, 100)
+    return ipcRenderer.invoke('traffic:replay', entryId, sessionId)
+  },
+  exportTrafficHar: (filter) => {
+    if (filter !== undefined) validateObject(filter)
+    return ipcRenderer.invoke('traffic:exportHar', filter)
+  },
+  onTrafficEntry: (callback) => {
+    const listener = (_event: Electron.IpcRendererEvent, entry: EloquaTrafficEntry) => callback(entry)
+    ipcRenderer.on('eloqua:traffic', listener)
+    return () => {
+      ipcRenderer.removeListener('eloqua:traffic', listener)
+    }
+  },
   
+  // Response cache
+  getCachedResponse: (sessionId, key, group) => {
+    validateString(sessionId, 100)
+    validateString(key, 4000)
+    validateString(group, 50)
+    return ipcRenderer.invoke('responseCache:get', sessionId, key, group)
+  },
+  setCachedResponse: (sessionId, key, group, entry) => {
+    validateString(sessionId, 100)
+    validateString(key, 4000)
+    validateString(group, 50)
+    validateObject(entry)
+    return ipcRenderer.invoke('responseCache:set', sessionId, key, group, entry)
+  },
+  invalidateCachedResponses: (sessionId, groups) => {
+    validateString(sessionId, 100)
+    if (groups !== null) validateArray(groups, 100)
+    return ipcRenderer.invoke('responseCache:invalidate', sessionId, groups)
+  },
+  clearResponseCache: () => ipcRenderer.invoke('responseCache:clear'),
+  getCacheSettings: () => ipcRenderer.invoke('responseCache:getSettings'),
+  setCacheSettings: (settings) => {
+    validateObject(settings)
+    return ipcRenderer.invoke('responseCache:setSettings', settings)
+  },
+  
+  // Network settings
+  getNetworkSettings: () => ipcRenderer.invoke('network:getSettings'),
+  setNetworkSettings: (settings) => {
+    validateObject(settings)
+    if (settings.caBundlePaths !== undefined) validateArray(settings.caBundlePaths, 20)
+    return ipcRenderer.invoke('network:setSettings', settings)
+  },
+  chooseCaBundle: () => ipcRenderer.invoke('network:chooseCaBundle'),
+  
+  // Run history
+  listJobs: () => ipcRenderer.invoke('jobs:list'),
+  getJob: (id) => {
+    validateString(id, 100)
+    return ipcRenderer.invoke('jobs:get', id)
+  },
+  saveJob: (record) => {
+    validateObject(record)
+    validateString(record.id, 100)
+    return ipcRenderer.invoke('jobs:save', record)
+  },
+  deleteJob: (id) => {
+    validateString(id, 100)
+    return ipcRenderer.invoke('jobs:delete', id)
+  },
+  clearJobs: () => ipcRenderer.invoke('jobs:clear'),
+  
+  // Undo journal
+  listChangeJournal: () => ipcRenderer.invoke('changeJournal:list'),
+  getChangeJournalEntry: (id) => {
+    validateString(id, 100)
+    return ipcRenderer.invoke('changeJournal:get', id)
+  },
+  saveChangeJournalEntry: (entry) => {
+    validateObject(entry)
+    validateString(entry.id, 100)
+    validateString(entry.endpoint, 500)
+    return ipcRenderer.invoke('changeJournal:save', entry)
+  },
+  deleteChangeJournalEntry: (id) => {
+    validateString(id, 100)
+    return ipcRenderer.invoke('changeJournal:delete', id)
+  },
+  clearChangeJournal: () => ipcRenderer.invoke('changeJournal:clear'),
+  
+  // Saved tool pipelines
+  listPipelines: () => ipcRenderer.invoke('pipelines:list'),
+  savePipeline: (pipeline) => {
+    validateObject(pipeline)
+    validateString(pipeline.id, 100)
+    validateString(pipeline.name, 200)
+    validateArray(pipeline.steps, 50)
+    return ipcRenderer.invoke('pipelines:save', pipeline)
+  },
+  deletePipeline: (id) => {
+    validateString(id, 100)
+    return ipcRenderer.invoke('pipelines:delete', id)
+  },
+  
+  // Saved parameter presets
+  listPresets: () => ipcRenderer.invoke('presets:list'),
+  savePreset: (preset) => {
+    validateObject(preset)
+    validateString(preset.id, 100)
+    validateString(preset.name, 200)
+    validateString(preset.toolId, 100)
+    validateObject(preset.formData)
+    return ipcRenderer.invoke('presets:save', preset)
+  },
+  deletePreset: (id) => {
+    validateString(id, 100)
+    return ipcRenderer.invoke('presets:delete', id)
+  },
+  exportPresets: (toolId) => {
+    if (toolId !== undefined) {
+      validateString(toolId, 100)
+    }
+    return ipcRenderer.invoke('presets:export', toolId)
+  },
+  importPresets: () => ipcRenderer.invoke('presets:import'),
+  
+  // Tool schedules
+  listSchedules: () => ipcRenderer.invoke('schedules:list'),
+  saveSchedule: (schedule) => {
+    validateObject(schedule)
+    validateString(schedule.id, 100)
+    validateString(schedule.name, 200)
+    validateString(schedule.cron, 200)
+    validateString(schedule.outputDir, 1000)
+    validateObject(schedule.parameters)
+    return ipcRenderer.invoke('schedules:save', schedule)
+  },
+  deleteSchedule: (id) => {
+    validateString(id, 100)
+    return ipcRenderer.invoke('schedules:delete', id)
+  },
+  runScheduleNow: (id) => {
+    validateString(id, 100)
+    return ipcRenderer.invoke('schedules:runNow', id)
+  },
+  chooseScheduleFolder: () => ipcRenderer.invoke('schedules:chooseFolder'),
+  onSchedulesChanged: (callback) => {
+    const listener = () => callback()
+    ipcRenderer.on('schedules:changed', listener)
+    return () => {
+      ipcRenderer.removeListener('schedules:changed', listener)
+    }
+  },
+  
+  // Tool plugins
+  listPlugins: () => ipcRenderer.invoke('plugins:list'),
+  setPluginEnabled: (id, enabled) => {
+    validateString(id, 100)
+    return ipcRenderer.invoke('plugins:setEnabled', id, enabled)
+  },
+  openPluginsFolder: () => ipcRenderer.invoke('plugins:openFolder'),
   
   // Auth management
-  getCredentials: () => ipcRenderer.invoke('auth:getCredentials'),
-  setCredentials: (credentials) => ipcRenderer.invoke('auth:setCredentials', credentials),
-  loadStoredCredentials: (siteName, username) => ipcRenderer.invoke('auth:loadStoredCredentials', siteName, username),
+  login: (request) => {
+    validateObject(request)
+    return ipcRenderer.invoke('auth:login', request)
+  },
+  logout: (sessionId) => {
+    validateString(sessionId, 100)
+    return ipcRenderer.invoke('auth:logout', sessionId)
+  },
+  getSession: (sessionId) => {
+    validateString(sessionId, 100)
+    return ipcRenderer.invoke('auth:getSession', sessionId)
+  },
+  resumeSession: (siteName, username) => {
+    validateString(siteName, 100)
+    validateString(username, 200)
+    return ipcRenderer.invoke('auth:resumeSession', siteName, username)
+  },
   listStoredAccounts: () => ipcRenderer.invoke('auth:listStoredAccounts'),
   clearAllCredentials: () => ipcRenderer.invoke('auth:clearAllCredentials'),
 }
@@ -0,0 +1,82 @@
+import { app } from 'electron'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { ToolPreset, validateToolPreset } from '../shared/toolPreset'
+
+/**
+ * Saved parameter presets of all tools, kept together in
+ * userData/presets.json, most recently changed first. They are applied in
+ * the renderer; this only stores them.
+ */
+export class PresetStore {
+  private static presets: ToolPreset[] | null = null
+  // Saves made together would otherwise overwrite each other
+  private static writes: Promise<void> = Promise.resolve()
+
+  private static get filePath(): string {
+    return path.join(app.getPath('userData'), 'presets.json')
+  }
+
+  static async list(): Promise<ToolPreset[]> {
+    if (!this.presets) {
+      try {
+        const stored = JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+        // A preset damaged by hand editing is left out rather than breaking the form
+        this.presets = Array.isArray(stored) ? stored.filter(preset => !validateToolPreset(preset)) : []
+      } catch {
+        this.presets = []
+      }
+    }
+    return [...this.presets!]
+  }
+
+  /**
+   * Adds a preset or replaces the one with the same id
+   * @param preset - Preset to store
+   * @returns Promise<ToolPreset[]> - Saved presets
+   */
+  static async save(preset: ToolPreset): Promise<ToolPreset[]> {
+    return this.saveAll([preset])
+  }
+
+  /**
+   * Adds presets read from a file. A preset with the id of a saved one
+   * replaces it, so importing a colleague's updated file updates their presets.
+   * @param presets - Presets to store
+   * @returns Promise<ToolPreset[]> - Saved presets
+   */
+  static async saveAll(presets: ToolPreset[]): Promise<ToolPreset[]> {
+    for (const preset of presets) {
+      const problem = validateToolPreset(preset)
+      if (problem) {
+        throw new Error(problem)
+      }
+    }
+
+    await this.enqueue(async () => {
+      const ids = new Set(presets.map(preset => preset.id))
+      const others = (await this.list()).filter(saved => !ids.has(saved.id))
+      await this.write([...presets, ...others])
+    })
+    return this.list()
+  }
+
+  static async delete(id: string): Promise<ToolPreset[]> {
+    await this.enqueue(async () => {
+      await this.write((await this.list()).filter(saved => saved.id !== id))
+    })
+    return this.list()
+  }
+
+  private static async write(presets: ToolPreset[]): Promise<void> {
+    this.presets = presets
+    await fs.writeFile(this.filePath, JSON.stringify(presets, null, 2), 'utf8')
+  }
+
+  private static enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(task)
+    // A failed write is reported to its caller and does not block the next one
+    this.writes = next.catch(() => {})
+    return next
+  }
+}
@@ -0,0 +1,131 @@
+export interface RateGovernorLimits {
+  requestsPerSecond: number
+  maxConcurrent: number
+}
+
+interface InstanceState {
+  active: number
+  nextSlotAt: number
+  pausedUntil: number
+  waiters: Array<() => void>
+}
+
+function createAbortedWaitError(): Error {
+  const error = new Error('Request cancelled while waiting for the rate limit')
+  error.name = 'AbortError'
+  return error
+}
+
+/**
+ * Paces outgoing requests per Eloqua instance. Calls for the same instance share
+ * a concurrency cap and a requests-per-second budget, and a 429 Retry-After
+ * pauses the whole instance rather than only the request that received it.
+ */
+export class RateGovernor {
+  private readonly instances = new Map<string, InstanceState>()
+
+  constructor(private limits: RateGovernorLimits) {}
+
+  /**
+   * Runs a task once the instance has a free concurrency slot and rate budget
+   * @param key - Instance identifier (the Eloqua base URL)
+   * @param task - The request to run
+   * @param signal - Aborts the wait for a slot; the task gets its own signal
+   * @returns Promise<T> - The task's result
+   * @throws Error - An AbortError when the signal fires before the task starts
+   */
+  async schedule<T>(key: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(key, signal)
+    try {
+      return await task()
+    } finally {
+      this.release(key)
+    }
+  }
+
+  /**
+   * Holds back every request for an instance, e.g. after a 429 with Retry-After
+   * @param key - Instance identifier
+   * @param durationMs - How long to pause
+   */
+  pause(key: string, durationMs: number): void {
+    const state = this.getState(key)
+    state.pausedUntil = Math.max(state.pausedUntil, Date.now() + durationMs)
+  }
+
+  setLimits(limits: Partial<RateGovernorLimits>): void {
+    this.limits = { ...this.limits, ...limits }
+  }
+
+  reset(key: string): void {
+    this.instances.delete(key)
+  }
+
+  private getState(key: string): InstanceState {
+    let state = this.instances.get(key)
+    if (!state) {
+      state = { active: 0, nextSlotAt: 0, pausedUntil: 0, waiters: [] }
+      this.instances.set(key, state)
+    }
+    return state
+  }
+
+  private async acquire(key: string, signal?: AbortSignal): Promise<void> {
+    const state = this.getState(key)
+
+    while (state.active >= this.limits.maxConcurrent) {
+      await this.waitForAbortable(signal, resolve => {
+        state.waiters.push(resolve)
+        // An aborted waiter leaves the queue, so a released slot goes to the next one
+        return () => {
+          const index = state.waiters.indexOf(resolve)
+          if (index >= 0) state.waiters.splice(index, 1)
+        }
+      })
+    }
+    state.active++
+
+    // Reserve the next free slot in the per-second budget
+    const now = Date.now()
+    const slot = Math.max(now, state.nextSlotAt, state.pausedUntil)
+    state.nextSlotAt = slot + 1000 / this.limits.requestsPerSecond
+
+    if (slot > now) {
+      try {
+        await this.waitForAbortable(signal, resolve => {
+          const timer = setTimeout(resolve, slot - now)
+          return () => clearTimeout(timer)
+        })
+      } catch (error) {
+        this.release(key)
+        throw error
+      }
+    }
+  }
+
+  // Waits until start's resolve is called, or rejects with an AbortError when
+  // the signal fires first; the function start returns undoes the wait
+  private waitForAbortable(signal: AbortSignal | undefined, start: (resolve: () => void) => () => void): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortedWaitError())
+        return
+      }
+      const onAbort = () => {
+        cancel()
+        reject(createAbortedWaitError())
+      }
+      const cancel = start(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      })
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  private release(key: string): void {
+    const state = this.getState(key)
+    state.active = Math.max(0, state.active - 1)
+    state.waiters.shift()?.()
+  }
+}
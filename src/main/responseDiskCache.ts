@@ -0,0 +1,138 @@
+import { app } from 'electron'
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { EloquaCachedResponse, EloquaCacheSettings } from '../shared/apiTypes'
+import { EloquaSession } from '../shared/types'
+
+/**
+ * Optional on-disk tier of the response cache. Responses are stored under
+ * userData/response-cache, one folder per site and user and one file per
+ * response. File names start with the cache group so a mutation can drop every
+ * response of the same asset type without reading the files.
+ */
+export class ResponseDiskCache {
+  private static settings: EloquaCacheSettings | null = null
+
+  private static get rootDir(): string {
+    return path.join(app.getPath('userData'), 'response-cache')
+  }
+
+  static async getSettings(): Promise<EloquaCacheSettings> {
+    if (!this.settings) {
+      try {
+        const raw = await fs.readFile(path.join(this.rootDir, 'settings.json'), 'utf8')
+        this.settings = { persistent: JSON.parse(raw).persistent === true }
+      } catch {
+        this.settings = { persistent: false }
+      }
+    }
+    return this.settings
+  }
+
+  /**
+   * Saves the cache settings. Turning the disk tier off deletes what it stored.
+   * @param settings - New settings
+   * @returns Promise<EloquaCacheSettings> - Settings now in effect
+   */
+  static async setSettings(settings: EloquaCacheSettings): Promise<EloquaCacheSettings> {
+    this.settings = { persistent: settings.persistent === true }
+    if (!this.settings.persistent) {
+      await this.clear()
+    }
+    await fs.mkdir(this.rootDir, { recursive: true })
+    await fs.writeFile(path.join(this.rootDir, 'settings.json'), JSON.stringify(this.settings), 'utf8')
+    return this.settings
+  }
+
+  /**
+   * Reads a stored response
+   * @param session - Session the response belongs to
+   * @param key - Cache key
+   * @param group - Cache group of the key
+   * @returns Promise<EloquaCachedResponse | null> - The response, or null when missing or expired
+   */
+  static async get(session: EloquaSession, key: string, group: string): Promise<EloquaCachedResponse | null> {
+    if (!(await this.getSettings()).persistent) {
+      return null
+    }
+
+    const filePath = this.getFilePath(session, key, group)
+    try {
+      const entry = JSON.parse(await fs.readFile(filePath, 'utf8')) as EloquaCachedResponse & { key: string }
+      if (entry.key !== key || entry.expiresAt <= Date.now()) {
+        await fs.rm(filePath, { force: true })
+        return null
+      }
+      return { storedAt: entry.storedAt, expiresAt: entry.expiresAt, data: entry.data }
+    } catch {
+      return null
+    }
+  }
+
+  static async set(session: EloquaSession, key: string, group: string, entry: EloquaCachedResponse): Promise<void> {
+    if (!(await this.getSettings()).persistent) {
+      return
+    }
+
+    const filePath = this.getFilePath(session, key, group)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, JSON.stringify({ key, ...entry }), 'utf8')
+  }
+
+  /**
+   * Drops stored responses of a session's site and user
+   * @param session - Session whose responses are dropped
+   * @param groups - Cache groups to drop, or null for all of them
+   */
+  static async invalidate(session: EloquaSession, groups: string[] | null): Promise<void> {
+    const dir = this.getScopeDir(session)
+    if (!groups) {
+      await fs.rm(dir, { recursive: true, force: true })
+      return
+    }
+
+    let files: string[]
+    try {
+      files = await fs.readdir(dir)
+    } catch {
+      return
+    }
+
+    const prefixes = groups.map(group => `${this.safeGroup(group)}-`)
+    await Promise.all(files
+      .filter(file => prefixes.some(prefix => file.startsWith(prefix)))
+      .map(file => fs.rm(path.join(dir, file), { force: true })))
+  }
+
+  // Removes every stored response for all sites, keeping the settings file
+  static async clear(): Promise<void> {
+    let entries: string[]
+    try {
+      entries = await fs.readdir(this.rootDir)
+    } catch {
+      return
+    }
+
+    await Promise.all(entries
+      .filter(entry => entry !== 'settings.json')
+      .map(entry => fs.rm(path.join(this.rootDir, entry), { recursive: true, force: true })))
+  }
+
+  private static getScopeDir(session: EloquaSession): string {
+    const scope = `${session.baseUrl}|${session.siteName}|${session.username}`.toLowerCase()
+    return path.join(this.rootDir, this.hash(scope).slice(0, 16))
+  }
+
+  private static getFilePath(session: EloquaSession, key: string, group: string): string {
+    return path.join(this.getScopeDir(session), `${this.safeGroup(group)}-${this.hash(key).slice(0, 32)}.json`)
+  }
+
+  private static safeGroup(group: string): string {
+    return group.toLowerCase().replace(/[^a-z0-9]/g, '')
+  }
+
+  private static hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex')
+  }
+}
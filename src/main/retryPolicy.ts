@@ -0,0 +1,81 @@
+import { EloquaApiErrorInfo, EloquaRequestOptions } from '../shared/apiTypes'
+
+export interface RetrySettings {
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  retryNonIdempotent: boolean
+}
+
+export class RetryPolicy {
+  static readonly DEFAULTS: RetrySettings = {
+    maxRetries: 4,
+    baseDelayMs: 500,
+    maxDelayMs: 30000,
+    retryNonIdempotent: false
+  }
+
+  private static readonly IDEMPOTENT_METHODS = ['GET', 'DELETE']
+  private static readonly MAX_RETRY_AFTER_MS = 120000
+  private static readonly MAX_RETRIES_LIMIT = 10
+
+  /**
+   * Merges per-call options from the renderer with the defaults
+   * @param options - Options sent with eloqua:apiCall
+   * @returns RetrySettings
+   */
+  static resolve(options?: EloquaRequestOptions): RetrySettings {
+    const settings = { ...this.DEFAULTS }
+    if (!options) {
+      return settings
+    }
+
+    if (options.retry === false) {
+      settings.maxRetries = 0
+    } else if (options.retry === true) {
+      settings.retryNonIdempotent = true
+    }
+
+    if (typeof options.maxRetries === 'number' && options.retry !== false) {
+      settings.maxRetries = Math.min(Math.max(Math.floor(options.maxRetries), 0), this.MAX_RETRIES_LIMIT)
+    }
+
+    return settings
+  }
+
+  /**
+   * Decides whether a failed attempt may be sent again
+   * @param method - HTTP method of the request
+   * @param error - Envelope for the failed attempt
+   * @param attempt - Number of retries already made
+   * @param settings - Resolved retry settings
+   * @returns boolean
+   */
+  static shouldRetry(method: string, error: EloquaApiErrorInfo, attempt: number, settings: RetrySettings): boolean {
+    if (attempt >= settings.maxRetries || !error.retryable) {
+      return false
+    }
+    return settings.retryNonIdempotent || this.IDEMPOTENT_METHODS.includes(method.toUpperCase())
+  }
+
+  /**
+   * Computes the wait before the next attempt: Retry-After when the server sent
+   * one, otherwise exponential backoff with full jitter
+   * @param attempt - Number of retries already made
+   * @param error - Envelope for the failed attempt
+   * @param settings - Resolved retry settings
+   * @returns number - Delay in milliseconds
+   */
+  static getDelay(attempt: number, error: EloquaApiErrorInfo, settings: RetrySettings): number {
+    if (error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, this.MAX_RETRY_AFTER_MS)
+    }
+
+    const ceiling = Math.min(settings.maxDelayMs, settings.baseDelayMs * Math.pow(2, attempt))
+    return Math.round(Math.random() * ceiling)
+  }
+
+  static describeReason(error: EloquaApiErrorInfo): string {
+    return error.status !== null ? `HTTP ${error.status}` : error.code || 'network error'
+  }
+}
@@ -0,0 +1,118 @@
+import { app } from 'electron'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { ToolSchedule, ToolScheduleRun, validateToolSchedule } from '../shared/toolSchedule'
+
+interface StoredSchedules {
+  schedules: ToolSchedule[]
+  // Recent runs by schedule id, newest first
+  runs: Record<string, ToolScheduleRun[]>
+}
+
+/**
+ * Tool schedules and their recent runs, kept together in
+ * userData/schedules.json, most recently changed schedule first. ToolScheduler
+ * runs them; this only stores them.
+ */
+export class ScheduleStore {
+  private static stored: StoredSchedules | null = null
+  // Saves and finished runs would otherwise overwrite each other
+  private static writes: Promise<void> = Promise.resolve()
+
+  private static get filePath(): string {
+    return path.join(app.getPath('userData'), 'schedules.json')
+  }
+
+  static async list(): Promise<ToolSchedule[]> {
+    return [...(await this.read()).schedules]
+  }
+
+  static async listRuns(scheduleId: string): Promise<ToolScheduleRun[]> {
+    return [...((await this.read()).runs[scheduleId] || [])]
+  }
+
+  /**
+   * Adds a schedule or replaces the one with the same id. Its runs are kept.
+   * @param schedule - Schedule to store
+   * @returns Promise<ToolSchedule[]> - Saved schedules
+   */
+  static async save(schedule: ToolSchedule): Promise<ToolSchedule[]> {
+    const problem = validateToolSchedule(schedule)
+    if (problem) {
+      throw new Error(problem)
+    }
+    if (!path.isAbsolute(schedule.outputDir)) {
+      throw new Error('The output folder must be an absolute path')
+    }
+
+    await this.enqueue(async () => {
+      const stored = await this.read()
+      const others = stored.schedules.filter(saved => saved.id !== schedule.id)
+      await this.write({ ...stored, schedules: [schedule, ...others] })
+    })
+    return this.list()
+  }
+
+  /**
+   * Deletes a schedule and its run log. Output files are left in place.
+   * @param id - Schedule id
+   * @returns Promise<ToolSchedule[]> - Saved schedules
+   */
+  static async delete(id: string): Promise<ToolSchedule[]> {
+    await this.enqueue(async () => {
+      const stored = await this.read()
+      const { [id]: _dropped, ...runs } = stored.runs
+      await this.write({ schedules: stored.schedules.filter(saved => saved.id !== id), runs })
+    })
+    return this.list()
+  }
+
+  /**
+   * Records a finished run and drops the oldest ones past the limit
+   * @param scheduleId - Schedule the run belongs to
+   * @param run - Finished run
+   * @param keepRuns - Runs to keep
+   * @returns Promise<ToolScheduleRun[]> - Runs dropped; their files are the caller's to delete
+   */
+  static async addRun(scheduleId: string, run: ToolScheduleRun, keepRuns: number): Promise<ToolScheduleRun[]> {
+    let dropped: ToolScheduleRun[] = []
+    await this.enqueue(async () => {
+      const stored = await this.read()
+      // A schedule deleted while it ran keeps no log
+      if (!stored.schedules.some(schedule => schedule.id === scheduleId)) return
+
+      const runs = [run, ...(stored.runs[scheduleId] || [])]
+      dropped = runs.splice(keepRuns)
+      await this.write({ ...stored, runs: { ...stored.runs, [scheduleId]: runs } })
+    })
+    return dropped
+  }
+
+  private static async read(): Promise<StoredSchedules> {
+    if (!this.stored) {
+      try {
+        const stored = JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+        // A schedule damaged by hand editing is left out rather than breaking the page
+        this.stored = {
+          schedules: Array.isArray(stored?.schedules) ? stored.schedules.filter((schedule: unknown) => !validateToolSchedule(schedule)) : [],
+          runs: stored?.runs && typeof stored.runs === 'object' ? stored.runs : {}
+        }
+      } catch {
+        this.stored = { schedules: [], runs: {} }
+      }
+    }
+    return this.stored!
+  }
+
+  private static async write(stored: StoredSchedules): Promise<void> {
+    this.stored = stored
+    await fs.writeFile(this.filePath, JSON.stringify(stored, null, 2), 'utf8')
+  }
+
+  private static enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(task)
+    // A failed write is reported to its caller and does not block the next one
+    this.writes = next.catch(() => {})
+    return next
+  }
+}
@@ -8,9 +8,21 @@ export interface EloquaCredentials {
   userId?: string
 }
 
+export interface StoredOAuthAccount {
+  clientId: string
+  clientSecret: string
+  refreshToken?: string
+  redirectUri?: string
+  baseUrl?: string
+  userId?: string
+}
+
 export class SecureCredentialManager {
   private static readonly SERVICE_NAME = 'eloqua-admin-toolbox'
   private static readonly ACCOUNT_PREFIX = 'eloqua-creds'
+  private static readonly OAUTH_ACCOUNT_PREFIX = 'eloqua-oauth'
+  // Not tied to an Eloqua account, so it is never listed as one
+  private static readonly PROXY_ACCOUNT = 'network-proxy'
   
   /**
    * Securely stores credentials in the OS keychain
@@ -120,16 +132,28 @@ export class SecureCredentialManager {
     try {
       const accounts = await keytar.findCredentials(this.SERVICE_NAME)
       
+      const seen = new Set<string>()
       return accounts
-        .filter(account => account.account.startsWith(this.ACCOUNT_PREFIX))
         .map(account => {
-          const parts = account.account.replace(`${this.ACCOUNT_PREFIX}-`, '').split('-')
+          const prefix = [this.ACCOUNT_PREFIX, this.OAUTH_ACCOUNT_PREFIX].find(p => account.account.startsWith(`${p}-`))
+          if (!prefix) {
+            return { siteName: '', username: '' }
+          }
+          const parts = account.account.replace(`${prefix}-`, '').split('-')
           return {
             siteName: parts[0] || '',
             username: parts.slice(1).join('-') || ''
           }
         })
-        .filter(cred => cred.siteName && cred.username)
+        .filter(cred => {
+          // Accounts with both Basic and OAuth entries are listed once
+          const key = `${cred.siteName}-${cred.username}`
+          if (!cred.siteName || !cred.username || seen.has(key)) {
+            return false
+          }
+          seen.add(key)
+          return true
+        })
     } catch (error) {
       console.error('Failed to list credential accounts:', error)
       return []
@@ -151,6 +175,16 @@ export class SecureCredentialManager {
           allCleared = false
         }
       }
+
+      // OAuth clients and refresh tokens are stored under their own prefix
+      const oauthAccounts = (await keytar.findCredentials(this.SERVICE_NAME))
+        .filter(account => account.account.startsWith(this.OAUTH_ACCOUNT_PREFIX))
+      for (const account of oauthAccounts) {
+        const cleared = await keytar.deletePassword(this.SERVICE_NAME, account.account)
+        if (!cleared) {
+          allCleared = false
+        }
+      }
       
       return allCleared
     } catch (error) {
@@ -159,6 +193,108 @@ export class SecureCredentialManager {
     }
   }
   
+  /**
+   * Stores the OAuth client (and latest refresh token) for an Eloqua account
+   * @param siteName - The site name the client is used with
+   * @param username - The username the client is used with
+   * @param account - Client id, secret and token details
+   * @returns Promise<void>
+   */
+  static async storeOAuthAccount(siteName: string, username: string, account: StoredOAuthAccount): Promise<void> {
+    if (!siteName || !username || !account || !account.clientId || !account.clientSecret) {
+      throw new Error('Invalid OAuth account provided')
+    }
+
+    try {
+      const accountName = `${this.OAUTH_ACCOUNT_PREFIX}-${siteName}-${username}`
+      await keytar.setPassword(this.SERVICE_NAME, accountName, JSON.stringify({
+        ...account,
+        timestamp: Date.now()
+      }))
+    } catch (error) {
+      console.error('Failed to store OAuth account securely:', error)
+      throw new Error('Failed to store OAuth account securely')
+    }
+  }
+
+  /**
+   * Retrieves the OAuth client stored for an Eloqua account
+   * @param siteName - The site name to retrieve the client for
+   * @param username - The username to retrieve the client for
+   * @returns Promise<StoredOAuthAccount | null>
+   */
+  static async getOAuthAccount(siteName: string, username: string): Promise<StoredOAuthAccount | null> {
+    if (!siteName || !username) {
+      return null
+    }
+
+    try {
+      const accountName = `${this.OAUTH_ACCOUNT_PREFIX}-${siteName}-${username}`
+      const accountJson = await keytar.getPassword(this.SERVICE_NAME, accountName)
+      if (!accountJson) {
+        return null
+      }
+
+      const account = JSON.parse(accountJson)
+      if (!account.clientId || !account.clientSecret) {
+        console.warn('Invalid OAuth account structure found in keychain')
+        return null
+      }
+
+      return {
+        clientId: account.clientId,
+        clientSecret: account.clientSecret,
+        refreshToken: account.refreshToken,
+        redirectUri: account.redirectUri,
+        baseUrl: account.baseUrl,
+        userId: account.userId
+      }
+    } catch (error) {
+      console.error('Failed to retrieve OAuth account from keychain:', error)
+      return null
+    }
+  }
+
+  /**
+   * Forgets the refresh token of an account while keeping its client id and secret
+   * @param siteName - The site name of the account
+   * @param username - The username of the account
+   * @returns Promise<void>
+   */
+  static async clearOAuthTokens(siteName: string, username: string): Promise<void> {
+    const account = await this.getOAuthAccount(siteName, username)
+    if (account) {
+      await this.storeOAuthAccount(siteName, username, { ...account, refreshToken: undefined })
+    }
+  }
+
+  /**
+   * Stores or removes the password sent to the network proxy
+   * @param password - The password, or null to remove it
+   * @returns Promise<void>
+   */
+  static async storeProxyPassword(password: string | null): Promise<void> {
+    try {
+      if (password) {
+        await keytar.setPassword(this.SERVICE_NAME, this.PROXY_ACCOUNT, password)
+      } else {
+        await keytar.deletePassword(this.SERVICE_NAME, this.PROXY_ACCOUNT)
+      }
+    } catch (error) {
+      console.error('Failed to store proxy password securely:', error)
+      throw new Error('Failed to store proxy password securely')
+    }
+  }
+
+  static async getProxyPassword(): Promise<string | null> {
+    try {
+      return await keytar.getPassword(this.SERVICE_NAME, this.PROXY_ACCOUNT)
+    } catch (error) {
+      console.error('Failed to retrieve proxy password from keychain:', error)
+      return null
+    }
+  }
+
   /**
    * Creates a secure authentication string from credentials
    * @param credentials - The credentials to create auth string from
@@ -1,6 +1,6 @@
 import { app } from 'electron'
 import * as path from 'path'
-import { InputValidator, EloquaApiValidator } from '../shared/validation'
+import { EloquaApiValidator } from '../shared/validation'
 
 export class SecurityUtils {
   private static allowedDirectories: string[] = []
@@ -101,11 +101,8 @@ export class SecurityUtils {
         if (!apiArgs || typeof apiArgs !== 'object') {
           errors.push('API call arguments must be an object')
         } else {
-          if (!apiArgs.baseUrl || !InputValidator.validateUrl(apiArgs.baseUrl).isValid) {
-            errors.push('Invalid base URL')
-          }
-          if (!apiArgs.authString || typeof apiArgs.authString !== 'string') {
-            errors.push('Invalid auth string')
+          if (!apiArgs.sessionId || typeof apiArgs.sessionId !== 'string' || apiArgs.sessionId.length > 100) {
+            errors.push('Invalid session id')
           }
           if (!apiArgs.method || !['GET', 'POST', 'PUT', 'DELETE', 'PATCH'].includes(apiArgs.method.toUpperCase())) {
             errors.push('Invalid HTTP method')
@@ -118,6 +115,40 @@ export class SecurityUtils {
               errors.push(...endpointValidation.errors)
             }
           }
+          if (apiArgs.options !== undefined) {
+            if (!apiArgs.options || typeof apiArgs.options !== 'object') {
+              errors.push('Invalid request options')
+            } else {
+              if (apiArgs.options.retry !== undefined && typeof apiArgs.options.retry !== 'boolean') {
+                errors.push('Invalid retry option')
+              }
+              if (apiArgs.options.maxRetries !== undefined && typeof apiArgs.options.maxRetries !== 'number') {
+                errors.push('Invalid maxRetries option')
+              }
+              if (apiArgs.options.requestId !== undefined && (typeof apiArgs.options.requestId !== 'string' || apiArgs.options.requestId.length > 100)) {
+                errors.push('Invalid request id')
+              }
+              for (const key of ['runId', 'toolId']) {
+                const value = apiArgs.options[key]
+                if (value !== undefined && (typeof value !== 'string' || value.length > 100)) {
+                  errors.push(`Invalid ${key} option`)
+                }
+              }
+            }
+          }
+        }
+        break
+
+      case 'responseCache:access':
+        const cacheArgs = args[0] || {}
+        if (!cacheArgs.sessionId || typeof cacheArgs.sessionId !== 'string' || cacheArgs.sessionId.length > 100) {
+          errors.push('Invalid session id')
+        }
+        if (cacheArgs.key !== undefined && (typeof cacheArgs.key !== 'string' || cacheArgs.key.length > 4000)) {
+          errors.push('Invalid cache key')
+        }
+        if (cacheArgs.group !== undefined && (typeof cacheArgs.group !== 'string' || !/^[a-z0-9]{1,50}$/.test(cacheArgs.group))) {
+          errors.push('Invalid cache group')
         }
         break
 
@@ -134,11 +165,6 @@ export class SecurityUtils {
     return { valid: errors.length === 0, errors }
   }
 
-  static sanitizeAuthString(authString: string): string {
-    // Remove any potential script injection attempts
-    return authString.replace(/[<>]/g, '')
-  }
-
   static createRateLimiter(maxRequests: number = 100, windowMs: number = 60000) {
     const requests = new Map<string, number[]>()
 
@@ -0,0 +1,199 @@
+import { randomUUID } from 'crypto'
+import { EloquaCredentials, SecureCredentialManager } from './secureCredentialManager'
+import { EloquaOAuthClient, OAuthClientCredentials, OAuthTokens } from './oauthClient'
+import { EloquaAuthMethod, EloquaSession } from '../shared/types'
+
+interface OAuthState {
+  client: OAuthClientCredentials
+  tokens: OAuthTokens
+  redirectUri?: string
+  // In-flight refresh shared by concurrent requests
+  refreshing?: Promise<OAuthTokens>
+}
+
+interface ActiveSession {
+  session: EloquaSession
+  // Basic sessions sign with a fixed header; OAuth sessions with the current token
+  authorization?: string
+  oauth?: OAuthState
+}
+
+/**
+ * Owns the credentials of every signed-in Eloqua session. The renderer only ever
+ * receives an opaque session id; requests are signed here in the main process.
+ */
+export class SessionManager {
+  private static readonly sessions = new Map<string, ActiveSession>()
+
+  // Refresh OAuth tokens this long before they expire
+  private static readonly REFRESH_MARGIN_MS = 60 * 1000
+
+  /**
+   * Opens a session for credentials that have already been verified against Eloqua
+   * @param credentials - Verified credentials
+   * @param baseUrl - Instance base URL returned by the login service
+   * @param userId - Eloqua user id returned by the login service
+   * @param authMethod - 'demo' for sessions against the local demo instance
+   * @returns EloquaSession - Session info without the password
+   */
+  static open(credentials: EloquaCredentials, baseUrl: string, userId?: string, authMethod: EloquaAuthMethod = 'basic'): EloquaSession {
+    const authString = SecureCredentialManager.createAuthString(credentials)
+
+    const session: EloquaSession = {
+      sessionId: randomUUID(),
+      siteName: credentials.siteName,
+      username: credentials.username,
+      baseUrl,
+      userId,
+      authMethod
+    }
+
+    this.sessions.set(session.sessionId, {
+      session,
+      authorization: `Basic ${Buffer.from(authString).toString('base64')}`
+    })
+
+    return session
+  }
+
+  /**
+   * Opens a session signed with OAuth bearer tokens
+   * @param account - Site name, username and instance details from the login service
+   * @param client - Client id and secret the tokens were issued to
+   * @param tokens - Tokens from the initial grant
+   * @param redirectUri - Redirect URI of the authorization-code grant, if used
+   * @returns EloquaSession - Session info without any secrets
+   */
+  static openOAuth(
+    account: { siteName: string; username: string; baseUrl: string; userId?: string },
+    client: OAuthClientCredentials,
+    tokens: OAuthTokens,
+    redirectUri?: string
+  ): EloquaSession {
+    const session: EloquaSession = {
+      sessionId: randomUUID(),
+      siteName: account.siteName,
+      username: account.username,
+      baseUrl: account.baseUrl,
+      userId: account.userId,
+      authMethod: 'oauth'
+    }
+
+    this.sessions.set(session.sessionId, {
+      session,
+      oauth: { client, tokens, redirectUri }
+    })
+
+    return session
+  }
+
+  /**
+   * Opens a session from an account previously stored in the OS keychain. OAuth
+   * accounts are resumed with their refresh token, others with stored credentials.
+   * @param siteName - The site name of the stored account
+   * @param username - The username of the stored account
+   * @returns Promise<EloquaSession | null> - null when nothing usable is stored
+   */
+  static async resume(siteName: string, username: string): Promise<EloquaSession | null> {
+    const oauthAccount = await SecureCredentialManager.getOAuthAccount(siteName, username)
+    if (oauthAccount?.refreshToken && oauthAccount.baseUrl) {
+      const client = { clientId: oauthAccount.clientId, clientSecret: oauthAccount.clientSecret }
+      const tokens = await EloquaOAuthClient.refresh(client, oauthAccount.refreshToken, oauthAccount.redirectUri)
+      await this.persistRefreshToken(siteName, username, tokens)
+
+      return this.openOAuth(
+        { siteName, username, baseUrl: oauthAccount.baseUrl, userId: oauthAccount.userId },
+        client,
+        tokens,
+        oauthAccount.redirectUri
+      )
+    }
+
+    const credentials = await SecureCredentialManager.getCredentials(siteName, username)
+    if (!credentials || !credentials.baseUrl) {
+      return null
+    }
+    return this.open(credentials, credentials.baseUrl, credentials.userId)
+  }
+
+  static get(sessionId: string): EloquaSession | null {
+    return this.sessions.get(sessionId)?.session || null
+  }
+
+  /**
+   * Returns what is needed to sign a request for a session, refreshing OAuth
+   * tokens that are about to expire
+   * @param sessionId - Opaque session id held by the renderer
+   * @returns Promise<{baseUrl: string, authorization: string} | null> - null for unknown or closed sessions
+   */
+  static async getRequestAuth(sessionId: string): Promise<{ baseUrl: string; authorization: string } | null> {
+    const active = this.sessions.get(sessionId)
+    if (!active) {
+      return null
+    }
+
+    if (!active.oauth) {
+      return { baseUrl: active.session.baseUrl, authorization: active.authorization! }
+    }
+
+    const tokens = await this.ensureFreshTokens(active)
+    if (!tokens) {
+      return null
+    }
+    return { baseUrl: active.session.baseUrl, authorization: `Bearer ${tokens.accessToken}` }
+  }
+
+  static close(sessionId: string): EloquaSession | null {
+    const active = this.sessions.get(sessionId)
+    this.sessions.delete(sessionId)
+    return active?.session || null
+  }
+
+  static closeAll(): void {
+    this.sessions.clear()
+  }
+
+  private static async ensureFreshTokens(active: ActiveSession): Promise<OAuthTokens | null> {
+    const oauth = active.oauth!
+    if (oauth.tokens.expiresAt - Date.now() > this.REFRESH_MARGIN_MS) {
+      return oauth.tokens
+    }
+
+    if (!oauth.tokens.refreshToken) {
+      // Nothing to refresh with; keep using the token until Eloqua rejects it
+      return oauth.tokens.expiresAt > Date.now() ? oauth.tokens : null
+    }
+
+    if (!oauth.refreshing) {
+      const { siteName, username } = active.session
+      oauth.refreshing = EloquaOAuthClient.refresh(oauth.client, oauth.tokens.refreshToken, oauth.redirectUri)
+        .then(async tokens => {
+          oauth.tokens = tokens
+          await this.persistRefreshToken(siteName, username, tokens)
+          return tokens
+        })
+        .finally(() => {
+          oauth.refreshing = undefined
+        })
+    }
+
+    try {
+      return await oauth.refreshing
+    } catch (error) {
+      console.error('Failed to refresh OAuth token:', error)
+      return null
+    }
+  }
+
+  // Refresh tokens rotate, so the keychain copy is updated after every grant
+  private static async persistRefreshToken(siteName: string, username: string, tokens: OAuthTokens): Promise<void> {
+    try {
+      const account = await SecureCredentialManager.getOAuthAccount(siteName, username)
+      if (account) {
+        await SecureCredentialManager.storeOAuthAccount(siteName, username, { ...account, refreshToken: tokens.refreshToken })
+      }
+    } catch (error) {
+      console.error('Failed to store refreshed OAuth token:', error)
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { Notification } from 'electron'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { ScheduleStore } from './scheduleStore'
+import { JobHistory } from './jobHistory'
+import { SessionManager } from './sessionManager'
+import { createHeadlessApi, loadHeadlessRunner } from './headlessApi'
+import { formatResultData } from './commandLine'
+import { getNextCronTime } from '../shared/cronExpression'
+import { ToolSchedule, ToolScheduleRun, ToolScheduleStatus, getDatedFileName } from '../shared/toolSchedule'
+import { ToolItemEvent, ToolResult } from '../shared/toolFramework'
+import { createToolJobRecord } from '../shared/toolJobs'
+
+// How often due schedules are looked for; runs start within this of their time
+const TICK_MS = 30 * 1000
+
+interface NextRun {
+  cron: string
+  at: Date | null
+}
+
+export interface ToolSchedulerEvents {
+  // Schedules, their next run times or their runs changed
+  onChange: () => void
+  // The user clicked a failure notification
+  onOpen: () => void
+}
+
+/**
+ * Runs enabled schedules from ScheduleStore while the app is running. Runs go
+ * through the command-line tools bundle, one at a time, so they do not depend
+ * on the window. A time missed while the computer slept runs once on waking;
+ * times that pass while the app is closed are skipped.
+ */
+export class ToolScheduler {
+  private static nextRuns = new Map<string, NextRun>()
+  // Schedules running or waiting for the run before them
+  private static pending = new Set<string>()
+  private static queue: Promise<void> = Promise.resolve()
+  private static timer: ReturnType<typeof setInterval> | null = null
+  private static events: ToolSchedulerEvents = { onChange: () => {}, onOpen: () => {} }
+
+  static async start(events: ToolSchedulerEvents): Promise<void> {
+    this.events = events
+    await this.refresh()
+    this.timer = setInterval(() => this.tick(), TICK_MS)
+  }
+
+  static stop() {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  // Picks up saved or deleted schedules; unchanged ones keep their next run time
+  static async refresh(): Promise<void> {
+    const now = new Date()
+    const nextRuns = new Map<string, NextRun>()
+    for (const schedule of await ScheduleStore.list()) {
+      if (!schedule.enabled) continue
+      const previous = this.nextRuns.get(schedule.id)
+      nextRuns.set(schedule.id, previous && previous.cron === schedule.cron
+        ? previous
+        : { cron: schedule.cron, at: getNextCronTime(schedule.cron, now) })
+    }
+    this.nextRuns = nextRuns
+    this.events.onChange()
+  }
+
+  static hasEnabledSchedules(): boolean {
+    return this.nextRuns.size > 0
+  }
+
+  static async getStatuses(): Promise<ToolScheduleStatus[]> {
+    const schedules = await ScheduleStore.list()
+    return Promise.all(schedules.map(async schedule => ({
+      schedule,
+      nextRunAt: this.nextRuns.get(schedule.id)?.at?.toISOString(),
+      running: this.pending.has(schedule.id),
+      runs: await ScheduleStore.listRuns(schedule.id)
+    })))
+  }
+
+  /**
+   * Runs a schedule now, whether or not it is enabled
+   * @param id - Schedule id
+   * @throws Error - When the schedule is already running
+   */
+  static runNow(id: string) {
+    if (this.pending.has(id)) {
+      throw new Error('This schedule is already running')
+    }
+    this.enqueue(id)
+  }
+
+  private static tick() {
+    const now = new Date()
+    for (const [id, next] of this.nextRuns) {
+      if (next.at && next.at <= now) {
+        next.at = getNextCronTime(next.cron, now)
+        // A run still going when its next time comes skips that time
+        if (!this.pending.has(id)) {
+          this.enqueue(id)
+        }
+      }
+    }
+  }
+
+  private static enqueue(id: string) {
+    this.pending.add(id)
+    this.events.onChange()
+    this.queue = this.queue
+      .then(() => this.execute(id))
+      .catch(error => console.error('Scheduled run failed:', error instanceof Error ? error.message : error))
+      .finally(() => {
+        this.pending.delete(id)
+        this.events.onChange()
+      })
+  }
+
+  private static async execute(id: string): Promise<void> {
+    const schedule = (await ScheduleStore.list()).find(saved => saved.id === id)
+    if (!schedule) return
+
+    const startedAt = new Date()
+    const failedItems: ToolItemEvent[] = []
+    const outputPaths: string[] = []
+    let toolName = schedule.toolId
+    let result: ToolResult
+    try {
+      const runner = loadHeadlessRunner()
+      const tool = runner.listTools().find(candidate => candidate.id === schedule.toolId)
+      if (!tool) {
+        throw new Error(`Tool "${schedule.toolId}" is not available`)
+      }
+      toolName = tool.name
+      if (runner.isToolRunMutating(schedule.toolId, schedule.parameters) && !schedule.allowChanges) {
+        throw new Error('This run changes data in Eloqua, and the schedule does not allow changes')
+      }
+
+      const session = await SessionManager.resume(schedule.siteName, schedule.username)
+      if (!session) {
+        throw new Error(`No stored credentials for ${schedule.siteName}\\${schedule.username}; sign in with this account once`)
+      }
+
+      await fs.mkdir(schedule.outputDir, { recursive: true })
+      try {
+        result = await runner.runTool({
+          toolId: schedule.toolId,
+          parameters: schedule.parameters,
+          session,
+          // Files a tool streams get a dated name in the output folder too
+          api: createHeadlessApi(fileName => {
+            const { name, ext } = path.parse(fileName)
+            const outputPath = path.join(schedule.outputDir, getDatedFileName(name, startedAt, ext.slice(1) || 'csv'))
+            outputPaths.push(outputPath)
+            return outputPath
+          }),
+          // Nothing stops a scheduled run once it started
+          signal: new AbortController().signal,
+          // Recurring chores should see current data
+          bypassCache: true,
+          onProgress: () => {},
+          onItem: item => {
+            if (item.status === 'failed') failedItems.push(item)
+          }
+        })
+      } finally {
+        SessionManager.close(session.sessionId)
+      }
+
+      if (result.data !== undefined) {
+        const { content, extension } = formatResultData(result.data)
+        const outputPath = path.join(schedule.outputDir, getDatedFileName(schedule.name, startedAt, extension))
+        await fs.writeFile(outputPath, content, 'utf8')
+        outputPaths.push(outputPath)
+      }
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' }
+    }
+
+    const record = createToolJobRecord(
+      { id: `job-scheduled-${startedAt.getTime().toString(36)}`, toolId: schedule.toolId, toolName, startedAt: startedAt.toISOString(), parameters: schedule.parameters },
+      result,
+      failedItems
+    )
+    try {
+      await JobHistory.save(record)
+    } catch (error) {
+      console.error('Failed to save scheduled run:', error instanceof Error ? error.message : error)
+    }
+
+    const run: ToolScheduleRun = {
+      jobId: record.id,
+      startedAt: record.startedAt,
+      endedAt: record.endedAt!,
+      status: record.status === 'running' ? 'failed' : record.status,
+      summary: record.summary,
+      outputPaths
+    }
+    const dropped = await ScheduleStore.addRun(schedule.id, run, schedule.keepRuns)
+    for (const old of dropped) {
+      await Promise.all(old.outputPaths.map(outputPath => fs.rm(outputPath, { force: true })))
+      await JobHistory.delete(old.jobId).catch(() => {})
+    }
+
+    if (run.status === 'failed') {
+      this.notifyFailure(schedule, run.summary)
+    }
+  }
+
+  private static notifyFailure(schedule: ToolSchedule, summary?: string) {
+    if (!Notification.isSupported()) return
+
+    const notification = new Notification({
+      title: `Scheduled run failed: ${schedule.name}`,
+      body: summary || 'The run failed'
+    })
+    notification.on('click', () => this.events.onOpen())
+    notification.show()
+  }
+}
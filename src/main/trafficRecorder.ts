@@ -0,0 +1,185 @@
+import { EloquaApiCallResult, EloquaTrafficEntry, EloquaTrafficFilter } from '../shared/apiTypes'
+
+// What is needed to send a recorded call again; kept in the main process only
+export interface RecordedRequest {
+  method: string
+  endpoint: string
+  data?: any
+}
+
+export interface TrafficCall extends RecordedRequest {
+  url: string
+  authorization: string
+  startedAt: number
+  runId?: string
+  toolId?: string
+  replayOf?: string
+}
+
+/**
+ * Records every Eloqua API call for the traffic inspector. Entries are kept in
+ * memory for the lifetime of the app, oldest first, and are redacted before they
+ * leave the main process: credentials and tokens are removed and email
+ * addresses masked, so an export can be attached to a support case.
+ */
+export class TrafficRecorder {
+  private static readonly MAX_ENTRIES = 500
+  private static readonly MAX_BODY_LENGTH = 32 * 1024
+  // Larger request bodies (e.g. bulk uploads) are recorded but not kept for replay
+  private static readonly MAX_REPLAY_BODY_LENGTH = 1024 * 1024
+  private static readonly SENSITIVE_KEY = /pass(word)?|secret|token|authori[sz]ation|api[-_]?key|credential/i
+  private static readonly EMAIL = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g
+
+  private static entries: EloquaTrafficEntry[] = []
+  private static requests = new Map<string, RecordedRequest>()
+  private static counter = 0
+
+  /**
+   * Records a finished call
+   * @param call - The request as sent, with its start time and run
+   * @param result - The envelope returned to the renderer
+   * @returns EloquaTrafficEntry - The redacted entry
+   */
+  static record(call: TrafficCall, result: EloquaApiCallResult): EloquaTrafficEntry {
+    const id = `t${Date.now().toString(36)}-${++this.counter}`
+    const requestBody = call.data === undefined ? undefined : this.serialize(call.data)
+    const responseData = result.ok ? result.data : result.error.body
+    const responseBody = responseData === undefined || responseData === '' ? undefined : this.serialize(responseData)
+    const replayable = !requestBody || requestBody.size <= this.MAX_REPLAY_BODY_LENGTH
+
+    const entry: EloquaTrafficEntry = {
+      id,
+      runId: call.runId,
+      toolId: call.toolId,
+      replayOf: call.replayOf,
+      startedAt: new Date(call.startedAt).toISOString(),
+      durationMs: Date.now() - call.startedAt,
+      method: call.method,
+      endpoint: call.endpoint,
+      url: call.url,
+      status: result.ok ? result.status : result.error.status,
+      ok: result.ok,
+      attempts: (result.ok ? result.attempts : result.error.attempts) || 1,
+      eloquaRequestId: result.ok ? result.requestId : result.error.requestId,
+      errorMessage: result.ok ? undefined : result.error.message,
+      requestHeaders: {
+        'Authorization': `${call.authorization.split(' ')[0]} [REDACTED]`,
+        'Content-Type': 'application/json'
+      },
+      requestBody: requestBody?.text,
+      responseBody: responseBody?.text,
+      responseSize: responseBody?.size || 0,
+      truncated: Boolean(requestBody?.truncated || responseBody?.truncated),
+      replayable
+    }
+
+    this.entries.push(entry)
+    if (replayable) {
+      this.requests.set(id, { method: call.method, endpoint: call.endpoint, data: call.data })
+    }
+    while (this.entries.length > this.MAX_ENTRIES) {
+      const removed = this.entries.shift()!
+      this.requests.delete(removed.id)
+    }
+
+    return entry
+  }
+
+  static list(filter: EloquaTrafficFilter = {}): EloquaTrafficEntry[] {
+    return this.entries.filter(entry =>
+      (!filter.runId || entry.runId === filter.runId) &&
+      (!filter.errorsOnly || !entry.ok))
+  }
+
+  static getRequest(entryId: string): RecordedRequest | undefined {
+    return this.requests.get(entryId)
+  }
+
+  static clear(): void {
+    this.entries = []
+    this.requests.clear()
+  }
+
+  /**
+   * Builds an HTTP Archive (HAR 1.2) document from recorded entries
+   * @param entries - Entries to include
+   * @param appVersion - Version reported as the HAR creator
+   * @returns object - HAR document, ready for JSON.stringify
+   */
+  static toHar(entries: EloquaTrafficEntry[], appVersion: string): object {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'Eloqua Admin Toolbox', version: appVersion },
+        entries: entries.map(entry => {
+          const url = new URL(entry.url)
+          return {
+            startedDateTime: entry.startedAt,
+            time: entry.durationMs,
+            request: {
+              method: entry.method,
+              url: entry.url,
+              httpVersion: 'HTTP/1.1',
+              headers: Object.entries(entry.requestHeaders).map(([name, value]) => ({ name, value })),
+              queryString: Array.from(url.searchParams.entries()).map(([name, value]) => ({ name, value })),
+              cookies: [],
+              ...(entry.requestBody !== undefined && { postData: { mimeType: 'application/json', text: entry.requestBody } }),
+              headersSize: -1,
+              bodySize: entry.requestBody?.length ?? 0
+            },
+            response: {
+              status: entry.status ?? 0,
+              statusText: entry.errorMessage || '',
+              httpVersion: 'HTTP/1.1',
+              headers: entry.eloquaRequestId ? [{ name: 'X-Request-Id', value: entry.eloquaRequestId }] : [],
+              cookies: [],
+              content: { size: entry.responseSize, mimeType: 'application/json', text: entry.responseBody ?? '' },
+              redirectURL: '',
+              headersSize: -1,
+              bodySize: entry.responseSize
+            },
+            cache: {},
+            timings: { send: 0, wait: entry.durationMs, receive: 0 },
+            comment: [
+              entry.toolId && `tool ${entry.toolId}`,
+              entry.runId && `run ${entry.runId}`,
+              entry.attempts > 1 && `${entry.attempts} attempts`,
+              entry.replayOf && `replay of ${entry.replayOf}`,
+              entry.truncated && 'bodies truncated'
+            ].filter(Boolean).join(', ')
+          }
+        })
+      }
+    }
+  }
+
+  private static serialize(value: unknown): { text: string; size: number; truncated: boolean } {
+    const raw = typeof value === 'string' ? value : JSON.stringify(value)
+    const size = Buffer.byteLength(raw ?? '', 'utf8')
+    const redacted = typeof value === 'string' ? this.maskEmails(value) : JSON.stringify(this.redact(value), null, 2)
+    const truncated = redacted.length > this.MAX_BODY_LENGTH
+    return {
+      text: truncated ? `${redacted.slice(0, this.MAX_BODY_LENGTH)}... [truncated]` : redacted,
+      size,
+      truncated
+    }
+  }
+
+  private static redact(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item))
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {}
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.SENSITIVE_KEY.test(key) ? '[REDACTED]' : this.redact(item)
+      }
+      return result
+    }
+    return typeof value === 'string' ? this.maskEmails(value) : value
+  }
+
+  private static maskEmails(text: string): string {
+    return text.replace(this.EMAIL, '$1***@$2')
+  }
+}
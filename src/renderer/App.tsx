@@ -1,4 +1,3 @@
-import React, { useState } from 'react'
 import { Routes, Route } from 'react-router-dom'
 import { AuthProvider } from './contexts/AuthContext'
 import ErrorBoundary from './components/ErrorBoundary'
@@ -6,9 +5,18 @@ import Layout from './components/Layout'
 import Login from './components/Login'
 import Dashboard from './components/Dashboard'
 import ToolRenderer from './components/ToolRenderer'
+import ApiInspector from './components/ApiInspector'
+import Jobs from './components/Jobs'
+import UndoJournal from './components/UndoJournal'
+import Pipelines from './components/Pipelines'
+import Schedules from './components/Schedules'
+import PluginManager from './components/PluginManager'
+import useRegisteredTools from './hooks/useRegisteredTools'
 import './styles/App.css'
 
 function App() {
+  const tools = useRegisteredTools()
+
   return (
     <ErrorBoundary>
       <AuthProvider>
@@ -18,12 +26,15 @@ function App() {
             <Route path="/" element={<Layout />}>
               <Route index element={<Dashboard />} />
               <Route path="tool/:toolId" element={<ToolRenderer />} />
-              <Route path="email-assets" element={<ToolRenderer />} />
-              <Route path="form-assets" element={<ToolRenderer />} />
-              <Route path="dependencies" element={<ToolRenderer />} />
-              <Route path="bulk-sync-deletion" element={<ToolRenderer />} />
-              <Route path="form-management" element={<ToolRenderer />} />
-              <Route path="form-bulk-submit" element={<ToolRenderer />} />
+              {tools.map(tool => (
+                <Route key={tool.id} path={tool.path.replace(/^\//, '')} element={<ToolRenderer key={tool.id} toolId={tool.id} />} />
+              ))}
+              <Route path="jobs" element={<Jobs />} />
+              <Route path="undo-journal" element={<UndoJournal />} />
+              <Route path="pipelines" element={<Pipelines />} />
+              <Route path="schedules" element={<Schedules />} />
+              <Route path="api-inspector" element={<ApiInspector />} />
+              <Route path="plugins" element={<PluginManager />} />
             </Route>
           </Routes>
         </div>
@@ -32,4 +43,4 @@ function App() {
   )
 }
 
-export default App
\ No newline at end of file
+export default App
@@ -0,0 +1,233 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Activity, Download, RotateCcw, Trash2 } from 'lucide-react'
+import Icon from '../../components/ui/Icon'
+import eloquaApiService from '../services/eloquaApi'
+import ToolManager from '../../tools/ToolManager'
+import { EloquaTrafficEntry } from '@shared/apiTypes'
+import '../styles/FormBulkSubmitComponent.css'
+import '../styles/ApiInspector.css'
+
+// Matches the number of entries the main process keeps
+const MAX_ENTRIES = 500
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function ApiInspector() {
+  const [entries, setEntries] = useState<EloquaTrafficEntry[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [runFilter, setRunFilter] = useState('')
+  const [errorsOnly, setErrorsOnly] = useState(false)
+  const [search, setSearch] = useState('')
+  const [isReplaying, setIsReplaying] = useState(false)
+  const [notice, setNotice] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  useEffect(() => {
+    let active = true
+    window.electronAPI.listTraffic().then(recorded => {
+      if (active) setEntries(recorded)
+    })
+
+    // New calls are pushed by the main process as they finish
+    const unsubscribe = window.electronAPI.onTrafficEntry(entry => {
+      setEntries(prev => [...prev, entry].slice(-MAX_ENTRIES))
+    })
+
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  const toolName = (toolId?: string) => {
+    if (!toolId) return 'Manual'
+    return ToolManager.getInstance().getToolConfig(toolId)?.name || toolId
+  }
+
+  const runs = useMemo(() => {
+    const seen = new Map<string, { runId: string, label: string }>()
+    entries.forEach(entry => {
+      if (entry.runId && !seen.has(entry.runId)) {
+        seen.set(entry.runId, {
+          runId: entry.runId,
+          label: `${toolName(entry.toolId)} - ${new Date(entry.startedAt).toLocaleTimeString()}`
+        })
+      }
+    })
+    return Array.from(seen.values()).reverse()
+  }, [entries])
+
+  const visibleEntries = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return entries.filter(entry =>
+      (!runFilter || entry.runId === runFilter) &&
+      (!errorsOnly || !entry.ok) &&
+      (!term || entry.endpoint.toLowerCase().includes(term) || String(entry.status).includes(term)))
+  }, [entries, runFilter, errorsOnly, search])
+
+  const selected = entries.find(entry => entry.id === selectedId) || null
+
+  const handleReplay = async (entry: EloquaTrafficEntry) => {
+    if (entry.method !== 'GET' && !window.confirm(`Replay ${entry.method} ${entry.endpoint}? This sends the change to Eloqua again.`)) {
+      return
+    }
+
+    setIsReplaying(true)
+    setNotice(null)
+    try {
+      await eloquaApiService.replayTrafficEntry(entry.id)
+      setNotice({ type: 'success', text: `Replayed ${entry.method} ${entry.endpoint}` })
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Replay failed' })
+    } finally {
+      setIsReplaying(false)
+    }
+  }
+
+  const handleExport = async () => {
+    setNotice(null)
+    try {
+      const filePath = await window.electronAPI.exportTrafficHar({ runId: runFilter || undefined, errorsOnly })
+      if (filePath) {
+        setNotice({ type: 'success', text: `Exported to ${filePath}` })
+      }
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Export failed' })
+    }
+  }
+
+  const handleClear = async () => {
+    await window.electronAPI.clearTraffic()
+    setEntries([])
+    setSelectedId(null)
+    setRunFilter('')
+  }
+
+  return (
+    <div className="api-inspector full-width">
+      <div className="tool-header">
+        <div className="tool-title">
+          <span className="tool-icon">
+            <Icon icon={Activity} size={80} />
+          </span>
+          <div className="tool-title-text">
+            <h1>API Inspector</h1>
+            <p className="tool-description">Every Eloqua API call made by the app, with redacted request and response bodies. Export a run as HAR to attach it to a support case.</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="inspector-toolbar">
+        <select value={runFilter} onChange={(e) => setRunFilter(e.target.value)} className="form-input">
+          <option value="">All runs</option>
+          {runs.map(run => (
+            <option key={run.runId} value={run.runId}>{run.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="form-input"
+          placeholder="Filter by endpoint or status"
+        />
+        <label className="inspector-checkbox">
+          <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} />
+          Errors only
+        </label>
+        <button type="button" className="btn btn-secondary" onClick={handleExport} disabled={visibleEntries.length === 0}>
+          <Icon icon={Download} size={16} /> Export HAR
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={handleClear} disabled={entries.length === 0}>
+          <Icon icon={Trash2} size={16} /> Clear
+        </button>
+      </div>
+
+      {notice && <p className={`inspector-notice ${notice.type}`}>{notice.text}</p>}
+
+      <div className="inspector-body">
+        <div className="results-table-container inspector-list">
+          <table className="results-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Tool</th>
+                <th>Method</th>
+                <th>Endpoint</th>
+                <th>Status</th>
+                <th>Duration</th>
+                <th>Size</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEntries.length === 0 && (
+                <tr>
+                  <td colSpan={7}>No API calls recorded yet.</td>
+                </tr>
+              )}
+              {visibleEntries.slice().reverse().map(entry => (
+                <tr
+                  key={entry.id}
+                  className={`${entry.ok ? '' : 'error-row'} ${entry.id === selectedId ? 'selected-row' : ''}`}
+                  onClick={() => setSelectedId(entry.id)}
+                >
+                  <td>{new Date(entry.startedAt).toLocaleTimeString()}</td>
+                  <td>{entry.replayOf ? 'Replay' : toolName(entry.toolId)}</td>
+                  <td>{entry.method}</td>
+                  <td className="inspector-endpoint" title={entry.endpoint}>{entry.endpoint}</td>
+                  <td>{entry.status ?? 'N/A'}{entry.attempts > 1 ? ` (${entry.attempts} tries)` : ''}</td>
+                  <td>{entry.durationMs}ms</td>
+                  <td>{formatSize(entry.responseSize)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {selected && (
+          <div className="inspector-detail">
+            <div className="inspector-detail-header">
+              <h3>{selected.method} {selected.endpoint}</h3>
+              <button
+                type="button"
+                className="btn btn-primary"
+                onClick={() => handleReplay(selected)}
+                disabled={isReplaying || !selected.replayable}
+                title={selected.replayable ? 'Send this call again' : 'The request body was too large to keep for replay'}
+              >
+                <Icon icon={RotateCcw} size={16} /> {isReplaying ? 'Replaying...' : 'Replay'}
+              </button>
+            </div>
+
+            <dl className="inspector-summary">
+              <dt>URL</dt><dd>{selected.url}</dd>
+              <dt>Status</dt><dd>{selected.status ?? 'No response'}</dd>
+              <dt>Attempts</dt><dd>{selected.attempts}</dd>
+              {selected.eloquaRequestId && (<><dt>Eloqua Request ID</dt><dd>{selected.eloquaRequestId}</dd></>)}
+              {selected.runId && (<><dt>Run</dt><dd>{toolName(selected.toolId)} ({selected.runId})</dd></>)}
+              {selected.replayOf && (<><dt>Replay Of</dt><dd>{selected.replayOf}</dd></>)}
+              {selected.errorMessage && (<><dt>Error</dt><dd>{selected.errorMessage}</dd></>)}
+            </dl>
+
+            <h4>Request Headers</h4>
+            <pre className="inspector-body-text">
+              {Object.entries(selected.requestHeaders).map(([name, value]) => `${name}: ${value}`).join('\n')}
+            </pre>
+
+            <h4>Request Body</h4>
+            <pre className="inspector-body-text">{selected.requestBody ?? '(none)'}</pre>
+
+            <h4>Response Body</h4>
+            <pre className="inspector-body-text">{selected.responseBody ?? '(empty)'}</pre>
+            {selected.truncated && <small className="field-description">Bodies longer than 32 KB are truncated.</small>}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ApiInspector
@@ -0,0 +1,784 @@
+import React, { useState, useCallback, useRef } from 'react'
+import useTool from '../hooks/useTool'
+import LoadingSpinner from './LoadingSpinner'
+import '../styles/FormBulkSubmitComponent.css'
+import '../styles/BulkImportComponent.css'
+import { Upload, FileText, XCircle } from 'lucide-react'
+import Icon from '../../components/ui/Icon'
+import { parseCsv, parseXlsx, TabularData } from '@shared/tabularData'
+import { EloquaBulkField, EloquaBulkSyncLog, EloquaBulkUpdateRule } from '@shared/apiTypes'
+
+type EntityType = 'contacts' | 'accounts' | 'customObject'
+
+interface BulkImportSettings {
+  entityType: EntityType
+  customObjectId: string
+  updateRule: EloquaBulkUpdateRule
+  definitionName: string
+  chunkSize: number
+}
+
+interface BulkImportSummary {
+  totalRows: number
+  importedRows: number
+  rejectedRows: number
+  successRate: number
+  totalProcessingTime: number
+  syncStatus: string
+}
+
+interface BulkImportRejectRow {
+  rowNumber?: number
+  statusCode?: string
+  message: string
+  invalidFields: string[]
+  data: Record<string, string>
+}
+
+const UPDATE_RULES: Array<{ value: EloquaBulkUpdateRule, label: string }> = [
+  { value: 'always', label: 'Always overwrite existing values' },
+  { value: 'ifNewIsNotNull', label: 'Only when the new value is not blank' },
+  { value: 'ifExistingIsNull', label: 'Only when the existing value is blank' },
+  { value: 'useFieldRule', label: 'Use each field\'s update rule' },
+]
+
+function BulkImportComponent() {
+  const { executeTool, cancelTool, isExecuting, isCancelling, progress, result, error, clearResult, clearError } = useTool()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [settings, setSettings] = useState<BulkImportSettings>({
+    entityType: 'contacts',
+    customObjectId: '',
+    updateRule: 'always',
+    definitionName: 'Eloqua Admin Toolbox import',
+    chunkSize: 5000
+  })
+  const [data, setData] = useState<TabularData>({ headers: [], rows: [] })
+  const [fileName, setFileName] = useState('')
+  const [csvText, setCsvText] = useState('')
+  const [fields, setFields] = useState<EloquaBulkField[]>([])
+  const [fieldMapping, setFieldMapping] = useState<Record<string, string>>({})
+  const [identifierColumn, setIdentifierColumn] = useState('')
+  const [contactMatchColumn, setContactMatchColumn] = useState('')
+
+  const [activeTab, setActiveTab] = useState<'configure' | 'upload' | 'map' | 'process' | 'results'>('configure')
+  const [showAdvancedOptions, setShowAdvancedOptions] = useState(false)
+  const [dragOver, setDragOver] = useState(false)
+  const [isLoadingFields, setIsLoadingFields] = useState(false)
+  const [validationErrors, setValidationErrors] = useState<string[]>([])
+
+  const handleSettingChange = (key: keyof BulkImportSettings, value: any) => {
+    setSettings(prev => ({ ...prev, [key]: value }))
+
+    // Fields differ per entity, so the mapping has to be rebuilt
+    if (key === 'entityType' || key === 'customObjectId') {
+      setFields([])
+      setFieldMapping({})
+      setIdentifierColumn('')
+      setContactMatchColumn('')
+    }
+    if (validationErrors.length > 0) {
+      setValidationErrors([])
+    }
+  }
+
+  const applyData = (parsed: TabularData, name: string) => {
+    setData(parsed)
+    setFileName(name)
+    setFieldMapping(autoMap(parsed.headers, fields))
+    setIdentifierColumn('')
+    setContactMatchColumn('')
+    setValidationErrors([])
+  }
+
+  const handleFileSelect = async (file: File) => {
+    const lowerName = file.name.toLowerCase()
+    try {
+      if (lowerName.endsWith('.xlsx')) {
+        applyData(await parseXlsx(await file.arrayBuffer()), file.name)
+        setCsvText('')
+      } else if (lowerName.endsWith('.csv') || file.type === 'text/csv') {
+        const text = await file.text()
+        applyData(parseCsv(text), file.name)
+        setCsvText(text)
+      } else {
+        setValidationErrors(['Please select a CSV or XLSX file'])
+      }
+    } catch (err) {
+      setValidationErrors([`Could not read ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`])
+    }
+  }
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault()
+    setDragOver(false)
+
+    const files = Array.from(e.dataTransfer.files)
+    if (files.length > 0) {
+      handleFileSelect(files[0])
+    }
+  }, [fields])
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault()
+    setDragOver(true)
+  }, [])
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    e.preventDefault()
+    setDragOver(false)
+  }, [])
+
+  const handleCsvTextChange = (text: string) => {
+    setCsvText(text)
+    applyData(parseCsv(text), '')
+  }
+
+  const loadFields = async () => {
+    if (settings.entityType === 'customObject' && !/^\d+$/.test(settings.customObjectId)) {
+      setValidationErrors(['Enter a numeric custom object id on the Configure tab first'])
+      return
+    }
+
+    setIsLoadingFields(true)
+    try {
+      const fieldResult = await executeTool('bulk-import-tool', {
+        operation: 'list-fields',
+        entityType: settings.entityType,
+        customObjectId: settings.customObjectId
+      })
+      if (fieldResult?.success) {
+        const loadedFields: EloquaBulkField[] = fieldResult.data?.fields || []
+        setFields(loadedFields)
+        setFieldMapping(autoMap(data.headers, loadedFields))
+        setValidationErrors([])
+      } else {
+        setValidationErrors([fieldResult?.error || 'Failed to load fields'])
+      }
+      // The field list is not an import result, so keep it off the Results tab
+      clearResult()
+    } finally {
+      setIsLoadingFields(false)
+    }
+  }
+
+  // Matches columns to fields by display name or internal name
+  const autoMap = (headers: string[], availableFields: EloquaBulkField[]): Record<string, string> => {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+    const mapping: Record<string, string> = {}
+    headers.forEach(header => {
+      const match = availableFields.find(field =>
+        normalize(field.name) === normalize(header) || normalize(field.internalName) === normalize(header))
+      if (match) {
+        mapping[header] = match.statement
+      }
+    })
+    return mapping
+  }
+
+  const handleMappingChange = (column: string, statement: string) => {
+    setFieldMapping(prev => {
+      const next = { ...prev }
+      if (statement) {
+        next[column] = statement
+      } else {
+        delete next[column]
+        if (identifierColumn === column) setIdentifierColumn('')
+        if (contactMatchColumn === column) setContactMatchColumn('')
+      }
+      return next
+    })
+  }
+
+  const validateForm = (): boolean => {
+    const errors: string[] = []
+
+    if (settings.entityType === 'customObject' && !/^\d+$/.test(settings.customObjectId)) {
+      errors.push('Custom object id must be numeric')
+    }
+    if (data.rows.length === 0) {
+      errors.push('Upload a CSV or XLSX file with at least one data row')
+    }
+    if (Object.keys(fieldMapping).length === 0) {
+      errors.push('Map at least one column to an Eloqua field')
+    }
+    if (!identifierColumn) {
+      errors.push('Choose the identifier column used to match existing records')
+    } else if (!fieldMapping[identifierColumn]) {
+      errors.push('The identifier column must be mapped to a field')
+    }
+
+    setValidationErrors(errors)
+    return errors.length === 0
+  }
+
+  const handleExecute = async () => {
+    if (!validateForm()) {
+      return
+    }
+
+    clearResult()
+    clearError()
+
+    try {
+      setActiveTab('process')
+
+      await executeTool('bulk-import-tool', {
+        operation: 'import',
+        entityType: settings.entityType,
+        customObjectId: settings.customObjectId,
+        headers: data.headers,
+        rows: data.rows,
+        fieldMapping,
+        identifierColumn,
+        updateRule: settings.updateRule,
+        contactMatchColumn: settings.entityType === 'customObject' && contactMatchColumn ? contactMatchColumn : undefined,
+        definitionName: settings.definitionName,
+        chunkSize: settings.chunkSize
+      })
+
+      setActiveTab('results')
+    } catch (error) {
+      console.error('Tool execution failed:', error)
+    }
+  }
+
+  const downloadRejectReport = (rejects: BulkImportRejectRow[], logs: EloquaBulkSyncLog[]) => {
+    const dataColumns = Array.from(new Set(rejects.flatMap(reject => Object.keys(reject.data))))
+    const headers = ['Row', 'Status Code', 'Message', 'Invalid Fields', ...dataColumns]
+    const escape = (value: any) => {
+      const text = String(value ?? '')
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }
+
+    const lines = [
+      headers.map(escape).join(','),
+      ...rejects.map(reject => [
+        reject.rowNumber ?? '',
+        reject.statusCode ?? '',
+        reject.message,
+        reject.invalidFields.join('; '),
+        ...dataColumns.map(column => reject.data[column] ?? '')
+      ].map(escape).join(','))
+    ]
+
+    if (logs.length > 0) {
+      lines.push('', 'Severity,Status Code,Message,Count')
+      logs.forEach(log => lines.push([log.severity, log.statusCode, log.message, log.count ?? ''].map(escape).join(',')))
+    }
+
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    const url = URL.createObjectURL(blob)
+    link.href = url
+    link.download = `bulk-import-rejects-${new Date().toISOString().split('T')[0]}.csv`
+    link.style.visibility = 'hidden'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  const renderValidationErrors = () => validationErrors.length > 0 && (
+    <div className="validation-errors">
+      <h4>Please fix these issues:</h4>
+      <ul>
+        {validationErrors.map((error, index) => (
+          <li key={index}>{error}</li>
+        ))}
+      </ul>
+    </div>
+  )
+
+  const renderConfigurationTab = () => (
+    <div className="configuration-tab">
+      <div className="form-section">
+        <h3>Import Target</h3>
+
+        <div className="form-group">
+          <label className="form-label">
+            Record Type <span className="required">*</span>
+          </label>
+          <select
+            value={settings.entityType}
+            onChange={(e) => handleSettingChange('entityType', e.target.value as EntityType)}
+            className="form-input"
+          >
+            <option value="contacts">Contacts</option>
+            <option value="accounts">Accounts</option>
+            <option value="customObject">Custom Object</option>
+          </select>
+        </div>
+
+        {settings.entityType === 'customObject' && (
+          <div className="form-group">
+            <label className="form-label">
+              Custom Object ID <span className="required">*</span>
+            </label>
+            <input
+              type="text"
+              value={settings.customObjectId}
+              onChange={(e) => handleSettingChange('customObjectId', e.target.value)}
+              className="form-input"
+              placeholder="e.g., 12"
+              pattern="[0-9]+"
+            />
+          </div>
+        )}
+
+        <div className="form-group">
+          <label className="form-label">Update Rule</label>
+          <select
+            value={settings.updateRule}
+            onChange={(e) => handleSettingChange('updateRule', e.target.value as EloquaBulkUpdateRule)}
+            className="form-input"
+          >
+            {UPDATE_RULES.map(rule => (
+              <option key={rule.value} value={rule.value}>{rule.label}</option>
+            ))}
+          </select>
+          <small className="field-description">
+            How imported values update records that already exist in Eloqua
+          </small>
+        </div>
+      </div>
+
+      <div className="form-section">
+        <button
+          type="button"
+          className="btn btn-secondary advanced-toggle"
+          onClick={() => setShowAdvancedOptions(!showAdvancedOptions)}
+        >
+          {showAdvancedOptions ? 'Hide' : 'Show'} Advanced Options
+        </button>
+
+        {showAdvancedOptions && (
+          <div className="advanced-options">
+            <h3>Import Settings</h3>
+
+            <div className="form-group">
+              <label className="form-label">Import Definition Name</label>
+              <input
+                type="text"
+                value={settings.definitionName}
+                onChange={(e) => handleSettingChange('definitionName', e.target.value)}
+                className="form-input"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Rows per Upload</label>
+              <input
+                type="number"
+                value={settings.chunkSize}
+                onChange={(e) => handleSettingChange('chunkSize', Number(e.target.value))}
+                className="form-input"
+                min="100"
+                max="50000"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+
+  const renderUploadTab = () => (
+    <div className="upload-tab">
+      <div className="csv-upload-section">
+        <h3>Data Upload</h3>
+        {renderValidationErrors()}
+
+        <div
+          className={`file-dropzone ${dragOver ? 'drag-over' : ''}`}
+          onDrop={handleDrop}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <div className="dropzone-content">
+            <div className="dropzone-icon">
+              <Icon icon={FileText} size={48} />
+            </div>
+            <p>{fileName ? `Loaded ${fileName}` : 'Drop a CSV or XLSX file here or click to browse'}</p>
+            <small>The first row must contain column headers</small>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
+            style={{ display: 'none' }}
+          />
+        </div>
+
+        <div className="csv-text-section">
+          <h4>Or paste CSV data directly:</h4>
+          <textarea
+            value={csvText}
+            onChange={(e) => handleCsvTextChange(e.target.value)}
+            className="csv-textarea"
+            placeholder="EmailAddress,FirstName,LastName&#10;john.doe@example.com,John,Doe"
+            rows={10}
+          />
+        </div>
+
+        {data.rows.length > 0 && (
+          <div className="csv-preview-section">
+            <h4>Data Preview ({data.rows.length.toLocaleString()} rows, first 3 shown)</h4>
+            <div className="csv-preview-table">
+              <table>
+                <thead>
+                  <tr>
+                    {data.headers.map(header => (
+                      <th key={header}>{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.rows.slice(0, 3).map((row, index) => (
+                    <tr key={index}>
+                      {data.headers.map(header => (
+                        <td key={header}>{row[header]}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+
+  const renderMappingTab = () => (
+    <div className="mapping-tab">
+      <div className="form-section">
+        <h3>Field Mapping</h3>
+        {renderValidationErrors()}
+
+        {data.headers.length === 0 ? (
+          <p>Upload data first to map its columns.</p>
+        ) : fields.length === 0 ? (
+          <div className="mapping-load">
+            <p>Load the importable fields of the selected record type to map your columns.</p>
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={loadFields}
+              disabled={isLoadingFields || isExecuting}
+            >
+              {isLoadingFields ? 'Loading Fields...' : 'Load Fields'}
+            </button>
+          </div>
+        ) : (
+          <div className="mapping-table-container">
+            <table className="mapping-table">
+              <thead>
+                <tr>
+                  <th>Column</th>
+                  <th>Eloqua Field</th>
+                  <th>Identifier</th>
+                  {settings.entityType === 'customObject' && <th>Contact Email</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {data.headers.map(header => (
+                  <tr key={header} className={fieldMapping[header] ? 'mapped-row' : ''}>
+                    <td>{header}</td>
+                    <td>
+                      <select
+                        value={fieldMapping[header] || ''}
+                        onChange={(e) => handleMappingChange(header, e.target.value)}
+                        className="form-input"
+                      >
+                        <option value="">Do not import</option>
+                        {fields.map(field => (
+                          <option key={field.statement} value={field.statement}>
+                            {field.name} ({field.internalName})
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      <input
+                        type="radio"
+                        name="identifierColumn"
+                        checked={identifierColumn === header}
+                        disabled={!fieldMapping[header]}
+                        onChange={() => setIdentifierColumn(header)}
+                      />
+                    </td>
+                    {settings.entityType === 'customObject' && (
+                      <td>
+                        <input
+                          type="radio"
+                          name="contactMatchColumn"
+                          checked={contactMatchColumn === header}
+                          disabled={!fieldMapping[header]}
+                          onChange={() => setContactMatchColumn(header)}
+                        />
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <small className="field-description">
+              The identifier column matches rows to existing records; unmatched rows create new records.
+              {settings.entityType === 'customObject' && ' The contact email column links each record to the contact with that email address.'}
+            </small>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+
+  const renderProcessTab = () => (
+    <div className="process-tab">
+      <div className="processing-status">
+        {isExecuting && !isLoadingFields ? (
+          <div className="processing-active">
+            <LoadingSpinner message={progress || 'Importing data...'} />
+            <div className="processing-info">
+              <p>Please wait while your data is uploaded and synced...</p>
+              <p><strong>Note:</strong> Stop only takes effect until the sync starts; after that Eloqua completes the import.</p>
+            </div>
+            <div className="progress-actions">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={cancelTool}
+                disabled={isCancelling}
+              >
+                {isCancelling ? 'Stopping...' : 'Stop'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="processing-ready">
+            <h3>Ready to Import</h3>
+            <p>
+              {data.rows.length.toLocaleString()} rows, {Object.keys(fieldMapping).length} mapped columns.
+              Click "Start Import" to upload and sync your data.
+            </p>
+
+            {renderValidationErrors()}
+
+            <button
+              className="btn btn-primary btn-large"
+              onClick={handleExecute}
+              disabled={isExecuting}
+            >
+              Start Import
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+
+  const renderResultsTab = () => {
+    if (!result) {
+      return (
+        <div className="results-tab">
+          <p>No results to display. Run an import first.</p>
+        </div>
+      )
+    }
+
+    const summary: BulkImportSummary | undefined = result.data?.summary
+    const rejects: BulkImportRejectRow[] = result.data?.rejects || []
+    const logs: EloquaBulkSyncLog[] = result.data?.logs || []
+
+    if (!summary) {
+      return (
+        <div className="results-tab">
+          <div className="error-result">
+            <h3>{result.cancelled ? 'Stopped' : 'Error'}</h3>
+            <p>{result.error || result.message || 'An unknown error occurred'}</p>
+          </div>
+        </div>
+      )
+    }
+
+    return (
+      <div className="results-tab">
+        <div className="results-summary">
+          <h3>Bulk Import Results</h3>
+          {result.cancelled && <p className="cancelled-note">{result.message}</p>}
+          {!result.success && result.error && <p className="cancelled-note">{result.error}</p>}
+          <div className="summary-stats">
+            <div className="stat-card">
+              <div className="stat-number">{summary.totalRows}</div>
+              <div className="stat-label">Total Rows</div>
+            </div>
+            <div className="stat-card success">
+              <div className="stat-number">{summary.importedRows}</div>
+              <div className="stat-label">Imported</div>
+            </div>
+            <div className="stat-card error">
+              <div className="stat-number">{summary.rejectedRows}</div>
+              <div className="stat-label">Rejected</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-number">{summary.successRate}%</div>
+              <div className="stat-label">Success Rate</div>
+            </div>
+          </div>
+
+          <div className="performance-stats">
+            <p><strong>Sync Status:</strong> {summary.syncStatus}</p>
+            <p><strong>Total Processing Time:</strong> {summary.totalProcessingTime}ms</p>
+            {result.data?.definitionDeleted === false && (
+              <p><strong>Import Definition:</strong> {result.data?.definitionUri} could not be deleted automatically</p>
+            )}
+          </div>
+
+          {(rejects.length > 0 || logs.length > 0) && (
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => downloadRejectReport(rejects, logs)}
+            >
+              Download Reject Report
+            </button>
+          )}
+        </div>
+
+        {logs.length > 0 && (
+          <div className="results-table-section">
+            <h4>Sync Logs</h4>
+            <div className="results-table-container">
+              <table className="results-table">
+                <thead>
+                  <tr>
+                    <th>Severity</th>
+                    <th>Status Code</th>
+                    <th>Message</th>
+                    <th>Count</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {logs.map((log, index) => (
+                    <tr key={index} className={log.severity === 'error' ? 'error-row' : ''}>
+                      <td>{log.severity}</td>
+                      <td>{log.statusCode}</td>
+                      <td>{log.message}</td>
+                      <td>{log.count ?? 'N/A'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {rejects.length > 0 && (
+          <div className="results-table-section">
+            <h4>Rejected Rows</h4>
+            <div className="results-table-container">
+              <table className="results-table">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>Status</th>
+                    <th>Status Code</th>
+                    <th>Invalid Fields</th>
+                    <th>Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rejects.map((reject, index) => (
+                    <tr key={index} className="error-row">
+                      <td>{reject.rowNumber ?? 'N/A'}</td>
+                      <td>
+                        <span className="status-icon">
+                          <Icon icon={XCircle} size={16} /> Rejected
+                        </span>
+                      </td>
+                      <td>{reject.statusCode || 'N/A'}</td>
+                      <td>{reject.invalidFields.join(', ') || 'N/A'}</td>
+                      <td>{reject.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="bulk-import-component full-width">
+      <div className="tool-header">
+        <div className="tool-title">
+          <span className="tool-icon">
+            <Icon icon={Upload} size={80} />
+          </span>
+          <div className="tool-title-text">
+            <h1>Bulk Import</h1>
+            <p className="tool-description">Import contacts, accounts and custom object records from CSV or XLSX files with the Eloqua Bulk API, including a report of rejected rows.</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="tab-navigation">
+        <button
+          className={`tab-button ${activeTab === 'configure' ? 'active' : ''}`}
+          onClick={() => setActiveTab('configure')}
+        >
+          Configure
+        </button>
+        <button
+          className={`tab-button ${activeTab === 'upload' ? 'active' : ''}`}
+          onClick={() => setActiveTab('upload')}
+        >
+          Upload Data
+        </button>
+        <button
+          className={`tab-button ${activeTab === 'map' ? 'active' : ''}`}
+          onClick={() => setActiveTab('map')}
+        >
+          Map Fields
+        </button>
+        <button
+          className={`tab-button ${activeTab === 'process' ? 'active' : ''}`}
+          onClick={() => setActiveTab('process')}
+        >
+          Process
+        </button>
+        <button
+          className={`tab-button ${activeTab === 'results' ? 'active' : ''}`}
+          onClick={() => setActiveTab('results')}
+        >
+          Results
+        </button>
+      </div>
+
+      <div className="tab-content">
+        {activeTab === 'configure' && renderConfigurationTab()}
+        {activeTab === 'upload' && renderUploadTab()}
+        {activeTab === 'map' && renderMappingTab()}
+        {activeTab === 'process' && renderProcessTab()}
+        {activeTab === 'results' && renderResultsTab()}
+      </div>
+
+      {error && (
+        <div className="tool-error">
+          <h3>Error</h3>
+          <p>{error}</p>
+          <button onClick={clearError} className="btn btn-secondary">
+            Clear Error
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BulkImportComponent
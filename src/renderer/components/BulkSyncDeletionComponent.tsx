@@ -1,8 +1,11 @@
 import React, { useState, useCallback, useRef } from 'react'
 import useTool from '../hooks/useTool'
 import LoadingSpinner from './LoadingSpinner'
-import { Trash2, Upload, AlertTriangle, CheckCircle, XCircle, FileText } from 'lucide-react'
+import ToolProgressPanel from './ToolProgressPanel'
+import PlannedChangesPanel from './PlannedChangesPanel'
+import { Trash2, Upload, AlertTriangle, CheckCircle, XCircle, FileText, ListChecks } from 'lucide-react'
 import Icon from '../../components/ui/Icon'
+import { AppliedChange } from '../../shared/plannedChanges'
 
 interface BulkDeletionParameters {
   operation: 'delete-syncs' | 'delete-contact-fields'
@@ -18,15 +21,8 @@ interface DeletionResult {
   error?: string
 }
 
-interface BulkDeletionSummary {
-  totalItems: number
-  successfulDeletions: number
-  failedDeletions: number
-  inProgress: number
-}
-
 function BulkSyncDeletionComponent() {
-  const { executeTool, isExecuting, progress, result, error, clearResult, clearError } = useTool()
+  const { job, executeTool, cancelTool, applyPlan, isExecuting, isCancelling, progress, runProgress, failedItems, result, error, clearResult, clearError } = useTool()
   const fileInputRef = useRef<HTMLInputElement>(null)
   
   // Form state
@@ -39,12 +35,6 @@ function BulkSyncDeletionComponent() {
   
   // Results state
   const [deletionResults, setDeletionResults] = useState<DeletionResult[]>([])
-  const [summary, setSummary] = useState<BulkDeletionSummary>({
-    totalItems: 0,
-    successfulDeletions: 0,
-    failedDeletions: 0,
-    inProgress: 0
-  })
 
   const parseIds = (input: string): string[] => {
     if (!input.trim()) return []
@@ -146,8 +136,8 @@ function BulkSyncDeletionComponent() {
     setDragOver(false)
   }, [])
 
-  const handleConfirmDeletion = async () => {
-    setShowConfirmation(false)
+  // A dry run lists every deletion, bulk syncs included, without making any
+  const runDeletion = async (dryRun: boolean) => {
     clearResult()
     clearError()
     
@@ -164,47 +154,60 @@ function BulkSyncDeletionComponent() {
       parameters.syncIds = [...exportIdList, ...importIdList]
     }
     
-    // Initialize results tracking
-    const totalItems = getTotalItems()
+    // Live counts come from the tool's progress events
     setDeletionResults([])
-    setSummary({
-      totalItems,
-      successfulDeletions: 0,
-      failedDeletions: 0,
-      inProgress: totalItems
-    })
     
     try {
-      await executeTool('bulk-sync-deletion-tool', parameters)
+      await executeTool('bulk-sync-deletion-tool', parameters, { dryRun })
     } catch (error) {
       console.error('Bulk deletion failed:', error)
     }
   }
 
+  const handleConfirmDeletion = () => {
+    setShowConfirmation(false)
+    runDeletion(false)
+  }
+
+  const hasItems = () => {
+    if (getTotalItems() > 0) return true
+
+    const message = operation === 'delete-contact-fields' 
+      ? 'Please enter at least one Contact Field ID'
+      : 'Please enter at least one Export ID or Import ID'
+    alert(message)
+    return false
+  }
+
+  const handlePlanDeletion = () => {
+    if (hasItems()) {
+      runDeletion(true)
+    }
+  }
+
   const handleStartDeletion = () => {
-    const total = getTotalItems()
-    if (total === 0) {
-      const message = operation === 'delete-contact-fields' 
-        ? 'Please enter at least one Contact Field ID'
-        : 'Please enter at least one Export ID or Import ID'
-      alert(message)
-      return
+    if (hasItems()) {
+      setShowConfirmation(true)
+    }
+  }
+
+  const handleApplyPlan = async () => {
+    clearError()
+    try {
+      await applyPlan()
+    } catch (error) {
+      console.error('Applying the deletion plan failed:', error)
     }
-    
-    setShowConfirmation(true)
   }
 
+  // Outcome of each deletion when the shown job applied a dry run's plan
+  const appliedChanges: AppliedChange[] | undefined = job?.appliesPlanOf ? result?.data?.changes : undefined
+
   const handleClear = () => {
     setExportIds('')
     setImportIds('')
     setContactFieldIds('')
     setDeletionResults([])
-    setSummary({
-      totalItems: 0,
-      successfulDeletions: 0,
-      failedDeletions: 0,
-      inProgress: 0
-    })
     clearResult()
     clearError()
   }
@@ -230,8 +233,9 @@ function BulkSyncDeletionComponent() {
           </div>
           <div className="warning-content">
             <p><strong>This tool will PERMANENTLY DELETE contact fields and bulk syncs from your Eloqua instance.</strong></p>
-            <p><strong>There is NO DRY RUN MODE - All operations execute immediately.</strong></p>
-            <p><strong>Deleted items cannot be recovered and all associated data will be lost.</strong></p>
+            <p><strong>Start with Plan Deletions: the dry run lists every deletion, dependent bulk syncs included, without deleting anything. Applying the plan then deletes exactly those items.</strong></p>
+            <p><strong>Delete All Items skips the review and executes immediately.</strong></p>
+            <p><strong>The data stored in a deleted contact field cannot be recovered.</strong> Each field and bulk definition is saved in the Undo Journal before it is deleted; undo recreates the definition only, empty and with a new id.</p>
             <p>Double-check all field IDs before proceeding. Ensure you have proper backups.</p>
           </div>
         </div>
@@ -372,6 +376,14 @@ function BulkSyncDeletionComponent() {
 
         {/* Action Buttons */}
         <div className="action-buttons">
+          <button
+            className="btn btn-primary"
+            onClick={handlePlanDeletion}
+            disabled={isExecuting || getTotalItems() === 0}
+          >
+            <Icon icon={ListChecks} size={16} />
+            Plan Deletions
+          </button>
           <button
             className="btn btn-danger"
             onClick={handleStartDeletion}
@@ -393,26 +405,33 @@ function BulkSyncDeletionComponent() {
         {isExecuting && (
           <div className="progress-section">
             <LoadingSpinner message={progress || 'Deleting items...'} />
-            <div className="progress-stats">
-              <div className="stat success">
-                <Icon icon={CheckCircle} size={16} />
-                <span>{summary.successfulDeletions} Successful</span>
-              </div>
-              <div className="stat error">
-                <Icon icon={XCircle} size={16} />
-                <span>{summary.failedDeletions} Failed</span>
-              </div>
-              <div className="stat">
-                <span>{summary.inProgress} Remaining</span>
-              </div>
+            <ToolProgressPanel progress={runProgress} failedItems={failedItems} />
+            <div className="progress-actions">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={cancelTool}
+                disabled={isCancelling}
+              >
+                {isCancelling ? 'Stopping...' : 'Stop'}
+              </button>
             </div>
           </div>
         )}
 
         {/* Results Section */}
-        {result && (
+        {result && !isExecuting && appliedChanges && (
           <div className="results-section">
-            <h3>Deletion Results</h3>
+            {result.message && <p>{result.message}</p>}
+            <PlannedChangesPanel changes={appliedChanges} />
+          </div>
+        )}
+
+        {result && !appliedChanges && (
+          <div className="results-section">
+            <h3>{job?.dryRun ? 'Deletion Plan' : 'Deletion Results'}</h3>
+            {job?.dryRun && result.message && <p>{result.message}</p>}
+            {result.cancelled && <p className="cancelled-note">{result.message}</p>}
             <div className="results-summary">
               <div className="summary-stats">
                 <div className="stat">
@@ -445,7 +464,7 @@ function BulkSyncDeletionComponent() {
                         <td>{item.type}</td>
                         <td>
                           <Icon icon={item.success ? CheckCircle : XCircle} size={16} />
-                          {item.success ? 'Deleted' : 'Failed'}
+                          {item.success ? (job?.dryRun ? 'Planned' : 'Deleted') : 'Failed'}
                         </td>
                         <td>{item.error || '-'}</td>
                       </tr>
@@ -454,6 +473,10 @@ function BulkSyncDeletionComponent() {
                 </table>
               </div>
             )}
+
+            {result.plannedChanges && (
+              <PlannedChangesPanel changes={result.plannedChanges} onApply={handleApplyPlan} disabled={isExecuting} />
+            )}
           </div>
         )}
 
@@ -495,7 +518,7 @@ function BulkSyncDeletionComponent() {
                   </>
                 )}
               </ul>
-              <p><strong>This action cannot be undone and will immediately execute the deletion!</strong></p>
+              <p><strong>This will immediately execute the deletion! Contact field data cannot be brought back; the Undo Journal can only recreate the deleted definitions.</strong></p>
             </div>
             <div className="confirmation-actions">
               <button
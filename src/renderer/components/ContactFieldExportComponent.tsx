@@ -39,12 +39,13 @@ interface ExportSummary {
 }
 
 function ContactFieldExportComponent() {
-  const { executeTool, isExecuting, progress, result, error, clearResult, clearError } = useTool()
+  const { executeTool, cancelTool, isExecuting, isCancelling, progress, result, error, clearResult, clearError } = useTool()
   
   // Form state
   const [filename, setFilename] = useState('contact-fields-export')
   const [includeSystemFields, setIncludeSystemFields] = useState(true)
   const [format, setFormat] = useState<'csv' | 'json'>('csv')
+  const [bypassCache, setBypassCache] = useState(false)
 
   const handleExport = async () => {
     clearResult()
@@ -58,7 +59,7 @@ function ContactFieldExportComponent() {
     }
     
     try {
-      await executeTool('contact-field-export-tool', parameters)
+      await executeTool('contact-field-export-tool', parameters, { bypassCache })
     } catch (error) {
       console.error('Contact field export failed:', error)
     }
@@ -84,6 +85,7 @@ function ContactFieldExportComponent() {
     setFilename('contact-fields-export')
     setIncludeSystemFields(true)
     setFormat('csv')
+    setBypassCache(false)
     clearResult()
     clearError()
   }
@@ -164,6 +166,19 @@ function ContactFieldExportComponent() {
                 }
               </small>
             </div>
+
+            <div className="checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={bypassCache}
+                  onChange={(e) => setBypassCache(e.target.checked)}
+                  disabled={isExecuting}
+                />
+                <span>Bypass cache</span>
+              </label>
+              <small>Read everything from Eloqua instead of responses cached in the last few minutes</small>
+            </div>
           </div>
         </div>
 
@@ -226,6 +241,16 @@ function ContactFieldExportComponent() {
         {isExecuting && (
           <div className="progress-section">
             <LoadingSpinner message={progress || 'Exporting contact fields...'} />
+            <div className="progress-actions">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={cancelTool}
+                disabled={isCancelling}
+              >
+                {isCancelling ? 'Stopping...' : 'Stop'}
+              </button>
+            </div>
           </div>
         )}
 
@@ -295,7 +320,7 @@ function ContactFieldExportComponent() {
                       </tr>
                     </thead>
                     <tbody>
-                      {result.data.fields.map((field: ContactField, index: number) => (
+                      {result.data.fields.slice(0, 10).map((field: ContactField, index: number) => (
                         <tr key={index}>
                           <td>{field.id}</td>
                           <td>{field.name}</td>
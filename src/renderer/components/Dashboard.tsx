@@ -1,56 +1,81 @@
-import React from 'react'
+import React, { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import eloquaApiService from '../services/eloquaApi'
 import '../styles/Dashboard.css'
-import { Mail, Link as LinkIcon, Trash2, FileText, ClipboardList } from 'lucide-react'
 import Icon from '../../components/ui/Icon'
+import useRegisteredTools from '../hooks/useRegisteredTools'
+import { getToolIcon } from './toolIcons'
+import { Upload } from 'lucide-react'
+import { ToolPreset } from '../../shared/toolPreset'
 import logoImage from '../assets/elqtoolbox.png'
 
 function Dashboard() {
-  const { credentials } = useAuth()
+  const { session } = useAuth()
+  const [cacheSize, setCacheSize] = useState(() => eloquaApiService.getCacheSize())
+  const [cachePersistent, setCachePersistent] = useState(false)
+  const [cacheMessage, setCacheMessage] = useState<string | null>(null)
 
-  const tools = [
-    {
-      id: 'email-assets',
-      title: 'Email Asset Management',
-      description: 'Search for email assets and export detailed API information to CSV',
-      icon: Mail,
-      path: '/email-assets',
-      features: ['Search by name or ID', 'Export to CSV', 'View content and metadata'],
-    },
-    {
-      id: 'form-assets',
-      title: 'Form Asset Management',
-      description: 'Search for form assets and export detailed API information',
-      icon: FileText,
-      path: '/form-assets',
-      features: ['Search by name or ID', 'Export to CSV', 'View elements and metadata'],
-    },
-    {
-      id: 'form-bulk-submit',
-      title: 'Form Bulk Submit',
-      description: 'Submit form data in bulk from CSV files to Eloqua forms',
-      icon: ClipboardList,
-      path: '/form-bulk-submit',
-      features: ['CSV import', 'Progress tracking', 'Validation mode'],
-    },
-    {
-      id: 'dependencies',
-      title: 'Dependency Analyzer',
-      description: 'Analyze and map relationships between different Eloqua assets',
-      icon: LinkIcon,
-      path: '/dependencies',
-      features: ['Dependency mapping', 'Usage analysis', 'Impact assessment'],
-    },
-    {
-      id: 'bulk-sync-deletion',
-      title: 'Bulk Sync Deletion',
-      description: 'Delete multiple Eloqua bulk syncs efficiently with safety features',
-      icon: Trash2,
-      path: '/bulk-sync-deletion',
-      features: ['CSV import', 'Dry run validation', 'Progress tracking'],
-    },
-  ]
+  const [presets, setPresets] = useState<ToolPreset[]>([])
+  const [presetMessage, setPresetMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    eloquaApiService.isCachePersistent().then(setCachePersistent)
+    window.electronAPI.listPresets().then(setPresets).catch(() => setPresets([]))
+  }, [])
+
+  const handleImportPresets = async () => {
+    setPresetMessage(null)
+    try {
+      const result = await window.electronAPI.importPresets()
+      if (result) {
+        setPresets(result.presets)
+        setPresetMessage(`Imported ${result.imported} presets`)
+      }
+    } catch (error) {
+      setPresetMessage(error instanceof Error ? error.message : 'Failed to import presets')
+    }
+  }
+
+  const handleExportPresets = async () => {
+    setPresetMessage(null)
+    try {
+      const filePath = await window.electronAPI.exportPresets()
+      if (filePath) {
+        setPresetMessage(`Exported ${presets.length} presets to ${filePath}`)
+      }
+    } catch (error) {
+      setPresetMessage(error instanceof Error ? error.message : 'Failed to export presets')
+    }
+  }
+
+  const handleCachePersistentChange = async (persistent: boolean) => {
+    setCacheMessage(null)
+    try {
+      await eloquaApiService.setCachePersistent(persistent)
+      setCachePersistent(persistent)
+    } catch (error) {
+      setCacheMessage(error instanceof Error ? error.message : 'Failed to update cache settings')
+    }
+  }
+
+  const handleClearCache = async () => {
+    setCacheMessage(null)
+    try {
+      await eloquaApiService.clearCache()
+      setCacheSize(eloquaApiService.getCacheSize())
+      setCacheMessage('Cache cleared')
+    } catch (error) {
+      setCacheMessage(error instanceof Error ? error.message : 'Failed to clear cache')
+    }
+  }
+
+  const tools = useRegisteredTools()
+  // Presets of tools that are not installed here are kept but not offered
+  const launchablePresets = presets.flatMap(preset => {
+    const tool = tools.find(candidate => candidate.id === preset.toolId)
+    return tool ? [{ preset, tool }] : []
+  })
 
   return (
     <div className="dashboard">
@@ -60,25 +85,56 @@ function Dashboard() {
         </div>
         <h1>Welcome to Eloqua Admin Toolbox</h1>
         <p>
-          Connected to <strong>{credentials?.siteName}</strong> as{' '}
-          <strong>{credentials?.username}</strong>
+          Connected to <strong>{session?.siteName}</strong> as{' '}
+          <strong>{session?.username}</strong>
         </p>
       </div>
 
+      <div className="info-card preset-launch">
+        <h3>Quick Launch</h3>
+        {launchablePresets.length > 0 ? (
+          <ul className="preset-launch-list">
+            {launchablePresets.map(({ preset, tool }) => (
+              <li key={preset.id}>
+                <Link to={tool.path} state={{ presetId: preset.id }} className="preset-launch-link">
+                  <Icon icon={getToolIcon(tool.icon)} size={16} />
+                  <span>{preset.name}</span>
+                  <span className="preset-launch-tool">{tool.name}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p>Save the values of a tool's form as a preset to open the tool with them from here.</p>
+        )}
+        <div className="cache-controls">
+          <button type="button" className="btn btn-secondary" onClick={handleImportPresets}>
+            <Icon icon={Upload} size={16} /> Import Presets
+          </button>
+          {presets.length > 0 && (
+            <button type="button" className="btn btn-secondary" onClick={handleExportPresets}>
+              Export All Presets
+            </button>
+          )}
+        </div>
+        {presetMessage && <p className="cache-message">{presetMessage}</p>}
+      </div>
+
       <div className="dashboard-grid">
         {tools.map((tool) => (
           <div key={tool.id} className="tool-card">
             <div className="card-header">
               <span className="card-icon">
-                <Icon icon={tool.icon} size={28} />
+                <Icon icon={getToolIcon(tool.icon)} size={28} />
               </span>
-              <h3 className="card-title">{tool.title}</h3>
+              <h3 className="card-title">{tool.name}</h3>
             </div>
             
             <p className="tool-description">{tool.description}</p>
             
             <ul className="tool-features">
-              {tool.features.map((feature, index) => (
+              {/* The first three features keep the cards the same height */}
+              {tool.features.slice(0, 3).map((feature, index) => (
                 <li key={index}>{feature}</li>
               ))}
             </ul>
@@ -104,6 +160,31 @@ function Dashboard() {
             <li>All operations are performed directly with your Eloqua instance</li>
           </ul>
         </div>
+
+        <div className="info-card">
+          <h3>Response Cache</h3>
+          <p>
+            Asset listings, details, email groups and field lists are reused for a few minutes
+            so repeated searches and audits don't fetch the same data again. Any change made
+            through this app to an asset drops the cached responses for that asset type, and
+            each tool can bypass the cache for a single run.
+          </p>
+          <div className="cache-controls">
+            <label className="cache-option">
+              <input
+                type="checkbox"
+                checked={cachePersistent}
+                onChange={(e) => handleCachePersistentChange(e.target.checked)}
+              />
+              Keep cached responses on disk between sessions
+            </label>
+            <span className="cache-size">{cacheSize} responses cached in memory</span>
+            <button type="button" className="btn btn-secondary" onClick={handleClearCache}>
+              Clear Cache
+            </button>
+          </div>
+          {cacheMessage && <p className="cache-message">{cacheMessage}</p>}
+        </div>
       </div>
     </div>
   )
@@ -49,10 +49,10 @@ interface EmailResult {
   brandId: string
   htmlContent: string
   plainText: string
-  isPlainTextEditable: string
-  sendPlainTextOnly: string
-  isTracked: string
-  isPrivate: string
+  isPlainTextEditable: boolean | ''
+  sendPlainTextOnly: boolean | ''
+  isTracked: boolean | ''
+  isPrivate: boolean | ''
   layout: string
   style: string
   
@@ -64,9 +64,9 @@ interface EmailResult {
   encodingId: string
   
   // Additional properties
-  isContentProtected: string
+  isContentProtected: boolean | ''
   renderMode: string
-  archived: string
+  archived: boolean | ''
   isArchived: boolean
   
   // Complex objects (serialized as strings for export)
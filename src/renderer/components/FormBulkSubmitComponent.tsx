@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useRef } from 'react'
 import useTool from '../hooks/useTool'
 import LoadingSpinner from './LoadingSpinner'
+import ToolProgressPanel from './ToolProgressPanel'
 import '../styles/FormBulkSubmitComponent.css'
 import { ClipboardList, FileText, CheckCircle, XCircle } from 'lucide-react'
 import Icon from '../../components/ui/Icon'
@@ -40,7 +41,7 @@ interface BulkSubmitSummary {
 }
 
 function FormBulkSubmitComponent() {
-  const { executeTool, isExecuting, progress, result, error, clearResult, clearError } = useTool()
+  const { executeTool, cancelTool, isExecuting, isCancelling, progress, runProgress, failedItems, result, error, clearResult, clearError } = useTool()
   const fileInputRef = useRef<HTMLInputElement>(null)
   
   // Form state
@@ -372,10 +373,21 @@ function FormBulkSubmitComponent() {
         {isExecuting ? (
           <div className="processing-active">
             <LoadingSpinner message={progress || 'Processing bulk submissions...'} />
+            <ToolProgressPanel progress={runProgress} failedItems={failedItems} />
             <div className="processing-info">
               <p>Please wait while your forms are being submitted...</p>
               <p><strong>Note:</strong> Do not close this window during processing.</p>
             </div>
+            <div className="progress-actions">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={cancelTool}
+                disabled={isCancelling}
+              >
+                {isCancelling ? 'Stopping...' : 'Stop'}
+              </button>
+            </div>
           </div>
         ) : (
           <div className="processing-ready">
@@ -427,6 +439,7 @@ function FormBulkSubmitComponent() {
               <>
                 <div className="results-summary">
                   <h3>Bulk Submit Results</h3>
+                  {result.cancelled && <p className="cancelled-note">{result.message}</p>}
                   <div className="summary-stats">
                     <div className="stat-card">
                       <div className="stat-number">{summary?.totalRows || 0}</div>
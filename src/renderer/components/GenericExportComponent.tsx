@@ -52,11 +52,12 @@ function GenericExportComponent({
   description,
   exportInfo
 }: GenericExportComponentProps) {
-  const { executeTool, isExecuting, progress, result, error, clearResult, clearError } = useTool()
+  const { executeTool, cancelTool, isExecuting, isCancelling, progress, result, error, clearResult, clearError } = useTool()
   
   // Form state
   const [filename, setFilename] = useState(defaultFilename)
   const [format, setFormat] = useState<'csv' | 'json'>('csv')
+  const [bypassCache, setBypassCache] = useState(false)
 
   const handleExport = async () => {
     clearResult()
@@ -69,7 +70,7 @@ function GenericExportComponent({
     }
     
     try {
-      await executeTool(toolId, parameters)
+      await executeTool(toolId, parameters, { bypassCache })
     } catch (error) {
       console.error(`${toolName} export failed:`, error)
     }
@@ -94,6 +95,7 @@ function GenericExportComponent({
   const handleClear = () => {
     setFilename(defaultFilename)
     setFormat('csv')
+    setBypassCache(false)
     clearResult()
     clearError()
   }
@@ -156,6 +158,19 @@ function GenericExportComponent({
                 }
               </small>
             </div>
+
+            <div className="checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={bypassCache}
+                  onChange={(e) => setBypassCache(e.target.checked)}
+                  disabled={isExecuting}
+                />
+                <span>Bypass cache</span>
+              </label>
+              <small>Read everything from Eloqua instead of responses cached in the last few minutes</small>
+            </div>
           </div>
         </div>
 
@@ -215,6 +230,16 @@ function GenericExportComponent({
         {isExecuting && (
           <div className="progress-section">
             <LoadingSpinner message={progress || `Exporting ${entityName}...`} />
+            <div className="progress-actions">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={cancelTool}
+                disabled={isCancelling}
+              >
+                {isCancelling ? 'Stopping...' : 'Stop'}
+              </button>
+            </div>
           </div>
         )}
 
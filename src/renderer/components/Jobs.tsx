@@ -0,0 +1,341 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { Download, ExternalLink, ListChecks, Square, Trash2 } from 'lucide-react'
+import Icon from '../../components/ui/Icon'
+import ToolProgressPanel from './ToolProgressPanel'
+import jobManager, { ToolJob } from '../services/jobManager'
+import ToolManager from '../../tools/ToolManager'
+import { ToolJobRecord, ToolJobStatus, ToolJobSummary } from '../../shared/toolJobs'
+import { formatDuration } from '../../shared/toolProgress'
+import '../styles/FormBulkSubmitComponent.css'
+import '../styles/ApiInspector.css'
+import '../styles/Jobs.css'
+
+// Rows and columns of the result preview; exports always include everything
+const PREVIEW_ROWS = 50
+const PREVIEW_COLUMNS = 8
+
+const STATUS_LABELS: Record<ToolJobStatus, string> = {
+  running: 'Running',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  cancelled: 'Stopped'
+}
+
+function formatRunTime(job: { startedAt: string, endedAt?: string }): string {
+  const end = job.endedAt ? Date.parse(job.endedAt) : Date.now()
+  return formatDuration(end - Date.parse(job.startedAt))
+}
+
+function fileBaseName(job: { toolName: string, startedAt: string }): string {
+  return `${job.toolName.toLowerCase().replace(/\s+/g, '-')}-${job.startedAt.slice(0, 19).replace(/:/g, '-')}`
+}
+
+// Columns of the preview: the first plain values of the first row
+function previewColumns(rows: any[]): string[] {
+  const first = rows.find(row => row && typeof row === 'object') || {}
+  return Object.keys(first)
+    .filter(key => first[key] === null || typeof first[key] !== 'object')
+    .slice(0, PREVIEW_COLUMNS)
+}
+
+// Running jobs of this session and the run history, with past results that can be exported again
+function Jobs() {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const [sessionJobs, setSessionJobs] = useState<ToolJob[]>([])
+  const [history, setHistory] = useState<ToolJobSummary[]>([])
+  // Other pages link to a run by passing its id in the navigation state
+  const [selectedId, setSelectedId] = useState<string | null>((location.state as { jobId?: string } | null)?.jobId || null)
+  const [record, setRecord] = useState<ToolJobRecord | null>(null)
+  const [notice, setNotice] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  useEffect(() => {
+    let active = true
+    let savedJobs = ''
+    const refresh = () => {
+      const jobs = jobManager.getJobs()
+      setSessionJobs(jobs)
+
+      // The history only changes when a finished run has been saved
+      const saved = jobs.filter(job => job.saved).map(job => job.id).join()
+      if (saved !== savedJobs) {
+        savedJobs = saved
+        window.electronAPI.listJobs().then(runs => {
+          if (active) setHistory(runs)
+        })
+      }
+    }
+    refresh()
+    const unsubscribe = jobManager.subscribe(refresh)
+
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  const runningJobs = sessionJobs.filter(job => job.status === 'running')
+  const selectedJob = sessionJobs.find(job => job.id === selectedId)
+  const runningJob = selectedJob?.status === 'running' ? selectedJob : null
+  // A run of this session can be read back once it is saved
+  const isRecordReady = !!selectedId && (!selectedJob || selectedJob.saved)
+
+  useEffect(() => {
+    setRecord(null)
+    if (!selectedId || !isRecordReady) return
+
+    let active = true
+    window.electronAPI.getJob(selectedId).then(loaded => {
+      if (active) setRecord(loaded)
+    })
+    return () => {
+      active = false
+    }
+  }, [selectedId, isRecordReady])
+
+  const rows = useMemo(() => Array.isArray(record?.result.data) ? record!.result.data as any[] : null, [record])
+  const columns = useMemo(() => rows ? previewColumns(rows) : [], [rows])
+
+  const hasGeneratedPage = (toolId: string) => {
+    const toolManager = ToolManager.getInstance()
+    return toolManager.isToolRegistered(toolId) && !toolManager.getToolComponent(toolId)
+  }
+
+  const handleExportCsv = async () => {
+    if (!record || !rows) return
+    setNotice(null)
+    try {
+      const filePath = await window.electronAPI.exportCsv(rows, `${fileBaseName(record)}.csv`)
+      setNotice({ type: 'success', text: `Exported to ${filePath}` })
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Export failed' })
+    }
+  }
+
+  const handleExportJson = async () => {
+    if (!record) return
+    setNotice(null)
+    try {
+      const choice = await window.electronAPI.showSaveDialog({
+        defaultPath: `${fileBaseName(record)}.json`,
+        filters: [{ name: 'JSON Files', extensions: ['json'] }]
+      })
+      if (choice.canceled || !choice.filePath) return
+
+      await window.electronAPI.writeFile(choice.filePath, JSON.stringify(record.result.data ?? null, null, 2))
+      setNotice({ type: 'success', text: `Exported to ${choice.filePath}` })
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Export failed' })
+    }
+  }
+
+  // Export tools return the finished file content; it is saved again as it was
+  const handleDownloadExport = () => {
+    const data = record?.result.data
+    if (!data?.exportData || !data?.filename) return
+
+    const blob = new Blob([data.exportData], { type: data.filename.endsWith('.json') ? 'application/json' : 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = data.filename
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  const handleOpenInTool = (toolId: string, jobId: string) => {
+    const path = ToolManager.getInstance().getToolConfig(toolId)?.path
+    if (path) {
+      navigate(path, { state: { jobId } })
+    }
+  }
+
+  const handleDelete = async (jobId: string) => {
+    await window.electronAPI.deleteJob(jobId)
+    setHistory(prev => prev.filter(run => run.id !== jobId))
+    setSelectedId(null)
+  }
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete the whole run history, including stored results?')) return
+    await window.electronAPI.clearJobs()
+    setHistory([])
+    setSelectedId(null)
+  }
+
+  return (
+    <div className="api-inspector jobs-page full-width">
+      <div className="tool-header">
+        <div className="tool-title">
+          <span className="tool-icon">
+            <Icon icon={ListChecks} size={80} />
+          </span>
+          <div className="tool-title-text">
+            <h1>Jobs</h1>
+            <p className="tool-description">Tool runs keep going in the background when you leave their page. Finished runs are kept with their parameters and results, so you can reopen and export them later.</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="inspector-toolbar">
+        <span className="jobs-count">{runningJobs.length} running, {history.length} in history</span>
+        <button type="button" className="btn btn-secondary" onClick={handleClear} disabled={history.length === 0}>
+          <Icon icon={Trash2} size={16} /> Clear History
+        </button>
+      </div>
+
+      {notice && <p className={`inspector-notice ${notice.type}`}>{notice.text}</p>}
+
+      <div className="inspector-body">
+        <div className="results-table-container inspector-list">
+          <table className="results-table">
+            <thead>
+              <tr>
+                <th>Started</th>
+                <th>Tool</th>
+                <th>Status</th>
+                <th>Duration</th>
+                <th>Items</th>
+                <th>Summary</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runningJobs.length === 0 && history.length === 0 && (
+                <tr>
+                  <td colSpan={6}>No tool runs yet.</td>
+                </tr>
+              )}
+              {runningJobs.map(job => (
+                <tr
+                  key={job.id}
+                  className={job.id === selectedId ? 'selected-row' : ''}
+                  onClick={() => setSelectedId(job.id)}
+                >
+                  <td>{new Date(job.startedAt).toLocaleString()}</td>
+                  <td>{job.toolName}</td>
+                  <td><span className="job-status running">{job.isCancelling ? 'Stopping' : STATUS_LABELS.running}</span></td>
+                  <td>{formatRunTime(job)}</td>
+                  <td>{job.runProgress ? `${job.runProgress.completed}${job.runProgress.total !== undefined ? ` / ${job.runProgress.total}` : ''}` : ''}</td>
+                  <td className="jobs-summary">{job.runProgress?.phase || job.progress}</td>
+                </tr>
+              ))}
+              {history.map(run => (
+                <tr
+                  key={run.id}
+                  className={`${run.status === 'failed' ? 'error-row' : ''} ${run.id === selectedId ? 'selected-row' : ''}`}
+                  onClick={() => setSelectedId(run.id)}
+                >
+                  <td>{new Date(run.startedAt).toLocaleString()}</td>
+                  <td>{run.toolName}</td>
+                  <td><span className={`job-status ${run.status}`}>{STATUS_LABELS[run.status]}</span></td>
+                  <td>{formatRunTime(run)}</td>
+                  <td>
+                    {run.itemCount ?? ''}
+                    {run.failedItemCount > 0 && ` (${run.failedItemCount} failed)`}
+                  </td>
+                  <td className="jobs-summary" title={run.summary}>{run.summary}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {runningJob && (
+          <div className="inspector-detail">
+            <div className="inspector-detail-header">
+              <h3>{runningJob.toolName}</h3>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={() => jobManager.cancel(runningJob.id)}
+                disabled={runningJob.isCancelling}
+              >
+                <Icon icon={Square} size={16} /> {runningJob.isCancelling ? 'Stopping...' : 'Stop'}
+              </button>
+            </div>
+            {runningJob.progress && <p>{runningJob.progress}</p>}
+            <ToolProgressPanel progress={runningJob.runProgress} failedItems={runningJob.failedItems} />
+          </div>
+        )}
+
+        {record && (
+          <div className="inspector-detail">
+            <div className="inspector-detail-header">
+              <h3>{record.toolName}</h3>
+              <div className="jobs-actions">
+                {hasGeneratedPage(record.toolId) && (
+                  <button type="button" className="btn btn-primary" onClick={() => handleOpenInTool(record.toolId, record.id)}>
+                    <Icon icon={ExternalLink} size={16} /> Open in Tool
+                  </button>
+                )}
+                <button type="button" className="btn btn-secondary" onClick={() => handleDelete(record.id)}>
+                  <Icon icon={Trash2} size={16} /> Delete
+                </button>
+              </div>
+            </div>
+
+            <dl className="inspector-summary">
+              <dt>Status</dt><dd>{STATUS_LABELS[record.status]}</dd>
+              <dt>Started</dt><dd>{new Date(record.startedAt).toLocaleString()}</dd>
+              {record.endedAt && (<><dt>Ended</dt><dd>{new Date(record.endedAt).toLocaleString()} ({formatRunTime(record)})</dd></>)}
+              {record.summary && (<><dt>Summary</dt><dd>{record.summary}</dd></>)}
+              {record.itemCount !== undefined && (<><dt>Items</dt><dd>{record.itemCount}</dd></>)}
+              {record.result.exportPath && (<><dt>Exported To</dt><dd>{record.result.exportPath}</dd></>)}
+              <dt>Run ID</dt><dd>{record.id}</dd>
+            </dl>
+
+            <div className="jobs-actions">
+              {rows && (
+                <button type="button" className="btn btn-secondary" onClick={handleExportCsv} disabled={rows.length === 0}>
+                  <Icon icon={Download} size={16} /> Export CSV
+                </button>
+              )}
+              {record.result.data?.exportData && record.result.data?.filename && (
+                <button type="button" className="btn btn-secondary" onClick={handleDownloadExport}>
+                  <Icon icon={Download} size={16} /> Download {record.result.data.filename}
+                </button>
+              )}
+              {record.result.data !== undefined && (
+                <button type="button" className="btn btn-secondary" onClick={handleExportJson}>
+                  <Icon icon={Download} size={16} /> Export JSON
+                </button>
+              )}
+            </div>
+
+            <ToolProgressPanel progress={null} failedItems={record.failedItems} />
+
+            {rows && rows.length > 0 && columns.length > 0 && (
+              <>
+                <h4>Results{rows.length > PREVIEW_ROWS && ` (first ${PREVIEW_ROWS} of ${rows.length})`}</h4>
+                <div className="results-table-container jobs-preview">
+                  <table className="results-table">
+                    <thead>
+                      <tr>
+                        {columns.map(column => <th key={column}>{column}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                        <tr key={index}>
+                          {columns.map(column => <td key={column}>{row?.[column] === null || row?.[column] === undefined ? '' : String(row[column])}</td>)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+
+            <h4>Parameters</h4>
+            <pre className="inspector-body-text">{JSON.stringify(record.parameters, null, 2)}</pre>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default Jobs
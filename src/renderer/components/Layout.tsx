@@ -5,7 +5,7 @@ import Navigation from './Navigation'
 import '../styles/Layout.css'
 
 function Layout() {
-  const { credentials, logout, isAuthenticated } = useAuth()
+  const { session, logout, isAuthenticated } = useAuth()
   const navigate = useNavigate()
 
   useEffect(() => {
@@ -14,7 +14,7 @@ function Layout() {
     }
   }, [isAuthenticated, navigate])
 
-  if (!credentials) {
+  if (!session) {
     return <div className="loading">Loading...</div>
   }
 
@@ -25,7 +25,7 @@ function Layout() {
           <h1 className="header-title">Eloqua Admin Toolbox</h1>
           <div className="header-info">
             <span className="site-info">
-              {credentials.siteName} • {credentials.username}
+              {session.siteName} • {session.username}
             </span>
             <button onClick={logout} className="btn btn-secondary logout-btn">
               Logout
@@ -1,18 +1,53 @@
 import React, { useState } from 'react'
 import { useAuth } from '../contexts/AuthContext'
-import { testConnection } from '../services/eloquaApi'
+import { login as openSession } from '../services/eloquaApi'
+import { EloquaLoginRequest } from '@shared/types'
+import NetworkSettingsPanel from './NetworkSettingsPanel'
 import '../styles/Login.css'
 import logoImage from '../assets/elqtoolbox.png'
 
+type AuthMode = 'basic' | 'oauth-code' | 'oauth-password' | 'demo'
+
+const AUTH_MODES: Array<{ mode: AuthMode, label: string, description: string }> = [
+  { mode: 'basic', label: 'Basic', description: 'Sign in with your Eloqua site name, username and password.' },
+  { mode: 'oauth-code', label: 'OAuth', description: 'Sign in through the Eloqua login page in your browser using an OAuth app.' },
+  { mode: 'oauth-password', label: 'OAuth Password', description: 'Exchange your Eloqua password for OAuth tokens issued to your app.' },
+  { mode: 'demo', label: 'Demo', description: 'Explore the tools against a local demo instance with sample data. Nothing is sent to Eloqua.' },
+]
+
 function Login() {
   const { login } = useAuth()
+  const [mode, setMode] = useState<AuthMode>('basic')
   const [credentials, setCredentials] = useState({
     siteName: '',
     username: '',
     password: '',
+    clientId: '',
+    clientSecret: '',
+    redirectPort: '48321',
+    throttleEvery: '',
+    expireSessionAfter: '',
   })
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
+  const [showNetworkSettings, setShowNetworkSettings] = useState(false)
+
+  const buildRequest = (): EloquaLoginRequest => {
+    const { siteName, username, password, clientId, clientSecret, redirectPort, throttleEvery, expireSessionAfter } = credentials
+    if (mode === 'demo') {
+      return {
+        method: 'demo',
+        simulation: { throttleEvery: Number(throttleEvery) || undefined, expireSessionAfter: Number(expireSessionAfter) || undefined }
+      }
+    }
+    if (mode === 'oauth-code') {
+      return { method: 'oauth-code', clientId, clientSecret, redirectPort: Number(redirectPort) || undefined }
+    }
+    if (mode === 'oauth-password') {
+      return { method: 'oauth-password', siteName, username, password, clientId, clientSecret }
+    }
+    return { method: 'basic', siteName, username, password }
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -20,23 +55,13 @@ function Login() {
     setError('')
 
     try {
-      // Test connection and get base URL
-      const loginData = await testConnection(credentials)
-      
-      // Validate loginData structure (should not happen after our fixes, but safety check)
-      if (!loginData || !loginData.urls || !loginData.urls.base) {
-        console.error('Login component received invalid loginData:', loginData)
-        throw new Error('Invalid response from authentication service')
-      }
-      
-      // Update credentials with base URL and user info
-      const updatedCredentials = {
-        ...credentials,
-        baseUrl: loginData.urls.base,
-        userId: loginData.user?.id,
-      }
-      
-      login(updatedCredentials)
+      // Verify the credentials in the main process and open a session
+      const session = await openSession(buildRequest())
+
+      // Secrets are no longer needed in the renderer once the session exists
+      setCredentials(prev => ({ ...prev, password: '', clientSecret: '' }))
+
+      login(session)
     } catch (err) {
       console.error('Login component error:', err)
       setError(err instanceof Error ? err.message : 'Login failed')
@@ -53,6 +78,9 @@ function Login() {
     }))
   }
 
+  const usesPassword = mode === 'basic' || mode === 'oauth-password'
+  const usesClient = mode === 'oauth-code' || mode === 'oauth-password'
+  const activeMode = AUTH_MODES.find(m => m.mode === mode)!
 
   return (
     <div className="login-container">
@@ -64,55 +92,187 @@ function Login() {
           <h1>Eloqua Admin Toolbox</h1>
           <p>Enter your Eloqua credentials to connect</p>
         </div>
-        
-        <form onSubmit={handleSubmit} className="login-form">
-          <div className="form-group">
-            <label htmlFor="siteName" className="form-label">
-              Site Name
-            </label>
-            <input
-              type="text"
-              id="siteName"
-              name="siteName"
-              value={credentials.siteName}
-              onChange={handleChange}
-              className="form-input"
-              placeholder="Your Eloqua site name"
-              required
-            />
-          </div>
 
-          <div className="form-group">
-            <label htmlFor="username" className="form-label">
-              Username
-            </label>
-            <input
-              type="text"
-              id="username"
-              name="username"
-              value={credentials.username}
-              onChange={handleChange}
-              className="form-input"
-              placeholder="Your Eloqua username"
-              required
-            />
+        <div className="auth-mode-selector">
+          <div className="mode-tabs">
+            {AUTH_MODES.map(({ mode: tabMode, label }) => (
+              <button
+                key={tabMode}
+                type="button"
+                className={`mode-tab ${mode === tabMode ? 'active' : ''}`}
+                onClick={() => { setMode(tabMode); setError('') }}
+                disabled={isLoading}
+              >
+                {label}
+              </button>
+            ))}
           </div>
+          <p className="mode-description">{activeMode.description}</p>
+        </div>
 
-          <div className="form-group">
-            <label htmlFor="password" className="form-label">
-              Password
-            </label>
-            <input
-              type="password"
-              id="password"
-              name="password"
-              value={credentials.password}
-              onChange={handleChange}
-              className="form-input"
-              placeholder="Your Eloqua password"
-              required
-            />
-          </div>
+        <form onSubmit={handleSubmit} className="login-form">
+          {usesPassword && (
+            <>
+              <div className="form-group">
+                <label htmlFor="siteName" className="form-label">
+                  Site Name
+                </label>
+                <input
+                  type="text"
+                  id="siteName"
+                  name="siteName"
+                  value={credentials.siteName}
+                  onChange={handleChange}
+                  className="form-input"
+                  placeholder="Your Eloqua site name"
+                  required
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="username" className="form-label">
+                  Username
+                </label>
+                <input
+                  type="text"
+                  id="username"
+                  name="username"
+                  value={credentials.username}
+                  onChange={handleChange}
+                  className="form-input"
+                  placeholder="Your Eloqua username"
+                  required
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="password" className="form-label">
+                  Password
+                </label>
+                <input
+                  type="password"
+                  id="password"
+                  name="password"
+                  value={credentials.password}
+                  onChange={handleChange}
+                  className="form-input"
+                  placeholder="Your Eloqua password"
+                  required
+                />
+              </div>
+            </>
+          )}
+
+          {usesClient && (
+            <>
+              <div className="form-group">
+                <label htmlFor="clientId" className="form-label">
+                  Client ID
+                </label>
+                <input
+                  type="text"
+                  id="clientId"
+                  name="clientId"
+                  value={credentials.clientId}
+                  onChange={handleChange}
+                  className="form-input"
+                  placeholder="Client ID of your Eloqua app"
+                  required
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="clientSecret" className="form-label">
+                  Client Secret
+                </label>
+                <input
+                  type="password"
+                  id="clientSecret"
+                  name="clientSecret"
+                  value={credentials.clientSecret}
+                  onChange={handleChange}
+                  className="form-input"
+                  placeholder="Client secret of your Eloqua app"
+                  required
+                />
+              </div>
+            </>
+          )}
+
+          {mode === 'oauth-code' && (
+            <div className="browser-login-info">
+              <div className="form-group">
+                <label htmlFor="redirectPort" className="form-label">
+                  Redirect Port
+                </label>
+                <input
+                  type="number"
+                  id="redirectPort"
+                  name="redirectPort"
+                  value={credentials.redirectPort}
+                  onChange={handleChange}
+                  className="form-input"
+                  min={1024}
+                  max={65535}
+                  required
+                />
+              </div>
+              <div className="browser-instructions">
+                <h4>Before you sign in</h4>
+                <ol>
+                  <li>Register <code>http://127.0.0.1:{credentials.redirectPort || '48321'}/oauth/callback</code> as the app's redirect URI in Eloqua.</li>
+                  <li>Click Connect and approve access in the browser window that opens.</li>
+                  <li>Return here once the browser shows the sign-in is complete.</li>
+                </ol>
+              </div>
+            </div>
+          )}
+
+          {mode === 'demo' && (
+            <div className="browser-login-info">
+              <div className="form-group">
+                <label htmlFor="throttleEvery" className="form-label">
+                  Throttle Every Nth Request (429)
+                </label>
+                <input
+                  type="number"
+                  id="throttleEvery"
+                  name="throttleEvery"
+                  value={credentials.throttleEvery}
+                  onChange={handleChange}
+                  className="form-input"
+                  placeholder="Off"
+                  min={2}
+                  max={10000}
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="expireSessionAfter" className="form-label">
+                  Expire Session After N Requests (401)
+                </label>
+                <input
+                  type="number"
+                  id="expireSessionAfter"
+                  name="expireSessionAfter"
+                  value={credentials.expireSessionAfter}
+                  onChange={handleChange}
+                  className="form-input"
+                  placeholder="Off"
+                  min={2}
+                  max={10000}
+                />
+              </div>
+              <div className="browser-instructions">
+                <h4>About the demo instance</h4>
+                <ol>
+                  <li>Every demo sign-in starts from fresh sample data, so destructive tools can be tried repeatedly.</li>
+                  <li>Contact fields "Legacy Region Code" and "Old Campaign Source" are used by bulk definitions and return 412 with dependencies when deleted.</li>
+                  <li>Leave the request counts empty to turn throttling and session expiry off.</li>
+                </ol>
+              </div>
+            </div>
+          )}
 
           {error && (
             <div className="error-message">
@@ -125,10 +285,26 @@ function Login() {
             className="btn btn-primary login-btn"
             disabled={isLoading}
           >
-            {isLoading ? 'Connecting...' : 'Connect to Eloqua'}
+            {isLoading
+              ? (mode === 'oauth-code' ? 'Waiting for browser sign-in...' : 'Connecting...')
+              : mode === 'demo' ? 'Open Demo Instance' : 'Connect to Eloqua'}
           </button>
         </form>
 
+        {mode !== 'demo' && (
+          <div className="network-settings-section">
+            <button
+              type="button"
+              className="network-settings-toggle"
+              onClick={() => setShowNetworkSettings(!showNetworkSettings)}
+              aria-expanded={showNetworkSettings}
+            >
+              {showNetworkSettings ? 'Hide network settings' : 'Proxy, certificates and pod URL...'}
+            </button>
+            {showNetworkSettings && <NetworkSettingsPanel />}
+          </div>
+        )}
+
         <div className="login-footer">
           <p>
             This application connects directly to your Eloqua instance using the REST API.
@@ -140,4 +316,4 @@ function Login() {
   )
 }
 
-export default Login
\ No newline at end of file
+export default Login
@@ -1,64 +1,75 @@
-import React from 'react'
 import { Link, useLocation } from 'react-router-dom'
 import '../styles/Navigation.css'
-import { 
-  BarChart3, 
-  Mail, 
-  Link as LinkIcon, 
-  Trash2, 
-  FileText, 
-  ClipboardList 
-} from 'lucide-react'
+import { BarChart3, Activity, CalendarClock, ListChecks, Puzzle, Undo2, Workflow, LucideIcon } from 'lucide-react'
 import Icon from '../../components/ui/Icon'
+import useRegisteredTools from '../hooks/useRegisteredTools'
+import { getToolIcon } from './toolIcons'
 
 interface NavItem {
   path: string
   label: string
-  icon?: React.ComponentType
+  icon?: LucideIcon
   description?: string
 }
 
-const navItems: NavItem[] = [
-  {
-    path: '/',
-    label: 'Dashboard',
-    icon: BarChart3,
-    description: 'Overview and quick actions'
-  },
-  {
-    path: '/email-assets',
-    label: 'Email Asset Management',
-    icon: Mail,
-    description: 'Search and export email data'
-  },
-  {
-    path: '/form-assets',
-    label: 'Form Asset Management',
-    icon: FileText,
-    description: 'Search and export form data'
-  },
-  {
-    path: '/form-bulk-submit',
-    label: 'Form Bulk Submit',
-    icon: ClipboardList,
-    description: 'Submit CSV data to Eloqua forms'
-  },
-  {
-    path: '/dependencies',
-    label: 'Dependency Analyzer',
-    icon: LinkIcon,
-    description: 'Analyze asset relationships'
-  },
-  {
-    path: '/bulk-sync-deletion',
-    label: 'Bulk Sync Deletion',
-    icon: Trash2,
-    description: 'Delete multiple bulk syncs efficiently'
-  },
-]
+// Tool entries come from the registry, in registration order, between the fixed pages
+function getNavItems(tools: ReturnType<typeof useRegisteredTools>): NavItem[] {
+  return [
+    {
+      path: '/',
+      label: 'Dashboard',
+      icon: BarChart3,
+      description: 'Overview and quick actions'
+    },
+    ...tools.map(tool => ({
+      path: tool.path,
+      label: tool.name,
+      icon: getToolIcon(tool.icon),
+      description: tool.summary || tool.description
+    })),
+    {
+      path: '/jobs',
+      label: 'Jobs',
+      icon: ListChecks,
+      description: 'Running jobs and past results'
+    },
+    {
+      path: '/undo-journal',
+      label: 'Undo Journal',
+      icon: Undo2,
+      description: 'Saved state of changed and deleted assets'
+    },
+    {
+      path: '/pipelines',
+      label: 'Pipelines',
+      icon: Workflow,
+      description: 'Chain tools, passing results from one to the next'
+    },
+    {
+      path: '/schedules',
+      label: 'Schedules',
+      icon: CalendarClock,
+      description: 'Run tools on a recurring schedule'
+    },
+    {
+      path: '/api-inspector',
+      label: 'API Inspector',
+      icon: Activity,
+      description: 'Review, replay and export API calls'
+    },
+    {
+      path: '/plugins',
+      label: 'Plugins',
+      icon: Puzzle,
+      description: 'Enable or disable tool plugins'
+    },
+  ]
+}
 
 function Navigation() {
   const location = useLocation()
+  const tools = useRegisteredTools()
+  const navItems = getNavItems(tools)
 
   return (
     <nav className="navigation">
@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react'
+import { EloquaNetworkSettings, EloquaProxyMode } from '@shared/apiTypes'
+
+const PROXY_MODES: Array<{ mode: EloquaProxyMode, label: string }> = [
+  { mode: 'direct', label: 'No proxy' },
+  { mode: 'system', label: 'Use system proxy settings' },
+  { mode: 'pac', label: 'Proxy auto-config (PAC) URL' },
+  { mode: 'manual', label: 'Manual proxy' },
+]
+
+// Proxy, CA bundle and base URL settings. They are saved in the main process and
+// apply to sign-in and every API call from the next request on.
+function NetworkSettingsPanel() {
+  const [settings, setSettings] = useState<EloquaNetworkSettings | null>(null)
+  const [proxyPassword, setProxyPassword] = useState('')
+  const [clearPassword, setClearPassword] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [notice, setNotice] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.getNetworkSettings()
+      .then(setSettings)
+      .catch(error => setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load network settings' }))
+  }, [])
+
+  if (!settings) {
+    return notice ? <div className="error-message">{notice.text}</div> : null
+  }
+
+  const update = (changes: Partial<EloquaNetworkSettings>) => {
+    setSettings(prev => prev && { ...prev, ...changes })
+    setNotice(null)
+  }
+
+  const handleAddBundle = async () => {
+    const bundlePath = await window.electronAPI.chooseCaBundle()
+    if (bundlePath && !settings.caBundlePaths.includes(bundlePath)) {
+      update({ caBundlePaths: [...settings.caBundlePaths, bundlePath] })
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setNotice(null)
+    try {
+      const { hasProxyPassword, ...rest } = settings
+      const saved = await window.electronAPI.setNetworkSettings({
+        ...rest,
+        proxyPassword: clearPassword ? '' : (proxyPassword || undefined)
+      })
+      setSettings(saved)
+      setProxyPassword('')
+      setClearPassword(false)
+      setNotice({ type: 'success', text: 'Network settings saved.' })
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save network settings' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const usesProxy = settings.proxyMode !== 'direct'
+
+  return (
+    <div className="network-settings">
+      <div className="form-group">
+        <label htmlFor="proxyMode" className="form-label">Proxy</label>
+        <select
+          id="proxyMode"
+          value={settings.proxyMode}
+          onChange={(e) => update({ proxyMode: e.target.value as EloquaProxyMode })}
+          className="form-input"
+        >
+          {PROXY_MODES.map(({ mode, label }) => (
+            <option key={mode} value={mode}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {settings.proxyMode === 'manual' && (
+        <div className="form-group">
+          <label htmlFor="proxyUrl" className="form-label">Proxy URL</label>
+          <input
+            type="text"
+            id="proxyUrl"
+            value={settings.proxyUrl || ''}
+            onChange={(e) => update({ proxyUrl: e.target.value })}
+            className="form-input"
+            placeholder="http://proxy.example.com:8080"
+          />
+        </div>
+      )}
+
+      {settings.proxyMode === 'pac' && (
+        <div className="form-group">
+          <label htmlFor="pacUrl" className="form-label">PAC URL</label>
+          <input
+            type="text"
+            id="pacUrl"
+            value={settings.pacUrl || ''}
+            onChange={(e) => update({ pacUrl: e.target.value })}
+            className="form-input"
+            placeholder="http://wpad.example.com/proxy.pac"
+          />
+        </div>
+      )}
+
+      {usesProxy && (
+        <div className="network-settings-row">
+          <div className="form-group">
+            <label htmlFor="proxyUsername" className="form-label">Proxy Username</label>
+            <input
+              type="text"
+              id="proxyUsername"
+              value={settings.proxyUsername || ''}
+              onChange={(e) => update({ proxyUsername: e.target.value })}
+              className="form-input"
+              placeholder="Only if the proxy asks for one"
+              autoComplete="off"
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="proxyPassword" className="form-label">Proxy Password</label>
+            <input
+              type="password"
+              id="proxyPassword"
+              value={proxyPassword}
+              onChange={(e) => { setProxyPassword(e.target.value); setClearPassword(false) }}
+              className="form-input"
+              placeholder={settings.hasProxyPassword ? 'Saved in the keychain' : ''}
+              autoComplete="off"
+            />
+            {settings.hasProxyPassword && (
+              <label className="network-settings-checkbox">
+                <input type="checkbox" checked={clearPassword} onChange={(e) => setClearPassword(e.target.checked)} />
+                Remove saved password
+              </label>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="form-group">
+        <label className="form-label">Trusted CA Bundles</label>
+        {settings.caBundlePaths.length > 0 && (
+          <ul className="network-settings-bundles">
+            {settings.caBundlePaths.map(bundlePath => (
+              <li key={bundlePath}>
+                <span title={bundlePath}>{bundlePath}</span>
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={() => update({ caBundlePaths: settings.caBundlePaths.filter(p => p !== bundlePath) })}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <button type="button" className="btn btn-secondary" onClick={handleAddBundle}>
+          Add PEM Bundle...
+        </button>
+        <small className="field-description">Needed when a proxy re-signs HTTPS traffic with your company's certificate authority.</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="baseUrlOverride" className="form-label">Base URL Override</label>
+        <input
+          type="text"
+          id="baseUrlOverride"
+          value={settings.baseUrlOverride || ''}
+          onChange={(e) => update({ baseUrlOverride: e.target.value })}
+          className="form-input"
+          placeholder="https://secure.p03.eloqua.com"
+        />
+        <small className="field-description">Your Eloqua pod, on eloqua.com. When set, sign-in skips login.eloqua.com/id and the sessions signed in afterwards send all calls to this URL. You are asked to confirm a new pod when saving.</small>
+      </div>
+
+      {notice && <div className={notice.type === 'error' ? 'error-message' : 'network-settings-saved'}>{notice.text}</div>}
+
+      <button type="button" className="btn btn-primary" onClick={handleSave} disabled={isSaving}>
+        {isSaving ? 'Saving...' : 'Save Network Settings'}
+      </button>
+    </div>
+  )
+}
+
+export default NetworkSettingsPanel
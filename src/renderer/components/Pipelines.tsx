@@ -0,0 +1,514 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ArrowDown, ArrowUp, ExternalLink, Play, Plus, Save, Square, Trash2, Workflow } from 'lucide-react'
+import Icon from '../../components/ui/Icon'
+import { useAuth } from '../contexts/AuthContext'
+import useRegisteredTools from '../hooks/useRegisteredTools'
+import pipelineRunner, { PipelineRun, PipelineStepStatus } from '../services/pipelineRunner'
+import ToolManager from '../../tools/ToolManager'
+import { PIPELINE_PREVIEW_LIMIT, Pipeline, PipelineInputBinding, validatePipeline } from '../../shared/pipeline'
+import { validateFilterExpression } from '../../shared/filterExpression'
+import { getFieldLabel, getParameterDefaults } from '../../shared/parameterSchema'
+import '../styles/FormBulkSubmitComponent.css'
+import '../styles/ApiInspector.css'
+import '../styles/Jobs.css'
+import '../styles/Pipelines.css'
+
+// A step as edited: parameters stay text until they parse as JSON
+interface StepDraft {
+  id: string
+  toolId: string
+  parametersText: string
+  input: PipelineInputBinding
+}
+
+interface PipelineDraft {
+  id: string
+  name: string
+  steps: StepDraft[]
+  createdAt: string
+}
+
+// Ready-made pipelines for the common clean-up workflows
+const PIPELINE_TEMPLATES: Array<{ name: string, steps: Array<{ toolId: string, parameters: Record<string, unknown>, input?: PipelineInputBinding }> }> = [
+  {
+    name: 'Delete contact fields not updated for two years',
+    steps: [
+      { toolId: 'contact-field-export-tool', parameters: { operation: 'export-fields', includeSystemFields: false, format: 'csv' } },
+      {
+        toolId: 'bulk-sync-deletion-tool',
+        parameters: { operation: 'delete-contact-fields' },
+        input: { rowsPath: 'fields', column: 'id', filter: 'isSystem = false and updatedAt < now-2y', targetParameter: 'contactFieldIds' }
+      }
+    ]
+  },
+  {
+    name: 'Export the emails that use an asset',
+    steps: [
+      { toolId: 'asset-dependency-tool', parameters: { assetType: 'contactfield', assetId: '', exportFormat: 'csv' } },
+      {
+        toolId: 'email-asset-tool',
+        parameters: { exportFormat: 'csv' },
+        input: { rowsPath: 'usedBy', column: 'id', filter: 'type = \'email\'', targetParameter: 'searchById' }
+      }
+    ]
+  }
+]
+
+const STEP_STATUS_LABELS: Record<PipelineStepStatus, string> = {
+  pending: 'Waiting',
+  'awaiting-confirmation': 'Needs confirmation',
+  running: 'Running',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  cancelled: 'Stopped',
+  skipped: 'Not run'
+}
+
+let draftCounter = 0
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${++draftCounter}`
+}
+
+// Parameter that receives values when a step is added: the first list parameter, as ID lists usually are
+function defaultTargetParameter(toolId: string): string {
+  const schema = ToolManager.getInstance().getToolParameterSchema(toolId) || {}
+  const fieldNames = Object.keys(schema)
+  return fieldNames.find(fieldName => schema[fieldName].type === 'array') || fieldNames[0] || ''
+}
+
+function createStepDraft(toolId: string, parameters?: Record<string, unknown>, input?: PipelineInputBinding): StepDraft {
+  const schema = ToolManager.getInstance().getToolParameterSchema(toolId) || {}
+  return {
+    id: newId('step'),
+    toolId,
+    parametersText: JSON.stringify({ ...getParameterDefaults(schema), ...(parameters || {}) }, null, 2),
+    input: input || { rowsPath: '', column: 'id', filter: '', targetParameter: defaultTargetParameter(toolId) }
+  }
+}
+
+function toDraft(pipeline: Pipeline): PipelineDraft {
+  return {
+    id: pipeline.id,
+    name: pipeline.name,
+    createdAt: pipeline.createdAt,
+    steps: pipeline.steps.map(step => ({
+      id: step.id,
+      toolId: step.toolId,
+      parametersText: JSON.stringify(step.parameters, null, 2),
+      input: step.input || { rowsPath: '', column: 'id', filter: '', targetParameter: defaultTargetParameter(step.toolId) }
+    }))
+  }
+}
+
+/**
+ * Turns the edited pipeline into one that can be saved
+ * @param draft - Pipeline as edited
+ * @returns { pipeline } | { error } - The pipeline, or what keeps it from being saved
+ */
+function fromDraft(draft: PipelineDraft): { pipeline: Pipeline, error?: undefined } | { pipeline?: undefined, error: string } {
+  const steps: Pipeline['steps'] = []
+  for (const [index, step] of draft.steps.entries()) {
+    let parameters: unknown
+    try {
+      parameters = JSON.parse(step.parametersText || '{}')
+    } catch (error) {
+      return { error: `Step ${index + 1} parameters are not valid JSON: ${error instanceof Error ? error.message : ''}` }
+    }
+    if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) {
+      return { error: `Step ${index + 1} parameters must be a JSON object` }
+    }
+
+    if (index > 0) {
+      const filterProblem = validateFilterExpression(step.input.filter || '')
+      if (filterProblem) {
+        return { error: `Step ${index + 1} filter: ${filterProblem}` }
+      }
+    }
+
+    steps.push({
+      id: step.id,
+      toolId: step.toolId,
+      parameters: parameters as Record<string, unknown>,
+      input: index > 0 ? { ...step.input, rowsPath: step.input.rowsPath?.trim(), column: step.input.column.trim(), filter: step.input.filter?.trim() } : undefined
+    })
+  }
+
+  const pipeline: Pipeline = {
+    id: draft.id,
+    name: draft.name.trim(),
+    steps,
+    createdAt: draft.createdAt,
+    updatedAt: new Date().toISOString()
+  }
+  const problem = validatePipeline(pipeline)
+  return problem ? { error: problem } : { pipeline }
+}
+
+// Saved pipelines with an editor for the selected one and the state of its latest run
+function Pipelines() {
+  const navigate = useNavigate()
+  const { session } = useAuth()
+  const tools = useRegisteredTools()
+  const [pipelines, setPipelines] = useState<Pipeline[]>([])
+  const [draft, setDraft] = useState<PipelineDraft | null>(null)
+  const [run, setRun] = useState<PipelineRun | null>(null)
+  const [notice, setNotice] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.listPipelines()
+      .then(setPipelines)
+      .catch(error => setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load pipelines' }))
+  }, [])
+
+  // Follow the latest run of the pipeline being edited, including runs started before this page opened
+  useEffect(() => {
+    const refresh = () => setRun(draft ? pipelineRunner.getLatestRun(draft.id) || null : null)
+    refresh()
+    return pipelineRunner.subscribe(refresh)
+  }, [draft?.id])
+
+  const isSaved = !!draft && pipelines.some(pipeline => pipeline.id === draft.id)
+  const isRunActive = !!run && !run.endedAt
+
+  const updateDraft = (changes: Partial<PipelineDraft>) => {
+    setDraft(prev => prev ? { ...prev, ...changes } : prev)
+  }
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) => {
+    setDraft(prev => prev ? { ...prev, steps: prev.steps.map((step, stepIndex) => stepIndex === index ? { ...step, ...changes } : step) } : prev)
+  }
+
+  const updateInput = (index: number, changes: Partial<PipelineInputBinding>) => {
+    setDraft(prev => prev ? { ...prev, steps: prev.steps.map((step, stepIndex) => stepIndex === index ? { ...step, input: { ...step.input, ...changes } } : step) } : prev)
+  }
+
+  const moveStep = (index: number, offset: number) => {
+    setDraft(prev => {
+      if (!prev) return prev
+      const steps = [...prev.steps]
+      const [step] = steps.splice(index, 1)
+      steps.splice(index + offset, 0, step)
+      return { ...prev, steps }
+    })
+  }
+
+  const handleNew = (template?: typeof PIPELINE_TEMPLATES[number]) => {
+    setNotice(null)
+    const firstTool = tools[0]?.id || ''
+    setDraft({
+      id: newId('pipeline'),
+      name: template?.name || 'New pipeline',
+      createdAt: new Date().toISOString(),
+      steps: template
+        ? template.steps.map(step => createStepDraft(step.toolId, step.parameters, step.input))
+        : [createStepDraft(firstTool)]
+    })
+  }
+
+  const handleSave = async (): Promise<Pipeline | null> => {
+    if (!draft) return null
+    setNotice(null)
+
+    const { pipeline, error } = fromDraft(draft)
+    if (!pipeline) {
+      setNotice({ type: 'error', text: error })
+      return null
+    }
+
+    try {
+      setPipelines(await window.electronAPI.savePipeline(pipeline))
+      setNotice({ type: 'success', text: `Saved "${pipeline.name}"` })
+      return pipeline
+    } catch (saveError) {
+      setNotice({ type: 'error', text: saveError instanceof Error ? saveError.message : 'Failed to save the pipeline' })
+      return null
+    }
+  }
+
+  const handleRun = async () => {
+    const pipeline = await handleSave()
+    if (!pipeline) return
+    setNotice(null)
+    setRun(pipelineRunner.start(pipeline, session))
+  }
+
+  const handleDelete = async () => {
+    if (!draft || !window.confirm(`Delete the pipeline "${draft.name}"?`)) return
+    try {
+      setPipelines(await window.electronAPI.deletePipeline(draft.id))
+      setDraft(null)
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete the pipeline' })
+    }
+  }
+
+  const pendingStepIndex = run?.status === 'awaiting-confirmation'
+    ? run.steps.findIndex(step => step.status === 'awaiting-confirmation')
+    : -1
+  const pendingStep = pendingStepIndex >= 0 ? run!.steps[pendingStepIndex] : null
+
+  return (
+    <div className="api-inspector pipelines-page full-width">
+      <div className="tool-header">
+        <div className="tool-title">
+          <span className="tool-icon">
+            <Icon icon={Workflow} size={80} />
+          </span>
+          <div className="tool-title-text">
+            <h1>Pipelines</h1>
+            <p className="tool-description">Run tools one after another, passing a column picked from one result to the next tool, e.g. contact field IDs from an export to a deletion. Steps that change data in Eloqua wait for you to confirm the values first.</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="inspector-toolbar">
+        <button type="button" className="btn btn-primary" onClick={() => handleNew()}>
+          <Icon icon={Plus} size={16} /> New Pipeline
+        </button>
+        {PIPELINE_TEMPLATES.map(template => (
+          <button key={template.name} type="button" className="btn btn-secondary" onClick={() => handleNew(template)}>
+            <Icon icon={Plus} size={16} /> {template.name}
+          </button>
+        ))}
+      </div>
+
+      {notice && <p className={`inspector-notice ${notice.type}`}>{notice.text}</p>}
+
+      <div className="inspector-body">
+        <div className="results-table-container inspector-list">
+          <table className="results-table">
+            <thead>
+              <tr>
+                <th>Pipeline</th>
+                <th>Steps</th>
+                <th>Updated</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pipelines.length === 0 && (
+                <tr>
+                  <td colSpan={3}>No saved pipelines yet.</td>
+                </tr>
+              )}
+              {pipelines.map(pipeline => (
+                <tr
+                  key={pipeline.id}
+                  className={pipeline.id === draft?.id ? 'selected-row' : ''}
+                  onClick={() => {
+                    setNotice(null)
+                    setDraft(toDraft(pipeline))
+                  }}
+                >
+                  <td>{pipeline.name}</td>
+                  <td className="jobs-summary">
+                    {pipeline.steps.map(step => ToolManager.getInstance().getToolConfig(step.toolId)?.name || step.toolId).join(' → ')}
+                  </td>
+                  <td>{new Date(pipeline.updatedAt).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {draft && (
+          <div className="inspector-detail">
+            <div className="inspector-detail-header">
+              <input
+                type="text"
+                className="form-input pipeline-name"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                aria-label="Pipeline name"
+              />
+              <div className="jobs-actions">
+                <button type="button" className="btn btn-primary" onClick={handleRun} disabled={isRunActive}>
+                  <Icon icon={Play} size={16} /> Run
+                </button>
+                <button type="button" className="btn btn-secondary" onClick={handleSave}>
+                  <Icon icon={Save} size={16} /> Save
+                </button>
+                {isSaved && (
+                  <button type="button" className="btn btn-secondary" onClick={handleDelete}>
+                    <Icon icon={Trash2} size={16} /> Delete
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {run && (
+              <div className="pipeline-run">
+                <div className="inspector-detail-header">
+                  <h4>Run started {new Date(run.startedAt).toLocaleString()}</h4>
+                  {isRunActive && (
+                    <button type="button" className="btn btn-secondary" onClick={() => pipelineRunner.cancel(run.id)}>
+                      <Icon icon={Square} size={16} /> Stop
+                    </button>
+                  )}
+                </div>
+
+                {pendingStep && (
+                  <div className="pipeline-confirmation">
+                    <p>
+                      <strong>Step {pendingStepIndex + 1}: {pendingStep.toolName}</strong> changes data in Eloqua.
+                      {pendingStep.inputValues && ` It will run with ${pendingStep.inputValues.length} value${pendingStep.inputValues.length === 1 ? '' : 's'} for ${pendingStep.inputParameter}:`}
+                    </p>
+                    {pendingStep.inputValues && (
+                      <pre className="inspector-body-text">
+                        {pendingStep.inputValues.slice(0, PIPELINE_PREVIEW_LIMIT).join('\n')}
+                        {pendingStep.inputValues.length > PIPELINE_PREVIEW_LIMIT && `\n... and ${pendingStep.inputValues.length - PIPELINE_PREVIEW_LIMIT} more`}
+                      </pre>
+                    )}
+                    <details>
+                      <summary>Parameters</summary>
+                      <pre className="inspector-body-text">{JSON.stringify(pendingStep.parameters, null, 2)}</pre>
+                    </details>
+                    <div className="jobs-actions">
+                      <button type="button" className="btn btn-primary" onClick={() => pipelineRunner.confirm(run.id)}>
+                        <Icon icon={Play} size={16} /> Run Step {pendingStepIndex + 1}
+                      </button>
+                      <button type="button" className="btn btn-secondary" onClick={() => pipelineRunner.cancel(run.id)}>
+                        <Icon icon={Square} size={16} /> Stop Pipeline
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <ol className="pipeline-run-steps">
+                  {run.steps.map((step, index) => (
+                    <li key={step.stepId}>
+                      <span className={`job-status ${step.status}`}>{STEP_STATUS_LABELS[step.status]}</span>
+                      <span className="pipeline-run-tool">{step.toolName}</span>
+                      {index > 0 && step.inputValues && <span className="field-description">{step.inputValues.length} input values</span>}
+                      {step.jobId && (
+                        <button type="button" className="btn btn-secondary btn-small" onClick={() => navigate('/jobs', { state: { jobId: step.jobId } })}>
+                          <Icon icon={ExternalLink} size={14} /> View Run
+                        </button>
+                      )}
+                      {step.message && <div className="field-description">{step.message}</div>}
+                    </li>
+                  ))}
+                </ol>
+                {run.message && <p className={`inspector-notice ${run.status === 'failed' ? 'error' : 'success'}`}>{run.message}</p>}
+              </div>
+            )}
+
+            {draft.steps.map((step, index) => {
+              const schema = ToolManager.getInstance().getToolParameterSchema(step.toolId) || {}
+              const filterProblem = index > 0 ? validateFilterExpression(step.input.filter || '') : null
+              return (
+                <div key={step.id} className="pipeline-step">
+                  <div className="inspector-detail-header">
+                    <h4>Step {index + 1}</h4>
+                    <div className="jobs-actions">
+                      <button type="button" className="btn btn-secondary btn-small" onClick={() => moveStep(index, -1)} disabled={index === 0} aria-label="Move step up">
+                        <Icon icon={ArrowUp} size={14} />
+                      </button>
+                      <button type="button" className="btn btn-secondary btn-small" onClick={() => moveStep(index, 1)} disabled={index === draft.steps.length - 1} aria-label="Move step down">
+                        <Icon icon={ArrowDown} size={14} />
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-secondary btn-small"
+                        onClick={() => updateDraft({ steps: draft.steps.filter((_, stepIndex) => stepIndex !== index) })}
+                        disabled={draft.steps.length === 1}
+                        aria-label="Remove step"
+                      >
+                        <Icon icon={Trash2} size={14} />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="form-group">
+                    <label className="form-label">Tool</label>
+                    <select
+                      className="form-input"
+                      value={step.toolId}
+                      onChange={(e) => updateStep(index, { ...createStepDraft(e.target.value), id: step.id })}
+                    >
+                      {!tools.some(tool => tool.id === step.toolId) && <option value={step.toolId}>{step.toolId} (not available)</option>}
+                      {tools.map(tool => <option key={tool.id} value={tool.id}>{tool.name}</option>)}
+                    </select>
+                  </div>
+
+                  {index > 0 && (
+                    <div className="pipeline-binding">
+                      <div className="form-group">
+                        <label className="form-label">Rows</label>
+                        <input
+                          type="text"
+                          className="form-input"
+                          value={step.input.rowsPath || ''}
+                          onChange={(e) => updateInput(index, { rowsPath: e.target.value })}
+                          placeholder="fields"
+                        />
+                        <small className="field-description">Path to the rows in the result of step {index}; empty when the result is the list itself</small>
+                      </div>
+                      <div className="form-group">
+                        <label className="form-label">Column</label>
+                        <input
+                          type="text"
+                          className="form-input"
+                          value={step.input.column}
+                          onChange={(e) => updateInput(index, { column: e.target.value })}
+                          placeholder="id"
+                        />
+                      </div>
+                      <div className="form-group">
+                        <label className="form-label">Filter</label>
+                        <input
+                          type="text"
+                          className={filterProblem ? 'form-input invalid' : 'form-input'}
+                          value={step.input.filter || ''}
+                          onChange={(e) => updateInput(index, { filter: e.target.value })}
+                          placeholder="isSystem = false and updatedAt < now-2y"
+                        />
+                        {filterProblem
+                          ? <div className="error-message field-error">{filterProblem}</div>
+                          : <small className="field-description">Compare columns with = != &gt; &lt; contains, startsWith, endsWith, in [...] or is empty; join with and, or, not. Dates can be relative, e.g. now-30d.</small>}
+                      </div>
+                      <div className="form-group">
+                        <label className="form-label">Into Parameter</label>
+                        <select
+                          className="form-input"
+                          value={step.input.targetParameter}
+                          onChange={(e) => updateInput(index, { targetParameter: e.target.value })}
+                        >
+                          {Object.entries(schema).map(([fieldName, fieldSchema]) => (
+                            <option key={fieldName} value={fieldName}>{getFieldLabel(fieldName, fieldSchema)}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="form-group">
+                    <label className="form-label">Parameters (JSON)</label>
+                    <textarea
+                      className="form-input pipeline-parameters"
+                      value={step.parametersText}
+                      onChange={(e) => updateStep(index, { parametersText: e.target.value })}
+                      rows={Math.min(12, step.parametersText.split('\n').length + 1)}
+                      spellCheck={false}
+                    />
+                  </div>
+                </div>
+              )
+            })}
+
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => updateDraft({ steps: [...draft.steps, createStepDraft(draft.steps[draft.steps.length - 1]?.toolId || tools[0]?.id || '')] })}
+            >
+              <Icon icon={Plus} size={16} /> Add Step
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default Pipelines
@@ -0,0 +1,87 @@
+import { Play } from 'lucide-react'
+import Icon from '../../components/ui/Icon'
+import { AppliedChange, PlannedChange, describePlannedChange } from '../../shared/plannedChanges'
+import '../styles/PlannedChangesPanel.css'
+
+interface PlannedChangesPanelProps {
+  // Plan of a dry run, or the outcome of each change once the plan was applied
+  changes: Array<PlannedChange | AppliedChange>
+  // Given for a plan that can still be applied
+  onApply?: () => void
+  disabled?: boolean
+}
+
+const isApplied = (change: PlannedChange | AppliedChange): change is AppliedChange => 'status' in change
+
+// Requests a dry run recorded instead of sending, shown for review before they are applied
+function PlannedChangesPanel({ changes, onApply, disabled }: PlannedChangesPanelProps) {
+  const applied = changes.some(isApplied)
+
+  const handleApply = () => {
+    if (!onApply) return
+    const confirmed = window.confirm(
+      `Send these ${changes.length} ${changes.length === 1 ? 'change' : 'changes'} to Eloqua now? ` +
+      'They are sent exactly as listed; updates overwrite anything edited in Eloqua since the dry run.'
+    )
+    if (confirmed) {
+      onApply()
+    }
+  }
+
+  return (
+    <div className="planned-changes">
+      <h3>{applied ? 'Applied Plan' : 'Planned Changes'}</h3>
+      {!applied && (
+        <p className="field-description">
+          Nothing has been sent to Eloqua. Applying sends exactly these requests, in this order, without running the tool again.
+        </p>
+      )}
+
+      {changes.length > 0 && (
+        <table className="planned-changes-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Change</th>
+              <th>Request</th>
+              {applied && <th>Status</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(change => (
+              <tr key={change.sequence}>
+                <td>{change.sequence}</td>
+                <td>
+                  {describePlannedChange(change)}
+                  {change.data !== undefined && (
+                    <details>
+                      <summary>Request body</summary>
+                      <pre>{JSON.stringify(change.data, null, 2)}</pre>
+                    </details>
+                  )}
+                </td>
+                <td><code>{change.method} {change.endpoint}</code></td>
+                {isApplied(change) && (
+                  <td>
+                    <span className={`planned-change-status ${change.status}`}>{change.status}</span>
+                    {change.error && <div className="planned-change-error">{change.error}</div>}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {onApply && changes.length > 0 && (
+        <div className="result-actions">
+          <button type="button" className="btn btn-primary" onClick={handleApply} disabled={disabled}>
+            <Icon icon={Play} size={16} /> Apply This Plan
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PlannedChangesPanel
@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react'
+import { FolderOpen, Puzzle, RefreshCw, RotateCcw } from 'lucide-react'
+import Icon from '../../components/ui/Icon'
+import ToolManager, { ToolPluginStatus } from '../../tools/ToolManager'
+import { MIN_PLUGIN_API_LEVEL, PLUGIN_API_LEVEL, ToolPluginInfo } from '../../shared/pluginManifest'
+import '../styles/FormBulkSubmitComponent.css'
+import '../styles/ApiInspector.css'
+import '../styles/PluginManager.css'
+
+// What the plugin is doing in this window, given its saved setting and how loading went
+function describeStatus(plugin: ToolPluginInfo, status: ToolPluginStatus | undefined): { text: string, type: 'ok' | 'error' | 'muted' } {
+  if (plugin.error) return { text: plugin.error, type: 'error' }
+  if (!plugin.compatible) {
+    const supported = MIN_PLUGIN_API_LEVEL === PLUGIN_API_LEVEL ? `${PLUGIN_API_LEVEL}` : `${MIN_PLUGIN_API_LEVEL}-${PLUGIN_API_LEVEL}`
+    return { text: `Written for API level ${plugin.manifest?.apiLevel}; this app supports ${supported}`, type: 'error' }
+  }
+  if (plugin.enabled && status?.error) return { text: status.error, type: 'error' }
+  if (plugin.enabled && status?.toolId) return { text: 'Loaded', type: 'ok' }
+  if (plugin.enabled !== !!status) return { text: 'Reload to apply', type: 'muted' }
+  return { text: 'Disabled', type: 'muted' }
+}
+
+// Plugins found in userData/plugins, with a switch to enable each one
+function PluginManager() {
+  const [plugins, setPlugins] = useState<ToolPluginInfo[]>([])
+  const [statuses, setStatuses] = useState<ToolPluginStatus[]>([])
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const refresh = async () => {
+    setNotice(null)
+    try {
+      const toolManager = ToolManager.getInstance()
+      await toolManager.whenPluginsLoaded()
+      setStatuses(toolManager.getPluginStatuses())
+      setPlugins(await window.electronAPI.listPlugins())
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : 'Failed to list plugins')
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  const handleToggle = async (plugin: ToolPluginInfo, enabled: boolean) => {
+    setNotice(null)
+    try {
+      setPlugins(await window.electronAPI.setPluginEnabled(plugin.id, enabled))
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : 'Failed to update the plugin')
+    }
+  }
+
+  const handleOpenFolder = async () => {
+    setNotice(null)
+    try {
+      await window.electronAPI.openPluginsFolder()
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : 'Failed to open the plugins folder')
+    }
+  }
+
+  const needsReload = plugins.some(plugin => describeStatus(plugin, statuses.find(status => status.pluginId === plugin.id)).text === 'Reload to apply')
+
+  return (
+    <div className="api-inspector plugin-manager full-width">
+      <div className="tool-header">
+        <div className="tool-title">
+          <span className="tool-icon">
+            <Icon icon={Puzzle} size={80} />
+          </span>
+          <div className="tool-title-text">
+            <h1>Plugins</h1>
+            <p className="tool-description">Tools from the plugins folder. Plugins run inside the app with your Eloqua session, so only enable plugins from people you trust. This app provides plugin API level {PLUGIN_API_LEVEL}.</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="inspector-toolbar">
+        <button type="button" className="btn btn-secondary" onClick={handleOpenFolder}>
+          <Icon icon={FolderOpen} size={16} /> Open Plugins Folder
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={refresh}>
+          <Icon icon={RefreshCw} size={16} /> Refresh
+        </button>
+        {needsReload && (
+          <button type="button" className="btn btn-primary" onClick={() => window.location.reload()}>
+            <Icon icon={RotateCcw} size={16} /> Reload to Apply Changes
+          </button>
+        )}
+      </div>
+
+      {notice && <p className="inspector-notice error">{notice}</p>}
+
+      <div className="results-table-container">
+        <table className="results-table">
+          <thead>
+            <tr>
+              <th>Enabled</th>
+              <th>Plugin</th>
+              <th>Version</th>
+              <th>API Level</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plugins.length === 0 && (
+              <tr>
+                <td colSpan={5}>No plugins found. Each plugin is a folder named after its id, holding manifest.json and its bundle.</td>
+              </tr>
+            )}
+            {plugins.map(plugin => {
+              const status = describeStatus(plugin, statuses.find(loaded => loaded.pluginId === plugin.id))
+              return (
+                <tr key={plugin.id}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={plugin.enabled}
+                      disabled={!plugin.manifest}
+                      onChange={(e) => handleToggle(plugin, e.target.checked)}
+                      aria-label={`Enable ${plugin.manifest?.name || plugin.id}`}
+                    />
+                  </td>
+                  <td>
+                    <div className="plugin-name">{plugin.manifest?.name || plugin.id}</div>
+                    {plugin.manifest?.description && <small className="field-description">{plugin.manifest.description}</small>}
+                    {plugin.manifest?.author && <small className="field-description">by {plugin.manifest.author}</small>}
+                  </td>
+                  <td>{plugin.manifest?.version}</td>
+                  <td>{plugin.manifest?.apiLevel}</td>
+                  <td className={`plugin-status ${status.type}`}>{status.text}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default PluginManager
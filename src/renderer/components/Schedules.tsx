@@ -0,0 +1,395 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { CalendarClock, ExternalLink, FolderOpen, Play, Plus, Save, Trash2 } from 'lucide-react'
+import Icon from '../../components/ui/Icon'
+import { useAuth } from '../contexts/AuthContext'
+import useRegisteredTools from '../hooks/useRegisteredTools'
+import ToolManager from '../../tools/ToolManager'
+import { ToolSchedule, ToolScheduleStatus, validateToolSchedule } from '../../shared/toolSchedule'
+import { getNextCronTime, validateCronExpression } from '../../shared/cronExpression'
+import { formatParameterErrors, getParameterDefaults } from '../../shared/parameterSchema'
+import '../styles/FormBulkSubmitComponent.css'
+import '../styles/ApiInspector.css'
+import '../styles/Jobs.css'
+import '../styles/Pipelines.css'
+
+// A schedule as edited: parameters and the run count stay text until they parse
+interface ScheduleDraft extends Omit<ToolSchedule, 'parameters' | 'keepRuns' | 'updatedAt'> {
+  parametersText: string
+  keepRunsText: string
+}
+
+// Ready-made schedules for the usual weekly chores
+const SCHEDULE_TEMPLATES: Array<{ name: string, toolId: string, parameters: Record<string, unknown>, cron: string }> = [
+  {
+    name: 'Weekly contact field export',
+    toolId: 'contact-field-export-tool',
+    parameters: { operation: 'export-fields', includeSystemFields: true, format: 'csv' },
+    cron: '0 6 * * mon'
+  },
+  {
+    name: 'Weekly bulk sync list',
+    toolId: 'bulk-sync-deletion-tool',
+    parameters: { operation: 'list-syncs' },
+    cron: '0 6 * * mon'
+  }
+]
+
+const DEFAULT_KEEP_RUNS = 10
+
+let draftCounter = 0
+
+function toDraft(schedule: ToolSchedule): ScheduleDraft {
+  const { parameters, keepRuns, updatedAt: _updatedAt, ...rest } = schedule
+  return { ...rest, parametersText: JSON.stringify(parameters, null, 2), keepRunsText: String(keepRuns) }
+}
+
+/**
+ * Turns the edited schedule into one that can be saved
+ * @param draft - Schedule as edited
+ * @returns { schedule } | { error } - The schedule, or what keeps it from being saved
+ */
+function fromDraft(draft: ScheduleDraft): { schedule: ToolSchedule, error?: undefined } | { schedule?: undefined, error: string } {
+  let parameters: unknown
+  try {
+    parameters = JSON.parse(draft.parametersText || '{}')
+  } catch (error) {
+    return { error: `Parameters are not valid JSON: ${error instanceof Error ? error.message : ''}` }
+  }
+  if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) {
+    return { error: 'Parameters must be a JSON object' }
+  }
+
+  const toolManager = ToolManager.getInstance()
+  const fieldErrors = toolManager.validateToolParameters(draft.toolId, parameters)
+  if (Object.keys(fieldErrors).length > 0) {
+    return { error: formatParameterErrors(fieldErrors) }
+  }
+  if (toolManager.isToolRunMutating(draft.toolId, parameters) && !draft.allowChanges) {
+    return { error: 'These parameters change data in Eloqua; allow changes to schedule them' }
+  }
+
+  const { parametersText: _parametersText, keepRunsText, ...rest } = draft
+  const schedule: ToolSchedule = {
+    ...rest,
+    name: draft.name.trim(),
+    cron: draft.cron.trim(),
+    parameters: parameters as Record<string, unknown>,
+    keepRuns: Number(keepRunsText),
+    updatedAt: new Date().toISOString()
+  }
+  const problem = validateToolSchedule(schedule)
+  return problem ? { error: problem } : { schedule }
+}
+
+// Saved schedules with an editor for the selected one and its recent runs
+function Schedules() {
+  const navigate = useNavigate()
+  const { session } = useAuth()
+  const tools = useRegisteredTools()
+  const [statuses, setStatuses] = useState<ToolScheduleStatus[]>([])
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null)
+  const [notice, setNotice] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  // Runs finish in the main process, so follow its changes
+  useEffect(() => {
+    const load = () => window.electronAPI.listSchedules()
+      .then(setStatuses)
+      .catch(error => setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load schedules' }))
+    load()
+    return window.electronAPI.onSchedulesChanged(load)
+  }, [])
+
+  const status = draft ? statuses.find(candidate => candidate.schedule.id === draft.id) : undefined
+  // Demo sessions are not stored in the keychain, so a scheduled run could not sign in with them
+  const canUseSession = !!session && session.authMethod !== 'demo'
+  const cronProblem = draft ? validateCronExpression(draft.cron) : null
+  const nextRun = draft && !cronProblem ? getNextCronTime(draft.cron, new Date()) : null
+
+  let mutating = false
+  try {
+    mutating = !!draft && ToolManager.getInstance().isToolRunMutating(draft.toolId, JSON.parse(draft.parametersText || '{}'))
+  } catch {
+    // Parameters that do not parse are reported on save
+  }
+
+  const updateDraft = (changes: Partial<ScheduleDraft>) => {
+    setDraft(prev => prev ? { ...prev, ...changes } : prev)
+  }
+
+  const handleNew = (template?: typeof SCHEDULE_TEMPLATES[number]) => {
+    setNotice(null)
+    if (!canUseSession) {
+      setNotice({ type: 'error', text: 'Schedules sign in with a stored account. Sign in with your Eloqua credentials to create one.' })
+      return
+    }
+
+    const toolId = template?.toolId || tools[0]?.id || ''
+    const schema = ToolManager.getInstance().getToolParameterSchema(toolId) || {}
+    setDraft({
+      id: `schedule-${Date.now().toString(36)}-${++draftCounter}`,
+      name: template?.name || 'New schedule',
+      toolId,
+      parametersText: JSON.stringify({ ...getParameterDefaults(schema), ...(template?.parameters || {}) }, null, 2),
+      cron: template?.cron || '0 6 * * mon',
+      enabled: true,
+      siteName: session!.siteName,
+      username: session!.username,
+      outputDir: '',
+      keepRunsText: String(DEFAULT_KEEP_RUNS),
+      allowChanges: false,
+      createdAt: new Date().toISOString()
+    })
+  }
+
+  const handleToolChange = (toolId: string) => {
+    const schema = ToolManager.getInstance().getToolParameterSchema(toolId) || {}
+    updateDraft({ toolId, parametersText: JSON.stringify(getParameterDefaults(schema), null, 2), allowChanges: false })
+  }
+
+  const handleChooseFolder = async () => {
+    const folder = await window.electronAPI.chooseScheduleFolder()
+    if (folder) {
+      updateDraft({ outputDir: folder })
+    }
+  }
+
+  const handleSave = async (): Promise<ToolSchedule | null> => {
+    if (!draft) return null
+    setNotice(null)
+
+    const { schedule, error } = fromDraft(draft)
+    if (!schedule) {
+      setNotice({ type: 'error', text: error })
+      return null
+    }
+
+    try {
+      setStatuses(await window.electronAPI.saveSchedule(schedule))
+      setNotice({ type: 'success', text: `Saved "${schedule.name}"` })
+      return schedule
+    } catch (saveError) {
+      setNotice({ type: 'error', text: saveError instanceof Error ? saveError.message : 'Failed to save the schedule' })
+      return null
+    }
+  }
+
+  const handleRunNow = async () => {
+    const schedule = await handleSave()
+    if (!schedule) return
+    try {
+      setStatuses(await window.electronAPI.runScheduleNow(schedule.id))
+      setNotice({ type: 'success', text: `Started "${schedule.name}"` })
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to start the run' })
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!draft || !window.confirm(`Delete the schedule "${draft.name}"? Its output files are kept.`)) return
+    try {
+      setStatuses(await window.electronAPI.deleteSchedule(draft.id))
+      setDraft(null)
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete the schedule' })
+    }
+  }
+
+  return (
+    <div className="api-inspector pipelines-page full-width">
+      <div className="tool-header">
+        <div className="tool-title">
+          <span className="tool-icon">
+            <Icon icon={CalendarClock} size={80} />
+          </span>
+          <div className="tool-title-text">
+            <h1>Schedules</h1>
+            <p className="tool-description">Run a tool with saved parameters on a schedule while the app or its tray icon is running. Results are written to a folder with dated file names, and failed runs raise a notification.</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="inspector-toolbar">
+        <button type="button" className="btn btn-primary" onClick={() => handleNew()}>
+          <Icon icon={Plus} size={16} /> New Schedule
+        </button>
+        {SCHEDULE_TEMPLATES.map(template => (
+          <button key={template.name} type="button" className="btn btn-secondary" onClick={() => handleNew(template)}>
+            <Icon icon={Plus} size={16} /> {template.name}
+          </button>
+        ))}
+      </div>
+
+      {notice && <p className={`inspector-notice ${notice.type}`}>{notice.text}</p>}
+
+      <div className="inspector-body">
+        <div className="results-table-container inspector-list">
+          <table className="results-table">
+            <thead>
+              <tr>
+                <th>Schedule</th>
+                <th>Next Run</th>
+                <th>Last Run</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statuses.length === 0 && (
+                <tr>
+                  <td colSpan={3}>No schedules yet.</td>
+                </tr>
+              )}
+              {statuses.map(({ schedule, nextRunAt, running, runs }) => (
+                <tr
+                  key={schedule.id}
+                  className={schedule.id === draft?.id ? 'selected-row' : ''}
+                  onClick={() => {
+                    setNotice(null)
+                    setDraft(toDraft(schedule))
+                  }}
+                >
+                  <td>
+                    {schedule.name}
+                    <div className="field-description">{ToolManager.getInstance().getToolConfig(schedule.toolId)?.name || schedule.toolId}</div>
+                  </td>
+                  <td>{schedule.enabled ? (nextRunAt ? new Date(nextRunAt).toLocaleString() : 'Never') : 'Off'}</td>
+                  <td>
+                    {running
+                      ? <span className="job-status running">Running</span>
+                      : runs[0] ? <span className={`job-status ${runs[0].status}`}>{new Date(runs[0].startedAt).toLocaleString()}</span> : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {draft && (
+          <div className="inspector-detail">
+            <div className="inspector-detail-header">
+              <input
+                type="text"
+                className="form-input pipeline-name"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                aria-label="Schedule name"
+              />
+              <div className="jobs-actions">
+                <button type="button" className="btn btn-primary" onClick={handleRunNow} disabled={status?.running}>
+                  <Icon icon={Play} size={16} /> Run Now
+                </button>
+                <button type="button" className="btn btn-secondary" onClick={handleSave}>
+                  <Icon icon={Save} size={16} /> Save
+                </button>
+                {status && (
+                  <button type="button" className="btn btn-secondary" onClick={handleDelete}>
+                    <Icon icon={Trash2} size={16} /> Delete
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">
+                <input type="checkbox" checked={draft.enabled} onChange={(e) => updateDraft({ enabled: e.target.checked })} /> Enabled
+              </label>
+              <small className="field-description">
+                Runs as {draft.siteName}\{draft.username}.
+                {canUseSession && (session!.siteName !== draft.siteName || session!.username !== draft.username) && (
+                  <button type="button" className="btn btn-secondary btn-small" onClick={() => updateDraft({ siteName: session!.siteName, username: session!.username })}>
+                    Use {session!.siteName}\{session!.username}
+                  </button>
+                )}
+              </small>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Tool</label>
+              <select className="form-input" value={draft.toolId} onChange={(e) => handleToolChange(e.target.value)}>
+                {!tools.some(tool => tool.id === draft.toolId) && <option value={draft.toolId}>{draft.toolId} (not available)</option>}
+                {tools.map(tool => <option key={tool.id} value={tool.id}>{tool.name}</option>)}
+              </select>
+              <small className="field-description">Plugin tools run in the app window only and cannot be scheduled.</small>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Schedule</label>
+              <input
+                type="text"
+                className={cronProblem ? 'form-input invalid' : 'form-input'}
+                value={draft.cron}
+                onChange={(e) => updateDraft({ cron: e.target.value })}
+                placeholder="0 6 * * mon"
+              />
+              {cronProblem
+                ? <div className="error-message field-error">{cronProblem}</div>
+                : <small className="field-description">Minute, hour, day of month, month and day of week, as in cron, e.g. 0 6 * * mon. Next run: {nextRun?.toLocaleString()}</small>}
+            </div>
+
+            <div className="pipeline-binding">
+              <div className="form-group">
+                <label className="form-label">Output Folder</label>
+                <div className="jobs-actions">
+                  <input type="text" className="form-input pipeline-name" value={draft.outputDir} readOnly placeholder="Choose a folder" />
+                  <button type="button" className="btn btn-secondary" onClick={handleChooseFolder}>
+                    <Icon icon={FolderOpen} size={16} /> Choose
+                  </button>
+                </div>
+              </div>
+              <div className="form-group">
+                <label className="form-label">Runs to Keep</label>
+                <input
+                  type="number"
+                  className="form-input"
+                  min={1}
+                  value={draft.keepRunsText}
+                  onChange={(e) => updateDraft({ keepRunsText: e.target.value })}
+                />
+                <small className="field-description">Older runs are removed with their output files</small>
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Parameters (JSON)</label>
+              <textarea
+                className="form-input pipeline-parameters"
+                value={draft.parametersText}
+                onChange={(e) => updateDraft({ parametersText: e.target.value })}
+                rows={Math.min(12, draft.parametersText.split('\n').length + 1)}
+                spellCheck={false}
+              />
+            </div>
+
+            {(mutating || draft.allowChanges) && (
+              <div className="pipeline-confirmation">
+                <label className="form-label">
+                  <input type="checkbox" checked={draft.allowChanges} onChange={(e) => updateDraft({ allowChanges: e.target.checked })} /> Allow changes in Eloqua
+                </label>
+                <p className="field-description">These parameters change data in Eloqua. Scheduled runs do not ask for confirmation.</p>
+              </div>
+            )}
+
+            {status && status.runs.length > 0 && (
+              <div className="pipeline-run">
+                <h4>Recent Runs</h4>
+                <ol className="pipeline-run-steps">
+                  {status.runs.map(run => (
+                    <li key={run.jobId}>
+                      <span className={`job-status ${run.status}`}>{new Date(run.startedAt).toLocaleString()}</span>
+                      <button type="button" className="btn btn-secondary btn-small" onClick={() => navigate('/jobs', { state: { jobId: run.jobId } })}>
+                        <Icon icon={ExternalLink} size={14} /> View Run
+                      </button>
+                      {run.summary && <div className="field-description">{run.summary}</div>}
+                      {run.outputPaths.map(outputPath => <div key={outputPath} className="field-description">{outputPath}</div>)}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default Schedules
@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react'
+import { BookmarkPlus, Download, Play, Save, Trash2, Upload } from 'lucide-react'
+import Icon from '../../components/ui/Icon'
+import { ParameterSchema, getFieldLabel, getParameterDefaults } from '../../shared/parameterSchema'
+import { ToolPreset, resolvePresetFormData, toRelativeFormData } from '../../shared/toolPreset'
+import { parseRelativeDate } from '../../shared/filterExpression'
+
+interface ToolPresetsProps {
+  toolId: string
+  schema: ParameterSchema
+  formData: Record<string, unknown>
+  // Preset to apply once the presets have loaded, e.g. one picked on the Dashboard
+  launchPresetId?: string
+  onApply: (formData: Record<string, unknown>) => void
+}
+
+let presetCounter = 0
+
+// Named form values of a tool: apply, save, share as JSON
+function ToolPresets({ toolId, schema, formData, launchPresetId, onApply }: ToolPresetsProps) {
+  const [presets, setPresets] = useState<ToolPreset[]>([])
+  const [selectedId, setSelectedId] = useState('')
+  const [newName, setNewName] = useState('')
+  const [keepDatesRelative, setKeepDatesRelative] = useState(true)
+  const [notice, setNotice] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  const toolPresets = presets.filter(preset => preset.toolId === toolId)
+  const selected = toolPresets.find(preset => preset.id === selectedId)
+  // Relative dates of the selected preset, shown so it is clear what "applied today" means
+  const relativeDates = selected
+    ? Object.entries(selected.formData).filter(([fieldName, value]) => schema[fieldName]?.format === 'date' && typeof value === 'string' && parseRelativeDate(value))
+    : []
+
+  const applyPreset = (preset: ToolPreset) => {
+    onApply({ ...getParameterDefaults(schema), ...resolvePresetFormData(preset.formData, schema, new Date()) })
+    setNotice({ type: 'success', text: `Applied "${preset.name}"` })
+  }
+
+  useEffect(() => {
+    setSelectedId('')
+    setNotice(null)
+    window.electronAPI.listPresets()
+      .then(loaded => {
+        setPresets(loaded)
+        const launched = launchPresetId ? loaded.find(preset => preset.id === launchPresetId && preset.toolId === toolId) : undefined
+        if (launched) {
+          setSelectedId(launched.id)
+          applyPreset(launched)
+        }
+      })
+      .catch(error => setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load presets' }))
+  }, [toolId, launchPresetId])
+
+  // Values worth keeping: empty fields would only hide the defaults
+  const getPresetFormData = () => {
+    const values = Object.fromEntries(Object.entries(formData).filter(([, value]) => value !== undefined && value !== ''))
+    return keepDatesRelative ? toRelativeFormData(values, schema, new Date()) : values
+  }
+
+  const savePreset = async (preset: ToolPreset) => {
+    setNotice(null)
+    try {
+      setPresets(await window.electronAPI.savePreset(preset))
+      setSelectedId(preset.id)
+      setNotice({ type: 'success', text: `Saved "${preset.name}"` })
+      return true
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save the preset' })
+      return false
+    }
+  }
+
+  const handleSaveAs = async () => {
+    const name = newName.trim()
+    if (!name) {
+      setNotice({ type: 'error', text: 'Enter a name for the preset' })
+      return
+    }
+    const now = new Date().toISOString()
+    const saved = await savePreset({
+      id: `preset-${Date.now().toString(36)}-${++presetCounter}`,
+      name,
+      toolId,
+      formData: getPresetFormData(),
+      createdAt: now,
+      updatedAt: now
+    })
+    if (saved) {
+      setNewName('')
+    }
+  }
+
+  const handleUpdate = () => {
+    if (!selected) return
+    savePreset({ ...selected, formData: getPresetFormData(), updatedAt: new Date().toISOString() })
+  }
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete the preset "${selected.name}"?`)) return
+    try {
+      setPresets(await window.electronAPI.deletePreset(selected.id))
+      setSelectedId('')
+      setNotice(null)
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete the preset' })
+    }
+  }
+
+  const handleExport = async () => {
+    setNotice(null)
+    try {
+      const filePath = await window.electronAPI.exportPresets(toolId)
+      if (filePath) {
+        setNotice({ type: 'success', text: `Exported ${toolPresets.length} presets to ${filePath}` })
+      }
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to export presets' })
+    }
+  }
+
+  const handleImport = async () => {
+    setNotice(null)
+    try {
+      const result = await window.electronAPI.importPresets()
+      if (result) {
+        setPresets(result.presets)
+        setNotice({ type: 'success', text: `Imported ${result.imported} presets` })
+      }
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to import presets' })
+    }
+  }
+
+  return (
+    <div className="tool-presets">
+      <div className="tool-presets-row">
+        <select
+          className="form-input"
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          aria-label="Preset"
+        >
+          <option value="">{toolPresets.length > 0 ? 'Choose a preset' : 'No presets saved'}</option>
+          {toolPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+        </select>
+        <button type="button" className="btn btn-primary" onClick={() => selected && applyPreset(selected)} disabled={!selected}>
+          <Icon icon={Play} size={16} /> Apply
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={handleUpdate} disabled={!selected} title="Replace the preset's values with the form's">
+          <Icon icon={Save} size={16} /> Update
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={handleDelete} disabled={!selected}>
+          <Icon icon={Trash2} size={16} /> Delete
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={handleExport} disabled={toolPresets.length === 0}>
+          <Icon icon={Download} size={16} /> Export
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={handleImport}>
+          <Icon icon={Upload} size={16} /> Import
+        </button>
+      </div>
+      {relativeDates.length > 0 && (
+        <small className="field-description">
+          {relativeDates.map(([fieldName, value]) => `${getFieldLabel(fieldName, schema[fieldName])}: ${value}`).join(', ')}
+        </small>
+      )}
+
+      <div className="tool-presets-row">
+        <input
+          type="text"
+          className="form-input"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Name for the current values"
+          aria-label="Preset name"
+        />
+        <label className="checkbox-label">
+          <input type="checkbox" checked={keepDatesRelative} onChange={(e) => setKeepDatesRelative(e.target.checked)} />
+          Keep dates relative to today
+        </label>
+        <button type="button" className="btn btn-secondary" onClick={handleSaveAs}>
+          <Icon icon={BookmarkPlus} size={16} /> Save as Preset
+        </button>
+      </div>
+
+      {notice && <p className={`tool-presets-notice ${notice.type}`}>{notice.text}</p>}
+    </div>
+  )
+}
+
+export default ToolPresets
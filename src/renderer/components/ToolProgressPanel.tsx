@@ -0,0 +1,65 @@
+import { ToolItemEvent } from '../../shared/toolFramework'
+import { ToolProgress, formatDuration } from '../../shared/toolProgress'
+import '../styles/ToolProgressPanel.css'
+
+interface ToolProgressPanelProps {
+  progress: ToolProgress | null
+  failedItems: ToolItemEvent[]
+}
+
+// Longest failed-items log kept on screen; the tool's result still lists every item
+const MAX_LOGGED_FAILURES = 200
+
+// Progress bar, counts, throughput and ETA of a run, with a log of the items that failed
+function ToolProgressPanel({ progress, failedItems }: ToolProgressPanelProps) {
+  if (!progress && failedItems.length === 0) return null
+
+  const percent = progress?.total ? Math.min(100, Math.round((progress.completed / progress.total) * 100)) : null
+  const loggedFailures = failedItems.slice(-MAX_LOGGED_FAILURES)
+
+  return (
+    <div className="tool-progress-panel">
+      {progress && (
+        <>
+          <div className="tool-progress-heading">
+            <span className="tool-progress-phase">{progress.phase}</span>
+            <span className="tool-progress-count">
+              {progress.completed}{progress.total !== undefined && ` / ${progress.total}`}
+              {percent !== null && ` (${percent}%)`}
+            </span>
+          </div>
+          <div className={`tool-progress-bar ${percent === null ? 'indeterminate' : ''}`}>
+            <div className="tool-progress-fill" style={percent !== null ? { width: `${percent}%` } : undefined} />
+          </div>
+          <div className="tool-progress-stats">
+            <span className="success">{progress.succeeded} succeeded</span>
+            <span className={progress.failed > 0 ? 'failed' : ''}>{progress.failed} failed</span>
+            {progress.throughput > 0 && <span>{progress.throughput.toFixed(1)} items/s</span>}
+            {progress.etaMs !== undefined && progress.completed < (progress.total || 0) && (
+              <span>about {formatDuration(progress.etaMs)} left</span>
+            )}
+          </div>
+        </>
+      )}
+
+      {failedItems.length > 0 && (
+        <div className="tool-progress-failures">
+          <h4>
+            Failed items ({failedItems.length})
+            {failedItems.length > loggedFailures.length && ` - showing the last ${loggedFailures.length}`}
+          </h4>
+          <ul>
+            {loggedFailures.map((item, index) => (
+              <li key={`${item.id}-${index}`}>
+                <span className="tool-progress-item">{item.label || item.id}</span>
+                {item.error && <span className="tool-progress-error">{item.error}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ToolProgressPanel
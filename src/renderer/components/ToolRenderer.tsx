@@ -1,89 +1,67 @@
-import React, { useState, useEffect } from 'react'
-import { useParams, useLocation } from 'react-router-dom'
+import { useState, useEffect } from 'react'
+import { useLocation, useParams } from 'react-router-dom'
 import ToolManager from '../../tools/ToolManager'
 import useTool from '../hooks/useTool'
 import LoadingSpinner from './LoadingSpinner'
+import ToolProgressPanel from './ToolProgressPanel'
+import ToolPresets from './ToolPresets'
+import PlannedChangesPanel from './PlannedChangesPanel'
+import { AppliedChange } from '../../shared/plannedChanges'
 import Icon from '../../components/ui/Icon'
-import { Mail, FileText, ClipboardList, Link as LinkIcon, Trash2 } from './icons'
+import { getToolIcon } from './toolIcons'
 import ErrorBoundary from './ErrorBoundary'
+import { ParameterErrors, ParameterFieldSchema, ParameterSchema, formatParameterErrors, getFieldLabel, getParameterDefaults, isFieldRequired } from '../../shared/parameterSchema'
 import '../styles/ToolRenderer.css'
 
 // Import components directly (no lazy loading for tools to prevent hash mismatch errors)
 import EmailResultsDisplay from './EmailResultsDisplay'
 import FormResultsDisplay from './FormResultsDisplay'
 import DependencyResultsDisplay from './DependencyResultsDisplay'
-import FormBulkSubmitComponent from './FormBulkSubmitComponent'
-import BulkSyncDeletionComponent from './BulkSyncDeletionComponent'
-import ContactFieldExportComponent from './ContactFieldExportComponent'
-import ProgramExportComponent from './ProgramExportComponent'
-import CampaignExportComponent from './CampaignExportComponent'
 
 interface ToolFormData {
   [key: string]: any
 }
 
-// Icon mapping
-const iconMap: { [key: string]: React.ComponentType } = {
-  'Mail': Mail,
-  'FileText': FileText,
-  'ClipboardList': ClipboardList,
-  'Link': LinkIcon,
-  'Trash2': Trash2,
+interface ToolRendererProps {
+  // Set by the generated tool routes; the /tool/:toolId route passes it in the URL instead
+  toolId?: string
 }
 
-function ToolRenderer() {
-  const { toolId } = useParams<{ toolId: string }>()
+function ToolRenderer(props: ToolRendererProps) {
+  const params = useParams<{ toolId: string }>()
+  const toolId = props.toolId || params.toolId
   const location = useLocation()
-  const { executeTool, isExecuting, progress, result, error, clearResult, clearError } = useTool()
+  // Runs continue in the background; coming back to the page shows the tool's latest job
+  const { job, executeTool, cancelTool, applyPlan, openJob, isExecuting, isCancelling, progress, runProgress, failedItems, result, error, clearResult, clearError } = useTool(toolId)
   const [formData, setFormData] = useState<ToolFormData>({})
   const [toolConfig, setToolConfig] = useState<any>(null)
-  const [parameterSchema, setParameterSchema] = useState<any>(null)
+  const [parameterSchema, setParameterSchema] = useState<ParameterSchema | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<ParameterErrors>({})
   const [isExporting, setIsExporting] = useState(false)
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false)
+  const [bypassCache, setBypassCache] = useState(false)
+  // Changes are planned for review first unless the user turns it off
+  const [dryRun, setDryRun] = useState(true)
   const [emailSearchTab, setEmailSearchTab] = useState<'id' | 'criteria'>('criteria')
   const [formSearchTab, setFormSearchTab] = useState<'id' | 'criteria'>('criteria')
 
   useEffect(() => {
-    // Clear any previous errors and results when switching tools
-    clearResult()
-    clearError()
-    
     const toolManager = ToolManager.getInstance()
     toolManager.initialize()
     
-    // Determine tool ID from either param or path
-    let currentToolId = toolId
-    if (!currentToolId) {
-      // Map path to tool ID
-      const pathToToolMap: { [key: string]: string } = {
-        '/email-assets': 'email-asset-tool',
-        '/form-assets': 'form-asset-tool',
-        '/dependencies': 'asset-dependency-tool',
-        '/bulk-sync-deletion': 'bulk-sync-deletion-tool',
-        '/form-management': 'form-management-tool',
-        '/form-bulk-submit': 'form-bulk-submit-tool'
-      }
-      currentToolId = pathToToolMap[location.pathname]
-    }
-    
-    if (currentToolId) {
+    if (toolId) {
       try {
-        const config = toolManager.getToolConfig(currentToolId)
-        const schema = toolManager.getToolParameterSchema(currentToolId)
+        const config = toolManager.getToolConfig(toolId)
+        const schema = toolManager.getToolParameterSchema(toolId)
         
         setToolConfig(config)
-        setParameterSchema(schema)
+        setParameterSchema(schema || null)
         
-        // Initialize form data with defaults
+        // Initialize form data with defaults, then the parameters of the job being shown
         if (schema) {
-          const defaults: ToolFormData = {}
-          Object.entries(schema).forEach(([key, fieldSchema]: [string, any]) => {
-            if (fieldSchema.default !== undefined) {
-              defaults[key] = fieldSchema.default
-            }
-          })
-          setFormData(defaults)
+          setFormData({ ...getParameterDefaults(schema), ...(job?.toolId === toolId ? job.parameters : {}) })
         }
+        setFieldErrors({})
       } catch (error) {
         console.error('Failed to load tool configuration:', error)
         setToolConfig(null)
@@ -100,44 +78,95 @@ function ToolRenderer() {
       setFormData({})
       setIsExporting(false)
     }
-  }, [toolId, location.pathname])
+  }, [toolId])
+
+  // A past run opened from the Jobs page, shown with the parameters it ran with
+  const openJobId = (location.state as { jobId?: string } | null)?.jobId
+  useEffect(() => {
+    if (!openJobId) return
+    openJob(openJobId).then(opened => {
+      if (opened) {
+        setFormData(prev => ({ ...prev, ...opened.parameters }))
+      }
+    })
+  }, [openJobId])
+
+  // A preset picked on the Dashboard; ToolPresets applies it once loaded
+  const launchPresetId = (location.state as { presetId?: string } | null)?.presetId
+
+  const handleApplyPreset = (presetFormData: Record<string, unknown>) => {
+    setFormData(presetFormData)
+    setFieldErrors({})
+    // Show the tab the preset searches by
+    const searchTab = presetFormData.searchById ? 'id' : 'criteria'
+    setEmailSearchTab(searchTab)
+    setFormSearchTab(searchTab)
+  }
+
+  // Errors the tool reported for a run, e.g. from rules the form cannot check up front
+  useEffect(() => {
+    if (result?.fieldErrors) {
+      setFieldErrors(result.fieldErrors)
+    }
+  }, [result])
 
   const handleInputChange = (fieldName: string, value: any) => {
     setFormData(prev => ({
       ...prev,
       [fieldName]: value
     }))
+    if (fieldErrors[fieldName]) {
+      setFieldErrors(prev => {
+        const { [fieldName]: _, ...rest } = prev
+        return rest
+      })
+    }
   }
 
   const handleExecute = async () => {
-    // Get the current tool ID
-    let currentToolId = toolId
-    if (!currentToolId) {
-      const pathToToolMap: { [key: string]: string } = {
-        '/email-assets': 'email-asset-tool',
-        '/form-assets': 'form-asset-tool',
-        '/dependencies': 'asset-dependency-tool',
-        '/bulk-sync-deletion': 'bulk-sync-deletion-tool',
-        '/form-management': 'form-management-tool',
-        '/form-bulk-submit': 'form-bulk-submit-tool'
-      }
-      currentToolId = pathToToolMap[location.pathname]
-    }
-    
-    if (!currentToolId) return
+    if (!toolId) return
     
     clearResult()
     clearError()
+
+    const errors = ToolManager.getInstance().validateToolParameters(toolId, formData)
+    setFieldErrors(errors)
+    if (Object.keys(errors).length > 0) {
+      // Make sure errors on advanced fields are visible
+      if (Object.keys(errors).some(fieldName => parameterSchema?.[fieldName]?.category === 'advanced')) {
+        setShowAdvancedOptions(true)
+      }
+      return
+    }
     
     try {
-      await executeTool(currentToolId, formData)
+      await executeTool(toolId, formData, { bypassCache, dryRun: canDryRun && dryRun })
     } catch (error) {
       console.error('Tool execution failed:', error)
     }
   }
 
-  const renderFormField = (fieldName: string, fieldSchema: any) => {
-    const value = formData[fieldName] || ''
+  const handleApplyPlan = async () => {
+    clearError()
+    try {
+      await applyPlan()
+    } catch (error) {
+      console.error('Applying the plan failed:', error)
+    }
+  }
+
+  // Input for one field followed by its validation error, if any
+  const renderFormField = (fieldName: string, fieldSchema: ParameterFieldSchema) => (
+    <>
+      {renderInput(fieldName, fieldSchema)}
+      {fieldErrors[fieldName] && <div className="error-message field-error">{fieldErrors[fieldName]}</div>}
+    </>
+  )
+
+  const renderInput = (fieldName: string, fieldSchema: ParameterFieldSchema) => {
+    const value = formData[fieldName] ?? ''
+    const required = isFieldRequired(parameterSchema!, fieldName, formData)
+    const inputClassName = fieldErrors[fieldName] ? 'form-input invalid' : 'form-input'
     
     // Safety check to prevent crashes
     if (!fieldSchema || !fieldSchema.type) {
@@ -152,28 +181,26 @@ function ToolRenderer() {
             <select
               value={value}
               onChange={(e) => handleInputChange(fieldName, e.target.value)}
-              className="form-input"
-              required={fieldSchema.required}
+              className={inputClassName}
+              required={required}
             >
               <option value="">Select an option</option>
-              {fieldSchema.enum.map((option: string) => (
-                <option key={option} value={option}>
+              {fieldSchema.enum.map(option => (
+                <option key={String(option)} value={String(option)}>
                   {option}
                 </option>
               ))}
             </select>
           )
         }
-        // Handle date fields - only for actual date fields, not user fields
-        if (fieldName === 'createdAt' || fieldName === 'updatedAt' || 
-            fieldName.includes('After') || fieldName.includes('Before')) {
+        if (fieldSchema.format === 'date') {
           return (
             <input
               type="date"
               value={value}
               onChange={(e) => handleInputChange(fieldName, e.target.value)}
-              className="form-input"
-              required={fieldSchema.required}
+              className={inputClassName}
+              required={required}
             />
           )
         }
@@ -182,9 +209,9 @@ function ToolRenderer() {
             type="text"
             value={value}
             onChange={(e) => handleInputChange(fieldName, e.target.value)}
-            className="form-input"
+            className={inputClassName}
             placeholder={fieldSchema.description}
-            required={fieldSchema.required}
+            required={required}
           />
         )
       
@@ -197,24 +224,26 @@ function ToolRenderer() {
               const lines = e.target.value.split('\n').map(line => line.trim()).filter(line => line.length > 0)
               handleInputChange(fieldName, lines)
             }}
-            className="form-input array-input"
+            className={`${inputClassName} array-input`}
             placeholder={`${fieldSchema.description}\n(Enter one item per line)`}
             rows={5}
-            required={fieldSchema.required}
+            required={required}
           />
         )
       
       case 'number':
+      case 'integer':
         return (
           <input
             type="number"
             value={value}
-            onChange={(e) => handleInputChange(fieldName, Number(e.target.value))}
-            className="form-input"
+            onChange={(e) => handleInputChange(fieldName, e.target.value === '' ? undefined : Number(e.target.value))}
+            className={inputClassName}
             placeholder={fieldSchema.description}
-            min={fieldSchema.min}
-            max={fieldSchema.max}
-            required={fieldSchema.required}
+            min={fieldSchema.minimum}
+            max={fieldSchema.maximum}
+            step={fieldSchema.type === 'integer' ? 1 : 'any'}
+            required={required}
           />
         )
       
@@ -264,53 +293,18 @@ function ToolRenderer() {
   const isEmailTool = toolConfig.id === 'email-asset-tool'
   const isFormTool = toolConfig.id === 'form-asset-tool'
   const isDependencyTool = toolConfig.id === 'asset-dependency-tool'
-  const isFormBulkSubmitTool = toolConfig.id === 'form-bulk-submit-tool'
-  const isBulkSyncDeletionTool = toolConfig.id === 'bulk-sync-deletion-tool'
-  const isContactFieldExportTool = toolConfig.id === 'contact-field-export-tool'
-  const isProgramExportTool = toolConfig.id === 'program-export-tool'
-  const isCampaignExportTool = toolConfig.id === 'campaign-export-tool'
-
-  // If this is the Form Bulk Submit tool, render its dedicated component
-  if (isFormBulkSubmitTool) {
-    return (
-      <ErrorBoundary>
-        <FormBulkSubmitComponent />
-      </ErrorBoundary>
-    )
-  }
-  
-  // If this is the Bulk Sync Deletion tool, render its dedicated component
-  if (isBulkSyncDeletionTool) {
-    return (
-      <ErrorBoundary>
-        <BulkSyncDeletionComponent />
-      </ErrorBoundary>
-    )
-  }
-
-  // If this is the Contact Field Export tool, render its dedicated component
-  if (isContactFieldExportTool) {
-    return (
-      <ErrorBoundary>
-        <ContactFieldExportComponent />
-      </ErrorBoundary>
-    )
-  }
-
-  // If this is the Program Export tool, render its dedicated component
-  if (isProgramExportTool) {
-    return (
-      <ErrorBoundary>
-        <ProgramExportComponent />
-      </ErrorBoundary>
-    )
-  }
+  // Only runs that would change Eloqua have anything to plan
+  const isMutatingRun = ToolManager.getInstance().isToolRunMutating(toolConfig.id, formData)
+  const canDryRun = !!toolConfig.supportsDryRun && isMutatingRun
+  // Outcome of each change when the shown job applied a dry run's plan
+  const appliedChanges: AppliedChange[] | undefined = job?.appliesPlanOf ? result?.data?.changes : undefined
 
-  // If this is the Campaign Export tool, render its dedicated component
-  if (isCampaignExportTool) {
+  // Tools with their own page render it instead of the generated form
+  const customComponent = ToolManager.getInstance().getToolComponent(toolConfig.id)
+  if (customComponent) {
     return (
       <ErrorBoundary>
-        <CampaignExportComponent />
+        {customComponent.render()}
       </ErrorBoundary>
     )
   }
@@ -321,7 +315,7 @@ function ToolRenderer() {
         <div className="tool-header">
           <div className="tool-title">
             <span className="tool-icon">
-              <Icon icon={iconMap[toolConfig.icon] || Mail} size={80} />
+              <Icon icon={getToolIcon(toolConfig.icon)} size={80} />
             </span>
             <div className="tool-title-text">
               <h1>{toolConfig.name}</h1>
@@ -333,7 +327,14 @@ function ToolRenderer() {
         <div className="tool-content">
         <div className="tool-form">
           <h2>Configuration</h2>
-          <form onSubmit={(e) => { e.preventDefault(); handleExecute(); }}>
+          <ToolPresets
+            toolId={toolConfig.id}
+            schema={parameterSchema}
+            formData={formData}
+            launchPresetId={launchPresetId}
+            onApply={handleApplyPreset}
+          />
+          <form noValidate onSubmit={(e) => { e.preventDefault(); handleExecute(); }}>
             {/* Email Tool Tabbed Interface */}
             {isEmailTool ? (
               <>
@@ -401,8 +402,8 @@ function ToolRenderer() {
                   .map(([fieldName, fieldSchema]: [string, any]) => (
                     <div key={fieldName} className="form-group">
                       <label className="form-label">
-                        {fieldName.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
-                        {fieldSchema.required && <span className="required">*</span>}
+                        {getFieldLabel(fieldName, fieldSchema)}
+                        {isFieldRequired(parameterSchema, fieldName, formData) && <span className="required">*</span>}
                       </label>
                       {renderFormField(fieldName, fieldSchema)}
                       {fieldSchema.description && (
@@ -476,8 +477,8 @@ function ToolRenderer() {
                   .map(([fieldName, fieldSchema]: [string, any]) => (
                     <div key={fieldName} className="form-group">
                       <label className="form-label">
-                        {fieldName.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
-                        {fieldSchema.required && <span className="required">*</span>}
+                        {getFieldLabel(fieldName, fieldSchema)}
+                        {isFieldRequired(parameterSchema, fieldName, formData) && <span className="required">*</span>}
                       </label>
                       {renderFormField(fieldName, fieldSchema)}
                       {fieldSchema.description && (
@@ -494,8 +495,8 @@ function ToolRenderer() {
                 .map(([fieldName, fieldSchema]: [string, any]) => (
                   <div key={fieldName} className="form-group">
                     <label className="form-label">
-                      {fieldName.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
-                      {fieldSchema.required && <span className="required">*</span>}
+                      {getFieldLabel(fieldName, fieldSchema)}
+                      {isFieldRequired(parameterSchema, fieldName, formData) && <span className="required">*</span>}
                     </label>
                     {renderFormField(fieldName, fieldSchema)}
                     {fieldSchema.description && (
@@ -696,8 +697,8 @@ function ToolRenderer() {
                         .map(([fieldName, fieldSchema]: [string, any]) => (
                           <div key={fieldName} className="form-group">
                             <label className="form-label">
-                              {fieldName.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
-                              {fieldSchema.required && <span className="required">*</span>}
+                              {getFieldLabel(fieldName, fieldSchema)}
+                              {isFieldRequired(parameterSchema, fieldName, formData) && <span className="required">*</span>}
                             </label>
                             {renderFormField(fieldName, fieldSchema)}
                             {fieldSchema.description && (
@@ -762,8 +763,8 @@ function ToolRenderer() {
             {!isEmailTool && !isFormTool && !isDependencyTool && Object.entries(parameterSchema).map(([fieldName, fieldSchema]: [string, any]) => (
               <div key={fieldName} className="form-group">
                 <label className="form-label">
-                  {fieldName.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
-                  {fieldSchema.required && <span className="required">*</span>}
+                  {getFieldLabel(fieldName, fieldSchema)}
+                  {isFieldRequired(parameterSchema, fieldName, formData) && <span className="required">*</span>}
                 </label>
                 {renderFormField(fieldName, fieldSchema)}
                 {fieldSchema.description && (
@@ -772,13 +773,42 @@ function ToolRenderer() {
               </div>
             ))}
             
+            {Object.keys(fieldErrors).length > 0 && (
+              <div className="error-message">{formatParameterErrors(fieldErrors)}</div>
+            )}
+
             <div className="form-actions">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={bypassCache}
+                  onChange={(e) => setBypassCache(e.target.checked)}
+                  disabled={isExecuting}
+                />
+                Bypass cache (read everything from Eloqua)
+              </label>
+              {canDryRun && (
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={dryRun}
+                    onChange={(e) => setDryRun(e.target.checked)}
+                    disabled={isExecuting}
+                  />
+                  Dry run (plan the changes without sending them)
+                </label>
+              )}
+              {isMutatingRun && !toolConfig.supportsDryRun && toolConfig.noDryRunReason && (
+                <small className="field-description">
+                  No dry run: {toolConfig.noDryRunReason}. Changes are sent when the tool runs.
+                </small>
+              )}
               <button
                 type="submit"
                 className="btn btn-primary"
                 disabled={isExecuting}
               >
-                {isExecuting ? 'Executing...' : 'Execute Tool'}
+                {isExecuting ? 'Executing...' : canDryRun && dryRun ? 'Plan Changes' : 'Execute Tool'}
               </button>
             </div>
           </form>
@@ -787,6 +817,24 @@ function ToolRenderer() {
         {(isExecuting || progress) && (
           <div className="tool-progress">
             <LoadingSpinner message={progress || 'Executing tool...'} />
+            <ToolProgressPanel progress={runProgress} failedItems={failedItems} />
+            <div className="progress-actions">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={cancelTool}
+                disabled={isCancelling}
+              >
+                {isCancelling ? 'Stopping...' : 'Stop'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* The failed-items log stays after the run so it can be read next to the results */}
+        {!isExecuting && !progress && failedItems.length > 0 && (
+          <div className="tool-progress">
+            <ToolProgressPanel progress={null} failedItems={failedItems} />
           </div>
         )}
 
@@ -822,20 +870,24 @@ function ToolRenderer() {
               />
             ) : (
               <div className={`tool-result ${result.success ? 'success' : 'error'}`}>
-                <h3>{result.success ? 'Success' : 'Failed'}</h3>
+                <h3>{result.cancelled ? 'Stopped' : result.success ? 'Success' : 'Failed'}</h3>
                 {result.message && <p>{result.message}</p>}
                 {result.exportPath && (
                   <p>
                     <strong>Exported to:</strong> {result.exportPath}
                   </p>
                 )}
-                {result.data && (
+                {result.data && !appliedChanges && (
                   <div className="result-summary">
                     <p><strong>Records processed:</strong> {Array.isArray(result.data) ? result.data.length : 'N/A'}</p>
                   </div>
                 )}
               </div>
             )}
+            {result.plannedChanges && (
+              <PlannedChangesPanel changes={result.plannedChanges} onApply={handleApplyPlan} disabled={isExecuting} />
+            )}
+            {appliedChanges && <PlannedChangesPanel changes={appliedChanges} />}
             <div className="result-actions">
               <button onClick={clearResult} className="btn btn-secondary">
                 Clear Results
@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react'
+import { Download, RefreshCw, Trash2, Undo2 } from 'lucide-react'
+import Icon from '../../components/ui/Icon'
+import eloquaApiService from '../services/eloquaApi'
+import ToolManager from '../../tools/ToolManager'
+import { ChangeJournalEntry, ChangeJournalSummary, describeJournaledChange, getUndoRequest } from '../../shared/changeJournal'
+import '../styles/FormBulkSubmitComponent.css'
+import '../styles/ApiInspector.css'
+import '../styles/Jobs.css'
+import '../styles/UndoJournal.css'
+
+// Status classes of Jobs.css; a pending change shows as stopped, as its outcome is unknown
+const CHANGE_STATUS: Record<ChangeJournalSummary['changeStatus'], { label: string, className: string }> = {
+  pending: { label: 'Unknown', className: 'cancelled' },
+  succeeded: { label: 'Made', className: 'succeeded' },
+  failed: { label: 'Failed', className: 'failed' }
+}
+
+function getToolName(toolId?: string): string {
+  if (!toolId) return ''
+  return ToolManager.getInstance().getToolConfig(toolId)?.name || toolId
+}
+
+// Snapshots taken before the app changed or deleted forms, bulk definitions and contact fields
+function UndoJournal() {
+  const [entries, setEntries] = useState<ChangeJournalSummary[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [entry, setEntry] = useState<ChangeJournalEntry | null>(null)
+  const [isUndoing, setIsUndoing] = useState(false)
+  const [notice, setNotice] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  const loadEntries = async () => {
+    try {
+      setEntries(await window.electronAPI.listChangeJournal())
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load the undo journal' })
+    }
+  }
+
+  useEffect(() => {
+    loadEntries()
+  }, [])
+
+  useEffect(() => {
+    setEntry(null)
+    if (!selectedId) return
+
+    let active = true
+    window.electronAPI.getChangeJournalEntry(selectedId).then(loaded => {
+      if (active) setEntry(loaded)
+    })
+    return () => {
+      active = false
+    }
+  }, [selectedId])
+
+  const canUndo = !!entry && entry.changeStatus !== 'failed' && getUndoRequest(entry) !== null
+
+  const handleUndo = async () => {
+    if (!entry || !window.confirm(`Undo "${describeJournaledChange(entry)}"?\n\n${entry.undoLimitation}`)) return
+
+    setIsUndoing(true)
+    setNotice(null)
+    try {
+      const undone = await eloquaApiService.undoJournaledChange(entry)
+      setNotice({ type: 'success', text: undone.undoResult || 'Change undone' })
+      setEntry(await window.electronAPI.getChangeJournalEntry(entry.id))
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to undo the change' })
+    } finally {
+      setIsUndoing(false)
+      // Restoring an asset journals its state first, so there may be a new entry
+      loadEntries()
+    }
+  }
+
+  const handleExportJson = async () => {
+    if (!entry) return
+    setNotice(null)
+    try {
+      const choice = await window.electronAPI.showSaveDialog({
+        defaultPath: `${entry.assetType}-${entry.assetId}-${entry.recordedAt.slice(0, 19).replace(/:/g, '-')}.json`,
+        filters: [{ name: 'JSON Files', extensions: ['json'] }]
+      })
+      if (choice.canceled || !choice.filePath) return
+
+      await window.electronAPI.writeFile(choice.filePath, JSON.stringify(entry.snapshot, null, 2))
+      setNotice({ type: 'success', text: `Exported to ${choice.filePath}` })
+    } catch (error) {
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Export failed' })
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this entry? Its saved state is gone afterwards, and the change can no longer be undone.')) return
+    await window.electronAPI.deleteChangeJournalEntry(id)
+    setEntries(prev => prev.filter(item => item.id !== id))
+    setSelectedId(null)
+  }
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete the whole undo journal? None of its changes can be undone afterwards.')) return
+    await window.electronAPI.clearChangeJournal()
+    setEntries([])
+    setSelectedId(null)
+  }
+
+  return (
+    <div className="api-inspector jobs-page full-width">
+      <div className="tool-header">
+        <div className="tool-title">
+          <span className="tool-icon">
+            <Icon icon={Undo2} size={80} />
+          </span>
+          <div className="tool-title-text">
+            <h1>Undo Journal</h1>
+            <p className="tool-description">Before a tool changes or deletes a form, a bulk export or import definition, or a contact field, its full state is saved here. Updates can be reverted and deleted assets recreated; what undo cannot bring back is shown with each change.</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="inspector-toolbar">
+        <span className="jobs-count">{entries.length} changes</span>
+        <button type="button" className="btn btn-secondary" onClick={loadEntries}>
+          <Icon icon={RefreshCw} size={16} /> Refresh
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={handleClear} disabled={entries.length === 0}>
+          <Icon icon={Trash2} size={16} /> Clear Journal
+        </button>
+      </div>
+
+      {notice && <p className={`inspector-notice ${notice.type}`}>{notice.text}</p>}
+
+      <div className="inspector-body">
+        <div className="results-table-container inspector-list">
+          <table className="results-table">
+            <thead>
+              <tr>
+                <th>Recorded</th>
+                <th>Change</th>
+                <th>Tool</th>
+                <th>Status</th>
+                <th>Undo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.length === 0 && (
+                <tr>
+                  <td colSpan={5}>No changes journaled yet.</td>
+                </tr>
+              )}
+              {entries.map(item => (
+                <tr
+                  key={item.id}
+                  className={`${item.changeStatus === 'failed' ? 'error-row' : ''} ${item.id === selectedId ? 'selected-row' : ''}`}
+                  onClick={() => setSelectedId(item.id)}
+                >
+                  <td>{new Date(item.recordedAt).toLocaleString()}</td>
+                  <td className="jobs-summary" title={describeJournaledChange(item)}>{describeJournaledChange(item)}</td>
+                  <td>{getToolName(item.toolId)}</td>
+                  <td><span className={`job-status ${CHANGE_STATUS[item.changeStatus].className}`}>{CHANGE_STATUS[item.changeStatus].label}</span></td>
+                  <td>{item.undoneAt ? 'Undone' : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {entry && (
+          <div className="inspector-detail">
+            <div className="inspector-detail-header">
+              <h3>{describeJournaledChange(entry)}</h3>
+              <div className="jobs-actions">
+                <button type="button" className="btn btn-primary" onClick={handleUndo} disabled={!canUndo || isUndoing}>
+                  <Icon icon={Undo2} size={16} /> {isUndoing ? 'Undoing...' : 'Undo'}
+                </button>
+                <button type="button" className="btn btn-secondary" onClick={handleExportJson}>
+                  <Icon icon={Download} size={16} /> Export JSON
+                </button>
+                <button type="button" className="btn btn-secondary" onClick={() => handleDelete(entry.id)}>
+                  <Icon icon={Trash2} size={16} /> Delete
+                </button>
+              </div>
+            </div>
+
+            {!entry.undoneAt && entry.changeStatus !== 'failed' && (
+              <p className={`undo-limitation ${entry.assetType === 'contact-field' && entry.method === 'DELETE' ? 'data-loss' : ''}`}>
+                {entry.undoLimitation}
+              </p>
+            )}
+
+            <dl className="inspector-summary">
+              <dt>Recorded</dt><dd>{new Date(entry.recordedAt).toLocaleString()}</dd>
+              <dt>Request</dt><dd>{entry.method} {entry.endpoint}</dd>
+              <dt>Status</dt>
+              <dd>
+                {entry.changeStatus === 'pending'
+                  ? 'No answer was received, so the change may or may not have been made'
+                  : entry.changeStatus === 'failed'
+                    ? `The change failed, so there is nothing to undo: ${entry.changeError}`
+                    : 'The change was made'}
+              </dd>
+              {entry.undoneAt && (<><dt>Undone</dt><dd>{new Date(entry.undoneAt).toLocaleString()}{entry.undoResult && ` - ${entry.undoResult}`}</dd></>)}
+              {entry.toolId && (<><dt>Tool</dt><dd>{getToolName(entry.toolId)}</dd></>)}
+              {entry.runId && (<><dt>Run ID</dt><dd>{entry.runId}</dd></>)}
+              <dt>Saved From</dt><dd>{entry.snapshotEndpoint}</dd>
+            </dl>
+
+            <h4>Saved State</h4>
+            <pre className="inspector-body-text">{JSON.stringify(entry.snapshot, null, 2)}</pre>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default UndoJournal
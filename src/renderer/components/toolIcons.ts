@@ -0,0 +1,18 @@
+import { LucideIcon, Mail, FileText, ClipboardList, Link, Trash2, Upload, Download, Wrench } from 'lucide-react'
+
+// Icons a ToolConfig can name. Listed one by one so the bundle only carries these.
+const toolIcons: Record<string, LucideIcon> = {
+  Mail,
+  FileText,
+  ClipboardList,
+  Link,
+  Trash2,
+  Upload,
+  Download,
+  Wrench
+}
+
+// Icon for a tool's config.icon; tools naming an unknown icon get the wrench
+export function getToolIcon(name: string): LucideIcon {
+  return toolIcons[name] || Wrench
+}
@@ -1,21 +1,16 @@
 import React, { createContext, useContext, useState, useEffect, useMemo, useCallback } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
+import { EloquaSession } from '@shared/types'
 import eloquaApiService from '../services/eloquaApi'
 
-export interface EloquaCredentials {
-  siteName: string
-  username: string
-  password: string
-  baseUrl?: string
-  userId?: string
-}
+export type { EloquaSession }
 
 interface AuthContextType {
-  credentials: EloquaCredentials | null
+  // Session info only; the password stays in the main process
+  session: EloquaSession | null
   isAuthenticated: boolean
-  login: (credentials: EloquaCredentials) => void
+  login: (session: EloquaSession) => void
   logout: () => void
-  updateCredentials: (updates: Partial<EloquaCredentials>) => void
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -33,50 +28,31 @@ interface AuthProviderProps {
 }
 
 export function AuthProvider({ children }: AuthProviderProps) {
-  const [credentials, setCredentials] = useState<EloquaCredentials | null>(null)
+  const [session, setSession] = useState<EloquaSession | null>(null)
   const navigate = useNavigate()
   const location = useLocation()
 
-  const isAuthenticated = credentials !== null
+  const isAuthenticated = session !== null
+
+  const login = useCallback((newSession: EloquaSession) => {
+    setSession(newSession)
+    eloquaApiService.initialize(newSession)
 
-  const login = useCallback(async (newCredentials: EloquaCredentials) => {
-    setCredentials(newCredentials)
-    
-    // Store credentials in main process for tools to access
-    if (window.electronAPI) {
-      await window.electronAPI.setCredentials(newCredentials)
-    }
-    
     navigate('/', { replace: true })
   }, [navigate])
 
   const logout = useCallback(async () => {
-    setCredentials(null)
-    
-    // Clear credentials in main process
-    if (window.electronAPI) {
-      await window.electronAPI.setCredentials(null)
-    }
-    
-    navigate('/login', { replace: true })
-  }, [navigate])
+    const sessionId = session?.sessionId
+    setSession(null)
+    eloquaApiService.reset()
 
-  const updateCredentials = useCallback(async (updates: Partial<EloquaCredentials>) => {
-    if (credentials) {
-      const updatedCredentials = { ...credentials, ...updates }
-      setCredentials(updatedCredentials)
-      
-      // Update API service with new credentials
-      if (updatedCredentials.baseUrl) {
-        eloquaApiService.initialize(updatedCredentials)
-      }
-      
-      // Update credentials in main process
-      if (window.electronAPI) {
-        await window.electronAPI.setCredentials(updatedCredentials)
-      }
+    // Close the session in the main process
+    if (window.electronAPI && sessionId) {
+      await window.electronAPI.logout(sessionId)
     }
-  }, [credentials])
+
+    navigate('/login', { replace: true })
+  }, [navigate, session])
 
   useEffect(() => {
     // Redirect to login if not authenticated and not already on login page
@@ -86,16 +62,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
   }, [isAuthenticated, location.pathname, navigate])
 
   const value = useMemo(() => ({
-    credentials,
+    session,
     isAuthenticated,
     login,
     logout,
-    updateCredentials,
-  }), [credentials, isAuthenticated, login, logout, updateCredentials])
+  }), [session, isAuthenticated, login, logout])
 
   return (
     <AuthContext.Provider value={value}>
       {children}
     </AuthContext.Provider>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react'
+import ToolManager from '../../tools/ToolManager'
+
+/**
+ * Tools of the registry for navigation, routes and the dashboard. Updates when
+ * plugin tools are registered after start-up.
+ * @returns Tools in registration order
+ */
+export function useRegisteredTools() {
+  const toolManager = ToolManager.getInstance()
+  toolManager.initialize()
+
+  const [tools, setTools] = useState(() => toolManager.getToolsForNavigation())
+
+  useEffect(() => {
+    // Plugins may have finished loading before this component subscribed
+    setTools(toolManager.getToolsForNavigation())
+    return toolManager.subscribe(() => setTools(toolManager.getToolsForNavigation()))
+  }, [toolManager])
+
+  return tools
+}
+
+export default useRegisteredTools
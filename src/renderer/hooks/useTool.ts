@@ -1,124 +1,128 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import { useAuth } from '../contexts/AuthContext'
-import { ToolExecutor, ToolExecutionContext, ToolResult } from '../../shared/toolFramework'
-import ToolManager from '../../tools/ToolManager'
+import { ToolResult, ToolItemEvent } from '../../shared/toolFramework'
+import { ToolProgress } from '../../shared/toolProgress'
+import jobManager, { ToolJob, ToolRunOptions } from '../services/jobManager'
+
+export type { ToolRunOptions }
 
 interface UseToolState {
   isExecuting: boolean
+  isCancelling: boolean
   progress: string | null
+  // Structured progress of the current or last run; null when the tool reports none
+  runProgress: ToolProgress | null
+  failedItems: ToolItemEvent[]
   result: ToolResult | null
   error: string | null
 }
 
 interface UseToolReturn extends UseToolState {
-  executeTool: (toolId: string, parameters?: any) => Promise<ToolResult>
+  // Job shown by this hook, running or finished
+  job: ToolJob | null
+  executeTool: (toolId: string, parameters?: any, options?: ToolRunOptions) => Promise<ToolResult>
+  cancelTool: () => void
+  // Applies the plan of the shown dry run in a new job, which this hook then follows
+  applyPlan: () => Promise<ToolResult>
+  // Shows a job of this session or a past run from the history
+  openJob: (jobId: string) => Promise<ToolJob | null>
   clearResult: () => void
   clearError: () => void
 }
 
-export function useTool(): UseToolReturn {
-  const { credentials } = useAuth()
-  const [state, setState] = useState<UseToolState>({
-    isExecuting: false,
-    progress: null,
-    result: null,
-    error: null
-  })
-
-  const updateState = useCallback((updates: Partial<UseToolState>) => {
-    setState(prev => ({ ...prev, ...updates }))
-  }, [])
-
-  const showProgress = useCallback((message: string) => {
-    updateState({ progress: message })
-  }, [updateState])
-
-  const hideProgress = useCallback(() => {
-    updateState({ progress: null })
-  }, [updateState])
-
-  const showError = useCallback((error: string) => {
-    updateState({ error })
-  }, [updateState])
-
-  const showSuccess = useCallback((message: string) => {
-    // Success messages can be handled via the result
-    // Note: Success state is managed through the result object
-  }, [])
-
-  const executeTool = useCallback(async (toolId: string, parameters?: any): Promise<ToolResult> => {
-    // Clear previous state
-    updateState({
-      isExecuting: true,
-      progress: null,
-      result: null,
-      error: null
-    })
-
-    try {
-      // Initialize tool manager if needed
-      const toolManager = ToolManager.getInstance()
-      toolManager.initialize()
-
-      // Check if tool exists
-      if (!toolManager.isToolRegistered(toolId)) {
-        const errorResult: ToolResult = {
-          success: false,
-          error: `Tool '${toolId}' not found`
-        }
-        updateState({ result: errorResult, isExecuting: false })
-        return errorResult
-      }
-
-      // Create execution context
-      const context: ToolExecutionContext = {
-        credentials,
-        electronAPI: window.electronAPI,
-        showProgress,
-        hideProgress,
-        showError,
-        showSuccess
-      }
-
-      // Execute the tool
-      const result = await ToolExecutor.execute(toolId, context, parameters)
-      
-      updateState({
-        result,
-        isExecuting: false
-      })
-
-      return result
-    } catch (error) {
-      const errorResult: ToolResult = {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
-      }
-      
-      updateState({
-        result: errorResult,
-        error: errorResult.error,
-        isExecuting: false
-      })
-
-      return errorResult
+/**
+ * Runs tools through the job manager and follows the job it started. Runs keep
+ * going when the page unmounts; a page that passes its tool id picks up the
+ * latest job of that tool when it mounts again.
+ * @param toolId - Tool whose latest job is shown on mount, if any
+ * @returns UseToolReturn - State of the followed job and the actions on it
+ */
+export function useTool(toolId?: string): UseToolReturn {
+  const { session } = useAuth()
+  const [jobId, setJobId] = useState<string | null>(() => (toolId && jobManager.getLatestJob(toolId)?.id) || null)
+  const [job, setJob] = useState<ToolJob | null>(() => (jobId && jobManager.getJob(jobId)) || null)
+  // Clearing hides the result or error here without touching the job
+  const [resultCleared, setResultCleared] = useState(false)
+  const [errorCleared, setErrorCleared] = useState(false)
+
+  useEffect(() => {
+    if (toolId) {
+      setJobId(jobManager.getLatestJob(toolId)?.id || null)
+      setResultCleared(false)
+      setErrorCleared(false)
+    }
+  }, [toolId])
+
+  useEffect(() => {
+    const refresh = () => setJob((jobId && jobManager.getJob(jobId)) || null)
+    refresh()
+    return jobManager.subscribe(refresh)
+  }, [jobId])
+
+  const executeTool = useCallback(async (runToolId: string, parameters?: any, options: ToolRunOptions = {}): Promise<ToolResult> => {
+    const { job: started, done } = jobManager.start(runToolId, parameters, session, options)
+    setJobId(started.id)
+    setJob(started)
+    setResultCleared(false)
+    setErrorCleared(false)
+    return done
+  }, [session])
+
+  const applyPlan = useCallback(async (): Promise<ToolResult> => {
+    if (!jobId) {
+      throw new Error('There is no dry run to apply')
+    }
+    const { job: started, done } = jobManager.applyPlan(jobId, session)
+    setJobId(started.id)
+    setJob(started)
+    setResultCleared(false)
+    setErrorCleared(false)
+    return done
+  }, [jobId, session])
+
+  const cancelTool = useCallback(() => {
+    if (jobId) {
+      jobManager.cancel(jobId)
     }
-  }, [credentials, updateState, showProgress, hideProgress, showError, showSuccess])
+  }, [jobId])
+
+  const openJob = useCallback(async (openJobId: string): Promise<ToolJob | null> => {
+    const opened = await jobManager.open(openJobId)
+    if (opened) {
+      setJobId(opened.id)
+      setJob(opened)
+      setResultCleared(false)
+      setErrorCleared(false)
+    }
+    return opened
+  }, [])
 
   const clearResult = useCallback(() => {
-    updateState({ result: null })
-  }, [updateState])
+    setResultCleared(true)
+  }, [])
 
   const clearError = useCallback(() => {
-    updateState({ error: null })
-  }, [updateState])
+    setErrorCleared(true)
+  }, [])
+
+  const isExecuting = job?.status === 'running'
 
   return {
-    ...state,
+    job,
+    isExecuting,
+    isCancelling: job?.isCancelling || false,
+    progress: job?.progress || null,
+    runProgress: job?.runProgress || null,
+    failedItems: job?.failedItems || [],
+    result: resultCleared ? null : job?.result || null,
+    error: errorCleared ? null : job?.error || null,
     executeTool,
+    cancelTool,
+    applyPlan,
+    openJob,
     clearResult,
     clearError
   }
 }
 
-export default useTool
\ No newline at end of file
+export default useTool
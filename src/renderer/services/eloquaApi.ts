@@ -1,91 +1,444 @@
-import axios, { AxiosInstance } from 'axios'
-import { EloquaCredentials, EloquaLoginResponse } from '@shared/types'
+import { EloquaLoginRequest, EloquaSession } from '@shared/types'
 import { InputValidator, EloquaApiValidator } from '../../shared/validation'
+import { EloquaApiError, createAbortError } from '../../shared/apiErrors'
+import {
+  EloquaApiResponse,
+  EloquaBulkCollection,
+  EloquaCampaign,
+  EloquaDependency,
+  EloquaDepth,
+  EloquaEmail,
+  EloquaEmailGroup,
+  EloquaForm,
+  EloquaFormAtDepth,
+  EloquaFormElement,
+  EloquaFormSummary,
+  EloquaPaginateOptions,
+  EloquaPagingStyle,
+  EloquaRequestOptions,
+  EloquaRetryNotice,
+  ELOQUA_RATE_LIMITS
+} from '../../shared/apiTypes'
+import { ResponseCache } from './responseCache'
+import { getToolServiceApi } from './toolServiceApi'
+import { isNormalizedEndpoint, normalizeEloquaResponse, toEloquaRequestBody } from '../../shared/apiNormalization'
+import { runWorkPool, fulfilledValues, WorkPoolOptions } from '../../shared/workPool'
+import { PlannedChange, isFormSubmissionUrl } from '../../shared/plannedChanges'
+import { ChangeJournalEntry, ChangeJournalSummary, createChangeJournalEntry, describeUndoResult, getUndoRequest, matchJournaledChange } from '../../shared/changeJournal'
 
-class EloquaApiService {
-  private apiClient: AxiosInstance | null = null
-  private credentials: EloquaCredentials | null = null
+// A list endpoint prepared for fetching any of its pages
+interface PagingRequest {
+  endpoint: string
+  // Endpoint as passed by the caller, used in error messages
+  displayEndpoint: string
+  baseParams: URLSearchParams
+  style: EloquaPagingStyle
+  pageSize: number
+}
+
+// A tool run as seen by the service: its calls are tagged with the run and
+// aborted with it, and may skip the response cache
+export interface EloquaRunBinding {
+  runId: string
+  toolId: string
+  signal: AbortSignal
+  bypassCache: boolean
+  // Set for a dry run: changes are recorded here instead of sent
+  plannedChanges?: PlannedChange[]
+}
+
+// Options of one call; the renderer-only ones are not sent to the main process
+export interface EloquaCallOptions extends EloquaRequestOptions {
+  // Read from Eloqua even when the response is cached
+  fresh?: boolean
+  // Leave the change out of the undo journal, e.g. for a temporary definition the app created itself
+  skipJournal?: boolean
+}
+
+// What Eloqua's form processor answered to a submission
+export interface EloquaFormSubmissionResponse {
+  status: number
+  body: string
+}
+
+// Applying a planned form submission waits as long as the tool does by default
+const PLANNED_FORM_SUBMISSION_TIMEOUT_MS = 10000
+
+declare module '../../shared/toolFramework' {
+  // Tools make their calls through the view of their run, see forRun
+  interface ToolEloquaApi extends EloquaApiService {}
+}
+
+// Shared by the service and its run views, so ids stay unique across runs
+let requestCounter = 0
+let journalCounter = 0
+
+export class EloquaApiService {
+  private session: EloquaSession | null = null
+  // Set on the view of a tool run returned by forRun
+  private binding: EloquaRunBinding | null = null
+  // Above zero while runDetached is running a task
+  private detachedDepth = 0
+  private readonly cache = new ResponseCache()
 
   constructor() {
-    // Empty constructor - credentials will be set via initialize
+    // Empty constructor - the session will be set via initialize
   }
 
-  initialize(credentials: EloquaCredentials) {
-    this.credentials = credentials
-    
-    // Create the authentication string and encode it
-    const authString = `${credentials.siteName}\\${credentials.username}:${credentials.password}`
-    const encodedAuth = btoa(authString)
-    
-    this.apiClient = axios.create({
-      baseURL: credentials.baseUrl,
-      headers: {
-        'Authorization': `Basic ${encodedAuth}`,
-        'Content-Type': 'application/json',
-      },
-      timeout: 30000,
-    })
+  // Binds the service to a session opened in the main process. Only the opaque
+  // session id is sent with each call; requests are signed in main.
+  initialize(session: EloquaSession) {
+    this.session = session
+    this.cache.bind(session.sessionId)
+  }
 
-    // Add response interceptor for error handling
-    this.apiClient.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        if (error.response?.status === 401) {
-          // Reset the client on authentication failure
-          this.apiClient = null
-          this.credentials = null
-          // Redirect to login
-          if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
-            window.location.href = '/login'
-          }
-          throw new Error('Authentication failed. Please check your credentials.')
-        }
-        if (error.response?.status === 403) {
-          throw new Error('Access denied. You may not have permission for this operation.')
-        }
-        if (error.code === 'ECONNABORTED') {
-          throw new Error('Request timeout. Please try again.')
-        }
-        throw error
-      }
-    )
+  reset() {
+    this.session = null
+    this.cache.bind(null)
   }
 
   private ensureInitialized() {
-    if (!this.apiClient || !this.credentials) {
+    if (!this.session) {
       throw new Error('API client not initialized. Please log in first.')
     }
   }
 
-  private getAuthString(): string {
+  // Work-pool settings for lookups that fan out over many assets: stop with the
+  // run and start no faster than the instance's budget, shared with other pools
+  private lookupPoolOptions<T, R>(): WorkPoolOptions<T, R> {
+    return {
+      concurrency: ELOQUA_RATE_LIMITS.maxConcurrent,
+      requestsPerSecond: ELOQUA_RATE_LIMITS.requestsPerSecond,
+      rateKey: this.session?.baseUrl,
+      signal: this.abortSignal || undefined
+    }
+  }
+
+  // Sends a request through the main process and unwraps its result envelope,
+  // throwing an EloquaApiError that carries status, error code and dependencies.
+  // GET responses are served from the response cache unless the run bypasses it.
+  // REST asset bodies are converted to and from Eloqua's string format here, so
+  // callers and the cache only ever see typed booleans and ISO dates. During a
+  // dry run changes are recorded instead of sent; otherwise changes to forms,
+  // bulk definitions and contact fields are journaled before they are sent.
+  private async callApi(method: string, endpoint: string, data?: any, options: EloquaCallOptions = {}): Promise<any> {
+    const { fresh, skipJournal, ...requestOptions } = options
+    const signal = this.abortSignal
+    if (signal?.aborted) {
+      throw createAbortError(method, endpoint)
+    }
+
+    const isRead = method.toUpperCase() === 'GET'
+    if (!isRead && this.recordsChanges(method, endpoint, data)) {
+      // A recorded change answers with its own body, as Eloqua echoes created and updated assets
+      return data
+    }
+    if (isRead && !this.bypassCache && !fresh) {
+      const cached = await this.cache.get(endpoint)
+      if (cached !== undefined) {
+        return cached
+      }
+    }
+
+    const journalEntry = isRead || skipJournal ? null : await this.journalChange(method, endpoint)
+
+    // Calls made during a cancellable run get an id so Stop can abort them in main
+    const requestId = signal ? `req-${Date.now()}-${++requestCounter}` : undefined
+    const onAbort = () => {
+      getToolServiceApi().eloquaAbortRequest(requestId!).catch(() => {})
+    }
+    signal?.addEventListener('abort', onAbort)
+
+    const normalized = isNormalizedEndpoint(endpoint)
+    try {
+      const result = await getToolServiceApi().eloquaApiCall({
+        sessionId: this.session!.sessionId,
+        method,
+        endpoint,
+        data: normalized && data !== undefined ? toEloquaRequestBody(data) : data,
+        options: requestId || this.runTag ? { ...requestOptions, requestId, ...this.runTag } : requestOptions
+      })
+
+      if (journalEntry) {
+        await this.finishJournalEntry(journalEntry, result.ok ? undefined : result.error.message)
+      }
+
+      if (!isRead) {
+        // A failed mutation may still have been applied, so drop stale entries either way
+        await this.cache.invalidate(endpoint)
+      }
+
+      if (!result.ok) {
+        throw new EloquaApiError(result.error)
+      }
+
+      const responseData = normalized ? normalizeEloquaResponse(result.data) : result.data
+      if (isRead) {
+        // Fresh responses are stored even when the run bypasses the cache
+        this.cache.set(endpoint, responseData)
+      }
+      return responseData
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  /**
+   * Returns a view of the service for one tool run. Calls made through it are
+   * tagged with the run for the traffic inspector and the undo journal, aborted
+   * in the main process when its signal fires, and follow the run's cache and
+   * dry-run settings. The view shares the session and cache of the service.
+   * @param run - Run id, tool id, abort signal and cache setting of the run
+   * @returns EloquaApiService - Service to make the run's calls with
+   */
+  forRun(run: EloquaRunBinding): EloquaApiService {
+    const view: EloquaApiService = Object.create(this)
+    view.binding = run
+    view.detachedDepth = 0
+    return view
+  }
+
+  private get abortSignal(): AbortSignal | null {
+    return this.detachedDepth > 0 ? null : this.binding?.signal || null
+  }
+
+  private get runTag(): { runId: string, toolId: string } | null {
+    const run = this.binding
+    return run ? { runId: run.runId, toolId: run.toolId } : null
+  }
+
+  /**
+   * Records a change instead of sending it when the run is a dry run
+   * @param method - HTTP method of the change
+   * @param endpoint - Endpoint with its query
+   * @param data - Request body
+   * @returns boolean - True when the change was recorded
+   */
+  private recordsChanges(method: string, endpoint: string, data?: any): boolean {
+    const plannedChanges = this.binding?.plannedChanges
+    if (!plannedChanges) return false
+
+    plannedChanges.push({
+      sequence: plannedChanges.length + 1,
+      method: method.toUpperCase() as PlannedChange['method'],
+      endpoint,
+      // Copied, as tools may go on changing the object they sent
+      data: data === undefined ? undefined : JSON.parse(JSON.stringify(data))
+    })
+    return true
+  }
+
+  /**
+   * Saves the current state of a journaled asset before a change to it, so
+   * the change can be undone. The change is not sent when its asset's state
+   * cannot be saved; an asset that does not exist has nothing to save.
+   * @param method - HTTP method of the change
+   * @param endpoint - Endpoint with its query
+   * @returns Promise<ChangeJournalEntry | null> - The saved entry, or null when the change is not journaled
+   * @throws Error - When the snapshot cannot be read or saved
+   */
+  private async journalChange(method: string, endpoint: string): Promise<ChangeJournalEntry | null> {
+    const change = matchJournaledChange(method, endpoint)
+    if (!change) return null
+
+    let snapshot: unknown
+    try {
+      snapshot = await this.callApi('GET', change.snapshotEndpoint, undefined, { fresh: true })
+    } catch (error) {
+      if (error instanceof EloquaApiError && error.isNotFound()) return null
+      throw EloquaApiError.withContext(error, 'Could not save the current state for the undo journal, so the change was not sent')
+    }
+
+    const entry = createChangeJournalEntry(`change-${Date.now().toString(36)}-${++journalCounter}`, change, snapshot, this.runTag)
+    try {
+      await getToolServiceApi().saveChangeJournalEntry(entry)
+    } catch (error) {
+      throw EloquaApiError.withContext(error, 'Could not save the undo journal, so the change was not sent')
+    }
+    return entry
+  }
+
+  // Records whether a journaled change was made. The change has happened by
+  // now, so a failure to record it is only logged.
+  private async finishJournalEntry(entry: ChangeJournalEntry, error?: string) {
+    try {
+      await getToolServiceApi().saveChangeJournalEntry({ ...entry, changeStatus: error ? 'failed' : 'succeeded', changeError: error })
+    } catch (saveError) {
+      console.warn('Could not update the undo journal:', saveError instanceof Error ? saveError.message : saveError)
+    }
+  }
+
+  /**
+   * Undoes a journaled change: an updated asset gets its saved state back and
+   * a deleted one is recreated from it. Restoring an asset journals its
+   * current state first, so the undo can be undone in turn.
+   * @param entry - Journal entry with its snapshot
+   * @returns Promise<ChangeJournalSummary> - The entry, marked as undone
+   * @throws Error - When the entry cannot be undone or Eloqua rejects the request
+   */
+  async undoJournaledChange(entry: ChangeJournalEntry): Promise<ChangeJournalSummary> {
     this.ensureInitialized()
-    return `${this.credentials!.siteName}\\${this.credentials!.username}:${this.credentials!.password}`
+
+    const request = getUndoRequest(entry)
+    if (!request) {
+      throw new Error(entry.undoneAt ? 'This change has already been undone' : 'There is no saved state to undo this change with')
+    }
+
+    let response: any
+    try {
+      response = await this.callApi(request.method, request.endpoint, request.data)
+    } catch (error) {
+      throw EloquaApiError.withContext(error, 'Failed to undo the change')
+    }
+    return getToolServiceApi().saveChangeJournalEntry({
+      ...entry,
+      undoneAt: new Date().toISOString(),
+      undoResult: describeUndoResult(entry, response)
+    })
+  }
+
+  // Responses fetched for a bypassing run still refresh the cache for the others
+  private get bypassCache(): boolean {
+    return this.binding?.bypassCache === true
   }
 
-  async testConnection(): Promise<EloquaLoginResponse> {
+  // Drops all cached responses, in memory and on disk
+  async clearCache(): Promise<void> {
+    await this.cache.clear()
+  }
+
+  getCacheSize(): number {
+    return this.cache.size
+  }
+
+  async isCachePersistent(): Promise<boolean> {
+    return this.cache.isPersistent()
+  }
+
+  /**
+   * Keeps cached responses on disk under userData between sessions
+   * @param persistent - True to enable the disk tier; false deletes it
+   */
+  async setCachePersistent(persistent: boolean): Promise<void> {
+    await this.cache.setPersistent(persistent)
+  }
+
+  /**
+   * Sends a call recorded by the traffic inspector again with the current session
+   * @param entryId - Id of the recorded traffic entry
+   * @returns Promise<any> - Response data of the replayed call
+   */
+  async replayTrafficEntry(entryId: string): Promise<any> {
     this.ensureInitialized()
-    
+
+    const result = await getToolServiceApi().replayTraffic(entryId, this.session!.sessionId)
+    if (!result.ok) {
+      throw new EloquaApiError(result.error)
+    }
+    return result.data
+  }
+
+  /**
+   * Sends a change recorded by a dry run, exactly as it was recorded
+   * @param change - Planned change
+   * @returns Promise<any> - Response data
+   */
+  async sendPlannedChange(change: PlannedChange): Promise<any> {
+    if (isFormSubmissionUrl(change.endpoint)) {
+      return this.submitForm(change.endpoint, change.data as Record<string, string>, PLANNED_FORM_SUBMISSION_TIMEOUT_MS)
+    }
+    this.ensureInitialized()
+    return this.callApi(change.method, change.endpoint, change.data)
+  }
+
+  /**
+   * Posts a form submission to Eloqua's form processor. The processor is not
+   * part of the REST API, so the submission is sent from this window and needs
+   * no session. A dry run records it instead of sending it.
+   * @param url - Form processor URL (path /e/f2) with its query
+   * @param fields - Submitted field values
+   * @param timeoutMs - Time after which the submission is abandoned
+   * @returns Promise<EloquaFormSubmissionResponse | null> - Status and body of the response, or null when the submission was recorded
+   * @throws Error - AbortError when the timeout passes, EloquaApiError when the run is stopped
+   */
+  async submitForm(url: string, fields: Record<string, string>, timeoutMs: number): Promise<EloquaFormSubmissionResponse | null> {
+    if (!isFormSubmissionUrl(url)) {
+      throw new Error(`Not an Eloqua form submission URL: ${url}`)
+    }
+    const signal = this.abortSignal
+    if (signal?.aborted) {
+      throw createAbortError('POST', url)
+    }
+    if (this.recordsChanges('POST', url, fields)) {
+      return null
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+    const onAbort = () => controller.abort()
+    signal?.addEventListener('abort', onAbort)
     try {
-      const authString = this.getAuthString()
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint: '/API/REST/1.0/system/user'
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'User-Agent': 'EloquaAdminToolbox-BulkSubmit/1.0'
+        },
+        body: new URLSearchParams(fields),
+        signal: controller.signal
       })
+      return { status: response.status, body: await response.text() }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw createAbortError('POST', url)
+      }
+      throw error
+    } finally {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  /**
+   * Runs calls that must complete even if the current run is stopped, such as
+   * cleaning up server-side resources the run created
+   * @param task - Calls to make without the bound abort signal
+   * @returns Promise<T> - Result of the task
+   */
+  async runDetached<T>(task: () => Promise<T>): Promise<T> {
+    this.detachedDepth++
+    try {
+      return await task()
+    } finally {
+      this.detachedDepth--
+    }
+  }
+
+  /**
+   * Subscribes to retry notices from the main process (429/503 backoff, network errors)
+   * @param listener - Called before each retry attempt
+   * @returns () => void - Unsubscribe function
+   */
+  onRetry(listener: (notice: EloquaRetryNotice) => void): () => void {
+    return getToolServiceApi().onApiRetry(listener)
+  }
+
+  async testConnection(): Promise<any> {
+    this.ensureInitialized()
+    
+    try {
+      const data = await this.callApi('GET', '/API/REST/1.0/system/user')
       return data
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       // If authentication failed, reset the client
-      if (errorMessage.includes('Not authenticated') || errorMessage.includes('401')) {
-        this.apiClient = null
-        this.credentials = null
+      if (error instanceof EloquaApiError && error.isUnauthorized()) {
+        this.session = null
       }
-      throw new Error(`Connection test failed: ${errorMessage}`)
+      throw EloquaApiError.withContext(error, 'Connection test failed')
     }
   }
 
-  async getEmails(search?: string, page: number = 1, count: number = 100) {
+  async getEmails(search?: string, page: number = 1, count: number = 100): Promise<EloquaApiResponse<EloquaEmail>> {
     this.ensureInitialized()
     
     // Validate and sanitize inputs
@@ -114,23 +467,17 @@ class EloquaApiService {
     }
 
     try {
-      const authString = this.getAuthString()
       const endpoint = `/API/REST/2.0/assets/emails?${params.toString()}`
       
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint
-      })
+      const data = await this.callApi('GET', endpoint)
       
       return data
     } catch (error) {
-      throw new Error(`Failed to fetch emails: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch emails')
     }
   }
 
-  async getEmailDetails(emailId: string) {
+  async getEmailDetails(emailId: string): Promise<EloquaEmail> {
     this.ensureInitialized()
     
     // Validate email ID
@@ -140,20 +487,14 @@ class EloquaApiService {
     }
     
     try {
-      const authString = this.getAuthString()
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint: `/API/REST/2.0/assets/email/${idValidation.sanitizedValue}`
-      })
+      const data = await this.callApi('GET', `/API/REST/2.0/assets/email/${idValidation.sanitizedValue}`)
       return data
     } catch (error) {
-      throw new Error(`Failed to fetch email details: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch email details')
     }
   }
 
-  async getForms(search?: string, page: number = 1, count: number = 100) {
+  async getForms(search?: string, page: number = 1, count: number = 100): Promise<EloquaApiResponse<EloquaFormSummary>> {
     this.ensureInitialized()
     
     // Validate and sanitize inputs
@@ -180,23 +521,23 @@ class EloquaApiService {
     }
 
     try {
-      const authString = this.getAuthString()
       const endpoint = `/API/REST/1.0/assets/forms?${params.toString()}`
       
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint
-      })
+      const data = await this.callApi('GET', endpoint)
       
       return data
     } catch (error) {
-      throw new Error(`Failed to fetch forms: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch forms')
     }
   }
 
-  async getFormDetails(formId: string) {
+  /**
+   * Reads a form through the 1.0 API
+   * @param formId - Form id
+   * @param options - fresh: skip the response cache, for a form that is about to be written back
+   * @returns Promise<EloquaForm>
+   */
+  async getFormDetails(formId: string, options: Pick<EloquaCallOptions, 'fresh'> = {}): Promise<EloquaForm> {
     this.ensureInitialized()
     
     // Validate form ID
@@ -206,21 +547,15 @@ class EloquaApiService {
     }
     
     try {
-      const authString = this.getAuthString()
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint: `/API/REST/1.0/assets/form/${idValidation.sanitizedValue}`
-      })
+      const data = await this.callApi('GET', `/API/REST/1.0/assets/form/${idValidation.sanitizedValue}`, undefined, options)
       return data
     } catch (error) {
-      throw new Error(`Failed to fetch form details: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch form details')
     }
   }
 
   // V2.0 Forms API Methods
-  async getFormsV2(search?: string, page: number = 1, count: number = 100, depth: string = 'partial', orderBy?: string, lastUpdatedAt?: number) {
+  async getFormsV2<D extends EloquaDepth = 'partial'>(search?: string, page: number = 1, count: number = 100, depth: D = 'partial' as D, orderBy?: string, lastUpdatedAt?: number): Promise<EloquaApiResponse<EloquaFormAtDepth<D>>> {
     this.ensureInitialized()
     
     // Validate and sanitize inputs
@@ -256,23 +591,17 @@ class EloquaApiService {
     }
 
     try {
-      const authString = this.getAuthString()
       const endpoint = `/api/REST/2.0/assets/forms?${params.toString()}`
       
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint
-      })
+      const data = await this.callApi('GET', endpoint)
       
       return data
     } catch (error) {
-      throw new Error(`Failed to fetch forms: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch forms')
     }
   }
 
-  async getFormDetailsV2(formId: string, depth: string = 'complete') {
+  async getFormDetailsV2<D extends EloquaDepth = 'complete'>(formId: string, depth: D = 'complete' as D): Promise<EloquaFormAtDepth<D>> {
     this.ensureInitialized()
     
     // Validate form ID
@@ -282,53 +611,33 @@ class EloquaApiService {
     }
     
     try {
-      const authString = this.getAuthString()
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint: `/api/REST/2.0/assets/form/${idValidation.sanitizedValue}?depth=${depth}`
-      })
+      const data = await this.callApi('GET', `/api/REST/2.0/assets/form/${idValidation.sanitizedValue}?depth=${depth}`)
       return data
     } catch (error) {
-      throw new Error(`Failed to fetch form details: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch form details')
     }
   }
 
   // Enhanced Form Management Methods
-  async createForm(formData: any) {
+  async createForm(formData: any): Promise<EloquaForm> {
     this.ensureInitialized()
     
     try {
-      const authString = this.getAuthString()
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'POST',
-        endpoint: '/API/REST/1.0/assets/form',
-        body: formData
-      })
+      const data = await this.callApi('POST', '/API/REST/1.0/assets/form', formData)
       return data
     } catch (error) {
-      throw new Error(`Failed to create form: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to create form')
     }
   }
 
-  async updateForm(formId: string, formData: any) {
+  async updateForm(formId: string, formData: any): Promise<EloquaForm> {
     this.ensureInitialized()
     
     try {
-      const authString = this.getAuthString()
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'PUT',
-        endpoint: `/API/REST/1.0/assets/form/${formId}`,
-        body: formData
-      })
+      const data = await this.callApi('PUT', `/API/REST/1.0/assets/form/${formId}`, formData)
       return data
     } catch (error) {
-      throw new Error(`Failed to update form: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to update form')
     }
   }
 
@@ -336,16 +645,10 @@ class EloquaApiService {
     this.ensureInitialized()
     
     try {
-      const authString = this.getAuthString()
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'DELETE',
-        endpoint: `/API/REST/1.0/assets/form/${formId}`
-      })
+      const data = await this.callApi('DELETE', `/API/REST/1.0/assets/form/${formId}`)
       return data
     } catch (error) {
-      throw new Error(`Failed to delete form: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to delete form')
     }
   }
 
@@ -354,7 +657,7 @@ class EloquaApiService {
     
     try {
       // Get the original form details
-      const originalForm = await this.getFormDetails(formId)
+      const originalForm = await this.getFormDetails(formId, { fresh: true })
       
       // Create a copy with modified properties
       const formCopy = {
@@ -367,7 +670,7 @@ class EloquaApiService {
       
       return await this.createForm(formCopy)
     } catch (error) {
-      throw new Error(`Failed to copy form: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to copy form')
     }
   }
 
@@ -387,18 +690,12 @@ class EloquaApiService {
     }
 
     try {
-      const authString = this.getAuthString()
       const endpoint = `/API/REST/1.0/data/form/${formId}?${new URLSearchParams(params).toString()}`
       
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint
-      })
+      const data = await this.callApi('GET', endpoint)
       return data
     } catch (error) {
-      throw new Error(`Failed to fetch form submissions: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch form submissions')
     }
   }
 
@@ -458,18 +755,18 @@ class EloquaApiService {
       
       return analytics
     } catch (error) {
-      throw new Error(`Failed to fetch form analytics: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch form analytics')
     }
   }
 
-  async getFormFields(formId: string) {
+  async getFormFields(formId: string): Promise<EloquaFormElement[]> {
     this.ensureInitialized()
     
     try {
       const formDetails = await this.getFormDetails(formId)
       return formDetails.elements || []
     } catch (error) {
-      throw new Error(`Failed to fetch form fields: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch form fields')
     }
   }
 
@@ -477,8 +774,8 @@ class EloquaApiService {
     this.ensureInitialized()
     
     try {
-      // Get current form details
-      const form = await this.getFormDetails(formId)
+      // Get current form details; a cached copy would undo changes made since it was read
+      const form = await this.getFormDetails(formId, { fresh: true })
       
       // Update the specific field
       if (form.elements) {
@@ -495,7 +792,7 @@ class EloquaApiService {
         throw new Error('Form has no elements')
       }
     } catch (error) {
-      throw new Error(`Failed to update form field: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to update form field')
     }
   }
 
@@ -503,8 +800,8 @@ class EloquaApiService {
     this.ensureInitialized()
     
     try {
-      // Get current form details
-      const form = await this.getFormDetails(formId)
+      // Get current form details; a cached copy would undo changes made since it was read
+      const form = await this.getFormDetails(formId, { fresh: true })
       
       // Add the new field
       if (!form.elements) {
@@ -516,7 +813,7 @@ class EloquaApiService {
       // Update the entire form
       return await this.updateForm(formId, form)
     } catch (error) {
-      throw new Error(`Failed to add form field: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to add form field')
     }
   }
 
@@ -524,8 +821,8 @@ class EloquaApiService {
     this.ensureInitialized()
     
     try {
-      // Get current form details
-      const form = await this.getFormDetails(formId)
+      // Get current form details; a cached copy would undo changes made since it was read
+      const form = await this.getFormDetails(formId, { fresh: true })
       
       // Remove the specific field
       if (form.elements) {
@@ -537,7 +834,7 @@ class EloquaApiService {
         throw new Error('Form has no elements')
       }
     } catch (error) {
-      throw new Error(`Failed to remove form field: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to remove form field')
     }
   }
 
@@ -546,18 +843,12 @@ class EloquaApiService {
     
     try {
       const endpoint = type ? `/API/REST/1.0/bulk/${type}` : '/API/REST/1.0/bulk'
-      const authString = this.getAuthString()
       
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint
-      })
+      const data = await this.callApi('GET', endpoint)
       
       return data
     } catch (error) {
-      throw new Error(`Failed to fetch bulk operations: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch bulk operations')
     }
   }
 
@@ -565,18 +856,12 @@ class EloquaApiService {
     this.ensureInitialized()
     
     try {
-      const authString = this.getAuthString()
       
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'DELETE',
-        endpoint: `/API/REST/1.0/bulk/${type}/${operationId}`
-      })
+      const data = await this.callApi('DELETE', `/API/REST/1.0/bulk/${type}/${operationId}`)
       
       return data
     } catch (error) {
-      throw new Error(`Failed to delete bulk operation: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to delete bulk operation')
     }
   }
 
@@ -602,58 +887,36 @@ class EloquaApiService {
           throw new Error(`Unsupported asset type: ${assetType}`)
       }
 
-      const dependencies = []
-      
       // If specific asset ID provided, analyze just that asset
       if (assetId) {
         assets = assets.filter((asset: any) => asset.id === assetId)
       }
 
-      for (let i = 0; i < assets.length; i++) {
-        const asset = assets[i]
-        const assetDeps = await this.analyzeAssetDependencies(asset, assetType, enableCampaignAnalysis)
-        dependencies.push(assetDeps)
-      }
+      const results = await runWorkPool(
+        assets,
+        (asset: any) => this.analyzeAssetDependencies(asset, assetType, enableCampaignAnalysis),
+        this.lookupPoolOptions()
+      )
 
-      return dependencies
+      return fulfilledValues(results)
     } catch (error) {
-      throw new Error(`Failed to analyze dependencies: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to analyze dependencies')
     }
   }
 
-  private async getAllAssets(type: string, limit: number = 5000) {
-    const allAssets = []
-    let page = 1
-    const pageSize = 100
-    let hasMore = true
-
-    while (hasMore && allAssets.length < limit) {
-      let response
-      
-      switch (type) {
-        case 'emails':
-          response = await this.getEmails('', page, pageSize)
-          break
-        case 'forms':
-          response = await this.getForms('', page, pageSize)
-          break
-        case 'campaigns':
-          response = await this.getCampaigns('', page, pageSize)
-          break
-        default:
-          throw new Error(`Unsupported asset type: ${type}`)
-      }
+  private async getAllAssets(type: string) {
+    const endpoints: Record<string, string> = {
+      emails: '/API/REST/2.0/assets/emails',
+      forms: '/API/REST/1.0/assets/forms',
+      campaigns: '/API/REST/1.0/assets/campaigns'
+    }
 
-      if (response.elements && response.elements.length > 0) {
-        allAssets.push(...response.elements)
-        hasMore = response.elements.length === pageSize
-        page++
-      } else {
-        hasMore = false
-      }
+    const endpoint = endpoints[type]
+    if (!endpoint) {
+      throw new Error(`Unsupported asset type: ${type}`)
     }
 
-    return allAssets
+    return this.listAll(endpoint, { pageSize: 1000 })
   }
 
   private async analyzeAssetDependencies(asset: any, assetType: string, enableCampaignAnalysis: boolean = false) {
@@ -726,7 +989,7 @@ class EloquaApiService {
   }
 
 
-  async getCampaigns(search?: string, page: number = 1, count: number = 100) {
+  async getCampaigns(search?: string, page: number = 1, count: number = 100): Promise<EloquaApiResponse<EloquaCampaign>> {
     this.ensureInitialized()
     
     const params = new URLSearchParams()
@@ -738,36 +1001,24 @@ class EloquaApiService {
     }
 
     try {
-      const authString = this.getAuthString()
       const endpoint = `/API/REST/1.0/assets/campaigns?${params.toString()}`
       
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint
-      })
+      const data = await this.callApi('GET', endpoint)
       
       return data
     } catch (error) {
-      throw new Error(`Failed to fetch campaigns: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch campaigns')
     }
   }
 
-  async getCampaignDetails(campaignId: string) {
+  async getCampaignDetails(campaignId: string): Promise<EloquaCampaign> {
     this.ensureInitialized()
     
     try {
-      const authString = this.getAuthString()
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint: `/API/REST/1.0/assets/campaign/${campaignId}?depth=complete`
-      })
+      const data = await this.callApi('GET', `/API/REST/1.0/assets/campaign/${campaignId}?depth=complete`)
       return data
     } catch (error) {
-      throw new Error(`Failed to fetch campaign details: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch campaign details')
     }
   }
 
@@ -785,7 +1036,7 @@ class EloquaApiService {
   }
 
   // Real Dependencies API Methods
-  async getAssetDependencies(assetType: string, assetId: string) {
+  async getAssetDependencies(assetType: string, assetId: string): Promise<EloquaDependency[]> {
     this.ensureInitialized()
     
     // Map asset types to their API endpoint paths
@@ -807,50 +1058,44 @@ class EloquaApiService {
     }
     
     try {
-      const authString = this.getAuthString()
       const endpoint = `/API/REST/2.0/assets/${apiPath}/${assetId}/dependencies`
       
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint
-      })
+      const data = await this.callApi('GET', endpoint)
       
       // Return the array of dependencies directly
       return data || []
     } catch (error) {
-      throw new Error(`Failed to fetch dependencies for ${assetType} ${assetId}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, `Failed to fetch dependencies for ${assetType} ${assetId}`)
     }
   }
 
-  async getMultipleAssetDependencies(assets: Array<{type: string, id: string, name?: string}>) {
-    const results = []
-    
-    for (const asset of assets) {
-      try {
-        const dependencies = await this.getAssetDependencies(asset.type, asset.id)
-        results.push({
-          id: asset.id,
-          name: asset.name || `${asset.type} ${asset.id}`,
-          type: asset.type.toLowerCase(),
-          dependencies,
-          dependencyCount: dependencies.length,
-          error: null
-        })
-      } catch (error) {
-        results.push({
-          id: asset.id,
-          name: asset.name || `${asset.type} ${asset.id}`,
-          type: asset.type.toLowerCase(),
-          dependencies: [],
-          dependencyCount: 0,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        })
-      }
-    }
-    
-    return results
+  async getMultipleAssetDependencies(
+    assets: Array<{type: string, id: string, name?: string}>,
+    onItemComplete?: WorkPoolOptions<{type: string, id: string, name?: string}, EloquaDependency[]>['onItemComplete']
+  ) {
+    // Assets not started before the run is stopped are left out
+    const results = await runWorkPool(
+      assets,
+      (asset): Promise<EloquaDependency[]> => this.getAssetDependencies(asset.type, asset.id),
+      { ...this.lookupPoolOptions(), onItemComplete }
+    )
+
+    return results.flatMap(result => {
+      if (result.status === 'skipped') return []
+
+      const asset = result.item
+      const dependencies = result.status === 'fulfilled' ? result.value : []
+      return [{
+        id: asset.id,
+        name: asset.name || `${asset.type} ${asset.id}`,
+        type: asset.type.toLowerCase(),
+        dependencies,
+        dependencyCount: dependencies.length,
+        error: result.status === 'rejected'
+          ? (result.error instanceof Error ? result.error.message : 'Unknown error')
+          : null
+      }]
+    })
   }
 
   async findAssetUsage(targetAssetId: string, targetAssetType: string, searchInTypes: string[] = ['email', 'form'], maxAssetsToCheck: number = 100) {
@@ -880,27 +1125,24 @@ class EloquaApiService {
           // Limit the number of assets to check
           assets = assets.slice(0, maxAssetsToCheck)
           
-          // Check dependencies of each asset to see if it uses our target
-          for (const asset of assets) {
-            try {
-              const dependencies = await this.getAssetDependencies(searchType, asset.id)
-              
-              // Check if this asset depends on our target asset
-              const usesTarget = dependencies.some(dep => 
-                dep.id === targetAssetId || dep.id === parseInt(targetAssetId)
-              )
-              
-              if (usesTarget) {
-                usedBy.push({
-                  id: asset.id,
-                  name: asset.name,
-                  type: searchType,
-                  permissions: ['Retrieve'] // Default permissions
-                })
-              }
-            } catch (error) {
-              // Skip assets that fail to analyze
-              continue
+          // Check dependencies of each asset to see if it uses our target;
+          // assets that fail to analyze are skipped
+          const results = await runWorkPool(assets, (asset: any) => this.getAssetDependencies(searchType, asset.id), this.lookupPoolOptions())
+          for (const result of results) {
+            if (result.status !== 'fulfilled') continue
+
+            // Check if this asset depends on our target asset
+            const usesTarget = result.value.some((dep: any) =>
+              dep.id === targetAssetId || dep.id === parseInt(targetAssetId)
+            )
+
+            if (usesTarget) {
+              usedBy.push({
+                id: result.item.id,
+                name: result.item.name,
+                type: searchType,
+                permissions: ['Retrieve'] // Default permissions
+              })
             }
           }
           
@@ -917,7 +1159,7 @@ class EloquaApiService {
   }
 
   // Generic API request method for custom endpoints
-  async getEmailGroups(page: number = 1, count: number = 1000) {
+  async getEmailGroups(page: number = 1, count: number = 1000): Promise<EloquaApiResponse<EloquaEmailGroup>> {
     this.ensureInitialized()
     
     const params = new URLSearchParams()
@@ -925,23 +1167,18 @@ class EloquaApiService {
     params.append('count', count.toString())
 
     try {
-      const authString = this.getAuthString()
       const endpoint = `/API/REST/1.0/assets/email/groups?${params.toString()}`
       
-      const data = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method: 'GET',
-        endpoint
-      })
+      const data = await this.callApi('GET', endpoint)
       
       return data
     } catch (error) {
-      throw new Error(`Failed to fetch email groups: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'Failed to fetch email groups')
     }
   }
 
-  async makeRequest(method: string, endpoint: string, data?: any, params?: any): Promise<any> {
+  // POST, PUT and PATCH are only retried when the caller passes { retry: true }
+  async makeRequest(method: string, endpoint: string, data?: any, params?: any, options?: EloquaCallOptions): Promise<any> {
     this.ensureInitialized()
     
     // Validate HTTP method
@@ -957,7 +1194,6 @@ class EloquaApiService {
     }
     
     try {
-      const authString = this.getAuthString()
       
       let fullEndpoint = endpointValidation.sanitizedValue
       if (params) {
@@ -974,17 +1210,175 @@ class EloquaApiService {
         }
       }
       
-      const response = await window.electronAPI.eloquaApiCall({
-        baseUrl: this.credentials!.baseUrl!,
-        authString,
-        method,
-        endpoint: fullEndpoint,
-        body: data
-      })
+      const response = await this.callApi(method, fullEndpoint, data, options)
       
       return response
     } catch (error) {
-      throw new Error(`API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw EloquaApiError.withContext(error, 'API request failed')
+    }
+  }
+
+  /**
+   * Iterates over every item of a paginated list endpoint, fetching pages on demand.
+   * REST 1.0/2.0 endpoints are paged with page/count/total, Bulk 2.0 endpoints with
+   * offset/limit/hasMore.
+   * @param endpoint - List endpoint without paging parameters
+   * @param options - Extra query parameters, page size, item cap and page callback
+   * @returns AsyncGenerator<T> - Yields items across all pages
+   */
+  async *paginate<T = any>(endpoint: string, options: EloquaPaginateOptions = {}): AsyncGenerator<T> {
+    this.ensureInitialized()
+
+    const paging = this.preparePaging(endpoint, options)
+    const maxItems = options.maxItems ?? Infinity
+
+    let pageNumber = 1
+    let fetched = 0
+
+    while (fetched < maxItems) {
+      const page = await this.fetchPage<T>(paging, pageNumber)
+
+      for (const item of page.items) {
+        if (fetched >= maxItems) break
+        fetched++
+        yield item
+      }
+
+      options.onPage?.({ pageNumber, fetched, total: page.total })
+
+      if (!page.hasMore || page.items.length === 0) break
+      pageNumber++
+    }
+  }
+
+  /**
+   * Collects every item of a paginated list endpoint into an array. Once the first
+   * page reports a total, the remaining pages are fetched in parallel.
+   * @param endpoint - List endpoint without paging parameters
+   * @param options - Extra query parameters, page size, item cap and page callback
+   * @returns Promise<T[]> - All items across all pages, in page order
+   */
+  async listAll<T = any>(endpoint: string, options: EloquaPaginateOptions = {}): Promise<T[]> {
+    this.ensureInitialized()
+
+    const paging = this.preparePaging(endpoint, options)
+    const maxItems = options.maxItems ?? Infinity
+
+    const first = await this.fetchPage<T>(paging, 1)
+    const items = first.items.slice(0, maxItems)
+    options.onPage?.({ pageNumber: 1, fetched: items.length, total: first.total })
+
+    if (!first.hasMore || first.items.length === 0 || items.length >= maxItems) {
+      return items
+    }
+
+    // Without a total the pages have to be followed one at a time
+    if (first.total === undefined) {
+      for (let pageNumber = 2; items.length < maxItems; pageNumber++) {
+        const page = await this.fetchPage<T>(paging, pageNumber)
+        items.push(...page.items.slice(0, maxItems - items.length))
+        options.onPage?.({ pageNumber, fetched: items.length, total: page.total })
+        if (!page.hasMore || page.items.length === 0) break
+      }
+      return items
+    }
+
+    const total = first.total
+    const lastPage = Math.ceil(Math.min(total, maxItems) / paging.pageSize)
+    const pageNumbers = Array.from({ length: Math.max(lastPage - 1, 0) }, (_, index) => index + 2)
+    let fetched = items.length
+
+    const pages = await runWorkPool(pageNumbers, pageNumber => this.fetchPage<T>(paging, pageNumber), {
+      ...this.lookupPoolOptions(),
+      onItemComplete: result => {
+        if (result.status === 'fulfilled') {
+          fetched += result.value.items.length
+          options.onPage?.({ pageNumber: result.item, fetched, total })
+        }
+      }
+    })
+
+    for (const page of pages) {
+      if (page.status === 'rejected') {
+        throw page.error
+      }
+      if (page.status === 'skipped') {
+        throw createAbortError('GET', endpoint)
+      }
+      items.push(...page.value.items)
+    }
+
+    return items.slice(0, maxItems)
+  }
+
+  // Validates a list endpoint and its query parameters once for all of its pages
+  private preparePaging(endpoint: string, options: EloquaPaginateOptions): PagingRequest {
+    const endpointValidation = EloquaApiValidator.validateApiEndpoint(endpoint)
+    if (!endpointValidation.isValid) {
+      throw new Error(`Invalid API endpoint: ${endpointValidation.errors.join(', ')}`)
+    }
+
+    const baseParams = new URLSearchParams()
+    for (const [key, value] of Object.entries(options.params || {})) {
+      if (value === undefined || value === null || value === '') continue
+      if (key === 'search') {
+        // Search terms keep their Eloqua query syntax (quotes, operators, wildcards)
+        const searchValidation = InputValidator.validateSearchTerm(String(value))
+        if (!searchValidation.isValid) {
+          throw new Error(`Invalid search term: ${searchValidation.errors.join(', ')}`)
+        }
+        baseParams.append(key, searchValidation.sanitizedValue)
+      } else {
+        baseParams.append(key, InputValidator.sanitizeHtml(String(value)))
+      }
+    }
+
+    const style = options.style || (/^\/api\/bulk\//i.test(endpointValidation.sanitizedValue) ? 'bulk' : 'rest')
+    // Bulk sync data can be read in pages of up to 50,000 rows
+    const maxPageSize = style === 'bulk' && /\/data$/i.test(endpointValidation.sanitizedValue) ? 50000 : 1000
+    const pageSize = Math.min(Math.max(options.pageSize || 1000, 1), maxPageSize)
+
+    return { endpoint: endpointValidation.sanitizedValue, displayEndpoint: endpoint, baseParams, style, pageSize }
+  }
+
+  private async fetchPage<T>(paging: PagingRequest, pageNumber: number): Promise<{ items: T[], total?: number, hasMore: boolean }> {
+    const { style, pageSize } = paging
+    const query = new URLSearchParams(paging.baseParams)
+    if (style === 'bulk') {
+      query.set('limit', String(pageSize))
+      query.set('offset', String((pageNumber - 1) * pageSize))
+    } else {
+      query.set('page', String(pageNumber))
+      query.set('count', String(pageSize))
+    }
+
+    const separator = paging.endpoint.includes('?') ? '&' : '?'
+    let response: any
+    try {
+      response = await this.callApi('GET', `${paging.endpoint}${separator}${query.toString()}`)
+    } catch (error) {
+      throw EloquaApiError.withContext(error, `Failed to fetch page ${pageNumber} of ${paging.displayEndpoint}`)
+    }
+
+    if (style === 'bulk') {
+      const collection = (response || {}) as EloquaBulkCollection<T>
+      const items = Array.isArray(collection.items) ? collection.items : []
+      const total = collection.totalResults
+      const fetchedThrough = (pageNumber - 1) * pageSize + items.length
+      return {
+        items,
+        total,
+        hasMore: collection.hasMore ?? (total !== undefined ? fetchedThrough < total : items.length === pageSize)
+      }
+    }
+
+    const collection = (response || {}) as EloquaApiResponse<T>
+    const items = Array.isArray(collection.elements) ? collection.elements : []
+    const total = collection.total
+    return {
+      items,
+      total,
+      hasMore: total !== undefined ? pageNumber * pageSize < total : items.length === pageSize
     }
   }
 }
@@ -992,46 +1386,19 @@ class EloquaApiService {
 // Create singleton instance
 const eloquaApiService = new EloquaApiService()
 
-// Helper function for login/connection testing
-export async function testConnection(credentials: EloquaCredentials): Promise<EloquaLoginResponse> {
+// Helper function for login: the main process verifies the credentials, keeps
+// them, and returns a session that the API service is then bound to
+export async function login(request: EloquaLoginRequest): Promise<EloquaSession> {
   try {
-    // Starting authentication process
-    
-    // Use the main process to make the API call
-    // If this throws an error, it means authentication failed (401, 404, etc.)
-    const loginData = await window.electronAPI.eloquaTestConnection(credentials)
-    
-    // Validate response type and structure
-    
-    // Check if we received a string instead of an object (indicates an error was returned as data)
-    if (typeof loginData === 'string') {
-      console.error('Renderer - Received string instead of object, treating as error:', loginData)
-      
-      // Convert generic "Not authenticated" to more helpful message
-      if (loginData.toLowerCase().includes('not authenticated')) {
-        throw new Error('Invalid credentials. Please check your site name, username, and password.')
-      }
-      
-      throw new Error(loginData)
-    }
-    
-    // Check if we received an object but it's actually an error structure
-    if (loginData && typeof loginData === 'object' && (loginData.error || loginData.message)) {
-      console.error('Renderer - Received error object:', loginData)
-      throw new Error(loginData.error || loginData.message || 'Unknown error from authentication service')
-    }
-    
-    // If we get here, the main process returned data successfully
-    // The main process should have already validated the response structure
-    // Initialize the main API service with the base URL
-    const credentialsWithBaseUrl = {
-      ...credentials,
-      baseUrl: loginData.urls.base,
+    const session = await window.electronAPI.login(request)
+
+    if (!session || !session.sessionId || !session.baseUrl) {
+      throw new Error('Invalid response from authentication service')
     }
-    
-    eloquaApiService.initialize(credentialsWithBaseUrl)
-    
-    return loginData
+
+    eloquaApiService.initialize(session)
+
+    return session
   } catch (error) {
     console.error('Renderer - Authentication failed:', error instanceof Error ? error.message : 'Unknown error')
     // Re-throw the error as-is to preserve the specific error messages from main process
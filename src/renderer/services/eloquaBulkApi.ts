@@ -0,0 +1,530 @@
+import eloquaApiService, { EloquaApiService } from './eloquaApi'
+import { getToolServiceApi } from './toolServiceApi'
+import { EloquaApiError, createAbortError } from '../../shared/apiErrors'
+import {
+  EloquaBulkEntity,
+  EloquaBulkExport,
+  EloquaBulkExportDefinition,
+  EloquaBulkExportProgress,
+  EloquaBulkExportResult,
+  EloquaBulkExportRunOptions,
+  EloquaBulkField,
+  EloquaBulkImport,
+  EloquaBulkImportDefinition,
+  EloquaBulkImportEntity,
+  EloquaBulkImportProgress,
+  EloquaBulkImportReject,
+  EloquaBulkImportResult,
+  EloquaBulkImportRunOptions,
+  EloquaBulkSync,
+  EloquaBulkSyncLog
+} from '../../shared/apiTypes'
+
+const BULK_BASE = '/api/bulk/2.0'
+const FINISHED_STATUSES = ['success', 'warning', 'error', 'canceled']
+
+// Sync handling shared by bulk imports and exports
+abstract class EloquaBulkSyncOperations {
+  // Tools pass the service of their run, so the calls are tagged and stopped with it
+  constructor(protected readonly api: EloquaApiService = eloquaApiService) {}
+
+  /**
+   * Builds a field statement for a contact or account field
+   * @param entity - 'Contact' or 'Account'
+   * @param internalName - Internal field name, e.g. C_EmailAddress
+   * @returns string - e.g. {{Contact.Field(C_EmailAddress)}}
+   */
+  fieldStatement(entity: 'Contact' | 'Account', internalName: string): string {
+    return `{{${entity}.Field(${internalName})}}`
+  }
+
+  /**
+   * Builds a field statement for a custom object field
+   * @param customObjectId - Custom object id
+   * @param internalName - Internal field name of the custom object field
+   * @returns string - e.g. {{CustomObject[12].Field(Order_Total1)}}
+   */
+  customObjectFieldStatement(customObjectId: string, internalName: string): string {
+    return `{{CustomObject[${customObjectId}].Field(${internalName})}}`
+  }
+
+  /**
+   * Lists the fields that can be used in definitions for an entity
+   * @param entity - Contacts, accounts, activities or a custom object
+   * @returns Promise<EloquaBulkField[]>
+   */
+  async listFields(entity: EloquaBulkEntity): Promise<EloquaBulkField[]> {
+    return this.api.listAll<EloquaBulkField>(`${BULK_BASE}${this.getEntityPath(entity)}/fields`)
+  }
+
+  /**
+   * Starts a sync for an import or export definition
+   * @param definitionUri - uri of the definition, e.g. /contacts/exports/123
+   * @returns Promise<EloquaBulkSync>
+   */
+  async startSync(definitionUri: string): Promise<EloquaBulkSync> {
+    try {
+      const sync = await this.api.makeRequest('POST', `${BULK_BASE}/syncs`, { syncedInstanceUri: definitionUri })
+      if (!sync?.uri) {
+        throw new Error('Eloqua did not return the uri of the sync')
+      }
+      return sync as EloquaBulkSync
+    } catch (error) {
+      throw EloquaApiError.withContext(error, 'Failed to start sync')
+    }
+  }
+
+  async getSync(syncUri: string): Promise<EloquaBulkSync> {
+    try {
+      return await this.api.makeRequest('GET', `${BULK_BASE}${syncUri}`)
+    } catch (error) {
+      throw EloquaApiError.withContext(error, 'Failed to check sync status')
+    }
+  }
+
+  async getSyncLogs(syncUri: string): Promise<EloquaBulkSyncLog[]> {
+    return this.api.listAll<EloquaBulkSyncLog>(`${BULK_BASE}${syncUri}/logs`)
+  }
+
+  /**
+   * Polls a sync until it finishes
+   * @param syncUri - uri of the sync, e.g. /syncs/456
+   * @param options - Poll interval, timeout and abort signal
+   * @param onStatus - Called with every polled status
+   * @returns Promise<EloquaBulkSync> - The finished sync (success, warning, error or canceled)
+   */
+  async waitForSync(
+    syncUri: string,
+    options: { pollIntervalMs?: number; syncTimeoutMs?: number; signal?: AbortSignal } = {},
+    onStatus?: (sync: EloquaBulkSync) => void
+  ): Promise<EloquaBulkSync> {
+    const pollIntervalMs = Math.max(options.pollIntervalMs ?? 2000, 500)
+    const deadline = Date.now() + (options.syncTimeoutMs ?? 30 * 60 * 1000)
+    let delayMs = pollIntervalMs
+
+    while (true) {
+      const sync = await this.getSync(syncUri)
+      onStatus?.(sync)
+
+      if (FINISHED_STATUSES.includes(sync.status)) {
+        return sync
+      }
+      if (Date.now() + delayMs > deadline) {
+        throw new Error(`Timed out waiting for sync ${syncUri} (last status: ${sync.status})`)
+      }
+
+      await this.sleep(delayMs, options.signal)
+      // Back off gently on long-running syncs to save API calls
+      delayMs = Math.min(Math.round(delayMs * 1.5), 30000)
+    }
+  }
+
+  /**
+   * Deletes an import or export definition together with its staged data.
+   * Failures are logged but never hide the outcome of the run itself.
+   * @param definitionUri - uri of the definition
+   * @returns Promise<boolean> - Whether the definition was deleted
+   */
+  protected async deleteDefinition(definitionUri: string): Promise<boolean> {
+    try {
+      // Runs after Stop too, so it must not be aborted with the run. The
+      // definition was made by this run, so there is nothing worth undoing.
+      await this.api.runDetached(() => this.api.makeRequest('DELETE', `${BULK_BASE}${definitionUri}`, undefined, undefined, { skipJournal: true }))
+      return true
+    } catch (error) {
+      console.warn(`Could not delete bulk definition ${definitionUri}:`, error)
+      return false
+    }
+  }
+
+  protected getEntityPath(entity: EloquaBulkEntity): string {
+    switch (entity.type) {
+      case 'contacts':
+        return '/contacts'
+      case 'accounts':
+        return '/accounts'
+      case 'activities':
+        return '/activities'
+      case 'customObject':
+        if (!/^\d+$/.test(entity.customObjectId)) {
+          throw new Error('Custom object id must be numeric')
+        }
+        return `/customObjects/${entity.customObjectId}`
+    }
+  }
+
+  protected throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) {
+      throw createAbortError()
+    }
+  }
+
+  protected sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError())
+        return
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(createAbortError())
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+}
+
+/**
+ * Bulk API 2.0 exports: define, sync, poll, page through /data and clean up.
+ * All calls go through the API service it was created with, so they share its
+ * session, retries, rate limiting and Stop handling.
+ */
+export class EloquaBulkExportService extends EloquaBulkSyncOperations {
+  /**
+   * Creates an export definition
+   * @param entity - What to export (contacts, accounts, activities or a custom object)
+   * @param definition - Name, field statements and optional filter
+   * @returns Promise<EloquaBulkExport> - The created definition including its uri
+   */
+  async createExport(entity: EloquaBulkEntity, definition: EloquaBulkExportDefinition): Promise<EloquaBulkExport> {
+    if (!definition.name || !definition.name.trim()) {
+      throw new Error('Export definition name is required')
+    }
+    if (!definition.fields || Object.keys(definition.fields).length === 0) {
+      throw new Error('Export definition needs at least one field')
+    }
+    if (Object.keys(definition.fields).length > 250) {
+      throw new Error('Export definitions are limited to 250 fields')
+    }
+    if (entity.type === 'activities' && !/\{\{Activity\.Type\}\}/i.test(definition.filter || '')) {
+      throw new Error('Activity exports must filter on a single activity type, e.g. \'{{Activity.Type}}\' = \'EmailOpen\'')
+    }
+
+    try {
+      const created = await this.api.makeRequest('POST', `${BULK_BASE}${this.getEntityPath(entity)}/exports`, {
+        name: definition.name.trim().substring(0, 100),
+        fields: definition.fields,
+        ...(definition.filter ? { filter: definition.filter } : {}),
+        ...(definition.maxRecords ? { maxRecords: definition.maxRecords } : {}),
+        ...(definition.dataRetentionDuration ? { dataRetentionDuration: definition.dataRetentionDuration } : {}),
+        areSystemTimestampsInUTC: definition.areSystemTimestampsInUTC ?? true
+      })
+
+      if (!created?.uri) {
+        throw new Error('Eloqua did not return the uri of the export definition')
+      }
+      return created as EloquaBulkExport
+    } catch (error) {
+      throw EloquaApiError.withContext(error, 'Failed to create export definition')
+    }
+  }
+
+  /**
+   * Iterates over the exported rows of a finished sync in pages
+   * @param syncUri - uri of a successful sync
+   * @param pageSize - Rows per page, up to 50,000
+   * @returns AsyncGenerator<Array<Record<string, any>>> - One array per page
+   */
+  async *readSyncData(syncUri: string, pageSize: number = 50000): AsyncGenerator<Array<Record<string, any>>> {
+    const size = Math.min(Math.max(pageSize, 1), 50000)
+    let page: Array<Record<string, any>> = []
+
+    for await (const row of this.api.paginate<Record<string, any>>(`${BULK_BASE}${syncUri}/data`, { pageSize: size, style: 'bulk' })) {
+      page.push(row)
+      if (page.length >= size) {
+        yield page
+        page = []
+      }
+    }
+
+    if (page.length > 0) {
+      yield page
+    }
+  }
+
+  /**
+   * Deletes an export definition together with its staged data
+   * @param definitionUri - uri of the export definition
+   * @returns Promise<void>
+   */
+  async deleteExport(definitionUri: string): Promise<void> {
+    try {
+      await this.api.makeRequest('DELETE', `${BULK_BASE}${definitionUri}`)
+    } catch (error) {
+      throw EloquaApiError.withContext(error, 'Failed to delete export definition')
+    }
+  }
+
+  /**
+   * Runs a complete export: creates the definition, syncs it, hands every page of
+   * rows to onRows and deletes the definition afterwards (also on failure or Stop)
+   * @param entity - What to export
+   * @param definition - Name, field statements and optional filter
+   * @param onRows - Receives each page of rows; awaited before the next page is fetched
+   * @param options - Paging, polling, abort signal and progress callback
+   * @returns Promise<EloquaBulkExportResult>
+   */
+  async runExport(
+    entity: EloquaBulkEntity,
+    definition: EloquaBulkExportDefinition,
+    onRows: (rows: Array<Record<string, any>>) => Promise<void> | void,
+    options: EloquaBulkExportRunOptions = {}
+  ): Promise<EloquaBulkExportResult> {
+    const report = (progress: EloquaBulkExportProgress) => options.onProgress?.(progress)
+
+    report({ phase: 'defining', message: 'Creating export definition...', rowsExported: 0 })
+    const created = await this.createExport(entity, definition)
+
+    let rowsExported = 0
+    let cleanedUp = false
+    try {
+      this.throwIfAborted(options.signal)
+      report({ phase: 'syncing', message: 'Starting sync...', rowsExported })
+      const sync = await this.startSync(created.uri)
+      const finished = await this.waitForSync(sync.uri, options, status => report({
+        phase: 'syncing',
+        message: `Sync ${status.status}...`,
+        syncStatus: status.status,
+        rowsExported
+      }))
+
+      const logs = await this.getSyncLogs(sync.uri).catch(() => [] as EloquaBulkSyncLog[])
+      if (finished.status === 'error' || finished.status === 'canceled') {
+        const details = logs.filter(log => log.severity === 'error').map(log => log.message).join('; ')
+        throw new Error(`Sync ${finished.status}${details ? `: ${details}` : ''}`)
+      }
+
+      // ELQ-00001 reports the number of records the sync staged
+      const countLog = logs.find(log => log.statusCode === 'ELQ-00001' && typeof log.count === 'number')
+      const totalRows = countLog?.count
+
+      for await (const rows of this.readSyncData(sync.uri, options.pageSize)) {
+        this.throwIfAborted(options.signal)
+        await onRows(rows)
+        rowsExported += rows.length
+        report({
+          phase: 'downloading',
+          message: `Downloaded ${rowsExported.toLocaleString()}${totalRows !== undefined ? ` of ${totalRows.toLocaleString()}` : ''} rows...`,
+          rowsExported,
+          totalRows
+        })
+      }
+
+      cleanedUp = true
+      const definitionDeleted = options.keepDefinition ? false : await this.cleanUp(created.uri, rowsExported, report)
+
+      return {
+        definitionUri: created.uri,
+        syncUri: sync.uri,
+        syncStatus: finished.status,
+        rowsExported,
+        warnings: logs.filter(log => log.severity === 'warning'),
+        definitionDeleted
+      }
+    } finally {
+      if (!cleanedUp && !options.keepDefinition) {
+        await this.cleanUp(created.uri, rowsExported, report)
+      }
+    }
+  }
+
+  /**
+   * Runs an export and streams the rows into a file the user picks
+   * @param entity - What to export
+   * @param definition - Name, field statements and optional filter
+   * @param fileName - Suggested file name for the save dialog
+   * @param options - Paging, polling, abort signal and progress callback
+   * @returns Promise<EloquaBulkExportResult | null> - null when the save dialog is cancelled
+   */
+  async exportToFile(
+    entity: EloquaBulkEntity,
+    definition: EloquaBulkExportDefinition,
+    fileName: string,
+    options: EloquaBulkExportRunOptions & { format?: 'csv' | 'jsonl' } = {}
+  ): Promise<EloquaBulkExportResult | null> {
+    const file = await getToolServiceApi().openExportFile(fileName, options.format || 'csv', Object.keys(definition.fields))
+    if (!file) {
+      return null
+    }
+
+    try {
+      const result = await this.runExport(entity, definition, async rows => {
+        await getToolServiceApi().appendExportRows(file.fileId, rows)
+      }, options)
+
+      const closed = await getToolServiceApi().closeExportFile(file.fileId)
+      return { ...result, filePath: closed.filePath }
+    } catch (error) {
+      await getToolServiceApi().discardExportFile(file.fileId).catch(() => {})
+      throw error
+    }
+  }
+
+  private async cleanUp(definitionUri: string, rowsExported: number, report: (progress: EloquaBulkExportProgress) => void): Promise<boolean> {
+    report({ phase: 'cleaning-up', message: 'Deleting export definition...', rowsExported })
+    return this.deleteDefinition(definitionUri)
+  }
+}
+
+/**
+ * Bulk API 2.0 imports: define, upload in chunks, sync, collect rejected rows
+ * and clean up. Stop is honoured until the sync starts; after that Eloqua
+ * finishes the import regardless, so the run waits for its report.
+ */
+export class EloquaBulkImportService extends EloquaBulkSyncOperations {
+  /**
+   * Creates an import definition
+   * @param entity - Contacts, accounts or a custom object
+   * @param definition - Name, field statements, identifier field and update rule
+   * @returns Promise<EloquaBulkImport> - The created definition including its uri
+   */
+  async createImport(entity: EloquaBulkImportEntity, definition: EloquaBulkImportDefinition): Promise<EloquaBulkImport> {
+    if (!definition.name || !definition.name.trim()) {
+      throw new Error('Import definition name is required')
+    }
+    if (!definition.fields || Object.keys(definition.fields).length === 0) {
+      throw new Error('Import definition needs at least one mapped field')
+    }
+    if (Object.keys(definition.fields).length > 100) {
+      throw new Error('Import definitions are limited to 100 fields')
+    }
+    if (!definition.fields[definition.identifierFieldName]) {
+      throw new Error('The identifier field must be one of the mapped fields')
+    }
+
+    const mapsDataCards = entity.type === 'customObject' && !!definition.mapDataCardsSourceField
+    if (mapsDataCards && !definition.fields[definition.mapDataCardsSourceField!]) {
+      throw new Error('The contact matching column must be one of the mapped fields')
+    }
+
+    try {
+      const created = await this.api.makeRequest('POST', `${BULK_BASE}${this.getEntityPath(entity)}/imports`, {
+        name: definition.name.trim().substring(0, 100),
+        fields: definition.fields,
+        identifierFieldName: definition.identifierFieldName,
+        updateRule: definition.updateRule || 'always',
+        isSyncTriggeredOnImport: false,
+        ...(definition.dataRetentionDuration ? { dataRetentionDuration: definition.dataRetentionDuration } : {}),
+        ...(mapsDataCards ? {
+          mapDataCards: true,
+          mapDataCardsEntityType: 'Contact',
+          mapDataCardsSourceField: definition.mapDataCardsSourceField,
+          mapDataCardsEntityField: '{{Contact.Field(C_EmailAddress)}}',
+          mapDataCardsCaseSensitiveMatch: false
+        } : {})
+      })
+
+      if (!created?.uri) {
+        throw new Error('Eloqua did not return the uri of the import definition')
+      }
+      return created as EloquaBulkImport
+    } catch (error) {
+      throw EloquaApiError.withContext(error, 'Failed to create import definition')
+    }
+  }
+
+  /**
+   * Stages a chunk of rows on an import definition
+   * @param importUri - uri of the import definition
+   * @param rows - Rows keyed by the definition's field names
+   * @returns Promise<void>
+   */
+  async uploadRows(importUri: string, rows: Array<Record<string, string>>): Promise<void> {
+    try {
+      // Not retried: a repeated upload would stage the same rows twice
+      await this.api.makeRequest('POST', `${BULK_BASE}${importUri}/data`, rows)
+    } catch (error) {
+      throw EloquaApiError.withContext(error, 'Failed to upload import data')
+    }
+  }
+
+  async getRejects(syncUri: string): Promise<EloquaBulkImportReject[]> {
+    return this.api.listAll<EloquaBulkImportReject>(`${BULK_BASE}${syncUri}/rejects`)
+  }
+
+  /**
+   * Runs a complete import: creates the definition, uploads the rows in chunks,
+   * syncs, collects logs and rejected rows and deletes the definition afterwards
+   * @param entity - Contacts, accounts or a custom object
+   * @param definition - Name, field statements, identifier field and update rule
+   * @param rows - Rows keyed by the definition's field names
+   * @param options - Chunk size, polling, abort signal and progress callback
+   * @returns Promise<EloquaBulkImportResult>
+   */
+  async runImport(
+    entity: EloquaBulkImportEntity,
+    definition: EloquaBulkImportDefinition,
+    rows: Array<Record<string, string>>,
+    options: EloquaBulkImportRunOptions = {}
+  ): Promise<EloquaBulkImportResult> {
+    const totalRows = rows.length
+    const chunkSize = Math.min(Math.max(options.chunkSize || 5000, 1), 50000)
+    const report = (progress: Omit<EloquaBulkImportProgress, 'totalRows'>) => options.onProgress?.({ ...progress, totalRows })
+
+    report({ phase: 'defining', message: 'Creating import definition...', rowsUploaded: 0 })
+    const created = await this.createImport(entity, definition)
+
+    let rowsUploaded = 0
+    let cleanedUp = false
+    try {
+      for (let offset = 0; offset < totalRows; offset += chunkSize) {
+        this.throwIfAborted(options.signal)
+        const chunk = rows.slice(offset, offset + chunkSize)
+        await this.uploadRows(created.uri, chunk)
+        rowsUploaded += chunk.length
+        report({
+          phase: 'uploading',
+          message: `Uploaded ${rowsUploaded.toLocaleString()} of ${totalRows.toLocaleString()} rows...`,
+          rowsUploaded
+        })
+      }
+
+      this.throwIfAborted(options.signal)
+      report({ phase: 'syncing', message: 'Starting sync...', rowsUploaded })
+      const sync = await this.startSync(created.uri)
+
+      // Once the sync runs Eloqua completes it, so wait for the outcome even after Stop
+      const finished = await this.api.runDetached(() => this.waitForSync(
+        sync.uri,
+        { pollIntervalMs: options.pollIntervalMs, syncTimeoutMs: options.syncTimeoutMs },
+        status => report({ phase: 'syncing', message: `Sync ${status.status}...`, syncStatus: status.status, rowsUploaded })
+      ))
+
+      report({ phase: 'collecting-rejects', message: 'Downloading sync logs and rejected rows...', syncStatus: finished.status, rowsUploaded })
+      const [logs, rejects] = await this.api.runDetached(() => Promise.all([
+        this.getSyncLogs(sync.uri).catch(() => [] as EloquaBulkSyncLog[]),
+        finished.status === 'success' ? Promise.resolve([] as EloquaBulkImportReject[]) : this.getRejects(sync.uri)
+      ]))
+
+      cleanedUp = true
+      const definitionDeleted = options.keepDefinition ? false : await this.cleanUp(created.uri, rowsUploaded, report)
+
+      return {
+        definitionUri: created.uri,
+        syncUri: sync.uri,
+        syncStatus: finished.status,
+        totalRows,
+        rowsUploaded,
+        rejects,
+        logs,
+        definitionDeleted
+      }
+    } finally {
+      if (!cleanedUp && !options.keepDefinition) {
+        await this.cleanUp(created.uri, rowsUploaded, report)
+      }
+    }
+  }
+
+  private async cleanUp(definitionUri: string, rowsUploaded: number, report: (progress: Omit<EloquaBulkImportProgress, 'totalRows'>) => void): Promise<boolean> {
+    report({ phase: 'cleaning-up', message: 'Deleting import definition...', rowsUploaded })
+    return this.deleteDefinition(definitionUri)
+  }
+}
+
+export const eloquaBulkExportService = new EloquaBulkExportService()
+export const eloquaBulkImportService = new EloquaBulkImportService()
@@ -0,0 +1,358 @@
+import { EloquaSession } from '@shared/types'
+import { ToolExecutor, ToolExecutionContext, ToolItemEvent, ToolResult } from '../../shared/toolFramework'
+import { ToolProgress, ToolProgressTracker } from '../../shared/toolProgress'
+import { ToolJobRecord, ToolJobStatus, createToolJobRecord } from '../../shared/toolJobs'
+import { AppliedChange, PlannedChange, describePlannedChange } from '../../shared/plannedChanges'
+import ToolManager from '../../tools/ToolManager'
+import eloquaApiService from './eloquaApi'
+
+// A run of a tool, live while it runs and kept in memory for a while after
+export interface ToolJob {
+  id: string
+  toolId: string
+  toolName: string
+  parameters: Record<string, unknown>
+  // ISO 8601
+  startedAt: string
+  endedAt?: string
+  status: ToolJobStatus
+  isCancelling: boolean
+  progress: string | null
+  // Structured progress of the run; null when the tool reports none
+  runProgress: ToolProgress | null
+  failedItems: ToolItemEvent[]
+  result: ToolResult | null
+  error: string | null
+  // Set once the finished run is in the run history
+  saved: boolean
+  // Set for a dry run, whose result holds the changes it planned
+  dryRun: boolean
+  // Dry run whose plan this job applies
+  appliesPlanOf?: string
+}
+
+// Options that apply to one run of a tool rather than to its parameters
+export interface ToolRunOptions {
+  // Read everything from Eloqua instead of the response cache
+  bypassCache?: boolean
+  // Record changes instead of sending them; the result holds the plan
+  dryRun?: boolean
+}
+
+// Items can finish hundreds of times a second; job state is published at most this often
+const PROGRESS_FLUSH_MS = 200
+// Finished jobs kept in memory; older ones are reopened from the run history
+const MAX_FINISHED_JOBS = 20
+
+/**
+ * Runs tools as background jobs that outlive the page that started them.
+ * Several jobs may run at once. Pages subscribe to follow a job, and each
+ * finished run is written to the run history in userData through the main
+ * process, where the Jobs page can reopen it.
+ */
+class JobManager {
+  private jobs: ToolJob[] = []
+  private controllers = new Map<string, AbortController>()
+  private listeners = new Set<() => void>()
+  private jobCounter = 0
+
+  /**
+   * Starts a tool run in the background
+   * @param toolId - Tool to run
+   * @param parameters - Parameters of the run
+   * @param session - Session of the signed-in user
+   * @param options - Options of this run
+   * @returns { job, done } - The new job and a promise of its result
+   */
+  start(toolId: string, parameters: any, session: EloquaSession | null, options: ToolRunOptions = {}): { job: ToolJob, done: Promise<ToolResult> } {
+    const job = this.addJob(toolId, parameters, { dryRun: options.dryRun === true })
+    const execute = (context: ToolExecutionContext) => ToolExecutor.execute(toolId, context, parameters)
+    return { job, done: this.run(job, execute, session, options) }
+  }
+
+  /**
+   * Sends the changes a dry run planned, exactly as recorded, in a new job of
+   * the same tool. The tool does not run again, so the changes cannot differ
+   * from the reviewed plan.
+   * @param dryRunJobId - Finished dry run
+   * @param session - Session of the signed-in user
+   * @returns { job, done } - The new job and a promise of its result
+   * @throws Error - When the job has no complete plan
+   */
+  applyPlan(dryRunJobId: string, session: EloquaSession | null): { job: ToolJob, done: Promise<ToolResult> } {
+    const dryRun = this.getJob(dryRunJobId)
+    const changes = dryRun?.result?.plannedChanges
+    if (!dryRun || !changes) {
+      throw new Error('This run has no plan to apply')
+    }
+
+    const job = this.addJob(dryRun.toolId, dryRun.parameters, { dryRun: false, appliesPlanOf: dryRun.id })
+    return { job, done: this.run(job, context => this.executePlan(context, changes), session, {}) }
+  }
+
+  // Stops a running job; it finishes with whatever it has done so far
+  cancel(jobId: string) {
+    const controller = this.controllers.get(jobId)
+    if (!controller || controller.signal.aborted) return
+
+    controller.abort()
+    this.update(jobId, { isCancelling: true, progress: 'Stopping...' })
+  }
+
+  getJob(jobId: string): ToolJob | undefined {
+    return this.jobs.find(job => job.id === jobId)
+  }
+
+  // Jobs of this session, newest first
+  getJobs(): ToolJob[] {
+    return this.jobs
+  }
+
+  getLatestJob(toolId: string): ToolJob | undefined {
+    return this.jobs.find(job => job.toolId === toolId)
+  }
+
+  /**
+   * Loads a past run into memory so a tool page can show it again
+   * @param jobId - Job id
+   * @returns Promise<ToolJob | null> - The job, or null when it is no longer in the history
+   */
+  async open(jobId: string): Promise<ToolJob | null> {
+    const loaded = this.getJob(jobId)
+    if (loaded) return loaded
+
+    const record = await window.electronAPI.getJob(jobId)
+    if (!record) return null
+
+    const job = this.fromRecord(record)
+    this.jobs = [...this.jobs, job]
+    this.notify()
+    return job
+  }
+
+  /**
+   * Calls the listener whenever a job starts, changes or finishes
+   * @param listener - Change callback
+   * @returns () => void - Unsubscribes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private addJob(toolId: string, parameters: any, mode: Pick<ToolJob, 'dryRun' | 'appliesPlanOf'>): ToolJob {
+    const toolManager = ToolManager.getInstance()
+    toolManager.initialize()
+
+    const job: ToolJob = {
+      id: `job-${Date.now().toString(36)}-${++this.jobCounter}`,
+      toolId,
+      toolName: toolManager.getToolConfig(toolId)?.name || toolId,
+      parameters: { ...(parameters || {}) },
+      startedAt: new Date().toISOString(),
+      status: 'running',
+      isCancelling: false,
+      progress: null,
+      runProgress: null,
+      failedItems: [],
+      result: null,
+      error: null,
+      saved: false,
+      ...mode
+    }
+    this.jobs = [job, ...this.jobs]
+    this.notify()
+    return job
+  }
+
+  private async run(job: ToolJob, execute: (context: ToolExecutionContext) => Promise<ToolResult>, session: EloquaSession | null, options: ToolRunOptions): Promise<ToolResult> {
+    const abortController = new AbortController()
+    this.controllers.set(job.id, abortController)
+
+    // Track retries made by the main process for this job so every progress message shows them
+    let lastMessage = ''
+    let retryCount = 0
+    const withRetries = (message: string) =>
+      retryCount > 0 ? `${message} (${retryCount} ${retryCount === 1 ? 'retry' : 'retries'})` : message
+    const showProgressMessage = (message: string) => {
+      lastMessage = message
+      this.update(job.id, { progress: withRetries(message) })
+    }
+    const unsubscribeRetries = eloquaApiService.onRetry(notice => {
+      if (notice.runId !== job.id) return
+      retryCount++
+      const seconds = Math.max(1, Math.round(notice.delayMs / 1000))
+      this.update(job.id, { progress: `${withRetries(lastMessage)} - ${notice.reason} on ${notice.method}, retry ${notice.attempt}/${notice.maxRetries} in ${seconds}s` })
+    })
+
+    const tracker = new ToolProgressTracker()
+    let flushTimer: ReturnType<typeof setTimeout> | null = null
+    const flushProgress = () => {
+      if (flushTimer) clearTimeout(flushTimer)
+      flushTimer = null
+      this.update(job.id, { runProgress: tracker.getProgress(), failedItems: tracker.getFailedItems() })
+    }
+    const scheduleFlush = () => {
+      if (!flushTimer) {
+        flushTimer = setTimeout(flushProgress, PROGRESS_FLUSH_MS)
+      }
+    }
+
+    const plannedChanges: PlannedChange[] = []
+    const context: ToolExecutionContext = {
+      credentials: session,
+      electronAPI: window.electronAPI,
+      showProgress: showProgressMessage,
+      reportProgress: update => {
+        tracker.update(update)
+        scheduleFlush()
+      },
+      reportItem: item => {
+        tracker.recordItem(item)
+        scheduleFlush()
+      },
+      hideProgress: () => this.update(job.id, { progress: null }),
+      showError: error => this.update(job.id, { error }),
+      // Success is shown from the result
+      showSuccess: () => {},
+      signal: abortController.signal,
+      eloquaApi: eloquaApiService.forRun({
+        runId: job.id,
+        toolId: job.toolId,
+        signal: abortController.signal,
+        bypassCache: options.bypassCache === true,
+        plannedChanges: job.dryRun ? plannedChanges : undefined
+      }),
+      dryRun: job.dryRun
+    }
+
+    let result: ToolResult
+    try {
+      result = await execute(context)
+      // Only a dry run that finished has a plan worth applying
+      if (job.dryRun && result.success && !result.cancelled) {
+        result = {
+          ...result,
+          plannedChanges,
+          message: plannedChanges.length > 0
+            ? `Dry run planned ${plannedChanges.length} ${plannedChanges.length === 1 ? 'change' : 'changes'}; nothing was sent to Eloqua. Review and apply the plan.`
+            : 'Dry run finished; this run would not change anything in Eloqua.'
+        }
+      }
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      }
+      this.update(job.id, { error: result.error })
+    } finally {
+      unsubscribeRetries()
+      flushProgress()
+      this.controllers.delete(job.id)
+    }
+
+    const record = createToolJobRecord(job, result, tracker.getFailedItems())
+    this.update(job.id, {
+      status: record.status,
+      endedAt: record.endedAt,
+      isCancelling: false,
+      progress: null,
+      result
+    })
+    this.pruneFinishedJobs()
+
+    // Runs rejected before they started are not part of the history
+    if (!result.fieldErrors) {
+      try {
+        await window.electronAPI.saveJob(record)
+        this.update(job.id, { saved: true })
+      } catch (error) {
+        console.error('Failed to save job history:', error instanceof Error ? error.message : error)
+      }
+    }
+
+    return result
+  }
+
+  // Sends planned changes one at a time in their recorded order, so a change
+  // that depends on an earlier one, such as a field deleted after the export
+  // that used it, still comes after it. A failed change does not stop the rest.
+  private async executePlan(context: ToolExecutionContext, changes: PlannedChange[]): Promise<ToolResult> {
+    const applied: AppliedChange[] = []
+    context.showProgress(`Applying ${changes.length} planned changes...`)
+    context.reportProgress({ phase: 'Applying planned changes', total: changes.length })
+
+    for (const change of changes) {
+      if (context.signal.aborted) {
+        applied.push({ ...change, status: 'skipped' })
+        continue
+      }
+
+      const label = describePlannedChange(change)
+      try {
+        await context.eloquaApi.sendPlannedChange(change)
+        applied.push({ ...change, status: 'succeeded' })
+        context.reportItem({ id: String(change.sequence), label, status: 'succeeded' })
+      } catch (error) {
+        if (context.signal.aborted) {
+          applied.push({ ...change, status: 'skipped' })
+          continue
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error occurred'
+        applied.push({ ...change, status: 'failed', error: message })
+        context.reportItem({ id: String(change.sequence), label, status: 'failed', error: message })
+      }
+    }
+    context.hideProgress()
+
+    const succeeded = applied.filter(change => change.status === 'succeeded').length
+    const failed = applied.filter(change => change.status === 'failed').length
+    return {
+      success: true,
+      cancelled: context.signal.aborted,
+      message: `Applied ${succeeded} of ${changes.length} planned changes${failed > 0 ? `, ${failed} failed` : ''}.`,
+      data: { changes: applied }
+    }
+  }
+
+  private update(jobId: string, changes: Partial<ToolJob>) {
+    // Jobs are replaced rather than changed so subscribers can compare them
+    this.jobs = this.jobs.map(job => job.id === jobId ? { ...job, ...changes } : job)
+    this.notify()
+  }
+
+  private pruneFinishedJobs() {
+    let finished = 0
+    this.jobs = this.jobs.filter(job => job.status === 'running' || ++finished <= MAX_FINISHED_JOBS)
+  }
+
+  private fromRecord(record: ToolJobRecord): ToolJob {
+    return {
+      id: record.id,
+      toolId: record.toolId,
+      toolName: record.toolName,
+      parameters: record.parameters,
+      startedAt: record.startedAt,
+      endedAt: record.endedAt,
+      status: record.status,
+      isCancelling: false,
+      progress: null,
+      runProgress: null,
+      failedItems: record.failedItems,
+      result: record.result,
+      error: record.status === 'failed' ? record.result.error || null : null,
+      saved: true,
+      dryRun: !!record.result.plannedChanges
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+const jobManager = new JobManager()
+
+export default jobManager
@@ -0,0 +1,241 @@
+import { EloquaSession } from '@shared/types'
+import { ToolResult } from '../../shared/toolFramework'
+import { formatParameterErrors } from '../../shared/parameterSchema'
+import { Pipeline, projectResultData, toParameterValue } from '../../shared/pipeline'
+import ToolManager from '../../tools/ToolManager'
+import jobManager, { ToolRunOptions } from './jobManager'
+
+export type PipelineRunStatus = 'running' | 'awaiting-confirmation' | 'succeeded' | 'failed' | 'cancelled'
+
+export type PipelineStepStatus = 'pending' | 'awaiting-confirmation' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'skipped'
+
+export interface PipelineStepRun {
+  stepId: string
+  toolId: string
+  toolName: string
+  status: PipelineStepStatus
+  // Job of the step once it started; its result is in the run history
+  jobId?: string
+  // Values taken from the previous step and the parameter they went into; unset on the first step
+  inputValues?: string[]
+  inputParameter?: string
+  // Parameters the step ran with, including its input
+  parameters?: Record<string, unknown>
+  // Set when the step changes data, so it waits for confirmation
+  mutating: boolean
+  message?: string
+}
+
+export interface PipelineRun {
+  id: string
+  pipelineId: string
+  pipelineName: string
+  status: PipelineRunStatus
+  // ISO 8601
+  startedAt: string
+  endedAt?: string
+  steps: PipelineStepRun[]
+  // Why the run stopped early, or a note when a step had nothing to work on
+  message: string | null
+}
+
+// Finished pipeline runs kept in memory; their steps stay in the run history
+const MAX_FINISHED_RUNS = 10
+
+/**
+ * Runs pipelines: each step is started as a job through jobManager once the
+ * step before it succeeded, with its bound parameter filled from that step's
+ * result. A step that changes data waits until the user confirms it with the
+ * values it is about to receive. Runs outlive the page that started them.
+ */
+class PipelineRunner {
+  private runs: PipelineRun[] = []
+  private confirmations = new Map<string, (confirmed: boolean) => void>()
+  private cancelled = new Set<string>()
+  private listeners = new Set<() => void>()
+  private runCounter = 0
+
+  /**
+   * Starts a pipeline in the background
+   * @param pipeline - Pipeline to run
+   * @param session - Session of the signed-in user
+   * @param options - Options passed to every step's run
+   * @returns PipelineRun - The new run
+   */
+  start(pipeline: Pipeline, session: EloquaSession | null, options: ToolRunOptions = {}): PipelineRun {
+    const toolManager = ToolManager.getInstance()
+    toolManager.initialize()
+
+    const run: PipelineRun = {
+      id: `pipeline-run-${Date.now().toString(36)}-${++this.runCounter}`,
+      pipelineId: pipeline.id,
+      pipelineName: pipeline.name,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      steps: pipeline.steps.map(step => ({
+        stepId: step.id,
+        toolId: step.toolId,
+        toolName: toolManager.getToolConfig(step.toolId)?.name || step.toolId,
+        status: 'pending',
+        mutating: false
+      })),
+      message: null
+    }
+    this.runs = [run, ...this.runs]
+    this.notify()
+
+    this.execute(run.id, pipeline, session, options)
+    return run
+  }
+
+  // Lets a step waiting for confirmation run
+  confirm(runId: string) {
+    this.confirmations.get(runId)?.(true)
+  }
+
+  // Stops a run: a waiting step is not started and a running step's job is stopped
+  cancel(runId: string) {
+    const run = this.getRun(runId)
+    if (!run || run.endedAt) return
+
+    this.cancelled.add(runId)
+    this.confirmations.get(runId)?.(false)
+    const runningStep = run.steps.find(step => step.status === 'running')
+    if (runningStep?.jobId) {
+      jobManager.cancel(runningStep.jobId)
+    }
+  }
+
+  getRun(runId: string): PipelineRun | undefined {
+    return this.runs.find(run => run.id === runId)
+  }
+
+  getLatestRun(pipelineId: string): PipelineRun | undefined {
+    return this.runs.find(run => run.pipelineId === pipelineId)
+  }
+
+  /**
+   * Calls the listener whenever a run starts, changes or finishes
+   * @param listener - Change callback
+   * @returns () => void - Unsubscribes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private async execute(runId: string, pipeline: Pipeline, session: EloquaSession | null, options: ToolRunOptions) {
+    const toolManager = ToolManager.getInstance()
+    let previous: ToolResult | null = null
+
+    const finish = (status: PipelineRunStatus, message: string | null = null) => {
+      this.cancelled.delete(runId)
+      this.update(runId, {
+        status,
+        message,
+        endedAt: new Date().toISOString(),
+        steps: this.getRun(runId)!.steps.map(step => step.status === 'pending' ? { ...step, status: 'skipped' } : step)
+      })
+      this.pruneFinishedRuns()
+    }
+
+    for (const [index, step] of pipeline.steps.entries()) {
+      const label = `Step ${index + 1}`
+      if (this.cancelled.has(runId)) {
+        return finish('cancelled', 'Pipeline stopped')
+      }
+
+      if (!toolManager.isToolRegistered(step.toolId)) {
+        this.updateStep(runId, index, { status: 'failed', message: 'Tool is not available' })
+        return finish('failed', `${label}: tool "${step.toolId}" is not available`)
+      }
+
+      const parameters: Record<string, unknown> = { ...step.parameters }
+      if (index > 0 && step.input) {
+        let values: string[]
+        try {
+          values = projectResultData(previous?.data, step.input)
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Invalid filter'
+          this.updateStep(runId, index, { status: 'failed', message: `Filter: ${message}` })
+          return finish('failed', `${label}: filter: ${message}`)
+        }
+
+        this.updateStep(runId, index, { inputValues: values, inputParameter: step.input.targetParameter })
+        if (values.length === 0) {
+          this.updateStep(runId, index, { status: 'skipped', message: 'No values to work on' })
+          return finish('succeeded', `Step ${index} produced no values for ${step.input.targetParameter}; the remaining steps were not run`)
+        }
+
+        const schema = toolManager.getToolParameterSchema(step.toolId) || {}
+        parameters[step.input.targetParameter] = toParameterValue(values, schema[step.input.targetParameter])
+      }
+
+      const fieldErrors = toolManager.validateToolParameters(step.toolId, parameters)
+      if (Object.keys(fieldErrors).length > 0) {
+        const message = formatParameterErrors(fieldErrors)
+        this.updateStep(runId, index, { status: 'failed', parameters, message })
+        return finish('failed', `${label}: ${message}`)
+      }
+
+      const mutating = toolManager.isToolRunMutating(step.toolId, parameters)
+      if (mutating) {
+        this.updateStep(runId, index, { status: 'awaiting-confirmation', parameters, mutating })
+        this.update(runId, { status: 'awaiting-confirmation' })
+
+        const confirmed = await new Promise<boolean>(resolve => this.confirmations.set(runId, resolve))
+        this.confirmations.delete(runId)
+        if (!confirmed) {
+          this.updateStep(runId, index, { status: 'cancelled', message: 'Not confirmed' })
+          return finish('cancelled', `${label} was not confirmed`)
+        }
+        this.update(runId, { status: 'running' })
+      }
+
+      const { job, done } = jobManager.start(step.toolId, parameters, session, options)
+      this.updateStep(runId, index, { status: 'running', jobId: job.id, parameters, mutating })
+
+      const result = await done
+      if (result.cancelled) {
+        this.updateStep(runId, index, { status: 'cancelled', message: result.message || 'Stopped' })
+        return finish('cancelled', `${label} was stopped`)
+      }
+      if (!result.success) {
+        this.updateStep(runId, index, { status: 'failed', message: result.error || 'Failed' })
+        return finish('failed', `${label}: ${result.error || 'failed'}`)
+      }
+
+      this.updateStep(runId, index, { status: 'succeeded', message: result.message })
+      previous = result
+    }
+
+    finish('succeeded')
+  }
+
+  private updateStep(runId: string, index: number, changes: Partial<PipelineStepRun>) {
+    const run = this.getRun(runId)
+    if (!run) return
+    this.update(runId, { steps: run.steps.map((step, stepIndex) => stepIndex === index ? { ...step, ...changes } : step) })
+  }
+
+  private update(runId: string, changes: Partial<PipelineRun>) {
+    // Runs are replaced rather than changed so subscribers can compare them
+    this.runs = this.runs.map(run => run.id === runId ? { ...run, ...changes } : run)
+    this.notify()
+  }
+
+  private pruneFinishedRuns() {
+    let finished = 0
+    this.runs = this.runs.filter(run => !run.endedAt || ++finished <= MAX_FINISHED_RUNS)
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+const pipelineRunner = new PipelineRunner()
+
+export default pipelineRunner
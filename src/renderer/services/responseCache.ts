@@ -0,0 +1,239 @@
+import { EloquaCachedResponse } from '../../shared/apiTypes'
+import { getToolServiceApi } from './toolServiceApi'
+
+interface CachePolicy {
+  // Responses in one group are dropped together when that resource changes
+  group: string
+  ttlMs: number
+}
+
+interface MemoryEntry extends EloquaCachedResponse {
+  group: string
+}
+
+const MINUTE = 60 * 1000
+
+// How long each kind of resource stays fresh. Anything not listed here (record
+// data, syncs, system endpoints) is never cached.
+const TTL = {
+  groupsAndFolders: 30 * MINUTE,
+  fields: 15 * MINUTE,
+  assetDetails: 10 * MINUTE,
+  assetListings: 5 * MINUTE,
+  dependencies: 5 * MINUTE
+}
+
+/**
+ * Cache of GET responses for the Eloqua API service. Entries are kept in memory
+ * for the session and, when enabled, on disk under userData through the main
+ * process. Keys are the endpoint with sorted query parameters; any PUT, POST or
+ * DELETE to an asset drops the cached responses of the same asset type.
+ */
+export class ResponseCache {
+  private static readonly MAX_MEMORY_ENTRIES = 2000
+
+  private entries = new Map<string, MemoryEntry>()
+  private sessionId: string | null = null
+  private persistent: Promise<boolean> | null = null
+
+  /**
+   * Works out whether a GET endpoint may be cached and for how long
+   * @param endpoint - Endpoint with query string
+   * @returns CachePolicy | null - Group and TTL, or null when the response must not be cached
+   */
+  static getPolicy(endpoint: string): CachePolicy | null {
+    const parsed = this.parse(endpoint)
+    if (!parsed) return null
+    const { api, segments } = parsed
+
+    if (api === 'bulk') {
+      // Only field lists are stable; definitions, syncs and data change constantly
+      return segments[segments.length - 1] === 'fields'
+        ? { group: this.singular(segments[0]), ttlMs: TTL.fields }
+        : null
+    }
+
+    if (segments[0] !== 'assets' || segments.length < 2) return null
+    const group = this.singular(segments[1])
+
+    if (segments.includes('dependencies')) {
+      return { group: 'dependencies', ttlMs: TTL.dependencies }
+    }
+    if (['group', 'groups', 'folder', 'folders'].includes(segments[2]) || group === 'folder') {
+      return { group, ttlMs: TTL.groupsAndFolders }
+    }
+    if (['field', 'fields'].includes(segments[2])) {
+      return { group, ttlMs: TTL.fields }
+    }
+    return { group, ttlMs: segments.length > 2 ? TTL.assetDetails : TTL.assetListings }
+  }
+
+  /**
+   * Works out which cached responses a mutation makes stale
+   * @param endpoint - Endpoint of the PUT, POST, PATCH or DELETE
+   * @returns string[] | null - Groups to drop, or null to drop everything
+   */
+  static getInvalidatedGroups(endpoint: string): string[] | null {
+    const parsed = this.parse(endpoint)
+    if (!parsed) return null
+    const { api, segments } = parsed
+
+    if (api === 'bulk') {
+      if (segments[0] === 'syncs' || segments.includes('data')) return []
+      // Bulk definitions can hold on to fields, which shows up in dependency lookups
+      return segments.includes('fields') ? [this.singular(segments[0])] : ['dependencies']
+    }
+
+    if (segments[0] === 'assets' && segments.length >= 2) {
+      return [this.singular(segments[1]), 'dependencies']
+    }
+    // Record data and system endpoints are never cached
+    if (segments[0] === 'data' || segments[0] === 'system') return []
+    return null
+  }
+
+  // Path in lower case and query parameters in a fixed order, so the same request always has the same key
+  static createKey(endpoint: string): string {
+    const [path, query = ''] = endpoint.split('?')
+    const params = new URLSearchParams(query)
+    params.sort()
+    const sortedQuery = params.toString()
+    return sortedQuery ? `${path.toLowerCase()}?${sortedQuery}` : path.toLowerCase()
+  }
+
+  private static parse(endpoint: string): { api: 'rest' | 'bulk', segments: string[] } | null {
+    const match = /^\/api\/(rest|bulk)\/[\d.]+\/([^?]*)/i.exec(endpoint)
+    if (!match) return null
+    return {
+      api: match[1].toLowerCase() as 'rest' | 'bulk',
+      segments: match[2].toLowerCase().split('/').filter(Boolean)
+    }
+  }
+
+  private static singular(name: string): string {
+    if (name.endsWith('ies')) return `${name.slice(0, -3)}y`
+    return name.endsWith('s') ? name.slice(0, -1) : name
+  }
+
+  /**
+   * Binds the cache to a session. Memory entries of the previous session are dropped.
+   * @param sessionId - Session of the signed-in user, or null after logout
+   */
+  bind(sessionId: string | null) {
+    this.entries.clear()
+    this.sessionId = sessionId
+  }
+
+  /**
+   * Looks up a fresh response
+   * @param endpoint - GET endpoint with query string
+   * @returns Promise<any> - A copy of the cached data, or undefined on a miss
+   */
+  async get(endpoint: string): Promise<any> {
+    const policy = ResponseCache.getPolicy(endpoint)
+    if (!policy) return undefined
+
+    const key = ResponseCache.createKey(endpoint)
+    const entry = this.entries.get(key)
+    if (entry) {
+      if (entry.expiresAt > Date.now()) {
+        // Callers may modify what they get back
+        return structuredClone(entry.data)
+      }
+      this.entries.delete(key)
+    }
+
+    if (!this.sessionId || !(await this.isPersistent())) return undefined
+    try {
+      const stored = await getToolServiceApi().getCachedResponse(this.sessionId, key, policy.group)
+      if (!stored) return undefined
+      this.remember(key, { ...stored, data: structuredClone(stored.data), group: policy.group })
+      return stored.data
+    } catch (error) {
+      console.warn('Response cache read failed:', error instanceof Error ? error.message : error)
+      return undefined
+    }
+  }
+
+  /**
+   * Stores a response if its endpoint may be cached
+   * @param endpoint - GET endpoint with query string
+   * @param data - Response data
+   */
+  async set(endpoint: string, data: any): Promise<void> {
+    const policy = ResponseCache.getPolicy(endpoint)
+    if (!policy) return
+
+    const key = ResponseCache.createKey(endpoint)
+    const storedAt = Date.now()
+    // Keep a copy: the caller may modify the data before the disk write is sent
+    const entry: EloquaCachedResponse = { storedAt, expiresAt: storedAt + policy.ttlMs, data: structuredClone(data) }
+    this.remember(key, { ...entry, group: policy.group })
+
+    if (!this.sessionId || !(await this.isPersistent())) return
+    try {
+      await getToolServiceApi().setCachedResponse(this.sessionId, key, policy.group, entry)
+    } catch (error) {
+      console.warn('Response cache write failed:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  /**
+   * Drops the responses a mutation makes stale, in memory and on disk
+   * @param endpoint - Endpoint of the PUT, POST, PATCH or DELETE
+   */
+  async invalidate(endpoint: string): Promise<void> {
+    const groups = ResponseCache.getInvalidatedGroups(endpoint)
+    if (groups && groups.length === 0) return
+
+    for (const [key, entry] of this.entries) {
+      if (!groups || groups.includes(entry.group)) {
+        this.entries.delete(key)
+      }
+    }
+
+    if (!this.sessionId || !(await this.isPersistent())) return
+    try {
+      await getToolServiceApi().invalidateCachedResponses(this.sessionId, groups)
+    } catch (error) {
+      console.warn('Response cache invalidation failed:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  // Drops every cached response, including the disk tier of all accounts
+  async clear(): Promise<void> {
+    this.entries.clear()
+    await getToolServiceApi().clearResponseCache()
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  async isPersistent(): Promise<boolean> {
+    if (!this.persistent) {
+      this.persistent = getToolServiceApi().getCacheSettings()
+        .then(settings => settings.persistent)
+        .catch(() => false)
+    }
+    return this.persistent
+  }
+
+  /**
+   * Turns the disk tier on or off. Turning it off deletes what it stored.
+   * @param persistent - Keep responses on disk between sessions
+   */
+  async setPersistent(persistent: boolean): Promise<void> {
+    const settings = await getToolServiceApi().setCacheSettings({ persistent })
+    this.persistent = Promise.resolve(settings.persistent)
+  }
+
+  private remember(key: string, entry: MemoryEntry) {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    // Map order is insertion order, so the first key is the oldest entry
+    while (this.entries.size > ResponseCache.MAX_MEMORY_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import type { ToolServiceApi } from '../../main/preload'
+
+// Set when tools run outside the app window, e.g. from the command line
+let installedApi: ToolServiceApi | null = null
+
+/**
+ * Replaces the window bridge for the Eloqua services. The command-line runner
+ * installs a main-process implementation before it runs a tool.
+ * @param api - API the services call instead of window.electronAPI
+ */
+export function setToolServiceApi(api: ToolServiceApi | null) {
+  installedApi = api
+}
+
+/**
+ * Returns the API the Eloqua services call: the installed one, or the
+ * preload bridge of the app window
+ * @returns ToolServiceApi - API for API calls, the response cache and export files
+ */
+export function getToolServiceApi(): ToolServiceApi {
+  return installedApi || window.electronAPI
+}
@@ -0,0 +1,117 @@
+import { EloquaApiErrorInfo, EloquaDependency } from './apiTypes'
+
+/**
+ * Error thrown by EloquaApiService when a call fails. Carries the structured
+ * failure details produced by the main process so tools can branch on the
+ * HTTP status, Eloqua error code or dependency list instead of message text.
+ */
+export class EloquaApiError extends Error {
+  readonly info: EloquaApiErrorInfo
+
+  constructor(info: EloquaApiErrorInfo, message?: string) {
+    super(message || info.message)
+    this.name = 'EloquaApiError'
+    this.info = info
+  }
+
+  get status(): number | null {
+    return this.info.status
+  }
+
+  get code(): string | undefined {
+    return this.info.code
+  }
+
+  get dependencies(): EloquaDependency[] {
+    return this.info.dependencies
+  }
+
+  get validationMessages(): string[] {
+    return this.info.validationMessages
+  }
+
+  get requestId(): string | undefined {
+    return this.info.requestId
+  }
+
+  get retryable(): boolean {
+    return this.info.retryable
+  }
+
+  get retryAfterMs(): number | undefined {
+    return this.info.retryAfterMs
+  }
+
+  // Axios-compatible view so existing `error.response?.status` checks keep working
+  get response(): { status: number; data: unknown } | undefined {
+    return this.info.status === null ? undefined : { status: this.info.status, data: this.info.body }
+  }
+
+  isUnauthorized(): boolean {
+    return this.info.status === 401
+  }
+
+  isForbidden(): boolean {
+    return this.info.status === 403
+  }
+
+  isNotFound(): boolean {
+    return this.info.status === 404
+  }
+
+  isAborted(): boolean {
+    return this.info.code === 'ABORTED'
+  }
+
+  hasDependencies(): boolean {
+    return this.info.status === 412 || this.info.dependencies.length > 0
+  }
+
+  /**
+   * Prefixes the message with call-site context while keeping the structured details
+   * @param error - The caught error
+   * @param context - Short description of the operation that failed
+   * @returns Error - An EloquaApiError when the input was one, otherwise a plain Error
+   */
+  static withContext(error: unknown, context: string): Error {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    if (error instanceof EloquaApiError) {
+      return new EloquaApiError(error.info, `${context}: ${message}`)
+    }
+    return new Error(`${context}: ${message}`)
+  }
+}
+
+/**
+ * Builds the failure details of a call cancelled by the user, in the main
+ * process or the renderer
+ * @param method - HTTP method of the cancelled request
+ * @param endpoint - Endpoint of the cancelled request
+ * @returns EloquaApiErrorInfo
+ */
+export function abortedErrorInfo(method?: string, endpoint?: string): EloquaApiErrorInfo {
+  return {
+    status: null,
+    code: 'ABORTED',
+    message: 'Request cancelled',
+    validationMessages: [],
+    dependencies: [],
+    retryable: false,
+    method,
+    endpoint
+  }
+}
+
+/**
+ * Builds the error thrown when a call is cancelled by the user
+ * @param method - HTTP method of the cancelled request
+ * @param endpoint - Endpoint of the cancelled request
+ * @returns EloquaApiError
+ */
+export function createAbortError(method?: string, endpoint?: string): EloquaApiError {
+  return new EloquaApiError(abortedErrorInfo(method, endpoint))
+}
+
+export function isEloquaApiError(error: unknown): error is EloquaApiError {
+  return error instanceof EloquaApiError
+}
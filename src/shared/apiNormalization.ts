@@ -0,0 +1,75 @@
+// Conversion between Eloqua's REST wire format and the typed objects in
+// apiTypes.ts. The REST API sends flags as "true"/"false" strings and dates as
+// Unix seconds in strings; the Bulk API already uses JSON booleans and ISO
+// dates and is left alone, as is record data, whose values are user content.
+
+// Keys holding a flag, e.g. isHidden, hasConditions, sendPlainTextOnly, archived
+const BOOLEAN_KEY = /^(is|has|can|allow|send|show|use)[A-Z]|^(archived|enabled|hidden|required)$/
+// Keys holding a date, e.g. createdAt, scheduledFor, firstActivation
+const TIMESTAMP_KEY = /At$|^scheduledFor$|^firstActivation$/
+const UNIX_SECONDS = /^\d{9,11}$/
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/
+
+/**
+ * Tells whether an endpoint returns REST asset data in Eloqua's string format
+ * @param endpoint - Endpoint with or without query string
+ * @returns boolean - True for /api/REST/{version}/assets/... endpoints
+ */
+export function isNormalizedEndpoint(endpoint: string): boolean {
+  return /^\/api\/rest\/[\d.]+\/assets\//i.test(endpoint)
+}
+
+/**
+ * Converts a REST asset response into the shape described in apiTypes.ts:
+ * string flags become booleans and Unix timestamps become ISO 8601 strings.
+ * Other values, including unknown keys, are kept as they are.
+ * @param value - Parsed response body
+ * @returns T - A converted copy
+ */
+export function normalizeEloquaResponse<T = any>(value: unknown): T {
+  return convert(value, (key, item) => {
+    if (typeof item === 'string' && BOOLEAN_KEY.test(key) && (item === 'true' || item === 'false')) {
+      return item === 'true'
+    }
+    if (TIMESTAMP_KEY.test(key) && (typeof item === 'string' || typeof item === 'number') && UNIX_SECONDS.test(String(item))) {
+      return new Date(Number(item) * 1000).toISOString()
+    }
+    return item
+  }) as T
+}
+
+/**
+ * Converts a request body back into Eloqua's string format, so objects read
+ * through the service can be sent back unchanged
+ * @param value - Request body
+ * @returns any - A converted copy
+ */
+export function toEloquaRequestBody(value: unknown): any {
+  return convert(value, (key, item) => {
+    if (typeof item === 'boolean' && BOOLEAN_KEY.test(key)) {
+      return item ? 'true' : 'false'
+    }
+    if (typeof item === 'string' && TIMESTAMP_KEY.test(key) && ISO_DATE.test(item)) {
+      const time = Date.parse(item)
+      return isNaN(time) ? item : String(Math.floor(time / 1000))
+    }
+    return item
+  })
+}
+
+function convert(value: unknown, convertValue: (key: string, item: unknown) => unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => convert(item, convertValue))
+  }
+  if (!value || typeof value !== 'object') {
+    return value
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = item && typeof item === 'object'
+      ? convert(item, convertValue)
+      : convertValue(key, item)
+  }
+  return result
+}
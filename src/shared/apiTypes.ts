@@ -8,40 +8,146 @@ export interface EloquaApiResponse<T = unknown> {
   totalResults?: number
 }
 
+// Bulk API 2.0 collection shape (offset/limit paging)
+export interface EloquaBulkCollection<T = unknown> {
+  items?: T[]
+  totalResults?: number
+  limit?: number
+  offset?: number
+  count?: number
+  hasMore?: boolean
+}
+
+export type EloquaPagingStyle = 'rest' | 'bulk'
+
+export interface EloquaPageInfo {
+  pageNumber: number
+  fetched: number
+  total?: number
+}
+
+export interface EloquaPaginateOptions {
+  // Query parameters sent with every page (paging parameters are added automatically)
+  params?: Record<string, string | number | boolean | undefined>
+  // Items requested per page, capped at Eloqua's maximum (1000, or 50,000 for bulk /data)
+  pageSize?: number
+  // Stop after this many items have been yielded
+  maxItems?: number
+  // Defaults to 'bulk' for /api/bulk/ endpoints and 'rest' otherwise
+  style?: EloquaPagingStyle
+  onPage?: (info: EloquaPageInfo) => void
+}
+
+// REST asset responses as the API service hands them out. Eloqua sends flags as
+// "true"/"false" strings and dates as Unix seconds; both are converted when the
+// response arrives (see apiNormalization.ts), so flags here are real booleans
+// and dates are ISO 8601 strings.
+export type EloquaDepth = 'minimal' | 'partial' | 'complete'
+
 export interface EloquaAsset {
   id: string
   name: string
   description?: string
+  depth?: EloquaDepth
   createdAt?: string
   createdBy?: string
+  createdByName?: string
   updatedAt?: string
   updatedBy?: string
+  updatedByName?: string
   type?: string
   currentStatus?: string
   folderId?: string
+  folderName?: string
   permissions?: string[]
+  archived?: boolean
+}
+
+// Form, image, hyperlink and other assets an email or landing page points to
+export interface EloquaAssetReference {
+  type: string
+  id: string
+  name?: string
+  [key: string]: unknown
+}
+
+export interface EloquaHtmlContent {
+  type: string
+  contentSource?: string
+  html?: string
+  css?: string
 }
 
-export interface EloquaEmail extends EloquaAsset {
+// Email at depth=minimal or partial
+export interface EloquaEmailSummary extends EloquaAsset {
   emailGroupId?: string
   subject?: string
+  previewText?: string
   senderName?: string
   senderEmail?: string
   replyToName?: string
   replyToEmail?: string
-  htmlContent?: {
-    type: string
-    contentSource?: string
-  }
-  plainTextContent?: string
+  bounceBackEmail?: string
+  virtualMTAId?: string
+  brandId?: string
+  encodingId?: string
+  emailHeaderId?: string
+  emailFooterId?: string
+  sourceTemplateId?: string
+  layout?: string
+  style?: string
+  renderMode?: string
+  scheduledFor?: string
   isTracked?: boolean
+  isPrivate?: boolean
+  isPlainTextEditable?: boolean
+  sendPlainTextOnly?: boolean
+  isContentProtected?: boolean
 }
 
-export interface EloquaForm extends EloquaAsset {
-  html?: string
+// Email at depth=complete, with its content and the assets it references
+export interface EloquaEmail extends EloquaEmailSummary {
+  htmlContent?: EloquaHtmlContent
+  plainText?: string
+  forms?: EloquaAssetReference[]
+  images?: EloquaAssetReference[]
+  hyperlinks?: EloquaAssetReference[]
+  contentSections?: EloquaAssetReference[]
+  dynamicContents?: EloquaAssetReference[]
+  files?: EloquaAssetReference[]
+  contentServiceInstances?: EloquaAssetReference[]
+  fieldMerges?: EloquaAssetReference[]
+  attachments?: EloquaAssetReference[]
+}
+
+export type EloquaEmailAtDepth<D extends EloquaDepth> = D extends 'complete' ? EloquaEmail : EloquaEmailSummary
+
+export interface EloquaEmailGroup extends EloquaAsset {
+  emailIds?: string[]
+  isVisibleInOutlookPlugin?: boolean
+  isVisibleInPublicSubscriptionList?: boolean
+  subscriptionLandingPageId?: string
+  unsubscriptionLandingPageId?: string
+}
+
+// Form at depth=minimal or partial
+export interface EloquaFormSummary extends EloquaAsset {
   htmlName?: string
+  processingType?: string
+  submitFailedLandingPageId?: string
+  externalIntegrationUrl?: string
+  style?: string
+  customCSS?: string
+  isResponsive?: boolean
+  isHidden?: boolean
+  isFormSpamProtectionEnabled?: boolean
+}
+
+// Form at depth=complete, with its fields and processing steps
+export interface EloquaForm extends EloquaFormSummary {
+  html?: string
   elements?: EloquaFormElement[]
-  processingSteps?: any[]
+  processingSteps?: EloquaFormProcessingStep[]
   size?: {
     type: string
     width?: string
@@ -49,6 +155,20 @@ export interface EloquaForm extends EloquaAsset {
   }
 }
 
+export type EloquaFormAtDepth<D extends EloquaDepth> = D extends 'complete' ? EloquaForm : EloquaFormSummary
+
+export interface EloquaFormValidation {
+  type: string
+  id?: string
+  name?: string
+  isEnabled?: boolean
+  // e.g. { type: 'IsRequiredCondition' } or { type: 'TextLengthCondition', maximum: '100' }
+  condition?: {
+    type: string
+    [key: string]: unknown
+  }
+}
+
 export interface EloquaFormElement {
   id: string
   name?: string
@@ -57,13 +177,55 @@ export interface EloquaFormElement {
   htmlName?: string
   displayType?: string
   dataType?: string
-  validations?: any[]
+  validations?: EloquaFormValidation[]
   style?: string
   size?: string
+  instructions?: string
+  defaultValue?: string
+  // Fields of a field set
+  fields?: EloquaFormElement[]
+}
+
+export interface EloquaFormProcessingStep {
+  type: string
+  id?: string
+  name?: string
+  // 'always' or 'conditional'
+  execute?: string
+  [key: string]: unknown
+}
+
+// Step on a campaign or program canvas
+export interface EloquaCanvasElement {
+  type: string
+  id: string
+  name?: string
+  memberCount?: number
+  emailId?: string
+  formId?: string
+  landingPageId?: string
+  segmentId?: string
+  position?: {
+    type: string
+    x: string
+    y: string
+  }
+  outputTerminals?: Array<{
+    type: string
+    id?: string
+    connectedId: string
+    connectedType: string
+    terminalType: string
+  }>
 }
 
 export interface EloquaCampaign extends EloquaAsset {
+  isActive?: boolean
   isReadOnly?: boolean
+  isEmailMarketingCampaign?: boolean
+  isIncludedInROI?: boolean
+  isMemberAllowedReEntry?: boolean
+  isSyncedWithCRM?: boolean
   runAsUserId?: string
   actualCost?: string
   budgetedCost?: string
@@ -75,6 +237,31 @@ export interface EloquaCampaign extends EloquaAsset {
   firstActivation?: string
   memberCount?: number
   startAt?: string
+  elements?: EloquaCanvasElement[]
+}
+
+export interface EloquaProgram extends EloquaAsset {
+  isActive?: boolean
+  isReadOnly?: boolean
+  runAsUserId?: string
+  defaultMembershipPolicyId?: string
+  memberCount?: number
+  elements?: EloquaCanvasElement[]
+}
+
+export interface EloquaContactField extends EloquaAsset {
+  internalName?: string
+  dataType?: string
+  displayType?: string
+  isRequired?: boolean
+  isReadOnly?: boolean
+  isSystem?: boolean
+  isPopulatedInOutlook?: boolean
+  updateType?: string
+  defaultValue?: string
+  optionListId?: string
+  checkedValue?: string
+  uncheckedValue?: string
 }
 
 export interface EloquaDependency {
@@ -107,4 +294,298 @@ export interface FormSubmission {
 
 export interface CSVExportData {
   [key: string]: string | number | boolean | null
-}
\ No newline at end of file
+}
+
+// Envelope returned by the eloqua:apiCall IPC handler. Errors thrown inside an
+// ipcMain handler reach the renderer as a bare message string, so the main
+// process resolves with this envelope instead and the renderer rethrows it.
+export interface EloquaApiErrorInfo {
+  status: number | null
+  statusText?: string
+  code?: string
+  message: string
+  validationMessages: string[]
+  dependencies: EloquaDependency[]
+  requestId?: string
+  retryable: boolean
+  retryAfterMs?: number
+  attempts?: number
+  method?: string
+  endpoint?: string
+  body?: unknown
+}
+
+export interface EloquaApiSuccess<T = unknown> {
+  ok: true
+  status: number
+  data: T
+  requestId?: string
+  attempts?: number
+}
+
+export interface EloquaApiFailure {
+  ok: false
+  error: EloquaApiErrorInfo
+}
+
+export type EloquaApiCallResult<T = unknown> = EloquaApiSuccess<T> | EloquaApiFailure
+
+// Per-call retry settings sent with eloqua:apiCall. GET and DELETE are retried
+// by default; POST, PUT and PATCH only when the caller sets retry: true.
+export interface EloquaRequestOptions {
+  retry?: boolean
+  maxRetries?: number
+  // Lets the renderer abort the in-flight call with eloqua:abortRequest
+  requestId?: string
+  // Tool run the call belongs to, shown in the traffic inspector
+  runId?: string
+  toolId?: string
+}
+
+// One eloqua:apiCall recorded by the traffic inspector. Headers and bodies are
+// redacted in the main process before they are handed to the renderer.
+export interface EloquaTrafficEntry {
+  id: string
+  runId?: string
+  toolId?: string
+  // Set on entries made by replaying another entry
+  replayOf?: string
+  // ISO 8601
+  startedAt: string
+  durationMs: number
+  method: string
+  endpoint: string
+  url: string
+  // null when no response was received
+  status: number | null
+  ok: boolean
+  attempts: number
+  // Eloqua's X-Request-Id, useful when reporting issues to Oracle support
+  eloquaRequestId?: string
+  errorMessage?: string
+  requestHeaders: Record<string, string>
+  requestBody?: string
+  responseBody?: string
+  // Bytes of the serialized response body before truncation
+  responseSize: number
+  truncated: boolean
+  // False when the request body was too large to keep for replay
+  replayable: boolean
+}
+
+export interface EloquaTrafficFilter {
+  runId?: string
+  errorsOnly?: boolean
+}
+
+// Conservative per-instance budget that stays under the concurrency and request
+// rate Eloqua allows per instance. The main process enforces it for every tool
+// and window; renderer work pools pace their lookups by it.
+export const ELOQUA_RATE_LIMITS = {
+  requestsPerSecond: 10,
+  maxConcurrent: 5
+}
+
+// Pushed from the main process on eloqua:apiRetry before each retry attempt
+export interface EloquaRetryNotice {
+  // Tool run the retried call belongs to
+  runId?: string
+  method: string
+  endpoint: string
+  attempt: number
+  maxRetries: number
+  delayMs: number
+  status: number | null
+  reason: string
+}
+
+// Bulk API 2.0 export definitions and syncs
+export type EloquaBulkEntity =
+  | { type: 'contacts' }
+  | { type: 'accounts' }
+  | { type: 'activities' }
+  | { type: 'customObject'; customObjectId: string }
+
+export interface EloquaBulkExportDefinition {
+  name: string
+  // Column name -> field statement, e.g. { Email: '{{Contact.Field(C_EmailAddress)}}' }
+  fields: Record<string, string>
+  filter?: string
+  maxRecords?: number
+  areSystemTimestampsInUTC?: boolean
+  // Bulk API data retention; Eloqua's default is one week
+  dataRetentionDuration?: string
+}
+
+export interface EloquaBulkExport extends EloquaBulkExportDefinition {
+  // e.g. /contacts/exports/123, relative to /api/bulk/2.0
+  uri: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+// Field available to bulk definitions (/contacts/fields, /customObjects/{id}/fields, ...)
+export interface EloquaBulkField {
+  name: string
+  internalName: string
+  dataType: string
+  statement: string
+  hasReadOnlyConstraint?: boolean
+  hasNotNullConstraint?: boolean
+  hasUniquenessConstraint?: boolean
+  uri?: string
+}
+
+export type EloquaBulkSyncStatus = 'pending' | 'active' | 'success' | 'warning' | 'error' | 'canceled'
+
+export interface EloquaBulkSync {
+  // e.g. /syncs/456, relative to /api/bulk/2.0
+  uri: string
+  syncedInstanceUri: string
+  status: EloquaBulkSyncStatus
+  createdAt?: string
+  syncStartedAt?: string
+  syncEndedAt?: string
+}
+
+export interface EloquaBulkSyncLog {
+  severity: 'information' | 'warning' | 'error'
+  statusCode: string
+  message: string
+  count?: number
+  createdAt?: string
+}
+
+export type EloquaBulkExportPhase = 'defining' | 'syncing' | 'downloading' | 'cleaning-up'
+
+export interface EloquaBulkExportProgress {
+  phase: EloquaBulkExportPhase
+  message: string
+  syncStatus?: EloquaBulkSyncStatus
+  rowsExported: number
+  totalRows?: number
+}
+
+export interface EloquaBulkExportRunOptions {
+  // Rows per /data page, capped at the Bulk API maximum of 50,000
+  pageSize?: number
+  pollIntervalMs?: number
+  // Give up waiting for the sync after this long
+  syncTimeoutMs?: number
+  // Keep the export definition instead of deleting it when the run ends
+  keepDefinition?: boolean
+  signal?: AbortSignal
+  onProgress?: (progress: EloquaBulkExportProgress) => void
+}
+
+export interface EloquaBulkExportResult {
+  definitionUri: string
+  syncUri: string
+  syncStatus: EloquaBulkSyncStatus
+  rowsExported: number
+  warnings: EloquaBulkSyncLog[]
+  definitionDeleted: boolean
+  filePath?: string
+}
+
+// Bulk API 2.0 import definitions
+export type EloquaBulkImportEntity =
+  | { type: 'contacts' }
+  | { type: 'accounts' }
+  | { type: 'customObject'; customObjectId: string }
+
+export type EloquaBulkUpdateRule = 'always' | 'ifNewIsNotNull' | 'ifExistingIsNull' | 'useFieldRule'
+
+export interface EloquaBulkImportDefinition {
+  name: string
+  // Column name -> field statement, e.g. { Email: '{{Contact.Field(C_EmailAddress)}}' }
+  fields: Record<string, string>
+  // Key of `fields` used to match existing records
+  identifierFieldName: string
+  updateRule?: EloquaBulkUpdateRule
+  // Custom objects only: link each record to the contact whose email address matches this column
+  mapDataCardsSourceField?: string
+  dataRetentionDuration?: string
+}
+
+export interface EloquaBulkImport extends EloquaBulkImportDefinition {
+  uri: string
+}
+
+// A row Eloqua refused during an import sync (/syncs/{id}/rejects)
+export interface EloquaBulkImportReject {
+  recordIndex?: number
+  statusCode?: string
+  message: string
+  invalidFields?: string[]
+  fieldValues?: Record<string, string>
+}
+
+export type EloquaBulkImportPhase = 'defining' | 'uploading' | 'syncing' | 'collecting-rejects' | 'cleaning-up'
+
+export interface EloquaBulkImportProgress {
+  phase: EloquaBulkImportPhase
+  message: string
+  syncStatus?: EloquaBulkSyncStatus
+  rowsUploaded: number
+  totalRows: number
+}
+
+export interface EloquaBulkImportRunOptions {
+  // Rows per upload request
+  chunkSize?: number
+  pollIntervalMs?: number
+  syncTimeoutMs?: number
+  keepDefinition?: boolean
+  signal?: AbortSignal
+  onProgress?: (progress: EloquaBulkImportProgress) => void
+}
+
+export interface EloquaBulkImportResult {
+  definitionUri: string
+  syncUri?: string
+  syncStatus?: EloquaBulkSyncStatus
+  totalRows: number
+  rowsUploaded: number
+  rejects: EloquaBulkImportReject[]
+  logs: EloquaBulkSyncLog[]
+  definitionDeleted: boolean
+}
+
+// A GET response kept by the response cache
+export interface EloquaCachedResponse {
+  storedAt: number
+  expiresAt: number
+  data: any
+}
+
+export interface EloquaCacheSettings {
+  // Keep cached responses on disk under userData between sessions
+  persistent: boolean
+}
+
+// How requests to Eloqua find their proxy: not at all, from the OS settings,
+// from a PAC script or from a fixed proxy URL
+export type EloquaProxyMode = 'direct' | 'system' | 'pac' | 'manual'
+
+// Network settings for corporate networks, kept under userData. The proxy
+// password lives in the OS keychain and is never sent back to the renderer.
+export interface EloquaNetworkSettings {
+  proxyMode: EloquaProxyMode
+  // Manual mode, e.g. http://proxy.example.com:8080
+  proxyUrl?: string
+  // PAC mode, e.g. http://wpad.example.com/proxy.pac
+  pacUrl?: string
+  // Sent to whichever proxy is in effect
+  proxyUsername?: string
+  hasProxyPassword: boolean
+  // PEM files trusted in addition to the built-in certificate authorities
+  caBundlePaths: string[]
+  // Pod URL used instead of asking login.eloqua.com/id, e.g. https://secure.p03.eloqua.com
+  baseUrlOverride?: string
+}
+
+export interface EloquaNetworkSettingsUpdate extends Omit<EloquaNetworkSettings, 'hasProxyPassword'> {
+  // Leave out to keep the stored password; an empty string removes it
+  proxyPassword?: string
+}
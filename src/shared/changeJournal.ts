@@ -0,0 +1,224 @@
+import { describePlannedChange } from './plannedChanges'
+
+// The undo journal keeps the full JSON of an asset as it was before the app
+// changed or deleted it. EloquaApiService saves the snapshot before it sends
+// the change; the Undo Journal page restores or recreates the asset from it.
+// Entries are kept in userData/change-journal.
+
+export type JournaledAssetType = 'form' | 'bulk-definition' | 'contact-field'
+
+// One line of the journal; the snapshot is kept in the full entry only
+export interface ChangeJournalSummary {
+  id: string
+  // ISO 8601
+  recordedAt: string
+  // Tool run that made the change
+  runId?: string
+  toolId?: string
+  assetType: JournaledAssetType
+  assetId: string
+  assetName?: string
+  method: 'PUT' | 'DELETE'
+  endpoint: string
+  // Pending until Eloqua answers; a change left pending may or may not have been made
+  changeStatus: 'pending' | 'succeeded' | 'failed'
+  changeError?: string
+  // What undo cannot bring back
+  undoLimitation: string
+  // ISO 8601
+  undoneAt?: string
+  // e.g. "Recreated as form 1234"
+  undoResult?: string
+}
+
+export interface ChangeJournalEntry extends ChangeJournalSummary {
+  // Where the snapshot was read from
+  snapshotEndpoint: string
+  // The asset as Eloqua returned it before the change
+  snapshot: unknown
+}
+
+// Request that undoes a journaled change
+export interface UndoRequest {
+  method: 'POST' | 'PUT'
+  endpoint: string
+  data: unknown
+}
+
+// A change to a journaled asset, found from the endpoint of the request
+export interface JournaledChange {
+  assetType: JournaledAssetType
+  assetId: string
+  method: ChangeJournalSummary['method']
+  endpoint: string
+  snapshotEndpoint: string
+}
+
+interface JournalRule {
+  assetType: JournaledAssetType
+  // Matches the path of a change; the last group is the asset id
+  pattern: RegExp
+  snapshotEndpoint: (match: RegExpMatchArray) => string
+  // Endpoint a deleted asset is recreated at
+  collectionEndpoint: (match: RegExpMatchArray) => string
+  // Endpoint an updated asset is restored at
+  assetEndpoint: (match: RegExpMatchArray) => string
+  // Shown for a delete that undo recreates
+  recreateLimitation: string
+}
+
+const JOURNAL_RULES: JournalRule[] = [
+  {
+    assetType: 'form',
+    pattern: /^\/api\/rest\/[12]\.0\/assets\/form\/(\d+)$/i,
+    snapshotEndpoint: match => `/api/REST/2.0/assets/form/${match[1]}?depth=complete`,
+    collectionEndpoint: () => '/api/REST/2.0/assets/form',
+    assetEndpoint: match => `/api/REST/2.0/assets/form/${match[1]}`,
+    recreateLimitation: 'Undo recreates the form with a new id. Its submission data and the links to it from landing pages, emails and campaigns are not restored.'
+  },
+  {
+    assetType: 'bulk-definition',
+    pattern: /^\/api\/bulk\/2\.0\/((?:contacts|accounts|activities|customObjects\/\d+)\/(?:exports|imports))\/(\d+)$/i,
+    snapshotEndpoint: match => `/api/bulk/2.0/${match[1]}/${match[2]}`,
+    collectionEndpoint: match => `/api/bulk/2.0/${match[1]}`,
+    assetEndpoint: match => `/api/bulk/2.0/${match[1]}/${match[2]}`,
+    recreateLimitation: 'Undo recreates the definition with a new uri. Its syncs and their data are not restored, and it cannot be recreated once a field it uses has been deleted.'
+  },
+  {
+    assetType: 'contact-field',
+    pattern: /^\/api\/rest\/1\.0\/assets\/contact\/field\/(\d+)$/i,
+    snapshotEndpoint: match => `/api/REST/1.0/assets/contact/field/${match[1]}`,
+    collectionEndpoint: () => '/api/REST/1.0/assets/contact/field',
+    assetEndpoint: match => `/api/REST/1.0/assets/contact/field/${match[1]}`,
+    recreateLimitation: 'The values contacts had in this field were deleted with it and cannot be restored. Undo only recreates the field definition, empty and with a new id; bulk syncs, forms and other assets that used it are not reconnected.'
+  }
+]
+
+const RESTORE_LIMITATION = 'Undo puts back the saved state. Changes made to it in Eloqua since then are overwritten.'
+
+// Properties Eloqua sets itself, left out when an asset is recreated
+const READ_ONLY_KEYS = ['id', 'uri', 'createdAt', 'createdBy', 'updatedAt', 'updatedBy', 'depth']
+
+const ASSET_LABELS: Record<JournaledAssetType, string> = {
+  form: 'form',
+  'bulk-definition': 'bulk definition',
+  'contact-field': 'contact field'
+}
+
+function findRule(endpoint: string): { rule: JournalRule, match: RegExpMatchArray } | null {
+  const path = endpoint.split('?')[0]
+  for (const rule of JOURNAL_RULES) {
+    const match = path.match(rule.pattern)
+    if (match) return { rule, match }
+  }
+  return null
+}
+
+/**
+ * Finds whether a request changes an asset the journal keeps
+ * @param method - HTTP method of the request
+ * @param endpoint - Endpoint with its query
+ * @returns JournaledChange | null - The change, or null when it is not journaled
+ */
+export function matchJournaledChange(method: string, endpoint: string): JournaledChange | null {
+  const upperMethod = method.toUpperCase()
+  if (upperMethod !== 'PUT' && upperMethod !== 'DELETE') return null
+
+  const found = findRule(endpoint)
+  if (!found) return null
+  return {
+    assetType: found.rule.assetType,
+    assetId: found.match[found.match.length - 1],
+    method: upperMethod,
+    endpoint,
+    snapshotEndpoint: found.rule.snapshotEndpoint(found.match)
+  }
+}
+
+/**
+ * Builds the journal entry saved before a change is sent
+ * @param id - Entry id
+ * @param change - The change and its asset
+ * @param snapshot - The asset as it is before the change
+ * @param run - Tool run making the change, if known
+ * @returns ChangeJournalEntry - Pending entry
+ */
+export function createChangeJournalEntry(
+  id: string,
+  change: JournaledChange,
+  snapshot: unknown,
+  run: { runId: string, toolId: string } | null
+): ChangeJournalEntry {
+  const { rule } = findRule(change.endpoint)!
+  const name = snapshot && typeof snapshot === 'object' ? (snapshot as Record<string, unknown>).name : undefined
+  return {
+    id,
+    recordedAt: new Date().toISOString(),
+    runId: run?.runId,
+    toolId: run?.toolId,
+    assetType: change.assetType,
+    assetId: change.assetId,
+    assetName: typeof name === 'string' ? name : undefined,
+    method: change.method,
+    endpoint: change.endpoint,
+    changeStatus: 'pending',
+    undoLimitation: change.method === 'DELETE' ? rule.recreateLimitation : RESTORE_LIMITATION,
+    snapshotEndpoint: change.snapshotEndpoint,
+    snapshot
+  }
+}
+
+/**
+ * Request that undoes a journaled change: an update is reverted by sending
+ * the snapshot back, a delete by recreating the asset from it
+ * @param entry - Journal entry with its snapshot
+ * @returns UndoRequest | null - The request, or null when there is nothing to undo
+ */
+export function getUndoRequest(entry: ChangeJournalEntry): UndoRequest | null {
+  const found = findRule(entry.endpoint)
+  if (!found || entry.undoneAt || !entry.snapshot || typeof entry.snapshot !== 'object') {
+    return null
+  }
+
+  if (entry.method === 'PUT') {
+    return { method: 'PUT', endpoint: found.rule.assetEndpoint(found.match), data: entry.snapshot }
+  }
+  const data = Object.fromEntries(Object.entries(entry.snapshot).filter(([key]) => !READ_ONLY_KEYS.includes(key)))
+  return { method: 'POST', endpoint: found.rule.collectionEndpoint(found.match), data }
+}
+
+/**
+ * Describes what an undo did, from the response to its request
+ * @param entry - Undone entry
+ * @param response - Response to the undo request
+ * @returns string - e.g. "Recreated as form 1234"
+ */
+export function describeUndoResult(entry: ChangeJournalSummary, response: any): string {
+  if (entry.method === 'PUT') {
+    return `Restored ${ASSET_LABELS[entry.assetType]} ${entry.assetId}`
+  }
+  const newId = response?.id ?? response?.uri
+  return newId !== undefined
+    ? `Recreated as ${ASSET_LABELS[entry.assetType]} ${newId}`
+    : `Recreated ${ASSET_LABELS[entry.assetType]} ${entry.assetId}`
+}
+
+/**
+ * Short description of a journaled change, e.g. "Delete form 123 (Contact Us)"
+ * @param entry - Journal line
+ * @returns string - Verb, asset and its name
+ */
+export function describeJournaledChange(entry: ChangeJournalSummary): string {
+  const change = describePlannedChange({ method: entry.method, endpoint: entry.endpoint })
+  return entry.assetName ? `${change} (${entry.assetName})` : change
+}
+
+/**
+ * Drops the snapshot of an entry
+ * @param entry - Full entry
+ * @returns ChangeJournalSummary - Line for the journal list
+ */
+export function toChangeJournalSummary(entry: ChangeJournalSummary): ChangeJournalSummary {
+  const { id, recordedAt, runId, toolId, assetType, assetId, assetName, method, endpoint, changeStatus, changeError, undoLimitation, undoneAt, undoResult } = entry
+  return { id, recordedAt, runId, toolId, assetType, assetId, assetName, method, endpoint, changeStatus, changeError, undoLimitation, undoneAt, undoResult }
+}
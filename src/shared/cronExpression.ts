@@ -0,0 +1,200 @@
+// Cron schedules for recurring tool runs, e.g. `0 6 * * mon` for Mondays at
+// 06:00. Five fields, matched in local time:
+//
+//   minute (0-59)  hour (0-23)  day of month (1-31)  month (1-12 or jan-dec)
+//   day of week (0-7 or sun-sat; 0 and 7 are Sunday)
+//
+// Each field is *, a value, a range (1-5), a step (*/15, 0-30/10) or a
+// comma-separated list of these. As in cron, when both day fields are
+// restricted a day matching either one counts. @hourly, @daily, @weekly,
+// @monthly and @yearly stand for the usual expressions.
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  // Sunday is 0
+  daysOfWeek: Set<number>
+  // False when the field is *, so only the other day field decides
+  daysOfMonthRestricted: boolean
+  daysOfWeekRestricted: boolean
+}
+
+// Thrown for an expression that cannot be parsed
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CronExpressionError'
+  }
+}
+
+interface CronField {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+]
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+}
+
+// Days searched for the next run; a valid expression matches within four years (29 February)
+const MAX_SEARCH_DAYS = 4 * 366 + 1
+
+function parseValue(text: string, field: CronField): number {
+  const nameIndex = field.names?.indexOf(text.toLowerCase()) ?? -1
+  if (nameIndex !== -1) {
+    return nameIndex + field.min
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new CronExpressionError(`"${text}" is not a valid ${field.name}`)
+  }
+  const value = Number(text)
+  if (value < field.min || value > field.max) {
+    throw new CronExpressionError(`${field.name} must be between ${field.min} and ${field.max}`)
+  }
+  return value
+}
+
+function parseField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>()
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/')
+    if (!range || extra !== undefined) {
+      throw new CronExpressionError(`"${part}" is not a valid ${field.name}`)
+    }
+
+    let from = field.min
+    let to = field.max
+    if (range !== '*') {
+      const [start, end, more] = range.split('-')
+      if (more !== undefined) {
+        throw new CronExpressionError(`"${range}" is not a valid ${field.name} range`)
+      }
+      from = parseValue(start, field)
+      // A value with a step runs to the end, as in 5/15
+      to = end !== undefined ? parseValue(end, field) : stepText !== undefined ? field.max : from
+      if (to < from) {
+        throw new CronExpressionError(`${field.name} range "${range}" ends before it starts`)
+      }
+    }
+
+    const step = stepText !== undefined ? Number(stepText) : 1
+    if (!Number.isInteger(step) || step < 1 || !/^\d+$/.test(stepText ?? '1')) {
+      throw new CronExpressionError(`"${stepText}" is not a valid ${field.name} step`)
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value)
+    }
+  }
+  return values
+}
+
+/**
+ * Parses a cron expression
+ * @param expression - Five fields or a macro such as @daily
+ * @returns CronSchedule - The values each field matches
+ * @throws CronExpressionError - When the expression cannot be parsed
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  const expanded = MACROS[trimmed.toLowerCase()] || trimmed
+  const parts = expanded.split(/\s+/).filter(Boolean)
+  if (parts.length !== FIELDS.length) {
+    throw new CronExpressionError('A schedule needs five fields: minute, hour, day of month, month and day of week')
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]))
+  // 7 is another name for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: parts[2] !== '*',
+    daysOfWeekRestricted: parts[4] !== '*'
+  }
+}
+
+/**
+ * Checks an expression without running it, for live feedback in forms
+ * @param expression - Cron expression
+ * @returns string | null - What is wrong with it, or null when it is valid
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    const schedule = parseCronExpression(expression)
+    if (!getNextCronTime(schedule, new Date())) {
+      return 'This schedule never runs'
+    }
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid schedule'
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getMonth() + 1)) return false
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate())
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay())
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek
+  }
+  return dayOfMonth && dayOfWeek
+}
+
+/**
+ * Finds the first minute after a moment that the schedule matches
+ * @param schedule - Parsed schedule or a cron expression
+ * @param after - Moment to search from; the result is always later
+ * @returns Date | null - Start of the matching minute, or null when none comes, e.g. 30 February
+ * @throws CronExpressionError - When an expression is given and cannot be parsed
+ */
+export function getNextCronTime(schedule: CronSchedule | string, after: Date): Date | null {
+  const parsed = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule
+  const hours = [...parsed.hours].sort((a, b) => a - b)
+  const minutes = [...parsed.minutes].sort((a, b) => a - b)
+
+  const start = new Date(after.getTime())
+  start.setSeconds(0, 0)
+  start.setMinutes(start.getMinutes() + 1)
+
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate())
+  for (let dayIndex = 0; dayIndex < MAX_SEARCH_DAYS; dayIndex++) {
+    if (matchesDay(parsed, day)) {
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute)
+          // Times skipped by a daylight saving change come out in another hour; leave them out
+          if (candidate >= start && candidate.getHours() === hour) {
+            return candidate
+          }
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1)
+  }
+  return null
+}
@@ -0,0 +1,451 @@
+// Row filters typed by the user, e.g. `isSystem = false and updatedAt < now-2y`.
+// Expressions are parsed here rather than evaluated as script, which the
+// renderer's content security policy does not allow anyway.
+//
+//   expression := or
+//   or         := and ('or' and)*
+//   and        := not ('and' not)*
+//   not        := 'not' not | '(' expression ')' | comparison
+//   comparison := field operator value | field 'is' ['not'] 'empty'
+//   operator   := = != > >= < <= contains startsWith endsWith in
+//   value      := number | 'text' | "text" | true | false | null | 2024-01-31
+//               | now | now-30d | now+2w (d, w, m or y) | [value, ...] after in
+//
+// Fields are column names; dots reach into nested objects (`owner.name`).
+// Text compares without regard to case. When either side is a relative date
+// or both sides read as dates, the values are compared as points in time.
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains' | 'startsWith' | 'endsWith' | 'in'
+
+type FilterValue = string | number | boolean | null | RelativeDate | FilterValue[]
+
+export interface RelativeDate {
+  // Offset from the moment the filter runs
+  amount: number
+  unit: 'd' | 'w' | 'm' | 'y'
+}
+
+type FilterNode =
+  | { kind: 'and' | 'or', left: FilterNode, right: FilterNode }
+  | { kind: 'not', operand: FilterNode }
+  | { kind: 'compare', field: string, operator: FilterOperator, value: FilterValue }
+  | { kind: 'empty', field: string, negated: boolean }
+
+interface Token {
+  type: 'word' | 'number' | 'string' | 'symbol' | 'date'
+  text: string
+  position: number
+}
+
+export type RowPredicate = (row: unknown) => boolean
+
+// Thrown for an expression that cannot be parsed; position is the offending character
+export class FilterExpressionError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position + 1}`)
+    this.name = 'FilterExpressionError'
+  }
+}
+
+const OPERATOR_WORDS: Record<string, FilterOperator> = {
+  contains: 'contains',
+  startswith: 'startsWith',
+  endswith: 'endsWith',
+  in: 'in'
+}
+
+const SYMBOL_OPERATORS: readonly FilterOperator[] = ['=', '!=', '>', '>=', '<', '<=']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Eloqua dates arrive as Unix seconds, sometimes as strings; larger numbers are taken as milliseconds
+const UNIX_SECONDS_LIMIT = 1e11
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < expression.length) {
+    const char = expression[index]
+
+    if (/\s/.test(char)) {
+      index++
+      continue
+    }
+
+    const start = index
+    if (char === '\'' || char === '"') {
+      let text = ''
+      index++
+      while (index < expression.length && expression[index] !== char) {
+        // A backslash keeps the next character, so quotes can appear in text
+        if (expression[index] === '\\' && index + 1 < expression.length) index++
+        text += expression[index++]
+      }
+      if (index >= expression.length) {
+        throw new FilterExpressionError('Unclosed quote', start)
+      }
+      index++
+      tokens.push({ type: 'string', text, position: start })
+      continue
+    }
+
+    const relativeDate = /^now(?:\s*[+-]\s*\d+(?:\.\d+)?\s*[dwmy])?\b/i.exec(expression.slice(index))
+    if (relativeDate) {
+      index += relativeDate[0].length
+      tokens.push({ type: 'date', text: relativeDate[0].replace(/\s+/g, ''), position: start })
+      continue
+    }
+
+    // Dates may be written without quotes, e.g. 2024-01-31
+    const date = /^\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?/.exec(expression.slice(index))
+    if (date) {
+      index += date[0].length
+      tokens.push({ type: 'string', text: date[0], position: start })
+      continue
+    }
+
+    const number = /^-?\d+(?:\.\d+)?/.exec(expression.slice(index))
+    if (number) {
+      index += number[0].length
+      tokens.push({ type: 'number', text: number[0], position: start })
+      continue
+    }
+
+    const word = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/.exec(expression.slice(index))
+    if (word) {
+      index += word[0].length
+      tokens.push({ type: 'word', text: word[0], position: start })
+      continue
+    }
+
+    const symbol = /^(?:!=|>=|<=|==|[=<>()[\],])/.exec(expression.slice(index))
+    if (symbol) {
+      index += symbol[0].length
+      tokens.push({ type: 'symbol', text: symbol[0] === '==' ? '=' : symbol[0], position: start })
+      continue
+    }
+
+    throw new FilterExpressionError(`Unexpected character "${char}"`, start)
+  }
+
+  return tokens
+}
+
+class FilterParser {
+  private index = 0
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): FilterNode {
+    const node = this.parseOr()
+    const extra = this.peek()
+    if (extra) {
+      throw new FilterExpressionError(`Unexpected "${extra.text}"`, extra.position)
+    }
+    return node
+  }
+
+  private parseOr(): FilterNode {
+    let node = this.parseAnd()
+    while (this.acceptWord('or')) {
+      node = { kind: 'or', left: node, right: this.parseAnd() }
+    }
+    return node
+  }
+
+  private parseAnd(): FilterNode {
+    let node = this.parseNot()
+    while (this.acceptWord('and')) {
+      node = { kind: 'and', left: node, right: this.parseNot() }
+    }
+    return node
+  }
+
+  private parseNot(): FilterNode {
+    if (this.acceptWord('not')) {
+      return { kind: 'not', operand: this.parseNot() }
+    }
+    if (this.acceptSymbol('(')) {
+      const node = this.parseOr()
+      this.expectSymbol(')')
+      return node
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): FilterNode {
+    const fieldToken = this.next('a field name')
+    if (fieldToken.type !== 'word') {
+      throw new FilterExpressionError(`Expected a field name but found "${fieldToken.text}"`, fieldToken.position)
+    }
+    const field = fieldToken.text
+
+    if (this.acceptWord('is')) {
+      const negated = this.acceptWord('not')
+      if (!this.acceptWord('empty')) {
+        throw new FilterExpressionError('Expected "empty"', this.peek()?.position ?? this.length)
+      }
+      return { kind: 'empty', field, negated }
+    }
+
+    const operatorToken = this.next('an operator')
+    const operator = operatorToken.type === 'symbol'
+      ? SYMBOL_OPERATORS.find(symbol => symbol === operatorToken.text)
+      : operatorToken.type === 'word' ? OPERATOR_WORDS[operatorToken.text.toLowerCase()] : undefined
+    if (!operator) {
+      throw new FilterExpressionError(`Unknown operator "${operatorToken.text}"`, operatorToken.position)
+    }
+
+    if (operator === 'in') {
+      this.expectSymbol('[')
+      const values: FilterValue[] = []
+      if (!this.acceptSymbol(']')) {
+        do {
+          values.push(this.parseValue())
+        } while (this.acceptSymbol(','))
+        this.expectSymbol(']')
+      }
+      return { kind: 'compare', field, operator, value: values }
+    }
+
+    return { kind: 'compare', field, operator, value: this.parseValue() }
+  }
+
+  private parseValue(): FilterValue {
+    const token = this.next('a value')
+    switch (token.type) {
+      case 'string':
+        return token.text
+      case 'number':
+        return Number(token.text)
+      case 'date':
+        return parseRelativeDate(token.text)!
+      case 'word': {
+        const word = token.text.toLowerCase()
+        if (word === 'true') return true
+        if (word === 'false') return false
+        if (word === 'null') return null
+        break
+      }
+    }
+    throw new FilterExpressionError(`Expected a value but found "${token.text}"; quote text values`, token.position)
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.index++]
+    if (!token) {
+      throw new FilterExpressionError(`Expected ${expected}`, this.length)
+    }
+    return token
+  }
+
+  private acceptWord(word: string): boolean {
+    const token = this.peek()
+    if (token?.type === 'word' && token.text.toLowerCase() === word) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    const token = this.peek()
+    if (token?.type === 'symbol' && token.text === symbol) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  private expectSymbol(symbol: string) {
+    if (!this.acceptSymbol(symbol)) {
+      const token = this.peek()
+      throw new FilterExpressionError(`Expected "${symbol}"${token ? ` but found "${token.text}"` : ''}`, token?.position ?? this.length)
+    }
+  }
+}
+
+/**
+ * Reads a value from a row by column name; dots reach into nested objects
+ * @param row - Row object
+ * @param field - Column name, e.g. "name" or "owner.name"
+ * @returns unknown - The value, or undefined when the row does not have it
+ */
+export function getFieldValue(row: unknown, field: string): unknown {
+  let value: unknown = row
+  for (const key of field.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+function isRelativeDate(value: FilterValue): value is RelativeDate {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Reads a relative date written on its own, e.g. "now-30d", "now + 2w" or "now"
+ * @param text - Text to read
+ * @returns RelativeDate | null - The offset, or null when the text is not a relative date
+ */
+export function parseRelativeDate(text: string): RelativeDate | null {
+  const match = /^\s*now(?:\s*([+-])\s*(\d+(?:\.\d+)?)\s*([dwmy]))?\s*$/i.exec(text)
+  if (!match) return null
+  return match[1]
+    ? { amount: Number(match[1] + match[2]), unit: match[3].toLowerCase() as RelativeDate['unit'] }
+    : { amount: 0, unit: 'd' }
+}
+
+// Milliseconds since the epoch of a relative date, counted from now
+export function resolveRelativeDate(value: RelativeDate, now: Date): number {
+  const date = new Date(now.getTime())
+  switch (value.unit) {
+    case 'd':
+      return date.getTime() + value.amount * DAY_MS
+    case 'w':
+      return date.getTime() + value.amount * 7 * DAY_MS
+    case 'm':
+      date.setMonth(date.getMonth() + value.amount)
+      return date.getTime()
+    case 'y':
+      date.setFullYear(date.getFullYear() + value.amount)
+      return date.getTime()
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+// Milliseconds since the epoch for dates as Eloqua returns them, or null
+function toTime(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return value < UNIX_SECONDS_LIMIT ? value * 1000 : value
+  }
+  if (typeof value !== 'string' || !value.trim()) return null
+  if (/^\d+$/.test(value.trim())) return toTime(Number(value))
+  // Plain numbers and words must not pass as dates, so only date-shaped text is parsed
+  if (!/^\d{4}-\d{2}-\d{2}|^\d{1,2}\/\d{1,2}\/\d{4}/.test(value.trim())) return null
+  const time = Date.parse(value)
+  return isNaN(time) ? null : time
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && /^\s*-?\d+(?:\.\d+)?\s*$/.test(value)) return Number(value)
+  return null
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  return (typeof value === 'object' ? JSON.stringify(value) : String(value)).toLowerCase()
+}
+
+// Negative, zero or positive like a sort comparator; null when the values cannot be ordered
+function compareValues(actual: unknown, expected: Exclude<FilterValue, FilterValue[]>, now: Date): number | null {
+  if (isRelativeDate(expected)) {
+    const time = toTime(actual)
+    return time === null ? null : time - resolveRelativeDate(expected, now)
+  }
+
+  if (typeof expected === 'boolean' || expected === null) {
+    return toText(actual) === String(expected) ? 0 : null
+  }
+
+  const expectedTime = typeof expected === 'string' ? toTime(expected) : null
+  const actualTime = expectedTime !== null ? toTime(actual) : null
+  if (expectedTime !== null && actualTime !== null) {
+    return actualTime - expectedTime
+  }
+
+  const actualNumber = toNumber(actual)
+  const expectedNumber = toNumber(expected)
+  if (actualNumber !== null && expectedNumber !== null) {
+    return actualNumber - expectedNumber
+  }
+
+  if (actual === null || actual === undefined) return null
+  return toText(actual).localeCompare(toText(expected))
+}
+
+function evaluate(node: FilterNode, row: unknown, now: Date): boolean {
+  switch (node.kind) {
+    case 'and':
+      return evaluate(node.left, row, now) && evaluate(node.right, row, now)
+    case 'or':
+      return evaluate(node.left, row, now) || evaluate(node.right, row, now)
+    case 'not':
+      return !evaluate(node.operand, row, now)
+    case 'empty':
+      return isEmpty(getFieldValue(row, node.field)) !== node.negated
+  }
+
+  const actual = getFieldValue(row, node.field)
+  const { operator, value } = node
+
+  if (Array.isArray(value)) {
+    return value.some(option => !Array.isArray(option) && compareValues(actual, option, now) === 0)
+  }
+
+  switch (operator) {
+    case 'contains':
+      return toText(actual).includes(toText(value))
+    case 'startsWith':
+      return toText(actual).startsWith(toText(value))
+    case 'endsWith':
+      return toText(actual).endsWith(toText(value))
+  }
+
+  const order = compareValues(actual, value, now)
+  switch (operator) {
+    case '=':
+      return order === 0
+    case '!=':
+      return order !== 0
+    case '>':
+      return order !== null && order > 0
+    case '>=':
+      return order !== null && order >= 0
+    case '<':
+      return order !== null && order < 0
+    case '<=':
+      return order !== null && order <= 0
+  }
+  return false
+}
+
+/**
+ * Parses a filter expression into a row test. Relative dates are resolved
+ * each time a row is tested. An empty expression keeps every row.
+ * @param expression - Filter typed by the user
+ * @returns RowPredicate - True for rows the filter keeps
+ * @throws FilterExpressionError - When the expression cannot be parsed
+ */
+export function compileFilterExpression(expression: string): RowPredicate {
+  if (!expression.trim()) {
+    return () => true
+  }
+
+  const tree = new FilterParser(tokenize(expression), expression.length).parse()
+  return row => evaluate(tree, row, new Date())
+}
+
+/**
+ * Checks a filter expression without running it
+ * @param expression - Filter typed by the user
+ * @returns string | null - What is wrong with it, or null when it parses
+ */
+export function validateFilterExpression(expression: string): string | null {
+  try {
+    compileFilterExpression(expression)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid filter'
+  }
+}
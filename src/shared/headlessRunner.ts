@@ -0,0 +1,35 @@
+import type { ToolServiceApi } from '../main/preload'
+import type { EloquaSession } from './types'
+import type { ToolItemEvent, ToolResult } from './toolFramework'
+
+// A registered tool as listed by the command line
+export interface HeadlessToolInfo {
+  id: string
+  name: string
+  description: string
+  // Set when some runs of the tool change data in Eloqua
+  mutating: boolean
+}
+
+export interface HeadlessRunOptions {
+  toolId: string
+  parameters: Record<string, unknown>
+  // Session opened in the main process
+  session: EloquaSession
+  // Main-process implementation of the calls the Eloqua services make
+  api: ToolServiceApi
+  signal: AbortSignal
+  bypassCache: boolean
+  // Progress lines, including retries and phase counts with an ETA
+  onProgress: (message: string) => void
+  onItem: (item: ToolItemEvent) => void
+}
+
+// Exports of the tools bundle built for the command line (dist/cli/headlessRunner.js).
+// The main process loads it at run time, so it never compiles the tools itself.
+export interface HeadlessRunner {
+  listTools: () => HeadlessToolInfo[]
+  // True when a run with these parameters changes data in Eloqua
+  isToolRunMutating: (toolId: string, parameters: Record<string, unknown>) => boolean
+  runTool: (options: HeadlessRunOptions) => Promise<ToolResult>
+}
@@ -0,0 +1,229 @@
+// Parameter schemas of the tools. Each tool describes its parameters once in
+// getParameterSchema(); the same description builds the form in ToolRenderer
+// and validates a run before it starts. Constraint keywords follow JSON Schema
+// (type, enum, minimum, maximum, minLength, pattern, format, items); `required`
+// and `requiredWhen` sit on the field itself so a schema stays a flat map.
+
+export type ParameterType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'
+
+type ParameterValue = string | number | boolean
+
+// Field name -> value that field must have; a list matches any of its values.
+// Fields left empty are compared by their schema default.
+export type ParameterCondition = Record<string, ParameterValue | readonly ParameterValue[]>
+
+export interface ParameterFieldSchema {
+  type: ParameterType
+  // Label for forms and error messages; derived from the field name when missing
+  title?: string
+  description?: string
+  category?: 'basic' | 'advanced'
+  default?: unknown
+  required?: boolean
+  // Required only while the condition holds, e.g. { operation: ['update', 'delete'] }
+  requiredWhen?: ParameterCondition
+  // A value in any of these fields satisfies the requirement instead, e.g. CSV data in place of an ID list
+  alternatives?: string[]
+  enum?: readonly ParameterValue[]
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  format?: 'date' | 'email' | 'url'
+  // Shown instead of the generic message when pattern or format do not match
+  errorMessage?: string
+  items?: ParameterFieldSchema
+  minItems?: number
+  maxItems?: number
+}
+
+export type ParameterSchema = Record<string, ParameterFieldSchema>
+
+// Field name -> what is wrong with it; empty when the parameters are valid
+export type ParameterErrors = Record<string, string>
+
+/**
+ * Label of a field for forms and messages, e.g. "maxResults" -> "Max Results"
+ * @param fieldName - Parameter name
+ * @param fieldSchema - Schema of the field, whose title wins when set
+ * @returns string - Label
+ */
+export function getFieldLabel(fieldName: string, fieldSchema?: ParameterFieldSchema): string {
+  return fieldSchema?.title || fieldName.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())
+}
+
+/**
+ * Default values of every field that declares one
+ * @param schema - Parameter schema of a tool
+ * @returns Record<string, unknown> - Field name -> default
+ */
+export function getParameterDefaults(schema: ParameterSchema): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {}
+  for (const [fieldName, fieldSchema] of Object.entries(schema)) {
+    if (fieldSchema.default !== undefined) {
+      defaults[fieldName] = fieldSchema.default
+    }
+  }
+  return defaults
+}
+
+/**
+ * Tells whether a field is required for the given parameters
+ * @param schema - Parameter schema of a tool
+ * @param fieldName - Field to check
+ * @param parameters - Current parameter values
+ * @returns boolean - True when the field must have a value
+ */
+export function isFieldRequired(schema: ParameterSchema, fieldName: string, parameters: Record<string, unknown> = {}): boolean {
+  const fieldSchema = schema[fieldName]
+  if (!fieldSchema) return false
+  if (fieldSchema.required) return true
+  if (!fieldSchema.requiredWhen) return false
+
+  return matchesParameterCondition(schema, fieldSchema.requiredWhen, parameters)
+}
+
+/**
+ * Tells whether parameters meet a condition such as { operation: 'delete' }
+ * @param schema - Parameter schema of a tool
+ * @param condition - Field name -> accepted value or values
+ * @param parameters - Current parameter values
+ * @returns boolean - True when every field of the condition matches; an empty condition always matches
+ */
+export function matchesParameterCondition(schema: ParameterSchema, condition: ParameterCondition, parameters: Record<string, unknown> = {}): boolean {
+  return Object.entries(condition).every(([conditionField, expected]) => {
+    const actual = hasValue(parameters[conditionField]) ? parameters[conditionField] : schema[conditionField]?.default
+    const accepted: readonly unknown[] = Array.isArray(expected) ? expected : [expected]
+    return accepted.includes(actual)
+  })
+}
+
+/**
+ * Checks parameters against a schema. Fields the schema does not list are
+ * ignored, so components may pass extra data such as parsed file rows.
+ * @param schema - Parameter schema of a tool
+ * @param parameters - Parameters of the run
+ * @returns ParameterErrors - One message per invalid field
+ */
+export function validateParameterSchema(schema: ParameterSchema, parameters: Record<string, unknown> = {}): ParameterErrors {
+  const errors: ParameterErrors = {}
+
+  for (const [fieldName, fieldSchema] of Object.entries(schema)) {
+    const value = parameters[fieldName]
+    const label = getFieldLabel(fieldName, fieldSchema)
+
+    if (!hasValue(value)) {
+      if (isFieldRequired(schema, fieldName, parameters) &&
+          !(fieldSchema.alternatives || []).some(alternative => hasValue(parameters[alternative]))) {
+        // Alternatives outside the schema (a picked file, parsed rows) are not form fields, so they are not named
+        const labels = [label, ...(fieldSchema.alternatives || [])
+          .filter(alternative => schema[alternative])
+          .map(alternative => getFieldLabel(alternative, schema[alternative]))]
+        errors[fieldName] = `${labels.join(' or ')} is required`
+      }
+      continue
+    }
+
+    const message = checkValue(value, fieldSchema, label)
+    if (message) {
+      errors[fieldName] = message
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Joins field errors into one line for places that cannot show them per field
+ * @param errors - Errors returned by validation
+ * @returns string - e.g. "Invalid parameters: Form ID is required; Max Results must be at most 10000"
+ */
+export function formatParameterErrors(errors: ParameterErrors): string {
+  return `Invalid parameters: ${Object.values(errors).join('; ')}`
+}
+
+// Empty strings and empty lists count as missing, the same as in the forms
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return false
+  return !Array.isArray(value) || value.length > 0
+}
+
+function checkValue(value: unknown, fieldSchema: ParameterFieldSchema, label: string): string | null {
+  switch (fieldSchema.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${label} must be text`
+      break
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || isNaN(value)) return `${label} must be a number`
+      if (fieldSchema.type === 'integer' && !Number.isInteger(value)) return `${label} must be a whole number`
+      break
+    case 'boolean':
+      if (typeof value !== 'boolean') return `${label} must be true or false`
+      break
+    case 'array':
+      if (!Array.isArray(value)) return `${label} must be a list`
+      break
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) return `${label} must be an object`
+      break
+  }
+
+  if (fieldSchema.enum && !fieldSchema.enum.includes(value as ParameterValue)) {
+    return `${label} must be one of: ${fieldSchema.enum.join(', ')}`
+  }
+
+  if (typeof value === 'number') {
+    if (fieldSchema.minimum !== undefined && value < fieldSchema.minimum) return `${label} must be at least ${fieldSchema.minimum}`
+    if (fieldSchema.maximum !== undefined && value > fieldSchema.maximum) return `${label} must be at most ${fieldSchema.maximum}`
+  }
+
+  if (typeof value === 'string') {
+    if (fieldSchema.minLength !== undefined && value.trim().length < fieldSchema.minLength) {
+      return value.trim() ? `${label} must be at least ${fieldSchema.minLength} characters` : `${label} cannot be blank`
+    }
+    if (fieldSchema.maxLength !== undefined && value.length > fieldSchema.maxLength) {
+      return `${label} must be at most ${fieldSchema.maxLength} characters`
+    }
+    if (fieldSchema.pattern && !new RegExp(fieldSchema.pattern).test(value)) {
+      return fieldSchema.errorMessage || `${label} has an invalid format`
+    }
+    if (fieldSchema.format && !matchesFormat(value, fieldSchema.format)) {
+      return fieldSchema.errorMessage || `${label} must be a valid ${fieldSchema.format === 'date' ? 'date (YYYY-MM-DD)' : fieldSchema.format}`
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (fieldSchema.minItems !== undefined && value.length < fieldSchema.minItems) {
+      return `${label} needs at least ${fieldSchema.minItems} item(s)`
+    }
+    if (fieldSchema.maxItems !== undefined && value.length > fieldSchema.maxItems) {
+      return `${label} takes at most ${fieldSchema.maxItems} item(s)`
+    }
+    if (fieldSchema.items) {
+      for (let i = 0; i < value.length; i++) {
+        const message = checkValue(value[i], fieldSchema.items, `${label} item ${i + 1}`)
+        if (message) return message
+      }
+    }
+  }
+
+  return null
+}
+
+function matchesFormat(value: string, format: NonNullable<ParameterFieldSchema['format']>): boolean {
+  switch (format) {
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+    case 'url':
+      try {
+        new URL(value)
+        return true
+      } catch {
+        return false
+      }
+  }
+}
@@ -0,0 +1,133 @@
+import { ParameterFieldSchema } from './parameterSchema'
+import { compileFilterExpression, getFieldValue } from './filterExpression'
+
+// Pipelines run tools one after another, feeding values picked from one step's
+// result into a parameter of the next, e.g. contact field IDs from an export
+// into the field list of a deletion. They are kept in userData/pipelines.json.
+
+// How a step takes its input from the result of the step before it
+export interface PipelineInputBinding {
+  // Dot path to the rows in ToolResult.data, e.g. "fields"; lists met on the
+  // way are flattened, so "usedBy" on a list of assets yields every usage.
+  // Empty when data is itself the list of rows.
+  rowsPath?: string
+  // Column whose values are passed on, e.g. "id"
+  column: string
+  // Rows to keep, as a filter expression; see filterExpression.ts
+  filter?: string
+  // Parameter of this step that receives the values
+  targetParameter: string
+}
+
+export interface PipelineStep {
+  id: string
+  toolId: string
+  // Parameters of the step; the bound parameter is filled in when it runs
+  parameters: Record<string, unknown>
+  // Unset on the first step, which runs with its parameters alone
+  input?: PipelineInputBinding
+}
+
+export interface Pipeline {
+  id: string
+  name: string
+  steps: PipelineStep[]
+  // ISO 8601
+  createdAt: string
+  updatedAt: string
+}
+
+// Values shown when a step's input is previewed or confirmed
+export const PIPELINE_PREVIEW_LIMIT = 20
+
+/**
+ * Picks the rows a binding points at from a tool result
+ * @param data - ToolResult.data of the previous step
+ * @param rowsPath - Dot path to the rows; empty for data itself
+ * @returns unknown[] - Rows; a single object counts as one row
+ */
+export function getResultRows(data: unknown, rowsPath = ''): unknown[] {
+  let values: unknown[] = Array.isArray(data) ? data : [data]
+  for (const key of rowsPath.split('.').map(part => part.trim()).filter(Boolean)) {
+    values = values.flatMap(value => {
+      const next = getFieldValue(value, key)
+      return Array.isArray(next) ? next : [next]
+    })
+  }
+  return values.filter(value => value !== null && value !== undefined)
+}
+
+/**
+ * Projects a tool result through a binding: picks the rows, keeps those
+ * matching the filter and reads the column. Empty values are dropped and
+ * repeated ones kept once, in the order they appear.
+ * @param data - ToolResult.data of the previous step
+ * @param binding - Input binding of the next step
+ * @returns string[] - Values for the next step
+ * @throws FilterExpressionError - When the filter cannot be parsed
+ */
+export function projectResultData(data: unknown, binding: PipelineInputBinding): string[] {
+  const matches = compileFilterExpression(binding.filter || '')
+  const values = new Set<string>()
+
+  for (const row of getResultRows(data, binding.rowsPath)) {
+    if (!matches(row)) continue
+    const value = getFieldValue(row, binding.column)
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === null || item === undefined || item === '') continue
+      values.add(typeof item === 'object' ? JSON.stringify(item) : String(item))
+    }
+  }
+
+  return Array.from(values)
+}
+
+/**
+ * Converts projected values to what the target parameter accepts: a list for
+ * array parameters, a number for numeric ones (the first value) and
+ * comma-separated text otherwise, as ID fields such as searchById expect.
+ * @param values - Projected values
+ * @param fieldSchema - Schema of the target parameter
+ * @returns unknown - Value to put in the parameter
+ */
+export function toParameterValue(values: string[], fieldSchema: ParameterFieldSchema | undefined): unknown {
+  switch (fieldSchema?.type) {
+    case 'array':
+      return values
+    case 'number':
+    case 'integer':
+      return values.length > 0 ? Number(values[0]) : undefined
+    case 'boolean':
+      return values.length > 0 ? values[0] === 'true' : undefined
+    default:
+      return values.join(',')
+  }
+}
+
+/**
+ * Checks a pipeline read from disk or sent over IPC
+ * @param value - Parsed pipeline
+ * @returns string | null - What is wrong with it, or null when it is valid
+ */
+export function validatePipeline(value: any): string | null {
+  if (!value || typeof value !== 'object') return 'A pipeline must be an object'
+  if (typeof value.id !== 'string' || !/^pipeline-[a-z0-9-]{1,80}$/.test(value.id)) return 'Invalid pipeline id'
+  if (typeof value.name !== 'string' || !value.name.trim()) return 'A pipeline needs a name'
+  if (!Array.isArray(value.steps) || value.steps.length === 0) return 'A pipeline needs at least one step'
+
+  for (let index = 0; index < value.steps.length; index++) {
+    const step = value.steps[index]
+    const label = `Step ${index + 1}`
+    if (!step || typeof step !== 'object') return `${label} must be an object`
+    if (typeof step.toolId !== 'string' || !step.toolId) return `${label} needs a tool`
+    if (!step.parameters || typeof step.parameters !== 'object' || Array.isArray(step.parameters)) {
+      return `${label} parameters must be an object`
+    }
+    if (index > 0) {
+      const input = step.input
+      if (!input || typeof input.column !== 'string' || !input.column.trim()) return `${label} needs a column to take from step ${index}`
+      if (typeof input.targetParameter !== 'string' || !input.targetParameter) return `${label} needs a parameter to fill`
+    }
+  }
+  return null
+}
@@ -0,0 +1,61 @@
+// Changes a dry run would have sent to Eloqua. EloquaApiService records every
+// POST, PUT, PATCH and DELETE of a dry run here instead of sending it, as well
+// as form submissions; applying the plan sends the recorded requests, in the
+// order they were recorded.
+
+export interface PlannedChange {
+  // Position in the plan, from 1
+  sequence: number
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  // API endpoint, or the full form processor URL of a form submission
+  endpoint: string
+  // Request body as the tool passed it
+  data?: unknown
+}
+
+// Outcome of one planned change once the plan was applied
+export interface AppliedChange extends PlannedChange {
+  status: 'succeeded' | 'failed' | 'skipped'
+  error?: string
+}
+
+const METHOD_VERBS: Record<PlannedChange['method'], string> = {
+  POST: 'Create',
+  PUT: 'Update',
+  PATCH: 'Update',
+  DELETE: 'Delete'
+}
+
+/**
+ * Whether a URL is Eloqua's form processor, which takes form submissions
+ * outside the REST API
+ * @param url - Endpoint or URL of a request
+ * @returns boolean - True for an absolute http(s) URL with the path /e/f2
+ */
+export function isFormSubmissionUrl(url: string): boolean {
+  if (!/^https?:\/\//i.test(url)) return false
+  try {
+    return new URL(url).pathname === '/e/f2'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Short description of a planned change, e.g. "Delete contact field 100001"
+ * for DELETE /api/REST/1.0/assets/contact/field/100001
+ * @param change - Planned change
+ * @returns string - Verb and the object it acts on
+ */
+export function describePlannedChange(change: Pick<PlannedChange, 'method' | 'endpoint'>): string {
+  if (isFormSubmissionUrl(change.endpoint)) {
+    const formName = new URL(change.endpoint).searchParams.get('elqFormName')
+    return formName ? `Submit form ${formName}` : 'Submit form'
+  }
+  const parts = change.endpoint.split('?')[0].split('/').filter(Boolean)
+  // The object is what follows the API version, e.g. assets/form/123 or syncs/456
+  const versionIndex = parts.findIndex(part => /^\d+\.\d+$/.test(part))
+  const objectParts = (versionIndex >= 0 ? parts.slice(versionIndex + 1) : parts).filter(part => part !== 'assets')
+  const object = objectParts.map(part => part.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase()).join(' ')
+  return `${METHOD_VERBS[change.method]} ${object || change.endpoint}`
+}
@@ -0,0 +1,60 @@
+// Tool plugins live in userData/plugins, one folder per plugin holding a
+// manifest.json and an ES module bundle. The bundle exports activate(api) and
+// gets everything it may use from that api object; see src/tools/pluginLoader.ts.
+
+// Version of the api object handed to plugins. Raise it when the api changes;
+// raise the minimum only when plugins written for an older level would break.
+export const PLUGIN_API_LEVEL = 1
+export const MIN_PLUGIN_API_LEVEL = 1
+
+// URL scheme the renderer imports enabled plugin bundles from
+export const PLUGIN_SCHEME = 'toolbox-plugin'
+
+export interface ToolPluginManifest {
+  // Lowercase letters, digits and dashes; also the folder the bundle is served from
+  id: string
+  name: string
+  version: string
+  description?: string
+  author?: string
+  // Plugin API level the bundle was written against
+  apiLevel: number
+  // Bundle path relative to the plugin folder, e.g. "index.js"
+  main: string
+}
+
+// A plugin found in the plugins folder, as listed on the Plugins page
+export interface ToolPluginInfo {
+  // Folder name; the manifest id when the manifest could be read
+  id: string
+  manifest: ToolPluginManifest | null
+  enabled: boolean
+  // False when the manifest targets an API level this app does not provide
+  compatible: boolean
+  // Why the plugin cannot be loaded, e.g. a missing or invalid manifest
+  error?: string
+}
+
+/**
+ * Checks a parsed manifest.json
+ * @param value - Parsed manifest
+ * @returns string | null - What is wrong with it, or null when it is valid
+ */
+export function validatePluginManifest(value: any): string | null {
+  if (!value || typeof value !== 'object') return 'manifest.json must contain an object'
+  if (typeof value.id !== 'string' || !/^[a-z0-9][a-z0-9-]{0,62}$/.test(value.id)) {
+    return 'id must be lowercase letters, digits and dashes'
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) return 'name is required'
+  if (typeof value.version !== 'string' || !value.version.trim()) return 'version is required'
+  if (!Number.isInteger(value.apiLevel)) return 'apiLevel must be a whole number'
+  if (typeof value.main !== 'string' || !/\.m?js$/.test(value.main) || value.main.split(/[\\/]/).includes('..')) {
+    return 'main must be a .js or .mjs file inside the plugin folder'
+  }
+  return null
+}
+
+// True when this app provides the API level the plugin was written against
+export function isPluginApiLevelSupported(apiLevel: number): boolean {
+  return apiLevel >= MIN_PLUGIN_API_LEVEL && apiLevel <= PLUGIN_API_LEVEL
+}
@@ -0,0 +1,156 @@
+// Parsing helpers for user-supplied CSV and XLSX files
+
+export interface TabularData {
+  headers: string[]
+  rows: Array<Record<string, string>>
+}
+
+/**
+ * Splits a single CSV line into fields, honouring quoted fields and escaped quotes
+ * @param line - One line of CSV text
+ * @returns string[] - Field values
+ */
+export function parseCsvLine(line: string): string[] {
+  const result: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        // Escaped quote
+        current += '"'
+        i++ // Skip next quote
+      } else {
+        // Toggle quote state
+        inQuotes = !inQuotes
+      }
+    } else if (char === ',' && !inQuotes) {
+      // End of field
+      result.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  // Add the last field
+  result.push(current)
+
+  return result
+}
+
+/**
+ * Parses CSV text into records. Unlike parseCsvLine, quoted fields may span lines.
+ * @param text - Full CSV text (a leading byte-order mark and CRLF line endings are accepted)
+ * @returns string[][] - One array of field values per record
+ */
+export function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let current = ''
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      record.push(current)
+      current = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++
+      }
+      record.push(current)
+      records.push(record)
+      record = []
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  if (current !== '' || record.length > 0) {
+    record.push(current)
+    records.push(record)
+  }
+
+  // Drop blank lines
+  return records.filter(values => values.some(value => value.trim() !== ''))
+}
+
+/**
+ * Parses CSV text with a header row into row objects
+ * @param text - CSV text
+ * @returns TabularData - Trimmed headers and one object per data row
+ */
+export function parseCsv(text: string): TabularData {
+  const records = parseCsvRecords(text)
+  if (records.length === 0) {
+    return { headers: [], rows: [] }
+  }
+
+  const headers = records[0].map(header => header.trim())
+  return { headers, rows: records.slice(1).map(values => toRow(headers, values)) }
+}
+
+/**
+ * Parses the first worksheet of an XLSX workbook; the first row holds the headers
+ * @param data - Workbook file contents
+ * @returns Promise<TabularData> - Cell display text keyed by header
+ */
+export async function parseXlsx(data: ArrayBuffer): Promise<TabularData> {
+  // Dynamically import ExcelJS to reduce initial bundle size
+  const { default: ExcelJS } = await import('exceljs')
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(data)
+
+  const worksheet = workbook.worksheets[0]
+  if (!worksheet) {
+    return { headers: [], rows: [] }
+  }
+
+  const records: string[][] = []
+  worksheet.eachRow({ includeEmpty: false }, row => {
+    const values: string[] = []
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      values.push(row.getCell(column).text ?? '')
+    }
+    records.push(values)
+  })
+
+  if (records.length === 0) {
+    return { headers: [], rows: [] }
+  }
+
+  // Trailing columns without a header are ignored
+  const headers = records[0].map(header => header.trim())
+  while (headers.length > 0 && headers[headers.length - 1] === '') {
+    headers.pop()
+  }
+  return { headers, rows: records.slice(1).map(values => toRow(headers, values)) }
+}
+
+function toRow(headers: string[], values: string[]): Record<string, string> {
+  const row: Record<string, string> = {}
+  headers.forEach((header, index) => {
+    if (header) {
+      row[header] = (values[index] ?? '').trim()
+    }
+  })
+  return row
+}
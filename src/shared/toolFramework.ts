@@ -1,24 +1,74 @@
 import { ReactNode } from 'react'
+import { ParameterCondition, ParameterErrors, ParameterSchema, formatParameterErrors, matchesParameterCondition, validateParameterSchema } from './parameterSchema'
+import { PlannedChange } from './plannedChanges'
 
 export interface ToolConfig {
   id: string
   name: string
   description: string
+  // One line for the navigation; description is used when missing
+  summary?: string
+  // Name of a lucide icon listed in the renderer's toolIcons
   icon: string
+  // Route of the tool page, e.g. '/email-assets'
   path: string
-  category: 'assets' | 'operations' | 'analysis' | 'management'
+  category: 'assets' | 'operations' | 'analysis' | 'management' | 'data-export'
   features: string[]
   requiresAuth: boolean
   version: string
+  // Runs matching this condition change data in Eloqua, e.g. { operation: ['delete'] };
+  // {} when every run does. Pipelines ask before running such a step.
+  mutatesWhen?: ParameterCondition
+  // Runs can be planned with a dry run: every change goes through
+  // EloquaApiService and nothing the tool does later depends on a change's response
+  supportsDryRun?: boolean
+  // Why runs that change Eloqua cannot be planned, shown where the dry-run option would be
+  noDryRunReason?: string
+  // Set on tools loaded from a plugin in userData/plugins
+  pluginId?: string
 }
 
+// Outcome of one item of a batch, e.g. a CSV row or a sync ID
+export interface ToolItemEvent {
+  id: string
+  // Shown in the failed-items log instead of the ID when set
+  label?: string
+  status: 'succeeded' | 'failed'
+  error?: string
+}
+
+// Position of a run. Counts start over with each phase.
+export interface ToolProgressUpdate {
+  phase: string
+  total?: number
+  // Items finished in this phase; reportItem counts them when this is left out
+  completed?: number
+}
+
+// Eloqua API service of a run. The renderer's EloquaApiService fills in its
+// methods, so the main process can use these types without compiling it.
+export interface ToolEloquaApi {}
+
 export interface ToolExecutionContext {
+  // Session info of the signed-in user (EloquaSession); never includes the password
   credentials: any
   electronAPI: any
   showProgress: (message: string) => void
+  // Structured progress for the progress bar: start each phase, then report items as they finish
+  reportProgress: (update: ToolProgressUpdate) => void
+  reportItem: (item: ToolItemEvent) => void
   hideProgress: () => void
   showError: (error: string) => void
   showSuccess: (message: string) => void
+  // Aborted when the user presses Stop; long-running tools check it between batches
+  signal: AbortSignal
+  // Eloqua API service for this run: its calls are tagged with the run, stopped
+  // with it and follow its cache and dry-run settings
+  eloquaApi: ToolEloquaApi
+  // Set for a dry run: EloquaApiService records changes instead of sending them.
+  // Tools may still read from Eloqua to plan, e.g. look up dependencies that a
+  // real run would only learn about from a failed request.
+  dryRun: boolean
 }
 
 export interface ToolResult {
@@ -27,10 +77,17 @@ export interface ToolResult {
   error?: string
   message?: string
   exportPath?: string
+  // Set when the run was stopped early; data then holds the partial results
+  cancelled?: boolean
+  // Set when the parameters were rejected before the run started
+  fieldErrors?: ParameterErrors
+  // Changes a dry run recorded instead of sending; see plannedChanges.ts
+  plannedChanges?: PlannedChange[]
 }
 
+// Custom page for a tool. It runs the tool itself through useTool.
 export interface ToolComponent {
-  render: (context: ToolExecutionContext) => ReactNode
+  render: () => ReactNode
 }
 
 export abstract class BaseTool {
@@ -45,9 +102,28 @@ export abstract class BaseTool {
   }
 
   abstract execute(context: ToolExecutionContext, parameters?: any): Promise<ToolResult>
-  abstract validateParameters(parameters: any): boolean
-  abstract getParameterSchema(): any
-  abstract getComponent(): ToolComponent
+  abstract getParameterSchema(): ParameterSchema
+
+  // Tools without a custom page get a form generated from their parameter schema
+  getComponent(): ToolComponent | null {
+    return null
+  }
+
+  /**
+   * Checks parameters against getParameterSchema(). Tools override it to add
+   * rules that span several fields and cannot be written in the schema.
+   * @param parameters - Parameters of the run
+   * @returns ParameterErrors - One message per invalid field; empty when valid
+   */
+  validateParameters(parameters: any): ParameterErrors {
+    return validateParameterSchema(this.getParameterSchema(), parameters || {})
+  }
+
+  // True when a run with these parameters changes data in Eloqua
+  isMutating(parameters: any): boolean {
+    const { mutatesWhen } = this.config
+    return !!mutatesWhen && matchesParameterCondition(this.getParameterSchema(), mutatesWhen, parameters || {})
+  }
 }
 
 export class ToolRegistry {
@@ -96,15 +172,34 @@ export class ToolExecutor {
     try {
       context.showProgress(`Executing ${tool.getConfig().name}...`)
       
-      if (!tool.validateParameters(parameters)) {
+      if (context.dryRun && !tool.getConfig().supportsDryRun) {
+        const reason = tool.getConfig().noDryRunReason
         return {
           success: false,
-          error: 'Invalid parameters provided'
+          error: `${tool.getConfig().name} cannot plan its changes in a dry run${reason ? `: ${reason}` : ''}`
+        }
+      }
+
+      const fieldErrors = tool.validateParameters(parameters)
+      if (Object.keys(fieldErrors).length > 0) {
+        return {
+          success: false,
+          error: formatParameterErrors(fieldErrors),
+          fieldErrors
         }
       }
 
       const result = await tool.execute(context, parameters)
       
+      if (context.signal.aborted && !result.cancelled) {
+        // The tool did not handle cancellation itself; keep whatever it returned
+        result.cancelled = true
+      }
+
+      if (result.cancelled) {
+        return result
+      }
+
       if (result.success) {
         context.showSuccess(result.message || 'Operation completed successfully')
       } else {
@@ -113,6 +208,14 @@ export class ToolExecutor {
       
       return result
     } catch (error) {
+      if (context.signal.aborted) {
+        return {
+          success: false,
+          cancelled: true,
+          error: 'Run cancelled'
+        }
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       context.showError(errorMessage)
       return {
@@ -0,0 +1,61 @@
+import type { ToolItemEvent, ToolResult } from './toolFramework'
+
+export type ToolJobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+// One line of the run history. Parameters and the result payload are kept in
+// the full record only, so the list stays small.
+export interface ToolJobSummary {
+  id: string
+  toolId: string
+  toolName: string
+  status: ToolJobStatus
+  // ISO 8601
+  startedAt: string
+  endedAt?: string
+  // Result message, or the error of a failed run
+  summary?: string
+  // Rows in the result data when it is a list
+  itemCount?: number
+  failedItemCount: number
+}
+
+// Everything stored for a finished run under userData
+export interface ToolJobRecord extends ToolJobSummary {
+  parameters: Record<string, unknown>
+  result: ToolResult
+  failedItems: ToolItemEvent[]
+}
+
+/**
+ * Builds the stored record of a finished run
+ * @param job - Id, tool and timing of the run
+ * @param result - What the tool returned
+ * @param failedItems - Items the tool reported as failed
+ * @returns ToolJobRecord - Record with its status and summary filled in
+ */
+export function createToolJobRecord(
+  job: Pick<ToolJobRecord, 'id' | 'toolId' | 'toolName' | 'startedAt' | 'parameters'>,
+  result: ToolResult,
+  failedItems: ToolItemEvent[]
+): ToolJobRecord {
+  return {
+    ...job,
+    status: result.cancelled ? 'cancelled' : result.success ? 'succeeded' : 'failed',
+    endedAt: new Date().toISOString(),
+    summary: result.success ? result.message : result.error || result.message,
+    itemCount: Array.isArray(result.data) ? result.data.length : undefined,
+    failedItemCount: failedItems.length,
+    result,
+    failedItems
+  }
+}
+
+/**
+ * Drops the record-only fields of a run
+ * @param record - Stored record
+ * @returns ToolJobSummary - Line for the run history
+ */
+export function toToolJobSummary(record: ToolJobSummary): ToolJobSummary {
+  const { id, toolId, toolName, status, startedAt, endedAt, summary, itemCount, failedItemCount } = record
+  return { id, toolId, toolName, status, startedAt, endedAt, summary, itemCount, failedItemCount }
+}
@@ -0,0 +1,128 @@
+import { ParameterSchema } from './parameterSchema'
+import { parseRelativeDate, resolveRelativeDate } from './filterExpression'
+
+// Presets are named form values for one tool, e.g. "Drafts updated by the
+// agency user in the last 30 days". Date fields may hold a relative date such
+// as now-30d, which becomes a calendar date when the preset is applied. Presets
+// are kept in userData/presets.json and shared as JSON files.
+
+export interface ToolPreset {
+  id: string
+  name: string
+  toolId: string
+  // Form values of the tool; date fields may be relative, e.g. "now-30d"
+  formData: Record<string, unknown>
+  // ISO 8601
+  createdAt: string
+  updatedAt: string
+}
+
+// Marks a JSON file as presets exported by this app
+export const PRESET_FILE_TYPE = 'eloqua-admin-toolbox-presets'
+
+export interface ToolPresetFile {
+  type: typeof PRESET_FILE_TYPE
+  version: 1
+  presets: ToolPreset[]
+}
+
+// Presets read from one file
+export const MAX_IMPORTED_PRESETS = 200
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A date input's value, YYYY-MM-DD, in local time
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function getDateFields(schema: ParameterSchema): string[] {
+  return Object.keys(schema).filter(fieldName => schema[fieldName].type === 'string' && schema[fieldName].format === 'date')
+}
+
+/**
+ * Form values of a preset as of now: relative dates become calendar dates
+ * @param formData - Form values stored in the preset
+ * @param schema - Parameter schema of the preset's tool
+ * @param now - Moment relative dates count from
+ * @returns Record<string, unknown> - Form values ready for the tool's form
+ */
+export function resolvePresetFormData(formData: Record<string, unknown>, schema: ParameterSchema, now: Date): Record<string, unknown> {
+  const resolved = { ...formData }
+  for (const fieldName of getDateFields(schema)) {
+    const relative = typeof resolved[fieldName] === 'string' ? parseRelativeDate(resolved[fieldName] as string) : null
+    if (relative) {
+      resolved[fieldName] = formatDate(new Date(resolveRelativeDate(relative, now)))
+    }
+  }
+  return resolved
+}
+
+/**
+ * Turns the calendar dates of a form into dates relative to today, e.g. a date
+ * 30 days ago into "now-30d", so a preset keeps looking back the same distance
+ * @param formData - Form values
+ * @param schema - Parameter schema of the tool
+ * @param now - Today
+ * @returns Record<string, unknown> - Form values to store in a preset
+ */
+export function toRelativeFormData(formData: Record<string, unknown>, schema: ParameterSchema, now: Date): Record<string, unknown> {
+  const relative = { ...formData }
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  for (const fieldName of getDateFields(schema)) {
+    const match = typeof relative[fieldName] === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(relative[fieldName] as string) : null
+    if (!match) continue
+    // Rounded, so a daylight saving change in between does not shift the count
+    const days = Math.round((new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime() - today.getTime()) / DAY_MS)
+    relative[fieldName] = days === 0 ? 'now' : `now${days > 0 ? '+' : '-'}${Math.abs(days)}d`
+  }
+  return relative
+}
+
+export function validateToolPreset(value: any): string | null {
+  if (!value || typeof value !== 'object') return 'A preset must be an object'
+  if (typeof value.id !== 'string' || !/^preset-[a-z0-9-]{1,80}$/.test(value.id)) return 'Invalid preset id'
+  if (typeof value.name !== 'string' || !value.name.trim()) return 'A preset needs a name'
+  if (typeof value.toolId !== 'string' || !value.toolId) return 'A preset needs a tool'
+  if (!value.formData || typeof value.formData !== 'object' || Array.isArray(value.formData)) {
+    return 'Preset values must be an object'
+  }
+  return null
+}
+
+export function createToolPresetFile(presets: ToolPreset[]): ToolPresetFile {
+  return { type: PRESET_FILE_TYPE, version: 1, presets }
+}
+
+/**
+ * Reads presets from an exported file
+ * @param content - File content
+ * @returns ToolPreset[] - Presets in the file
+ * @throws Error - When the file is not a presets file or a preset is invalid
+ */
+export function parseToolPresetFile(content: string): ToolPreset[] {
+  let file: any
+  try {
+    file = JSON.parse(content)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+  if (file?.type !== PRESET_FILE_TYPE || !Array.isArray(file.presets)) {
+    throw new Error('The file does not contain presets exported from this app')
+  }
+  if (file.version !== 1) {
+    throw new Error(`Presets file version ${file.version} is not supported`)
+  }
+  if (file.presets.length > MAX_IMPORTED_PRESETS) {
+    throw new Error(`A presets file can hold at most ${MAX_IMPORTED_PRESETS} presets`)
+  }
+
+  file.presets.forEach((preset: unknown, index: number) => {
+    const problem = validateToolPreset(preset)
+    if (problem) {
+      throw new Error(`Preset ${index + 1}: ${problem}`)
+    }
+  })
+  return file.presets
+}
@@ -0,0 +1,103 @@
+import { ToolItemEvent, ToolProgressUpdate } from './toolFramework'
+
+export interface ToolProgress {
+  phase: string
+  total?: number
+  completed: number
+  succeeded: number
+  failed: number
+  // Items per second since the phase started
+  throughput: number
+  // Time left at the current throughput; undefined until it can be estimated
+  etaMs?: number
+}
+
+// Short duration for progress and run history, e.g. "3m 20s"
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+// Throughput is too noisy to show before this much of a phase has passed
+const MIN_ELAPSED_FOR_RATE_MS = 1000
+
+/**
+ * Turns the progress updates and item events of one run into the numbers the
+ * progress bar shows. Failed items are kept for the whole run; counts and
+ * throughput start over with each phase.
+ */
+export class ToolProgressTracker {
+  private phase = ''
+  private total: number | undefined
+  private completed = 0
+  private succeeded = 0
+  private failed = 0
+  private phaseStartedAt = 0
+  private failedItems: ToolItemEvent[] = []
+
+  /**
+   * Applies a progress update. A new phase resets the counts.
+   * @param update - Phase, total and optionally the completed count
+   * @param now - Current time in milliseconds
+   */
+  update(update: ToolProgressUpdate, now: number = Date.now()) {
+    if (update.phase !== this.phase) {
+      this.phase = update.phase
+      this.phaseStartedAt = now
+      this.total = undefined
+      this.completed = 0
+      this.succeeded = 0
+      this.failed = 0
+    }
+    if (update.total !== undefined) {
+      this.total = update.total
+    }
+    if (update.completed !== undefined) {
+      this.completed = update.completed
+    }
+  }
+
+  /**
+   * Counts one finished item of the current phase
+   * @param item - Outcome of the item
+   */
+  recordItem(item: ToolItemEvent) {
+    this.completed++
+    if (item.status === 'succeeded') {
+      this.succeeded++
+    } else {
+      this.failed++
+      this.failedItems.push(item)
+    }
+  }
+
+  getFailedItems(): ToolItemEvent[] {
+    return [...this.failedItems]
+  }
+
+  /**
+   * Current numbers, or null before the tool reported a phase
+   * @param now - Current time in milliseconds
+   * @returns ToolProgress | null - Counts, throughput and ETA of the current phase
+   */
+  getProgress(now: number = Date.now()): ToolProgress | null {
+    if (!this.phase) return null
+
+    const elapsedMs = now - this.phaseStartedAt
+    const throughput = elapsedMs >= MIN_ELAPSED_FOR_RATE_MS ? this.completed / (elapsedMs / 1000) : 0
+    const remaining = this.total !== undefined ? Math.max(0, this.total - this.completed) : undefined
+
+    return {
+      phase: this.phase,
+      total: this.total,
+      completed: this.completed,
+      succeeded: this.succeeded,
+      failed: this.failed,
+      throughput,
+      etaMs: remaining !== undefined && throughput > 0 ? (remaining / throughput) * 1000 : undefined
+    }
+  }
+}
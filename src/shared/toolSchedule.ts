@@ -0,0 +1,92 @@
+import { validateCronExpression } from './cronExpression'
+
+// Schedules run a tool with saved parameters on a cron schedule while the app
+// or its tray icon is running. Runs happen in the main process, signed in with
+// an account stored in the keychain. Schedules and their recent runs are kept
+// in userData/schedules.json.
+
+export interface ToolSchedule {
+  id: string
+  name: string
+  toolId: string
+  parameters: Record<string, unknown>
+  // Cron expression; see cronExpression.ts
+  cron: string
+  enabled: boolean
+  // Keychain account the runs sign in with
+  siteName: string
+  username: string
+  // Folder the dated output files are written to
+  outputDir: string
+  // Runs kept with their output files; older ones are deleted
+  keepRuns: number
+  // Must be set for runs that change data in Eloqua
+  allowChanges: boolean
+  // ISO 8601
+  createdAt: string
+  updatedAt: string
+}
+
+export type ToolScheduleRunStatus = 'succeeded' | 'failed' | 'cancelled'
+
+export interface ToolScheduleRun {
+  // Run in the Jobs history
+  jobId: string
+  // ISO 8601
+  startedAt: string
+  endedAt: string
+  status: ToolScheduleRunStatus
+  // Result message, or the error of a failed run
+  summary?: string
+  // Files written by the run
+  outputPaths: string[]
+}
+
+// A schedule as shown on the Schedules page
+export interface ToolScheduleStatus {
+  schedule: ToolSchedule
+  // ISO 8601; unset when the schedule is off or never runs
+  nextRunAt?: string
+  running: boolean
+  // Newest first
+  runs: ToolScheduleRun[]
+}
+
+export const MAX_KEPT_RUNS = 100
+
+/**
+ * Builds a dated file name for a scheduled run's output, e.g.
+ * weekly-field-export-2024-05-06-0600.csv
+ * @param name - Schedule name or the file name a tool chose
+ * @param date - Start of the run
+ * @param extension - Extension without the dot
+ * @returns string - File name safe on every platform
+ */
+export function getDatedFileName(name: string, date: Date, extension: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'run'
+  const pad = (value: number) => String(value).padStart(2, '0')
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`
+  return `${slug}-${stamp}.${extension}`
+}
+
+export function validateToolSchedule(value: any): string | null {
+  if (!value || typeof value !== 'object') return 'A schedule must be an object'
+  if (typeof value.id !== 'string' || !/^schedule-[a-z0-9-]{1,80}$/.test(value.id)) return 'Invalid schedule id'
+  if (typeof value.name !== 'string' || !value.name.trim()) return 'A schedule needs a name'
+  if (typeof value.toolId !== 'string' || !value.toolId) return 'A schedule needs a tool'
+  if (!value.parameters || typeof value.parameters !== 'object' || Array.isArray(value.parameters)) {
+    return 'Schedule parameters must be an object'
+  }
+  if (typeof value.cron !== 'string') return 'A schedule needs a cron expression'
+  const cronProblem = validateCronExpression(value.cron)
+  if (cronProblem) return `Schedule: ${cronProblem}`
+  if (typeof value.enabled !== 'boolean' || typeof value.allowChanges !== 'boolean') return 'Invalid schedule settings'
+  if (typeof value.siteName !== 'string' || !value.siteName || typeof value.username !== 'string' || !value.username) {
+    return 'A schedule needs the account it signs in with'
+  }
+  if (typeof value.outputDir !== 'string' || !value.outputDir) return 'A schedule needs an output folder'
+  if (!Number.isInteger(value.keepRuns) || value.keepRuns < 1 || value.keepRuns > MAX_KEPT_RUNS) {
+    return `Runs to keep must be between 1 and ${MAX_KEPT_RUNS}`
+  }
+  return null
+}
@@ -6,6 +6,35 @@ export interface EloquaCredentials {
   userId?: string
 }
 
+// Renderer-side view of a signed-in session. The password never leaves the
+// main process; API calls carry only the opaque sessionId.
+export interface EloquaSession {
+  sessionId: string
+  siteName: string
+  username: string
+  baseUrl: string
+  userId?: string
+  authMethod: EloquaAuthMethod
+}
+
+// 'demo' sessions talk to the local mock instance started by the main process
+export type EloquaAuthMethod = 'basic' | 'oauth' | 'demo'
+
+// Failures the demo instance reproduces on request
+export interface EloquaDemoSimulation {
+  // Answer every Nth API request with 429 Too Many Requests (0 or unset = off)
+  throttleEvery?: number
+  // Answer every request with 401 once this many have been served (0 or unset = off)
+  expireSessionAfter?: number
+}
+
+// What the login screen sends to the main process to open a session
+export type EloquaLoginRequest =
+  | { method: 'basic'; siteName: string; username: string; password: string }
+  | { method: 'oauth-password'; siteName: string; username: string; password: string; clientId: string; clientSecret: string }
+  | { method: 'oauth-code'; clientId: string; clientSecret: string; redirectPort?: number }
+  | { method: 'demo'; simulation?: EloquaDemoSimulation }
+
 export interface EloquaLoginResponse {
   site: {
     id: string
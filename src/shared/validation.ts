@@ -310,7 +310,55 @@ export class InputValidator {
       sanitizedValue: sanitizedLines.join('\n')
     }
   }
-  
+
+  /**
+   * Validates parsed rows that will be written into Eloqua (e.g. bulk imports).
+   * Values are kept verbatim apart from stripping script and HTML tags; escaping
+   * entities here would change the data that lands in the instance.
+   */
+  static validateTabularData(headers: string[], rows: Array<Record<string, string>>, maxRows: number = 1000000): ValidationResult {
+    const errors: string[] = []
+
+    if (!Array.isArray(headers) || headers.length === 0 || headers.every(header => !header)) {
+      errors.push('Data must have a header row')
+      return { isValid: false, errors }
+    }
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      errors.push('Data must contain at least one data row')
+      return { isValid: false, errors }
+    }
+
+    if (rows.length > maxRows) {
+      errors.push(`Data has ${rows.length} rows; the maximum is ${maxRows}`)
+    }
+
+    const seen = new Set<string>()
+    for (const header of headers) {
+      const key = header.toLowerCase()
+      if (header && seen.has(key)) {
+        errors.push(`Duplicate column: ${header}`)
+      }
+      seen.add(key)
+    }
+
+    const sanitizedRows = rows.map(row => {
+      const sanitizedRow: Record<string, string> = {}
+      for (const [key, value] of Object.entries(row)) {
+        sanitizedRow[key] = String(value ?? '')
+          .replace(this.SCRIPT_REGEX, '')
+          .replace(this.HTML_TAGS_REGEX, '')
+      }
+      return sanitizedRow
+    })
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      sanitizedValue: sanitizedRows
+    }
+  }
+
   /**
    * Validates numeric input
    */
@@ -476,7 +524,8 @@ export class EloquaApiValidator {
       '/api/bulk/2.0/'
     ]
     
-    const isAllowedPath = allowedPaths.some(path => trimmedEndpoint.startsWith(path))
+    // Eloqua paths are case-insensitive (/API/REST/... and /api/rest/... are both valid)
+    const isAllowedPath = allowedPaths.some(path => trimmedEndpoint.toLowerCase().startsWith(path.toLowerCase()))
     
     if (!isAllowedPath) {
       errors.push('API endpoint is not in allowed paths')
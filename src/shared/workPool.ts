@@ -0,0 +1,167 @@
+import { isEloquaApiError } from './apiErrors'
+
+export interface WorkPoolProgress {
+  total: number
+  completed: number
+  succeeded: number
+  failed: number
+  inFlight: number
+}
+
+export type WorkItemResult<T, R> = {
+  item: T
+  index: number
+  attempts: number
+} & (
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; error: unknown }
+  // Not started because the run was stopped first
+  | { status: 'skipped' }
+)
+
+export interface WorkPoolOptions<T, R> {
+  // Items worked on at the same time (default 5)
+  concurrency?: number
+  // Item starts per second. The budget is shared by every pool that uses the same rateKey.
+  requestsPerSecond?: number
+  // Pools with the same key draw from one budget; use the Eloqua base URL to share it across the instance
+  rateKey?: string
+  // Extra attempts per item after the first one fails (default 0)
+  retries?: number
+  retryDelayMs?: number
+  // Decides whether a failed attempt is tried again (default: anything but a cancellation)
+  shouldRetry?: (error: unknown, item: T, attempt: number) => boolean
+  // Stops starting new items; items already running finish or are aborted by their own calls
+  signal?: AbortSignal
+  onProgress?: (progress: WorkPoolProgress) => void
+  onItemComplete?: (result: WorkItemResult<T, R>) => void
+}
+
+// Next free start time per rate key, shared by every pool in this process
+const rateBudgets = new Map<string, number>()
+
+function isCancellation(error: unknown): boolean {
+  if (isEloquaApiError(error)) {
+    return error.isAborted()
+  }
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms)
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    signal?.addEventListener('abort', done)
+  })
+}
+
+// Reserves the next start slot of a rate budget and waits for it
+async function takeRateSlot(key: string, requestsPerSecond: number, signal?: AbortSignal): Promise<void> {
+  const now = Date.now()
+  const slot = Math.max(now, rateBudgets.get(key) || 0)
+  rateBudgets.set(key, slot + 1000 / requestsPerSecond)
+  if (slot > now) {
+    await sleep(slot - now, signal)
+  }
+}
+
+/**
+ * Runs a worker over a list of items with a fixed number of workers. A new item
+ * starts as soon as any running item finishes, so one slow request never holds
+ * up the rest the way batch-then-wait loops do.
+ * @param items - Items to process
+ * @param worker - Processes one item; a thrown error marks the item as rejected
+ * @param options - Concurrency, shared rate budget, retries, cancellation and progress callbacks
+ * @returns Promise<WorkItemResult[]> - One result per item, in the order of the input
+ */
+export async function runWorkPool<T, R>(
+  items: readonly T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: WorkPoolOptions<T, R> = {}
+): Promise<Array<WorkItemResult<T, R>>> {
+  const concurrency = Math.max(1, Math.floor(options.concurrency || 5))
+  const retries = Math.max(0, options.retries || 0)
+  const shouldRetry = options.shouldRetry || ((error: unknown) => !isCancellation(error))
+  const { signal } = options
+
+  const results: Array<WorkItemResult<T, R>> = new Array(items.length)
+  const progress: WorkPoolProgress = { total: items.length, completed: 0, succeeded: 0, failed: 0, inFlight: 0 }
+  let nextIndex = 0
+
+  const runItem = async (index: number): Promise<WorkItemResult<T, R>> => {
+    const item = items[index]
+    let attempts = 0
+
+    while (true) {
+      if (options.requestsPerSecond && options.requestsPerSecond > 0) {
+        await takeRateSlot(options.rateKey || 'default', options.requestsPerSecond, signal)
+      }
+      if (signal?.aborted && attempts === 0) {
+        return { item, index, attempts, status: 'skipped' }
+      }
+
+      attempts++
+      try {
+        return { item, index, attempts, status: 'fulfilled', value: await worker(item, index) }
+      } catch (error) {
+        if (attempts > retries || signal?.aborted || !shouldRetry(error, item, attempts)) {
+          return { item, index, attempts, status: 'rejected', error }
+        }
+        if (options.retryDelayMs) {
+          await sleep(options.retryDelayMs * attempts, signal)
+        }
+      }
+    }
+  }
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      if (signal?.aborted) {
+        results[index] = { item: items[index], index, attempts: 0, status: 'skipped' }
+        continue
+      }
+
+      progress.inFlight++
+      const result = await runItem(index)
+      progress.inFlight--
+      results[index] = result
+
+      if (result.status !== 'skipped') {
+        progress.completed++
+        if (result.status === 'fulfilled') {
+          progress.succeeded++
+        } else {
+          progress.failed++
+        }
+        options.onItemComplete?.(result)
+        options.onProgress?.({ ...progress })
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runWorker))
+  return results
+}
+
+/**
+ * Collects the values of the items that succeeded, in input order
+ * @param results - Results returned by runWorkPool
+ * @returns R[] - Values of fulfilled items
+ */
+export function fulfilledValues<T, R>(results: Array<WorkItemResult<T, R>>): R[] {
+  return results.flatMap(result => result.status === 'fulfilled' ? [result.value] : [])
+}
+
+/**
+ * Turns a tool's "delay between requests" setting into a rate budget
+ * @param delayMs - Minimum gap between item starts
+ * @returns number | undefined - Item starts per second, or undefined for no limit
+ */
+export function requestsPerSecondFromDelay(delayMs: number | undefined): number | undefined {
+  return delayMs && delayMs > 0 ? 1000 / delayMs : undefined
+}
@@ -1,5 +1,6 @@
-import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent, ParameterValidator } from '../shared/toolFramework'
-import eloquaApiService from '../renderer/services/eloquaApi'
+import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult } from '../shared/toolFramework'
+import { ParameterSchema } from '../shared/parameterSchema'
+import { runWorkPool } from '../shared/workPool'
 
 interface AssetDependencyParameters {
   assetType: 'email' | 'form' | 'landingpage' | 'contactfield' | 'segment' | 'sharedfilter' | 'sharedlist'
@@ -9,45 +10,6 @@ interface AssetDependencyParameters {
   maxResults?: number
 }
 
-interface AssetDependencySchema {
-  assetType: {
-    type: 'string'
-    required: true
-    enum: ['email', 'form', 'landingpage', 'contactfield', 'segment', 'sharedfilter', 'sharedlist']
-    description: 'Type of assets to analyze (bulk analysis only supported for emails and forms)'
-    category: 'basic'
-  }
-  assetId: {
-    type: 'string'
-    required: false
-    description: 'Specific asset ID to analyze (required for landingpage, contactfield, segment, etc.)'
-    category: 'basic'
-  }
-  includeNestedDependencies: {
-    type: 'boolean'
-    required: false
-    default: false
-    description: 'Include dependencies of dependencies (slower but finds nested relationships)'
-    category: 'basic'
-  }
-  exportFormat: {
-    type: 'string'
-    required: true
-    enum: ['csv', 'json']
-    default: 'csv'
-    description: 'Export format for results'
-    category: 'basic'
-  }
-  maxResults: {
-    type: 'number'
-    required: false
-    default: 25
-    min: 1
-    max: 5000
-    description: 'Maximum number of assets to analyze'
-    category: 'advanced'
-  }
-}
 
 class AssetDependencyTool extends BaseTool {
   constructor() {
@@ -55,6 +17,7 @@ class AssetDependencyTool extends BaseTool {
       id: 'asset-dependency-tool',
       name: 'Dependency Analyzer',
       description: 'Analyze dependencies between Eloqua assets (emails, forms, images)',
+      summary: 'Analyze asset relationships',
       icon: 'Link',
       path: '/dependencies',
       category: 'analysis',
@@ -72,39 +35,7 @@ class AssetDependencyTool extends BaseTool {
     super(config)
   }
 
-  validateParameters(parameters: AssetDependencyParameters): boolean {
-    if (!parameters) return false
-
-    // Validate asset type
-    if (!ParameterValidator.isRequired(parameters.assetType) ||
-        !['email', 'form', 'landingpage', 'contactfield', 'segment', 'sharedfilter', 'sharedlist'].includes(parameters.assetType)) {
-      return false
-    }
-
-    // Validate that unsupported bulk asset types have an asset ID
-    const supportedBulkTypes = ['email', 'form']
-    if (!supportedBulkTypes.includes(parameters.assetType) && !parameters.assetId) {
-      return false
-    }
-
-    // Validate export format
-    if (!ParameterValidator.isRequired(parameters.exportFormat) ||
-        !['csv', 'json'].includes(parameters.exportFormat)) {
-      return false
-    }
-
-    // Validate max results
-    if (parameters.maxResults !== undefined && 
-        (!ParameterValidator.isNumber(parameters.maxResults) || 
-         parameters.maxResults < 1 || 
-         parameters.maxResults > 5000)) {
-      return false
-    }
-
-    return true
-  }
-
-  getParameterSchema(): AssetDependencySchema {
+  getParameterSchema(): ParameterSchema {
     return {
       assetType: {
         type: 'string',
@@ -116,6 +47,11 @@ class AssetDependencyTool extends BaseTool {
       assetId: {
         type: 'string',
         required: false,
+        // Bulk analysis only covers emails and forms; other types need a single asset
+        requiredWhen: { assetType: ['landingpage', 'contactfield', 'segment', 'sharedfilter', 'sharedlist'] },
+        title: 'Asset ID',
+        pattern: '^\\d+$',
+        errorMessage: 'Asset ID must be numeric',
         description: 'Specific asset ID to analyze (required for landingpage, contactfield, segment, etc.)',
         category: 'basic'
       },
@@ -135,11 +71,11 @@ class AssetDependencyTool extends BaseTool {
         category: 'basic'
       },
       maxResults: {
-        type: 'number',
+        type: 'integer',
         required: false,
         default: 25,
-        min: 1,
-        max: 5000,
+        minimum: 1,
+        maximum: 5000,
         description: 'Maximum number of assets to analyze',
         category: 'advanced'
       }
@@ -149,7 +85,7 @@ class AssetDependencyTool extends BaseTool {
   async execute(context: ToolExecutionContext, parameters: AssetDependencyParameters): Promise<ToolResult> {
     try {
       // Initialize API service if needed
-      if (!eloquaApiService) {
+      if (!context.eloquaApi) {
         throw new Error('Eloqua API service not initialized')
       }
 
@@ -169,7 +105,7 @@ class AssetDependencyTool extends BaseTool {
         // Analyze specific asset
         context.showProgress(`Analyzing specific ${assetType} asset: ${assetId}`)
         try {
-          const dependencies = await eloquaApiService.getAssetDependencies(assetType, assetId)
+          const dependencies = await context.eloquaApi.getAssetDependencies(assetType, assetId)
           
           // Initialize empty reverse dependencies (not implemented)
           let usedBy = []
@@ -219,11 +155,11 @@ class AssetDependencyTool extends BaseTool {
             
             switch (type) {
               case 'email':
-                const emailsResponse = await eloquaApiService.getEmails(undefined, 1, Math.min(maxResults, 200))
+                const emailsResponse = await context.eloquaApi.getEmails(undefined, 1, Math.min(maxResults, 200))
                 assets = emailsResponse.elements || []
                 break
               case 'form':
-                const formsResponse = await eloquaApiService.getForms(undefined, 1, Math.min(maxResults, 200))
+                const formsResponse = await context.eloquaApi.getForms(undefined, 1, Math.min(maxResults, 200))
                 assets = formsResponse.elements || []
                 break
               default:
@@ -241,12 +177,25 @@ class AssetDependencyTool extends BaseTool {
             // Limit assets to analyze
             const assetsToAnalyze = assets.slice(0, Math.min(maxResults, 50)) // Limit for performance
             
-            const assetDependencies = await eloquaApiService.getMultipleAssetDependencies(
+            context.reportProgress({ phase: `Analyzing ${type} dependencies`, total: assetsToAnalyze.length })
+
+            const assetDependencies = await context.eloquaApi.getMultipleAssetDependencies(
               assetsToAnalyze.map(asset => ({
                 type,
                 id: asset.id,
                 name: asset.name
-              }))
+              })),
+              result => {
+                if (result.status === 'skipped') return
+                context.reportItem({
+                  id: result.item.id,
+                  label: result.item.name,
+                  status: result.status === 'fulfilled' ? 'succeeded' : 'failed',
+                  error: result.status === 'rejected'
+                    ? (result.error instanceof Error ? result.error.message : 'Unknown error')
+                    : undefined
+                })
+              }
             )
             
             results.push(...assetDependencies)
@@ -272,6 +221,15 @@ class AssetDependencyTool extends BaseTool {
 
       context.showProgress('Preparing results...')
 
+      if (context.signal.aborted) {
+        return {
+          success: true,
+          cancelled: true,
+          data: processedResults,
+          message: `Analysis stopped: dependencies analyzed for ${processedResults.length} assets`
+        }
+      }
+
       return {
         success: true,
         data: processedResults,
@@ -294,6 +252,8 @@ class AssetDependencyTool extends BaseTool {
     const processed = []
 
     for (let i = 0; i < results.length; i++) {
+      if (context.signal.aborted) break
+
       const result = results[i]
       context.showProgress(`Processing asset ${i + 1}/${results.length}: ${result.name}`)
 
@@ -341,6 +301,7 @@ class AssetDependencyTool extends BaseTool {
 
 
       processed.push(processedResult)
+      context.reportProgress({ phase: 'Processing results', total: results.length, completed: processed.length })
     }
 
     // Sort by dependency count (most dependencies first)
@@ -360,27 +321,32 @@ class AssetDependencyTool extends BaseTool {
       const currentLevelDeps = allDependencies.filter(dep => !processed.has(`${dep.id}-${depth}`))
       if (currentLevelDeps.length === 0) break
       
-      for (const dep of currentLevelDeps) {
-        if (processed.has(`${dep.id}-${depth}`)) continue
-        processed.add(`${dep.id}-${depth}`)
-        
-        try {
-          const nestedDeps = await eloquaApiService.getAssetDependencies(dep.type, dep.id)
-          
-          // Add nested dependencies with depth information
-          for (const nestedDep of nestedDeps) {
-            const depKey = `${nestedDep.id}-${nestedDep.type}`
-            if (!allDependencies.some(existing => `${existing.id}-${existing.type}` === depKey)) {
-              allDependencies.push({
-                ...nestedDep,
-                depth,
-                parentId: dep.id,
-                parentName: dep.name
-              })
-            }
+      currentLevelDeps.forEach(dep => processed.add(`${dep.id}-${depth}`))
+      const levelResults = await runWorkPool(
+        currentLevelDeps,
+        (dep): Promise<any[]> => context.eloquaApi.getAssetDependencies(dep.type, dep.id),
+        { rateKey: context.credentials?.baseUrl, signal: context.signal }
+      )
+
+      // Add nested dependencies with depth information, in the order of their parents
+      for (const result of levelResults) {
+        const dep = result.item
+        if (result.status === 'rejected') {
+          context.showProgress(`Warning: Could not get dependencies for ${dep.name}: ${result.error instanceof Error ? result.error.message : 'Unknown error'}`)
+          continue
+        }
+        if (result.status !== 'fulfilled') continue
+
+        for (const nestedDep of result.value) {
+          const depKey = `${nestedDep.id}-${nestedDep.type}`
+          if (!allDependencies.some(existing => `${existing.id}-${existing.type}` === depKey)) {
+            allDependencies.push({
+              ...nestedDep,
+              depth,
+              parentId: dep.id,
+              parentName: dep.name
+            })
           }
-        } catch (error) {
-          context.showProgress(`Warning: Could not get dependencies for ${dep.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
         }
       }
     }
@@ -397,13 +363,6 @@ class AssetDependencyTool extends BaseTool {
     if (dependencyCount > 2 || usageCount > 5) return 'Medium'
     return 'Low'
   }
-
-
-  getComponent(): ToolComponent {
-    return {
-      render: () => null // Will be implemented with React component
-    }
-  }
 }
 
 export default AssetDependencyTool
\ No newline at end of file
@@ -0,0 +1,390 @@
+import { createElement } from 'react'
+import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent } from '../shared/toolFramework'
+import { ParameterErrors, ParameterSchema } from '../shared/parameterSchema'
+import BulkImportComponent from '../renderer/components/BulkImportComponent'
+import { EloquaBulkImportService } from '../renderer/services/eloquaBulkApi'
+import { InputValidator } from '../shared/validation'
+import { parseCsv } from '../shared/tabularData'
+import { EloquaBulkImportEntity, EloquaBulkImportReject, EloquaBulkSyncLog, EloquaBulkUpdateRule } from '../shared/apiTypes'
+
+type BulkImportEntityType = 'contacts' | 'accounts' | 'customObject'
+
+interface BulkImportParameters {
+  operation?: 'import' | 'validate' | 'list-fields'
+  entityType?: BulkImportEntityType
+  customObjectId?: string
+  csvData?: string
+  // Pre-parsed rows, e.g. from an XLSX workbook (used instead of csvData)
+  headers?: string[]
+  rows?: Array<Record<string, string>>
+  // Source column -> field statement
+  fieldMapping?: Record<string, string>
+  identifierColumn?: string
+  updateRule?: EloquaBulkUpdateRule
+  contactMatchColumn?: string
+  definitionName?: string
+  chunkSize?: number
+}
+
+
+interface BulkImportSummary {
+  totalRows: number
+  importedRows: number
+  rejectedRows: number
+  successRate: number
+  totalProcessingTime: number
+  syncStatus: string
+}
+
+interface BulkImportRejectRow {
+  rowNumber?: number
+  statusCode?: string
+  message: string
+  invalidFields: string[]
+  data: Record<string, string>
+}
+
+class BulkImportTool extends BaseTool {
+  private readonly MAX_ROWS = 1000000
+
+  constructor() {
+    const config: ToolConfig = {
+      id: 'bulk-import-tool',
+      name: 'Bulk Import',
+      description: 'Import contacts, accounts and custom object records from CSV or XLSX files with the Bulk API',
+      summary: 'Import CSV or XLSX data with the Bulk API',
+      icon: 'Upload',
+      path: '/bulk-import',
+      category: 'operations',
+      features: [
+        'CSV and XLSX file import',
+        'Column to field mapping',
+        'Identifier field and update rule selection',
+        'Chunked upload through the Bulk API 2.0',
+        'Sync logs and rejected rows report',
+        'Automatic cleanup of import definitions'
+      ],
+      requiresAuth: true,
+      version: '1.0.0',
+      mutatesWhen: { operation: 'import' },
+      noDryRunReason: 'an import uploads its rows to a definition the run creates and then waits for Eloqua to sync them, so each step needs the response to the one before'
+    }
+    super(config)
+  }
+
+  getParameterSchema(): ParameterSchema {
+    return {
+      operation: {
+        type: 'string',
+        required: false,
+        enum: ['import', 'validate', 'list-fields'],
+        default: 'import',
+        description: 'Operation to perform',
+        category: 'basic'
+      },
+      entityType: {
+        type: 'string',
+        required: false,
+        enum: ['contacts', 'accounts', 'customObject'],
+        default: 'contacts',
+        description: 'Type of record to import',
+        category: 'basic'
+      },
+      customObjectId: {
+        type: 'string',
+        required: false,
+        requiredWhen: { entityType: 'customObject' },
+        title: 'Custom Object ID',
+        pattern: '^\\d+$',
+        errorMessage: 'Custom Object ID must be numeric',
+        description: 'Custom object id (required for custom object imports)',
+        category: 'basic'
+      },
+      csvData: {
+        type: 'string',
+        required: false,
+        requiredWhen: { operation: ['import', 'validate'] },
+        // Parsed workbook rows stand in for CSV text
+        alternatives: ['rows'],
+        title: 'CSV Data',
+        description: 'CSV data as text (alternative to file upload)',
+        category: 'basic'
+      },
+      identifierColumn: {
+        type: 'string',
+        required: false,
+        requiredWhen: { operation: 'import' },
+        description: 'Column used to match existing records',
+        category: 'basic'
+      },
+      updateRule: {
+        type: 'string',
+        required: false,
+        enum: ['always', 'ifNewIsNotNull', 'ifExistingIsNull', 'useFieldRule'],
+        default: 'always',
+        description: 'How imported values update existing records',
+        category: 'basic'
+      },
+      contactMatchColumn: {
+        type: 'string',
+        required: false,
+        description: 'Custom objects only: column holding the email address of the contact to link each record to',
+        category: 'advanced'
+      },
+      definitionName: {
+        type: 'string',
+        required: false,
+        default: 'Eloqua Admin Toolbox import',
+        description: 'Name of the import definition created in Eloqua',
+        category: 'advanced'
+      },
+      chunkSize: {
+        type: 'integer',
+        required: false,
+        default: 5000,
+        minimum: 100,
+        maximum: 50000,
+        description: 'Rows uploaded per request',
+        category: 'advanced'
+      }
+    }
+  }
+
+  validateParameters(parameters: BulkImportParameters): ParameterErrors {
+    const errors = super.validateParameters(parameters)
+    if ((parameters?.operation || 'import') !== 'import') {
+      return errors
+    }
+
+    // The mapping is built in the component, so it is checked here rather than in the schema
+    const mapping = parameters.fieldMapping || {}
+    if (Object.keys(mapping).length === 0) {
+      errors.fieldMapping = 'Map at least one column to an Eloqua field'
+    } else if (parameters.identifierColumn && !mapping[parameters.identifierColumn]) {
+      errors.identifierColumn = `Identifier column "${parameters.identifierColumn}" must be mapped to a field`
+    }
+
+    return errors
+  }
+
+  async execute(context: ToolExecutionContext, parameters: BulkImportParameters): Promise<ToolResult> {
+    try {
+      const {
+        operation = 'import',
+        entityType = 'contacts',
+        customObjectId,
+        fieldMapping = {},
+        identifierColumn,
+        updateRule = 'always',
+        contactMatchColumn,
+        definitionName = 'Eloqua Admin Toolbox import',
+        chunkSize = 5000
+      } = parameters
+
+      const entity = this.getEntity(entityType, customObjectId)
+      const bulkImportService = new EloquaBulkImportService(context.eloquaApi)
+
+      if (operation === 'list-fields') {
+        context.showProgress('Loading importable fields...')
+        const fields = await bulkImportService.listFields(entity)
+        const writableFields = fields.filter(field => !field.hasReadOnlyConstraint)
+        return {
+          success: true,
+          data: { fields: writableFields },
+          message: `Found ${writableFields.length} importable fields`
+        }
+      }
+
+      context.showProgress('Validating data...')
+      const { headers, rows } = this.loadData(parameters)
+
+      if (operation === 'validate') {
+        return {
+          success: true,
+          data: {
+            validation: {
+              totalRows: rows.length,
+              columns: headers,
+              sampleRows: rows.slice(0, 3)
+            }
+          },
+          message: `Validation complete: ${rows.length} rows with ${headers.length} columns`
+        }
+      }
+
+      // Definition field names must be simple identifiers, so columns get safe keys
+      const columnKeys = this.buildColumnKeys(Object.keys(fieldMapping))
+      const fields: Record<string, string> = {}
+      for (const [column, statement] of Object.entries(fieldMapping)) {
+        if (!headers.includes(column)) {
+          throw new Error(`Mapped column "${column}" is not in the file`)
+        }
+        fields[columnKeys[column]] = statement
+      }
+
+      if (contactMatchColumn && !fieldMapping[contactMatchColumn]) {
+        throw new Error('The contact matching column must be mapped to a field')
+      }
+
+      const importRows = rows.map(row => {
+        const importRow: Record<string, string> = {}
+        for (const column of Object.keys(fieldMapping)) {
+          importRow[columnKeys[column]] = row[column] ?? ''
+        }
+        return importRow
+      })
+
+      const startTime = performance.now()
+      const result = await bulkImportService.runImport(entity, {
+        name: definitionName,
+        fields,
+        identifierFieldName: columnKeys[identifierColumn!],
+        updateRule,
+        mapDataCardsSourceField: contactMatchColumn ? columnKeys[contactMatchColumn] : undefined
+      }, importRows, {
+        chunkSize,
+        signal: context.signal,
+        onProgress: progress => context.showProgress(progress.message)
+      })
+      const totalProcessingTime = Math.round(performance.now() - startTime)
+
+      const rejects = this.toRejectRows(result.rejects, columnKeys)
+      const summary = this.calculateSummary(rows.length, result.rowsUploaded, rejects.length, totalProcessingTime, result.syncStatus)
+      const data = {
+        summary,
+        rejects,
+        logs: result.logs,
+        definitionUri: result.definitionUri,
+        definitionDeleted: result.definitionDeleted,
+        timestamp: new Date().toISOString()
+      }
+
+      if (result.syncStatus === 'error') {
+        return {
+          success: false,
+          data,
+          error: `Import sync failed: ${this.describeErrors(result.logs) || 'see the sync logs for details'}`
+        }
+      }
+
+      if (context.signal.aborted) {
+        return {
+          success: true,
+          cancelled: true,
+          data,
+          message: `Stop was requested after the sync started, so Eloqua completed the import: ${summary.importedRows}/${summary.totalRows} rows imported`
+        }
+      }
+
+      return {
+        success: true,
+        data,
+        message: `Bulk import complete: ${summary.importedRows}/${summary.totalRows} rows imported (${summary.successRate}% success rate)`
+      }
+    } catch (error) {
+      if (context.signal.aborted) {
+        return {
+          success: false,
+          cancelled: true,
+          error: 'Import stopped before the sync started; nothing was imported'
+        }
+      }
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      }
+    }
+  }
+
+  private getEntity(entityType: BulkImportEntityType, customObjectId?: string): EloquaBulkImportEntity {
+    if (entityType === 'customObject') {
+      return { type: 'customObject', customObjectId: customObjectId || '' }
+    }
+    return { type: entityType }
+  }
+
+  private loadData(parameters: BulkImportParameters): { headers: string[], rows: Array<Record<string, string>> } {
+    const parsed = parameters.headers && parameters.rows
+      ? { headers: parameters.headers, rows: parameters.rows }
+      : parseCsv(parameters.csvData || '')
+
+    const validation = InputValidator.validateTabularData(parsed.headers, parsed.rows, this.MAX_ROWS)
+    if (!validation.isValid) {
+      throw new Error(`Data validation failed: ${validation.errors.join(', ')}`)
+    }
+
+    // Rows without any value are skipped
+    const rows = (validation.sanitizedValue as Array<Record<string, string>>)
+      .filter(row => Object.values(row).some(value => value.trim() !== ''))
+    if (rows.length === 0) {
+      throw new Error('No data rows found')
+    }
+
+    return { headers: parsed.headers.filter(header => header), rows }
+  }
+
+  private buildColumnKeys(columns: string[]): Record<string, string> {
+    const keys: Record<string, string> = {}
+    const used = new Set<string>()
+
+    for (const column of columns) {
+      let base = column.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(?=\d)/, 'F_') || 'Field'
+      base = base.substring(0, 40)
+      let key = base
+      let suffix = 2
+      while (used.has(key.toLowerCase())) {
+        key = `${base}_${suffix++}`
+      }
+      used.add(key.toLowerCase())
+      keys[column] = key
+    }
+
+    return keys
+  }
+
+  // Rejects refer to definition keys; report them with the original column names
+  private toRejectRows(rejects: EloquaBulkImportReject[], columnKeys: Record<string, string>): BulkImportRejectRow[] {
+    const columnByKey: Record<string, string> = {}
+    Object.entries(columnKeys).forEach(([column, key]) => { columnByKey[key] = column })
+
+    return rejects.map(reject => {
+      const data: Record<string, string> = {}
+      Object.entries(reject.fieldValues || {}).forEach(([key, value]) => {
+        data[columnByKey[key] || key] = value
+      })
+
+      return {
+        rowNumber: reject.recordIndex,
+        statusCode: reject.statusCode,
+        message: reject.message,
+        invalidFields: (reject.invalidFields || []).map(field => columnByKey[field] || field),
+        data
+      }
+    })
+  }
+
+  private calculateSummary(totalRows: number, rowsUploaded: number, rejectedRows: number, totalProcessingTime: number, syncStatus?: string): BulkImportSummary {
+    const importedRows = syncStatus === 'error' ? 0 : Math.max(rowsUploaded - rejectedRows, 0)
+
+    return {
+      totalRows,
+      importedRows,
+      rejectedRows,
+      successRate: totalRows > 0 ? Math.round((importedRows / totalRows) * 100 * 10) / 10 : 0,
+      totalProcessingTime,
+      syncStatus: syncStatus || 'not started'
+    }
+  }
+
+  private describeErrors(logs: EloquaBulkSyncLog[]): string {
+    return logs.filter(log => log.severity === 'error').map(log => log.message).join('; ')
+  }
+
+  getComponent(): ToolComponent {
+    return {
+      render: () => createElement(BulkImportComponent)
+    }
+  }
+}
+
+export default BulkImportTool
@@ -1,5 +1,10 @@
-import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent, ParameterValidator } from '../shared/toolFramework'
-import eloquaApiService from '../renderer/services/eloquaApi'
+import { createElement } from 'react'
+import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent } from '../shared/toolFramework'
+import { ParameterSchema } from '../shared/parameterSchema'
+import BulkSyncDeletionComponent from '../renderer/components/BulkSyncDeletionComponent'
+import { isEloquaApiError } from '../shared/apiErrors'
+import { runWorkPool, fulfilledValues, requestsPerSecondFromDelay, WorkItemResult } from '../shared/workPool'
+import { EloquaBulkSync } from '../shared/apiTypes'
 
 interface BulkSyncDeletionParameters {
   operation?: 'delete-syncs' | 'delete-contact-fields' | 'list-syncs' | 'get-usage-guide'
@@ -40,68 +45,20 @@ interface BulkSyncDeletionSummary {
   skippedSyncs: number
 }
 
-interface BulkSyncDeletionSchema {
-  operation: {
-    type: 'string'
-    required: false
-    enum: ['delete-syncs', 'delete-contact-fields', 'list-syncs', 'get-usage-guide']
-    default: 'delete-syncs'
-    description: 'Operation to perform'
-    category: 'basic'
-  }
-  syncIds: {
-    type: 'array'
-    required: false
-    description: 'Array of sync IDs to delete'
-    category: 'basic'
-  }
-  contactFieldIds: {
-    type: 'array'
-    required: false
-    description: 'Array of contact field IDs to delete (with dependency resolution)'
-    category: 'basic'
-  }
-  csvData: {
-    type: 'string'
-    required: false
-    description: 'CSV data containing sync IDs (one per line or comma-separated)'
-    category: 'basic'
-  }
-  batchSize: {
-    type: 'number'
-    required: false
-    default: 5
-    min: 1
-    max: 20
-    description: 'Number of syncs to process in each batch'
-    category: 'advanced'
-  }
-  delayBetweenRequests: {
-    type: 'number'
-    required: false
-    default: 200
-    min: 0
-    max: 5000
-    description: 'Delay in milliseconds between API requests'
-    category: 'advanced'
-  }
-  maxConcurrentRequests: {
-    type: 'number'
-    required: false
-    default: 3
-    min: 1
-    max: 10
-    description: 'Maximum concurrent API requests'
-    category: 'advanced'
-  }
+// Request pacing shared by the deletions of a run and the dependency deletions they make
+interface DeletionPacing {
+  delayBetweenRequests: number
+  maxConcurrentRequests: number
 }
 
+
 class BulkSyncDeletionTool extends BaseTool {
   constructor() {
     const config: ToolConfig = {
       id: 'bulk-sync-deletion-tool',
       name: 'Bulk Sync Deletion',
       description: 'Delete Eloqua bulk syncs and contact fields with automatic dependency resolution - WARNING: Will permanently delete contact fields',
+      summary: 'Delete multiple bulk syncs efficiently',
       icon: 'Trash2',
       path: '/bulk-sync-deletion',
       category: 'management',
@@ -110,58 +67,20 @@ class BulkSyncDeletionTool extends BaseTool {
         'Contact field deletion with automatic bulk sync dependency resolution',
         'Direct bulk sync deletion',
         'CSV import of IDs',
-        'Dry run validation mode (RECOMMENDED before deletion)',
-        'Progress tracking with batch processing',
+        'Dry run: review the planned deletions, then apply exactly that plan (RECOMMENDED)',
+        'Progress tracking with concurrent processing',
         'Detailed error reporting',
         'Concurrency control and rate limiting'
       ],
       requiresAuth: true,
-      version: '2.0.0'
+      version: '2.0.0',
+      mutatesWhen: { operation: ['delete-syncs', 'delete-contact-fields'] },
+      supportsDryRun: true
     }
     super(config)
   }
 
-  validateParameters(parameters: BulkSyncDeletionParameters): boolean {
-    if (!parameters) return false
-
-    // At least one of these must be provided for delete operations
-    if (parameters.operation === 'delete-syncs' && !parameters.syncIds && !parameters.csvData) {
-      return false
-    }
-
-    // For contact field deletion, need field IDs or CSV data
-    if (parameters.operation === 'delete-contact-fields' && !parameters.contactFieldIds && !parameters.csvData) {
-      return false
-    }
-
-    // Validate batch size
-    if (parameters.batchSize !== undefined && 
-        (!ParameterValidator.isNumber(parameters.batchSize) || 
-         parameters.batchSize < 1 || 
-         parameters.batchSize > 20)) {
-      return false
-    }
-
-    // Validate delay
-    if (parameters.delayBetweenRequests !== undefined && 
-        (!ParameterValidator.isNumber(parameters.delayBetweenRequests) || 
-         parameters.delayBetweenRequests < 0 || 
-         parameters.delayBetweenRequests > 5000)) {
-      return false
-    }
-
-    // Validate max concurrent requests
-    if (parameters.maxConcurrentRequests !== undefined && 
-        (!ParameterValidator.isNumber(parameters.maxConcurrentRequests) || 
-         parameters.maxConcurrentRequests < 1 || 
-         parameters.maxConcurrentRequests > 10)) {
-      return false
-    }
-
-    return true
-  }
-
-  getParameterSchema(): BulkSyncDeletionSchema {
+  getParameterSchema(): ParameterSchema {
     return {
       operation: {
         type: 'string',
@@ -174,45 +93,54 @@ class BulkSyncDeletionTool extends BaseTool {
       syncIds: {
         type: 'array',
         required: false,
+        requiredWhen: { operation: 'delete-syncs' },
+        alternatives: ['csvData'],
+        title: 'Sync IDs',
+        items: { type: 'string' },
         description: 'Array of sync IDs to delete',
         category: 'basic'
       },
       contactFieldIds: {
         type: 'array',
         required: false,
+        requiredWhen: { operation: 'delete-contact-fields' },
+        alternatives: ['csvData'],
+        title: 'Contact Field IDs',
+        items: { type: 'string' },
         description: 'Array of contact field IDs to delete (with dependency resolution)',
         category: 'basic'
       },
       csvData: {
         type: 'string',
         required: false,
+        title: 'CSV Data',
         description: 'CSV data containing sync IDs (one per line or comma-separated)',
         category: 'basic'
       },
       batchSize: {
-        type: 'number',
+        type: 'integer',
         required: false,
         default: 5,
-        min: 1,
-        max: 20,
-        description: 'Number of syncs to process in each batch',
+        minimum: 1,
+        maximum: 20,
+        description: 'Most items being deleted at once; maxConcurrentRequests also limits this',
         category: 'advanced'
       },
       delayBetweenRequests: {
-        type: 'number',
+        type: 'integer',
         required: false,
         default: 200,
-        min: 0,
-        max: 5000,
+        minimum: 0,
+        maximum: 5000,
         description: 'Delay in milliseconds between API requests',
         category: 'advanced'
       },
       maxConcurrentRequests: {
-        type: 'number',
+        type: 'integer',
         required: false,
         default: 3,
-        min: 1,
-        max: 10,
+        minimum: 1,
+        maximum: 10,
         description: 'Maximum concurrent API requests',
         category: 'advanced'
       }
@@ -222,7 +150,7 @@ class BulkSyncDeletionTool extends BaseTool {
   async execute(context: ToolExecutionContext, parameters: BulkSyncDeletionParameters): Promise<ToolResult> {
     try {
       // Initialize API service if needed
-      if (!eloquaApiService) {
+      if (!context.eloquaApi) {
         throw new Error('Eloqua API service not initialized')
       }
 
@@ -254,7 +182,7 @@ class BulkSyncDeletionTool extends BaseTool {
             maxConcurrentRequests
           })
         case 'list-syncs':
-          return await this.listSyncs(context, { batchSize })
+          return await this.listSyncs(context)
         case 'get-usage-guide':
           return this.getUsageGuide()
         default:
@@ -294,41 +222,14 @@ class BulkSyncDeletionTool extends BaseTool {
     const results: SyncDeletionResult[] = []
     const startTime = Date.now()
 
-    // Progress tracking
-    let processed = 0
     const total = fieldIds.length
 
     context.showProgress(`Starting deletion for ${total} contact fields...`)
+    context.reportProgress({ phase: 'Deleting contact fields', total })
 
     try {
-      // Process contact fields in batches with concurrency control
-      for (let i = 0; i < fieldIds.length; i += parameters.batchSize) {
-        const batch = fieldIds.slice(i, i + parameters.batchSize)
-        const batchPromises = batch.map(async (fieldId, index) => {
-          // Add delay between concurrent requests
-          if (index > 0) {
-            await this.delay(parameters.delayBetweenRequests)
-          }
-          return this.deleteContactFieldWithDependencies(fieldId)
-        })
-
-        // Limit concurrent requests
-        const concurrencyLimitedPromises = []
-        for (let j = 0; j < batchPromises.length; j += parameters.maxConcurrentRequests) {
-          const chunk = batchPromises.slice(j, j + parameters.maxConcurrentRequests)
-          concurrencyLimitedPromises.push(Promise.all(chunk))
-        }
-
-        for (const chunk of concurrencyLimitedPromises) {
-          const chunkResults = await chunk
-          results.push(...chunkResults)
-          processed += chunkResults.length
-
-          // Report progress
-          const progressPercent = Math.round((processed / total) * 100)
-          context.showProgress(`Processing contact field deletions... ${processed}/${total} (${progressPercent}%)`)
-        }
-      }
+      const deleteField = (id: string) => context.dryRun ? this.planContactFieldDeletion(context, id, parameters) : this.deleteContactFieldWithDependencies(context, id, parameters)
+      results.push(...await this.runDeletions(context, fieldIds, parameters, 'contact field deletions', deleteField))
 
       const endTime = Date.now()
       const totalProcessingTime = endTime - startTime
@@ -338,10 +239,22 @@ class BulkSyncDeletionTool extends BaseTool {
         totalSyncs: results.length,
         successfulDeletions: results.filter(r => r.success).length,
         failedDeletions: results.filter(r => !r.success).length,
-        successRate: Math.round((results.filter(r => r.success).length / results.length) * 100),
+        successRate: results.length > 0 ? Math.round((results.filter(r => r.success).length / results.length) * 100) : 0,
         totalProcessingTime,
-        averageProcessingTime: Math.round(totalProcessingTime / results.length),
-        skippedSyncs: 0
+        averageProcessingTime: results.length > 0 ? Math.round(totalProcessingTime / results.length) : 0,
+        skippedSyncs: total - results.length
+      }
+
+      if (context.signal.aborted) {
+        return {
+          success: true,
+          cancelled: true,
+          message: `Contact field deletion stopped after ${results.length} of ${total} fields. ${summary.successfulDeletions} deleted successfully, ${summary.failedDeletions} failed.`,
+          data: {
+            summary,
+            results
+          }
+        }
       }
 
       return {
@@ -381,41 +294,13 @@ class BulkSyncDeletionTool extends BaseTool {
     const results: SyncDeletionResult[] = []
     const startTime = Date.now()
 
-    // Progress tracking
-    let processed = 0
     const total = syncIds.length
 
     context.showProgress(`Starting deletion for ${total} syncs...`)
+    context.reportProgress({ phase: 'Deleting syncs', total })
 
     try {
-      // Process syncs in batches with concurrency control
-      for (let i = 0; i < syncIds.length; i += parameters.batchSize) {
-        const batch = syncIds.slice(i, i + parameters.batchSize)
-        const batchPromises = batch.map(async (syncId, index) => {
-          // Add delay between concurrent requests
-          if (index > 0) {
-            await this.delay(parameters.delayBetweenRequests)
-          }
-          return this.processSyncDeletion(syncId)
-        })
-
-        // Limit concurrent requests
-        const concurrencyLimitedPromises = []
-        for (let j = 0; j < batchPromises.length; j += parameters.maxConcurrentRequests) {
-          const chunk = batchPromises.slice(j, j + parameters.maxConcurrentRequests)
-          concurrencyLimitedPromises.push(Promise.all(chunk))
-        }
-
-        for (const chunk of concurrencyLimitedPromises) {
-          const chunkResults = await chunk
-          results.push(...chunkResults)
-          processed += chunkResults.length
-
-          // Report progress
-          const progressPercent = Math.round((processed / total) * 100)
-          context.showProgress(`Processing sync deletions... ${processed}/${total} (${progressPercent}%)`)
-        }
-      }
+      results.push(...await this.runDeletions(context, syncIds, parameters, 'sync deletions', id => this.processSyncDeletion(context, id)))
 
       const endTime = Date.now()
       const totalProcessingTime = endTime - startTime
@@ -425,10 +310,22 @@ class BulkSyncDeletionTool extends BaseTool {
         totalSyncs: results.length,
         successfulDeletions: results.filter(r => r.success).length,
         failedDeletions: results.filter(r => !r.success).length,
-        successRate: Math.round((results.filter(r => r.success).length / results.length) * 100),
+        successRate: results.length > 0 ? Math.round((results.filter(r => r.success).length / results.length) * 100) : 0,
         totalProcessingTime,
-        averageProcessingTime: Math.round(totalProcessingTime / results.length),
-        skippedSyncs: 0
+        averageProcessingTime: results.length > 0 ? Math.round(totalProcessingTime / results.length) : 0,
+        skippedSyncs: total - results.length
+      }
+
+      if (context.signal.aborted) {
+        return {
+          success: true,
+          cancelled: true,
+          message: `Bulk sync deletion stopped after ${results.length} of ${total} syncs. ${summary.successfulDeletions} deleted successfully, ${summary.failedDeletions} failed.`,
+          data: {
+            summary,
+            results
+          }
+        }
       }
 
       return {
@@ -449,7 +346,41 @@ class BulkSyncDeletionTool extends BaseTool {
     }
   }
 
-  private async processSyncDeletion(syncId: string): Promise<SyncDeletionResult> {
+  // Deletes through one pool paced by the run's request rate, with at most
+  // batchSize items in flight. Items not started before Stop are left out of the results.
+  private async runDeletions(
+    context: ToolExecutionContext,
+    ids: string[],
+    parameters: DeletionPacing & { batchSize: number },
+    label: string,
+    deleteItem: (id: string) => Promise<SyncDeletionResult>
+  ): Promise<SyncDeletionResult[]> {
+    const poolResults = await runWorkPool(ids, deleteItem, {
+      concurrency: Math.min(parameters.maxConcurrentRequests, parameters.batchSize),
+      requestsPerSecond: requestsPerSecondFromDelay(parameters.delayBetweenRequests),
+      rateKey: context.credentials?.baseUrl,
+      signal: context.signal,
+      onProgress: ({ completed }) => {
+        context.showProgress(`Processing ${label}... ${completed}/${ids.length} (${Math.round((completed / ids.length) * 100)}%)`)
+      },
+      onItemComplete: result => this.reportDeletion(context, result)
+    })
+    return fulfilledValues(poolResults)
+  }
+
+  // Deletions report failures in their result rather than throwing
+  private reportDeletion(context: ToolExecutionContext, result: WorkItemResult<string, SyncDeletionResult>) {
+    if (result.status === 'skipped') return
+    context.reportItem({
+      id: result.item,
+      status: result.status === 'fulfilled' && result.value.success ? 'succeeded' : 'failed',
+      error: result.status === 'rejected'
+        ? (result.error instanceof Error ? result.error.message : String(result.error))
+        : result.value.error
+    })
+  }
+
+  private async processSyncDeletion(context: ToolExecutionContext, syncId: string): Promise<SyncDeletionResult> {
     const startTime = Date.now()
     
     try {
@@ -457,7 +388,7 @@ class BulkSyncDeletionTool extends BaseTool {
       // Get sync info before deletion (optional, for audit trail)
       let beforeStatus: string | undefined
       try {
-        const syncInfo = await this.getSyncInfo(syncId)
+        const syncInfo = await this.getSyncInfo(context, syncId)
         beforeStatus = syncInfo?.status
       } catch (error) {
         // Continue with deletion even if we can't get sync info
@@ -465,7 +396,7 @@ class BulkSyncDeletionTool extends BaseTool {
       }
 
       // Perform actual deletion using the API service
-      await eloquaApiService.makeRequest('DELETE', `/api/bulk/2.0/syncs/${syncId}`)
+      await context.eloquaApi.makeRequest('DELETE', `/api/bulk/2.0/syncs/${syncId}`)
 
       return {
         syncId,
@@ -479,7 +410,7 @@ class BulkSyncDeletionTool extends BaseTool {
       return {
         syncId,
         success: false,
-        statusCode: error.response?.status || 0,
+        statusCode: (isEloquaApiError(error) && error.status) || 0,
         processingTime: Date.now() - startTime,
         error: error.message || 'Unknown error during deletion',
         beforeStatus: undefined
@@ -487,9 +418,9 @@ class BulkSyncDeletionTool extends BaseTool {
     }
   }
 
-  private async getSyncInfo(syncId: string): Promise<SyncInfo | null> {
+  private async getSyncInfo(context: ToolExecutionContext, syncId: string): Promise<SyncInfo | null> {
     try {
-      const response = await eloquaApiService.makeRequest('GET', `/api/bulk/2.0/syncs/${syncId}`)
+      const response = await context.eloquaApi.makeRequest('GET', `/api/bulk/2.0/syncs/${syncId}`)
 
       return {
         id: response.id || syncId,
@@ -505,21 +436,25 @@ class BulkSyncDeletionTool extends BaseTool {
     }
   }
 
-  private async listSyncs(context: ToolExecutionContext, parameters: { batchSize: number }): Promise<ToolResult> {
+  private async listSyncs(context: ToolExecutionContext): Promise<ToolResult> {
     try {
       context.showProgress('Fetching bulk syncs...')
-      const response = await eloquaApiService.makeRequest('GET', '/api/bulk/2.0/syncs', {
-        limit: parameters.batchSize || 1000,
-        offset: 0
+      let totalResults: number | undefined
+      const syncs = await context.eloquaApi.listAll<EloquaBulkSync>('/api/bulk/2.0/syncs', {
+        pageSize: 1000,
+        onPage: ({ fetched, total }) => {
+          totalResults = total
+          context.showProgress(`Fetched ${fetched}${total !== undefined ? ` of ${total}` : ''} bulk syncs...`)
+        }
       })
 
-      const syncs = response.items || []
-      const syncInfos: SyncInfo[] = syncs.map((sync: any) => ({
-        id: sync.id,
-        name: sync.name || 'Unknown',
+      // Syncs have no id or name of their own; the id is the last part of the uri
+      const syncInfos: SyncInfo[] = syncs.map(sync => ({
+        id: sync.uri.split('/').pop() || '',
+        name: sync.syncedInstanceUri || 'Unknown',
         status: sync.status || 'Unknown',
         createdAt: sync.createdAt || '',
-        updatedAt: sync.updatedAt || '',
+        updatedAt: sync.syncEndedAt || '',
         type: sync.syncedInstanceUri?.split('/').pop() || 'Unknown'
       }))
 
@@ -528,7 +463,7 @@ class BulkSyncDeletionTool extends BaseTool {
         message: `Found ${syncInfos.length} syncs`,
         data: {
           syncs: syncInfos,
-          total: response.totalResults || syncInfos.length
+          total: totalResults || syncInfos.length
         }
       }
 
@@ -603,23 +538,18 @@ class BulkSyncDeletionTool extends BaseTool {
     return syncIds
   }
 
-  private async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
-  }
-
-  private async parseDependenciesFromError(error: any): Promise<Array<{id: string, type: string}>> {
+  private async parseDependenciesFromError(error: unknown): Promise<Array<{id: string, type: string}>> {
     try {
-      // Parse 412 error response to extract bulk export/import dependencies
-      const errorData = error.response?.data
-      if (!errorData || !errorData.dependencies) {
+      // The 412 error envelope already carries the parsed dependency list
+      if (!isEloquaApiError(error) || error.dependencies.length === 0) {
         return []
       }
 
       const dependencies: Array<{id: string, type: string}> = []
-      for (const dependency of errorData.dependencies) {
+      for (const dependency of error.dependencies) {
         if (dependency.type === 'BulkExport' || dependency.type === 'BulkImport') {
           dependencies.push({
-            id: dependency.id,
+            id: String(dependency.id),
             type: dependency.type
           })
         }
@@ -632,37 +562,51 @@ class BulkSyncDeletionTool extends BaseTool {
     }
   }
 
-  private async resolveDependencies(dependencies: Array<{id: string, type: string}>): Promise<void> {
-    // Delete bulk export/import definitions that are blocking asset deletion
-    for (const dependency of dependencies) {
-      try {
-        if (dependency.type === 'BulkExport') {
-          // Delete bulk contact export
-          await eloquaApiService.makeRequest('DELETE', `/api/bulk/2.0/contacts/exports/${dependency.id}`)
-        } else if (dependency.type === 'BulkImport') {
-          // Delete bulk contact import
-          await eloquaApiService.makeRequest('DELETE', `/api/bulk/2.0/contacts/imports/${dependency.id}`)
-        } else {
-          console.warn(`Unknown dependency type: ${dependency.type} for ID: ${dependency.id}`)
-          continue
-        }
-        
-        console.log(`Successfully deleted ${dependency.type} dependency: ${dependency.id}`)
-      } catch (error) {
-        console.warn(`Failed to delete ${dependency.type} dependency ${dependency.id}:`, error)
-        // Continue with other dependencies even if one fails
+  // Deletes the bulk export/import definitions blocking a field, drawing on the
+  // same rate budget as the field deletions. Returns one message per definition
+  // that could not be deleted, for the field's result.
+  private async resolveDependencies(
+    context: ToolExecutionContext,
+    dependencies: Array<{id: string, type: string}>,
+    pacing: DeletionPacing
+  ): Promise<string[]> {
+    const results = await runWorkPool(dependencies, async dependency => {
+      const definitionType = dependency.type === 'BulkExport' ? 'exports' : 'imports'
+      await context.eloquaApi.makeRequest('DELETE', `/api/bulk/2.0/contacts/${definitionType}/${dependency.id}`)
+    }, {
+      concurrency: pacing.maxConcurrentRequests,
+      requestsPerSecond: requestsPerSecondFromDelay(pacing.delayBetweenRequests),
+      rateKey: context.credentials?.baseUrl,
+      signal: context.signal
+    })
+
+    // The field deletion goes ahead even if some dependencies could not be removed
+    return results.flatMap(result => {
+      if (result.status !== 'rejected') {
+        return []
       }
+      const message = result.error instanceof Error ? result.error.message : String(result.error)
+      return [`could not delete ${result.item.type} ${result.item.id}: ${message}`]
+    })
+  }
+
+  // Adds dependency failures to a field result's message
+  private withDependencyFailures(message: string | undefined, failures: string[]): string | undefined {
+    if (failures.length === 0) {
+      return message
     }
+    return [message, ...failures].filter(Boolean).join('; ')
   }
 
-  private async deleteContactFieldWithDependencies(fieldId: string): Promise<SyncDeletionResult> {
+  private async deleteContactFieldWithDependencies(context: ToolExecutionContext, fieldId: string, pacing: DeletionPacing): Promise<SyncDeletionResult> {
     const startTime = Date.now()
-    
+    let dependencyFailures: string[] = []
+
     try {
 
       // Step 1: Attempt to delete the contact field
       try {
-        await eloquaApiService.makeRequest('DELETE', `/api/REST/1.0/assets/contact/field/${fieldId}`)
+        await context.eloquaApi.makeRequest('DELETE', `/api/REST/1.0/assets/contact/field/${fieldId}`)
         
         return {
           syncId: fieldId,
@@ -670,23 +614,23 @@ class BulkSyncDeletionTool extends BaseTool {
           statusCode: 200,
           processingTime: Date.now() - startTime
         }
-      } catch (deleteError: any) {
+      } catch (deleteError) {
         // Step 2: Check if this is a 412 error with dependencies
-        if (deleteError.response?.status === 412) {
+        if (isEloquaApiError(deleteError) && deleteError.hasDependencies()) {
           // Step 3: Parse and resolve dependencies
           const dependencies = await this.parseDependenciesFromError(deleteError)
           if (dependencies.length > 0) {
-            await this.resolveDependencies(dependencies)
+            dependencyFailures = await this.resolveDependencies(context, dependencies, pacing)
             
             // Step 4: Retry contact field deletion
-            await eloquaApiService.makeRequest('DELETE', `/api/REST/1.0/assets/contact/field/${fieldId}`)
+            await context.eloquaApi.makeRequest('DELETE', `/api/REST/1.0/assets/contact/field/${fieldId}`)
             
             return {
               syncId: fieldId,
               success: true,
               statusCode: 200,
               processingTime: Date.now() - startTime,
-              error: `Resolved ${dependencies.length} bulk sync dependencies`
+              error: this.withDependencyFailures(`Resolved ${dependencies.length - dependencyFailures.length} of ${dependencies.length} bulk sync dependencies`, dependencyFailures)
             }
           }
         }
@@ -698,9 +642,56 @@ class BulkSyncDeletionTool extends BaseTool {
       return {
         syncId: fieldId,
         success: false,
-        statusCode: error.response?.status || 0,
+        statusCode: (isEloquaApiError(error) && error.status) || 0,
+        processingTime: Date.now() - startTime,
+        error: this.withDependencyFailures(error.message || 'Unknown error during contact field deletion', dependencyFailures)
+      }
+    }
+  }
+
+  // A dry run sends no deletion, so it cannot learn about blocking bulk
+  // definitions from a 412 response. It looks them up instead and plans their
+  // deletion ahead of the field's, as a real run would make them.
+  private async planContactFieldDeletion(context: ToolExecutionContext, fieldId: string, pacing: DeletionPacing): Promise<SyncDeletionResult> {
+    const startTime = Date.now()
+    let dependencyFailures: string[] = []
+
+    try {
+      const dependencies = await context.eloquaApi.getAssetDependencies('contactfield', fieldId)
+      const bulkDependencies = dependencies
+        .filter(dependency => dependency.type === 'BulkExport' || dependency.type === 'BulkImport')
+        .map(dependency => ({ id: String(dependency.id), type: dependency.type }))
+
+      // A real run removes bulk definitions only; anything else keeps blocking the field
+      const otherCount = dependencies.length - bulkDependencies.length
+      if (otherCount > 0) {
+        return {
+          syncId: fieldId,
+          success: false,
+          statusCode: 412,
+          processingTime: Date.now() - startTime,
+          error: `Used by ${otherCount} ${otherCount === 1 ? 'asset' : 'assets'} other than bulk syncs; the field cannot be deleted until they no longer use it`
+        }
+      }
+
+      if (bulkDependencies.length > 0) {
+        dependencyFailures = await this.resolveDependencies(context, bulkDependencies, pacing)
+      }
+      await context.eloquaApi.makeRequest('DELETE', `/api/REST/1.0/assets/contact/field/${fieldId}`)
+
+      return {
+        syncId: fieldId,
+        success: true,
+        processingTime: Date.now() - startTime,
+        error: this.withDependencyFailures(bulkDependencies.length > 0 ? `Plan removes ${bulkDependencies.length} bulk sync dependencies first` : undefined, dependencyFailures)
+      }
+    } catch (error: any) {
+      return {
+        syncId: fieldId,
+        success: false,
+        statusCode: (isEloquaApiError(error) && error.status) || 0,
         processingTime: Date.now() - startTime,
-        error: error.message || 'Unknown error during contact field deletion'
+        error: this.withDependencyFailures(error.message || 'Unknown error while planning contact field deletion', dependencyFailures)
       }
     }
   }
@@ -718,17 +709,17 @@ class BulkSyncDeletionTool extends BaseTool {
             {
               name: 'Delete Contact Fields',
               description: 'Delete contact fields with automatic bulk sync dependency resolution',
-              parameters: ['contactFieldIds', 'csvData', 'batchSize', 'delayBetweenRequests']
+              parameters: ['contactFieldIds', 'csvData', 'batchSize', 'delayBetweenRequests', 'maxConcurrentRequests']
             },
             {
               name: 'Delete Syncs',
               description: 'Delete bulk syncs directly by their IDs',
-              parameters: ['syncIds', 'csvData', 'batchSize', 'delayBetweenRequests']
+              parameters: ['syncIds', 'csvData', 'batchSize', 'delayBetweenRequests', 'maxConcurrentRequests']
             },
             {
               name: 'List Syncs',
               description: 'Get a list of all available bulk syncs',
-              parameters: ['batchSize']
+              parameters: []
             }
           ],
           
@@ -742,7 +733,7 @@ class BulkSyncDeletionTool extends BaseTool {
             contactFieldIds: 'Array of contact field IDs to delete (with dependency resolution)',
             syncIds: 'Array of sync IDs to delete directly',
             csvData: 'CSV data as string containing IDs',
-            batchSize: 'Number of items to process in each batch (default: 5)',
+            batchSize: 'Most items being deleted at once (default: 5)',
             delayBetweenRequests: 'Delay in milliseconds between API requests (default: 200)',
             maxConcurrentRequests: 'Maximum concurrent API requests (default: 3)'
           },
@@ -772,8 +763,7 @@ class BulkSyncDeletionTool extends BaseTool {
             {
               name: 'List all syncs',
               parameters: {
-                operation: 'list-syncs',
-                batchSize: 100
+                operation: 'list-syncs'
               }
             }
           ],
@@ -781,9 +771,10 @@ class BulkSyncDeletionTool extends BaseTool {
           safety: [
             'WARNING: Contact field deletion is PERMANENT and IRREVERSIBLE',
             'CRITICAL: This tool will delete actual contact fields from your Eloqua instance',
-            'NO DRY RUN MODE - All operations will immediately execute deletions',
+            'Use a dry run first: it lists every deletion without making it, and applying it sends exactly that list',
             'Contact field deletion automatically resolves bulk sync dependencies',
             'All associated data and configurations will be permanently lost',
+            'Deleted fields and bulk definitions are saved in the Undo Journal, which can recreate their definitions but not the data stored in a field',
             'Ensure you have proper backups before proceeding with deletion',
             'Double-check field IDs before execution',
             'Rate limiting is automatically applied to prevent API throttling',
@@ -796,7 +787,7 @@ class BulkSyncDeletionTool extends BaseTool {
 
   getComponent(): ToolComponent {
     return {
-      render: () => null // Will be implemented with React component
+      render: () => createElement(BulkSyncDeletionComponent)
     }
   }
 }
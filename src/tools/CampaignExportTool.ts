@@ -1,5 +1,8 @@
-import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent, ParameterValidator } from '../shared/toolFramework'
-import eloquaApiService from '../renderer/services/eloquaApi'
+import { createElement } from 'react'
+import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent } from '../shared/toolFramework'
+import { ParameterSchema } from '../shared/parameterSchema'
+import CampaignExportComponent from '../renderer/components/CampaignExportComponent'
+import { EloquaCampaign, EloquaCanvasElement } from '../shared/apiTypes'
 
 interface CampaignExportParameters {
   operation?: 'export-campaigns' | 'get-usage-guide'
@@ -25,7 +28,7 @@ interface Campaign {
   runAsUserId: string
   startAt: string
   endAt: string
-  elements: any[]
+  elements: EloquaCanvasElement[]
 }
 
 interface CampaignExportSummary {
@@ -37,31 +40,6 @@ interface CampaignExportSummary {
   format: string
 }
 
-interface CampaignExportSchema {
-  operation: {
-    type: 'string'
-    required: false
-    enum: ['export-campaigns', 'get-usage-guide']
-    default: 'export-campaigns'
-    description: 'Operation to perform'
-    category: 'basic'
-  }
-  filename: {
-    type: 'string'
-    required: false
-    default: 'campaigns-export'
-    description: 'Name for the exported file (without extension)'
-    category: 'basic'
-  }
-  format: {
-    type: 'string'
-    required: false
-    enum: ['csv', 'json']
-    default: 'csv'
-    description: 'Export format'
-    category: 'basic'
-  }
-}
 
 class CampaignExportTool extends BaseTool {
   constructor() {
@@ -69,6 +47,7 @@ class CampaignExportTool extends BaseTool {
       id: 'campaign-export-tool',
       name: 'Campaign Export',
       description: 'Export all Eloqua campaigns to CSV or JSON format',
+      summary: 'Export all campaigns to CSV or JSON',
       icon: 'Download',
       path: '/campaign-export',
       category: 'data-export',
@@ -86,20 +65,7 @@ class CampaignExportTool extends BaseTool {
     super(config)
   }
 
-  validateParameters(parameters: CampaignExportParameters): boolean {
-    if (!parameters) return false
-
-    // Validate filename if provided
-    if (parameters.filename !== undefined && 
-        (!ParameterValidator.isString(parameters.filename) || 
-         parameters.filename.trim().length === 0)) {
-      return false
-    }
-
-    return true
-  }
-
-  getParameterSchema(): CampaignExportSchema {
+  getParameterSchema(): ParameterSchema {
     return {
       operation: {
         type: 'string',
@@ -113,6 +79,7 @@ class CampaignExportTool extends BaseTool {
         type: 'string',
         required: false,
         default: 'campaigns-export',
+        minLength: 1,
         description: 'Name for the exported file (without extension)',
         category: 'basic'
       },
@@ -130,7 +97,7 @@ class CampaignExportTool extends BaseTool {
   async execute(context: ToolExecutionContext, parameters: CampaignExportParameters): Promise<ToolResult> {
     try {
       // Initialize API service if needed
-      if (!eloquaApiService) {
+      if (!context.eloquaApi) {
         throw new Error('Eloqua API service not initialized')
       }
 
@@ -172,18 +139,15 @@ class CampaignExportTool extends BaseTool {
     try {
       context.showProgress('Fetching campaigns from Eloqua...')
       
-      // Fetch all campaigns
-      const response = await eloquaApiService.makeRequest('GET', '/api/rest/2.0/assets/campaigns', {
-        depth: 'complete',
-        count: 1000, // Get up to 1000 campaigns
-        orderBy: 'name'
+      // Fetch all campaigns, following every page
+      const elements = await context.eloquaApi.listAll<EloquaCampaign>('/api/rest/2.0/assets/campaigns', {
+        params: { depth: 'complete', orderBy: 'name' },
+        onPage: ({ fetched, total }) => {
+          context.showProgress(`Fetched ${fetched}${total !== undefined ? ` of ${total}` : ''} campaigns...`)
+        }
       })
 
-      if (!response.elements || !Array.isArray(response.elements)) {
-        throw new Error('Invalid response format from Eloqua API')
-      }
-
-      const campaigns: Campaign[] = response.elements.map((campaign: any) => ({
+      const campaigns: Campaign[] = elements.map(campaign => ({
         id: campaign.id || '',
         name: campaign.name || '',
         description: campaign.description || '',
@@ -373,7 +337,7 @@ class CampaignExportTool extends BaseTool {
 
   getComponent(): ToolComponent {
     return {
-      render: () => null // Will be implemented with React component
+      render: () => createElement(CampaignExportComponent)
     }
   }
 }
@@ -1,5 +1,8 @@
-import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent, ParameterValidator } from '../shared/toolFramework'
-import eloquaApiService from '../renderer/services/eloquaApi'
+import { createElement } from 'react'
+import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent } from '../shared/toolFramework'
+import { ParameterSchema } from '../shared/parameterSchema'
+import ContactFieldExportComponent from '../renderer/components/ContactFieldExportComponent'
+import { EloquaContactField } from '../shared/apiTypes'
 
 interface ContactFieldExportParameters {
   operation?: 'export-fields' | 'get-usage-guide'
@@ -34,38 +37,6 @@ interface ContactFieldExportSummary {
   format: string
 }
 
-interface ContactFieldExportSchema {
-  operation: {
-    type: 'string'
-    required: false
-    enum: ['export-fields', 'get-usage-guide']
-    default: 'export-fields'
-    description: 'Operation to perform'
-    category: 'basic'
-  }
-  filename: {
-    type: 'string'
-    required: false
-    default: 'contact-fields-export'
-    description: 'Name for the exported file (without extension)'
-    category: 'basic'
-  }
-  includeSystemFields: {
-    type: 'boolean'
-    required: false
-    default: true
-    description: 'Include system fields in the export'
-    category: 'basic'
-  }
-  format: {
-    type: 'string'
-    required: false
-    enum: ['csv', 'json']
-    default: 'csv'
-    description: 'Export format'
-    category: 'basic'
-  }
-}
 
 class ContactFieldExportTool extends BaseTool {
   constructor() {
@@ -73,6 +44,7 @@ class ContactFieldExportTool extends BaseTool {
       id: 'contact-field-export-tool',
       name: 'Contact Field Export',
       description: 'Export all Eloqua contact fields to CSV or JSON format',
+      summary: 'Export all contact field definitions',
       icon: 'Download',
       path: '/contact-field-export',
       category: 'data-export',
@@ -90,20 +62,7 @@ class ContactFieldExportTool extends BaseTool {
     super(config)
   }
 
-  validateParameters(parameters: ContactFieldExportParameters): boolean {
-    if (!parameters) return false
-
-    // Validate filename if provided
-    if (parameters.filename !== undefined && 
-        (!ParameterValidator.isString(parameters.filename) || 
-         parameters.filename.trim().length === 0)) {
-      return false
-    }
-
-    return true
-  }
-
-  getParameterSchema(): ContactFieldExportSchema {
+  getParameterSchema(): ParameterSchema {
     return {
       operation: {
         type: 'string',
@@ -117,6 +76,7 @@ class ContactFieldExportTool extends BaseTool {
         type: 'string',
         required: false,
         default: 'contact-fields-export',
+        minLength: 1,
         description: 'Name for the exported file (without extension)',
         category: 'basic'
       },
@@ -141,7 +101,7 @@ class ContactFieldExportTool extends BaseTool {
   async execute(context: ToolExecutionContext, parameters: ContactFieldExportParameters): Promise<ToolResult> {
     try {
       // Initialize API service if needed
-      if (!eloquaApiService) {
+      if (!context.eloquaApi) {
         throw new Error('Eloqua API service not initialized')
       }
 
@@ -187,18 +147,15 @@ class ContactFieldExportTool extends BaseTool {
     try {
       context.showProgress('Fetching contact fields from Eloqua...')
       
-      // Fetch all contact fields
-      const response = await eloquaApiService.makeRequest('GET', '/api/REST/1.0/assets/contact/fields', {
-        depth: 'complete',
-        count: 1000, // Get up to 1000 fields
-        orderBy: 'name'
+      // Fetch all contact fields, following every page
+      const elements = await context.eloquaApi.listAll<EloquaContactField>('/api/REST/1.0/assets/contact/fields', {
+        params: { depth: 'complete', orderBy: 'name' },
+        onPage: ({ fetched, total }) => {
+          context.showProgress(`Fetched ${fetched}${total !== undefined ? ` of ${total}` : ''} contact fields...`)
+        }
       })
 
-      if (!response.elements || !Array.isArray(response.elements)) {
-        throw new Error('Invalid response format from Eloqua API')
-      }
-
-      let fields: ContactField[] = response.elements.map((field: any) => ({
+      let fields: ContactField[] = elements.map(field => ({
         id: field.id || '',
         name: field.name || '',
         internalName: field.internalName || '',
@@ -277,9 +234,9 @@ class ContactFieldExportTool extends BaseTool {
 
       // Calculate summary statistics
       const summary: ContactFieldExportSummary = {
-        totalFields: response.elements.length,
-        systemFields: response.elements.filter((f: any) => f.isSystem).length,
-        customFields: response.elements.filter((f: any) => !f.isSystem).length,
+        totalFields: elements.length,
+        systemFields: elements.filter((f: any) => f.isSystem).length,
+        customFields: elements.filter((f: any) => !f.isSystem).length,
         exportedFields: fields.length,
         filename: finalFilename,
         format: parameters.format
@@ -296,7 +253,8 @@ class ContactFieldExportTool extends BaseTool {
           exportData,
           filename: finalFilename,
           processingTime,
-          fields: fields.slice(0, 10) // Preview of first 10 fields
+          // Every exported field, so pipelines and the run history can pick columns from them
+          fields
         }
       }
 
@@ -382,7 +340,7 @@ class ContactFieldExportTool extends BaseTool {
 
   getComponent(): ToolComponent {
     return {
-      render: () => null // Will be implemented with React component
+      render: () => createElement(ContactFieldExportComponent)
     }
   }
 }
@@ -1,5 +1,7 @@
-import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent, ParameterValidator } from '../shared/toolFramework'
-import eloquaApiService from '../renderer/services/eloquaApi'
+import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult } from '../shared/toolFramework'
+import { ParameterSchema } from '../shared/parameterSchema'
+import { runWorkPool } from '../shared/workPool'
+import { EloquaEmail } from '../shared/apiTypes'
 
 interface EmailAssetParameters {
   // Search by ID
@@ -29,162 +31,6 @@ interface EmailAssetParameters {
   maxResults?: number
 }
 
-interface EmailAssetSchema {
-  // Search by ID
-  searchById: {
-    type: 'string'
-    required: false
-    description: 'Search for specific email(s) by ID - use comma-separated values for multiple IDs'
-    category: 'basic'
-  }
-  
-  // Search by Criteria fields
-  emailName: {
-    type: 'string'
-    required: false
-    description: 'Email name to search for'
-    category: 'basic'
-  }
-  emailNameOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=']
-    default: 'contains'
-    description: 'Operator for email name search'
-    category: 'basic'
-  }
-  createdAt: {
-    type: 'string'
-    required: false
-    description: 'Created date as Unix timestamp or date (YYYY-MM-DD)'
-    category: 'basic'
-  }
-  createdAtOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=', '>', '<', '>=', '<=']
-    default: '='
-    description: 'Operator for created date search'
-    category: 'basic'
-  }
-  updatedAt: {
-    type: 'string'
-    required: false
-    description: 'Updated date as Unix timestamp or date (YYYY-MM-DD)'
-    category: 'basic'
-  }
-  updatedAtOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=', '>', '<', '>=', '<=']
-    default: '='
-    description: 'Operator for updated date search'
-    category: 'basic'
-  }
-  createdBy: {
-    type: 'string'
-    required: false
-    description: 'Creator username (login name)'
-    category: 'basic'
-  }
-  createdByOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=']
-    default: '='
-    description: 'Operator for created by search'
-    category: 'basic'
-  }
-  updatedBy: {
-    type: 'string'
-    required: false
-    description: 'Updater username (login name)'
-    category: 'basic'
-  }
-  updatedByOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=']
-    default: '='
-    description: 'Operator for updated by search'
-    category: 'basic'
-  }
-  emailGroupId: {
-    type: 'string'
-    required: false
-    description: 'Email group ID'
-    category: 'basic'
-  }
-  emailGroupIdOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=']
-    default: '='
-    description: 'Operator for email group ID search'
-    category: 'basic'
-  }
-  createdByUserId: {
-    type: 'string'
-    required: false
-    description: 'Creator user ID'
-    category: 'basic'
-  }
-  createdByUserIdOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=']
-    default: '='
-    description: 'Operator for creator user ID search'
-    category: 'basic'
-  }
-  updatedByUserId: {
-    type: 'string'
-    required: false
-    description: 'Updater user ID'
-    category: 'basic'
-  }
-  updatedByUserIdOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=']
-    default: '='
-    description: 'Operator for updater user ID search'
-    category: 'basic'
-  }
-  
-  // Common parameters
-  includeArchived: {
-    type: 'boolean'
-    required: false
-    default: false
-    description: 'Include archived emails in results'
-    category: 'advanced'
-  }
-  exportFormat: {
-    type: 'string'
-    required: true
-    enum: ['csv', 'json']
-    default: 'csv'
-    description: 'Export format for results'
-    category: 'basic'
-  }
-  includeContent: {
-    type: 'boolean'
-    required: false
-    default: true
-    description: 'Include email content and convert HTML to plain text'
-    category: 'basic'
-  }
-  maxResults: {
-    type: 'number'
-    required: false
-    default: 25
-    min: 1
-    max: 10000
-    description: 'Maximum number of results to return'
-    category: 'basic'
-  }
-}
 
 class EmailAssetTool extends BaseTool {
   constructor() {
@@ -192,6 +38,7 @@ class EmailAssetTool extends BaseTool {
       id: 'email-asset-tool',
       name: 'Email Asset Management',
       description: 'Search for email assets and export detailed API information',
+      summary: 'Search and export email data',
       icon: 'Mail',
       path: '/email-assets',
       category: 'assets',
@@ -209,43 +56,14 @@ class EmailAssetTool extends BaseTool {
     super(config)
   }
 
-  validateParameters(parameters: EmailAssetParameters): boolean {
-    if (!parameters) return false
-
-    // Validate export format
-    if (!ParameterValidator.isRequired(parameters.exportFormat) ||
-        !['csv', 'json'].includes(parameters.exportFormat)) {
-      return false
-    }
-
-    // Validate max results
-    if (parameters.maxResults !== undefined && 
-        (!ParameterValidator.isNumber(parameters.maxResults) || 
-         parameters.maxResults < 1 || 
-         parameters.maxResults > 10000)) {
-      return false
-    }
-
-    // Validate string parameters if provided
-    if (parameters.emailName !== undefined && 
-        !ParameterValidator.isString(parameters.emailName)) {
-      return false
-    }
-
-    if (parameters.searchById !== undefined && 
-        !ParameterValidator.isString(parameters.searchById)) {
-      return false
-    }
-
-    return true
-  }
-
-  getParameterSchema(): EmailAssetSchema {
+  getParameterSchema(): ParameterSchema {
     return {
       // Search by ID
       searchById: {
         type: 'string',
         required: false,
+        pattern: '^[\\d\\s,]*$',
+        errorMessage: 'Enter numeric IDs separated by commas',
         description: 'Search for specific email(s) by ID - use comma-separated values for multiple IDs',
         category: 'basic'
       },
@@ -260,6 +78,7 @@ class EmailAssetTool extends BaseTool {
       createdAt: {
         type: 'string',
         required: false,
+        format: 'date',
         description: 'Created date (YYYY-MM-DD format)',
         category: 'advanced'
       },
@@ -274,6 +93,7 @@ class EmailAssetTool extends BaseTool {
       updatedAt: {
         type: 'string',
         required: false,
+        format: 'date',
         description: 'Updated date (YYYY-MM-DD format)',
         category: 'advanced'
       },
@@ -380,11 +200,11 @@ class EmailAssetTool extends BaseTool {
         category: 'basic'
       },
       maxResults: {
-        type: 'number',
+        type: 'integer',
         required: false,
         default: 25,
-        min: 1,
-        max: 10000,
+        minimum: 1,
+        maximum: 10000,
         description: 'Maximum number of results to return',
         category: 'basic'
       }
@@ -394,7 +214,7 @@ class EmailAssetTool extends BaseTool {
   async execute(context: ToolExecutionContext, parameters: EmailAssetParameters): Promise<ToolResult> {
     try {
       // Initialize API service if needed
-      if (!eloquaApiService) {
+      if (!context.eloquaApi) {
         throw new Error('Eloqua API service not initialized')
       }
 
@@ -424,7 +244,7 @@ class EmailAssetTool extends BaseTool {
       context.showProgress('Searching for email assets...')
 
       // Handle ID search differently
-      let emails = []
+      const emails: EloquaEmail[] = []
       
       if (searchById) {
         // If searching by ID, handle multiple comma-separated IDs
@@ -432,15 +252,17 @@ class EmailAssetTool extends BaseTool {
         
         context.showProgress(`Fetching ${emailIds.length} email(s) by ID...`)
         
-        for (let i = 0; i < emailIds.length; i++) {
-          const emailId = emailIds[i]
-          try {
-            context.showProgress(`Fetching email ${i + 1}/${emailIds.length}: ID ${emailId}`)
-            const emailDetails = await eloquaApiService.getEmailDetails(emailId)
-            emails.push(emailDetails)
-          } catch (error) {
-            console.warn(`Email with ID ${emailId} not found:`, error)
+        const poolResults = await runWorkPool(emailIds, emailId => context.eloquaApi.getEmailDetails(emailId), {
+          rateKey: context.credentials?.baseUrl,
+          signal: context.signal,
+          onProgress: ({ completed }) => context.showProgress(`Fetched email ${completed}/${emailIds.length}`)
+        })
+        for (const result of poolResults) {
+          if (result.status === 'fulfilled') {
+            emails.push(result.value)
+          } else if (result.status === 'rejected') {
             // Continue with other IDs instead of failing completely
+            console.warn(`Email with ID ${result.item} not found:`, result.error)
           }
         }
         
@@ -470,30 +292,20 @@ class EmailAssetTool extends BaseTool {
           updatedByUserIdOperator
         })
 
-        // Fetch emails with pagination for general search
-        let page = 1
-        const pageSize = 100
-        let hasMoreResults = true
-
-        while (hasMoreResults && emails.length < maxResults) {
-          const remaining = maxResults - emails.length
-          const currentPageSize = Math.min(pageSize, remaining)
-
-          const response = await eloquaApiService.getEmails(searchQuery, page, currentPageSize)
-
-          if (response.elements && response.elements.length > 0) {
-            emails.push(...response.elements)
-            
-            // Check if we have more results
-            hasMoreResults = response.elements.length === currentPageSize && 
-                            response.page < response.pageCount
-            page++
-          } else {
-            hasMoreResults = false
+        // Fetch emails across every page until maxResults is reached
+        const matchingEmails = await context.eloquaApi.listAll<EloquaEmail>('/api/REST/2.0/assets/emails', {
+          params: {
+            depth: 'complete',
+            extensions: 'emailGroup',
+            search: searchQuery
+          },
+          pageSize: Math.min(maxResults, 100),
+          maxItems: maxResults,
+          onPage: ({ fetched }) => {
+            context.showProgress(`Found ${fetched} emails...`)
           }
-
-          context.showProgress(`Found ${emails.length} emails...`)
-        }
+        })
+        emails.push(...matchingEmails)
       }
 
       if (emails.length === 0) {
@@ -509,9 +321,9 @@ class EmailAssetTool extends BaseTool {
       let emailGroupMap: Record<string, string> = {}
       try {
         context.showProgress('Fetching email groups...')
-        const emailGroupsResponse = await eloquaApiService.getEmailGroups()
+        const emailGroupsResponse = await context.eloquaApi.getEmailGroups()
         if (emailGroupsResponse.elements) {
-          emailGroupMap = emailGroupsResponse.elements.reduce((map: Record<string, string>, group: any) => {
+          emailGroupMap = emailGroupsResponse.elements.reduce((map: Record<string, string>, group) => {
             map[group.id] = group.name
             return map
           }, {})
@@ -554,7 +366,7 @@ class EmailAssetTool extends BaseTool {
   }
 
   private async processEmailsForExport(
-    emails: any[],
+    emails: EloquaEmail[],
     includeContent: boolean,
     context: ToolExecutionContext,
     emailGroupMap: Record<string, string> = {}
@@ -607,10 +419,10 @@ class EmailAssetTool extends BaseTool {
         brandId: email.brandId || '',
         htmlContent: '',
         plainText: email.plainText || '',
-        isPlainTextEditable: email.isPlainTextEditable || '',
-        sendPlainTextOnly: email.sendPlainTextOnly || '',
-        isTracked: email.isTracked || '',
-        isPrivate: email.isPrivate || '',
+        isPlainTextEditable: email.isPlainTextEditable ?? '',
+        sendPlainTextOnly: email.sendPlainTextOnly ?? '',
+        isTracked: email.isTracked ?? '',
+        isPrivate: email.isPrivate ?? '',
         layout: email.layout || '',
         style: email.style || '',
         
@@ -622,10 +434,10 @@ class EmailAssetTool extends BaseTool {
         encodingId: email.encodingId || '',
         
         // Additional properties
-        isContentProtected: email.isContentProtected || '',
+        isContentProtected: email.isContentProtected ?? '',
         renderMode: email.renderMode || '',
-        archived: email.archived || '',
-        isArchived: email.archived === 'true' || email.archived === true,
+        archived: email.archived ?? '',
+        isArchived: email.archived === true,
         
         // Complex objects (serialize arrays/objects as JSON strings for export)
         forms: email.forms ? JSON.stringify(email.forms) : '',
@@ -646,7 +458,7 @@ class EmailAssetTool extends BaseTool {
       // Include content if requested
       if (includeContent && email.id) {
         try {
-          const emailDetails = await eloquaApiService.getEmailDetails(email.id)
+          const emailDetails = await context.eloquaApi.getEmailDetails(email.id)
           const htmlContent = emailDetails.htmlContent?.contentSource || ''
           const plainTextContent = emailDetails.plainText || ''
           const apiPreviewText = emailDetails.previewText || ''
@@ -829,12 +641,6 @@ class EmailAssetTool extends BaseTool {
 
     return previewText
   }
-
-  getComponent(): ToolComponent {
-    return {
-      render: () => null // Will be implemented with React component
-    }
-  }
 }
 
 export default EmailAssetTool
\ No newline at end of file
@@ -1,5 +1,7 @@
-import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent, ParameterValidator } from '../shared/toolFramework'
-import eloquaApiService from '../renderer/services/eloquaApi'
+import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult } from '../shared/toolFramework'
+import { ParameterSchema } from '../shared/parameterSchema'
+import { runWorkPool } from '../shared/workPool'
+import { EloquaForm, EloquaFormElement } from '../shared/apiTypes'
 
 interface FormAssetParameters {
   // Search by ID
@@ -27,140 +29,6 @@ interface FormAssetParameters {
   maxResults?: number
 }
 
-interface FormAssetSchema {
-  // Search by ID
-  searchById: {
-    type: 'string'
-    required: false
-    description: 'Search for specific form(s) by ID - use comma-separated values for multiple IDs'
-    category: 'basic'
-  }
-  
-  // Search by Criteria fields
-  formName: {
-    type: 'string'
-    required: false
-    description: 'Form name to search for (automatically uses wildcard matching)'
-    category: 'basic'
-  }
-  createdAt: {
-    type: 'string'
-    required: false
-    description: 'Created date (YYYY-MM-DD format)'
-    category: 'advanced'
-  }
-  createdAtOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=', '>', '<', '>=', '<=']
-    default: '='
-    description: 'Operator for created date search'
-    category: 'advanced'
-  }
-  updatedAt: {
-    type: 'string'
-    required: false
-    description: 'Updated date (YYYY-MM-DD format)'
-    category: 'advanced'
-  }
-  updatedAtOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=', '>', '<', '>=', '<=']
-    default: '='
-    description: 'Operator for updated date search'
-    category: 'advanced'
-  }
-  createdBy: {
-    type: 'string'
-    required: false
-    description: 'Creator username (login name)'
-    category: 'advanced'
-  }
-  createdByOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=']
-    default: '='
-    description: 'Operator for created by search'
-    category: 'advanced'
-  }
-  updatedBy: {
-    type: 'string'
-    required: false
-    description: 'Updater username (login name)'
-    category: 'advanced'
-  }
-  updatedByOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=']
-    default: '='
-    description: 'Operator for updated by search'
-    category: 'advanced'
-  }
-  createdByUserId: {
-    type: 'string'
-    required: false
-    description: 'Creator user ID'
-    category: 'advanced'
-  }
-  createdByUserIdOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=']
-    default: '='
-    description: 'Operator for creator user ID search'
-    category: 'advanced'
-  }
-  updatedByUserId: {
-    type: 'string'
-    required: false
-    description: 'Updater user ID'
-    category: 'advanced'
-  }
-  updatedByUserIdOperator: {
-    type: 'string'
-    required: false
-    enum: ['=', '!=']
-    default: '='
-    description: 'Operator for updater user ID search'
-    category: 'advanced'
-  }
-  
-  // Common parameters
-  includeArchived: {
-    type: 'boolean'
-    required: false
-    default: false
-    description: 'Include archived forms in results'
-    category: 'advanced'
-  }
-  exportFormat: {
-    type: 'string'
-    required: true
-    enum: ['csv', 'json']
-    default: 'csv'
-    description: 'Export format for results'
-    category: 'basic'
-  }
-  includeElements: {
-    type: 'boolean'
-    required: false
-    default: true
-    description: 'Include form elements and field details'
-    category: 'basic'
-  }
-  maxResults: {
-    type: 'number'
-    required: false
-    default: 25
-    min: 1
-    max: 10000
-    description: 'Maximum number of results to return'
-    category: 'basic'
-  }
-}
 
 class FormAssetTool extends BaseTool {
   constructor() {
@@ -168,6 +36,7 @@ class FormAssetTool extends BaseTool {
       id: 'form-asset-tool',
       name: 'Form Asset Management',
       description: 'Search for form assets and export detailed API information',
+      summary: 'Search and export form data',
       icon: 'FileText',
       path: '/form-assets',
       category: 'assets',
@@ -185,43 +54,14 @@ class FormAssetTool extends BaseTool {
     super(config)
   }
 
-  validateParameters(parameters: FormAssetParameters): boolean {
-    if (!parameters) return false
-
-    // Validate export format
-    if (!ParameterValidator.isRequired(parameters.exportFormat) ||
-        !['csv', 'json'].includes(parameters.exportFormat)) {
-      return false
-    }
-
-    // Validate max results
-    if (parameters.maxResults !== undefined && 
-        (!ParameterValidator.isNumber(parameters.maxResults) || 
-         parameters.maxResults < 1 || 
-         parameters.maxResults > 10000)) {
-      return false
-    }
-
-    // Validate string parameters if provided
-    if (parameters.formName !== undefined && 
-        !ParameterValidator.isString(parameters.formName)) {
-      return false
-    }
-
-    if (parameters.searchById !== undefined && 
-        !ParameterValidator.isString(parameters.searchById)) {
-      return false
-    }
-
-    return true
-  }
-
-  getParameterSchema(): FormAssetSchema {
+  getParameterSchema(): ParameterSchema {
     return {
       // Search by ID
       searchById: {
         type: 'string',
         required: false,
+        pattern: '^[\\d\\s,]*$',
+        errorMessage: 'Enter numeric IDs separated by commas',
         description: 'Search for specific form(s) by ID - use comma-separated values for multiple IDs',
         category: 'basic'
       },
@@ -236,6 +76,7 @@ class FormAssetTool extends BaseTool {
       createdAt: {
         type: 'string',
         required: false,
+        format: 'date',
         description: 'Created date (YYYY-MM-DD format)',
         category: 'advanced'
       },
@@ -250,6 +91,7 @@ class FormAssetTool extends BaseTool {
       updatedAt: {
         type: 'string',
         required: false,
+        format: 'date',
         description: 'Updated date (YYYY-MM-DD format)',
         category: 'advanced'
       },
@@ -342,11 +184,11 @@ class FormAssetTool extends BaseTool {
         category: 'basic'
       },
       maxResults: {
-        type: 'number',
+        type: 'integer',
         required: false,
         default: 25,
-        min: 1,
-        max: 10000,
+        minimum: 1,
+        maximum: 10000,
         description: 'Maximum number of results to return',
         category: 'basic'
       }
@@ -356,7 +198,7 @@ class FormAssetTool extends BaseTool {
   async execute(context: ToolExecutionContext, parameters: FormAssetParameters): Promise<ToolResult> {
     try {
       // Initialize API service if needed
-      if (!eloquaApiService) {
+      if (!context.eloquaApi) {
         throw new Error('Eloqua API service not initialized')
       }
 
@@ -384,7 +226,7 @@ class FormAssetTool extends BaseTool {
       context.showProgress('Searching for form assets...')
 
       // Handle ID search differently
-      let forms = []
+      const forms: EloquaForm[] = []
       
       if (searchById) {
         // If searching by ID, handle multiple comma-separated IDs
@@ -392,15 +234,17 @@ class FormAssetTool extends BaseTool {
         
         context.showProgress(`Fetching ${formIds.length} form(s) by ID...`)
         
-        for (let i = 0; i < formIds.length; i++) {
-          const formId = formIds[i]
-          try {
-            context.showProgress(`Fetching form ${i + 1}/${formIds.length}: ID ${formId}`)
-            const formDetails = await eloquaApiService.getFormDetailsV2(formId, 'complete')
-            forms.push(formDetails)
-          } catch (error) {
-            console.warn(`Form with ID ${formId} not found:`, error)
+        const poolResults = await runWorkPool(formIds, formId => context.eloquaApi.getFormDetailsV2(formId, 'complete'), {
+          rateKey: context.credentials?.baseUrl,
+          signal: context.signal,
+          onProgress: ({ completed }) => context.showProgress(`Fetched form ${completed}/${formIds.length}`)
+        })
+        for (const result of poolResults) {
+          if (result.status === 'fulfilled') {
+            forms.push(result.value)
+          } else if (result.status === 'rejected') {
             // Continue with other IDs instead of failing completely
+            console.warn(`Form with ID ${result.item} not found:`, result.error)
           }
         }
         
@@ -437,14 +281,14 @@ class FormAssetTool extends BaseTool {
           const remaining = maxResults - forms.length
           const currentPageSize = Math.min(pageSize, remaining)
 
-          const response = await eloquaApiService.getFormsV2(searchQuery, page, currentPageSize)
+          const response = await context.eloquaApi.getFormsV2(searchQuery, page, currentPageSize)
 
           if (response.elements && response.elements.length > 0) {
             forms.push(...response.elements)
             
             // Check if we have more results
-            hasMoreResults = response.elements.length === currentPageSize && 
-                            response.page < response.pageCount
+            hasMoreResults = response.elements.length === currentPageSize &&
+                            (response.total === undefined || forms.length < response.total)
             page++
           } else {
             hasMoreResults = false
@@ -560,7 +404,7 @@ class FormAssetTool extends BaseTool {
   }
 
   private async processFormsForExport(
-    forms: any[],
+    forms: EloquaForm[],
     includeElements: boolean,
     context: ToolExecutionContext
   ): Promise<any[]> {
@@ -584,17 +428,17 @@ class FormAssetTool extends BaseTool {
         updatedByName: form.updatedByName,
         folderId: form.folderId,
         folderName: form.folderName,
-        isArchived: form.archived === 'true' || form.archived === true,
+        isArchived: form.archived === true,
         permissions: Array.isArray(form.permissions) ? form.permissions.join(', ') : '',
         currentStatus: form.currentStatus,
         depth: form.depth,
         submitMessage: form.submitFailedLandingPageId,
-        isResponsive: form.isResponsive === 'true' || form.isResponsive === true,
+        isResponsive: form.isResponsive === true,
         processingType: form.processingType,
         style: form.style,
         customCSS: form.customCSS,
-        isHidden: form.isHidden === 'true' || form.isHidden === true,
-        isFormSpamProtectionEnabled: form.isFormSpamProtectionEnabled === 'true' || form.isFormSpamProtectionEnabled === true,
+        isHidden: form.isHidden === true,
+        isFormSpamProtectionEnabled: form.isFormSpamProtectionEnabled === true,
         externalIntegrationUrl: form.externalIntegrationUrl,
         fieldCount: 0,
         requiredFieldCount: 0,
@@ -607,18 +451,16 @@ class FormAssetTool extends BaseTool {
       // Process elements if they exist
       if (form.elements && Array.isArray(form.elements)) {
         processedForm.fieldCount = form.elements.length
-        processedForm.requiredFieldCount = form.elements.filter((el: any) => 
-          el.validations?.isRequired === 'true' || el.validations?.isRequired === true
-        ).length
+        processedForm.requiredFieldCount = form.elements.filter(el => this.isRequiredField(el)).length
         
         // Extract field types
-        const fieldTypes = [...new Set(form.elements.map((el: any) => el.type).filter(Boolean))]
+        const fieldTypes = [...new Set(form.elements.map(el => el.type).filter(Boolean))]
         processedForm.fieldTypes = fieldTypes.join(', ')
         
         // Create summary of elements
         if (includeElements) {
-          const elementSummary = form.elements.map((el: any) => {
-            const required = el.validations?.isRequired ? '[REQ]' : ''
+          const elementSummary = form.elements.map(el => {
+            const required = this.isRequiredField(el) ? '[REQ]' : ''
             return `${el.name || el.htmlName || 'Unnamed'} (${el.type || 'Unknown'})${required}`
           }).join('; ')
           processedForm.elements = elementSummary
@@ -630,28 +472,26 @@ class FormAssetTool extends BaseTool {
         processedForm.processingStepsCount = form.processingSteps.length
         
         // Extract processing step types
-        const stepTypes = [...new Set(form.processingSteps.map((step: any) => step.type).filter(Boolean))]
+        const stepTypes = [...new Set(form.processingSteps.map(step => step.type).filter(Boolean))]
         processedForm.processingStepTypes = stepTypes.join(', ')
       }
 
       // If we need more details and don't have them, fetch the complete form
       if (includeElements && !form.elements && form.id) {
         try {
-          const formDetails = await eloquaApiService.getFormDetailsV2(form.id, 'complete')
+          const formDetails = await context.eloquaApi.getFormDetailsV2(form.id, 'complete')
           
           if (formDetails.elements) {
             processedForm.fieldCount = formDetails.elements.length
-            processedForm.requiredFieldCount = formDetails.elements.filter((el: any) => 
-              el.validations?.isRequired === 'true' || el.validations?.isRequired === true
-            ).length
+            processedForm.requiredFieldCount = formDetails.elements.filter(el => this.isRequiredField(el)).length
             
             // Extract field types
-            const fieldTypes = [...new Set(formDetails.elements.map((el: any) => el.type).filter(Boolean))]
+            const fieldTypes = [...new Set(formDetails.elements.map(el => el.type).filter(Boolean))]
             processedForm.fieldTypes = fieldTypes.join(', ')
             
             // Create summary of elements
-            const elementSummary = formDetails.elements.map((el: any) => {
-              const required = el.validations?.isRequired ? '[REQ]' : ''
+            const elementSummary = formDetails.elements.map(el => {
+              const required = this.isRequiredField(el) ? '[REQ]' : ''
               return `${el.name || el.htmlName || 'Unnamed'} (${el.type || 'Unknown'})${required}`
             }).join('; ')
             processedForm.elements = elementSummary
@@ -659,7 +499,7 @@ class FormAssetTool extends BaseTool {
 
           if (formDetails.processingSteps) {
             processedForm.processingStepsCount = formDetails.processingSteps.length
-            const stepTypes = [...new Set(formDetails.processingSteps.map((step: any) => step.type).filter(Boolean))]
+            const stepTypes = [...new Set(formDetails.processingSteps.map(step => step.type).filter(Boolean))]
             processedForm.processingStepTypes = stepTypes.join(', ')
           }
           
@@ -675,10 +515,11 @@ class FormAssetTool extends BaseTool {
     return processedForms
   }
 
-  getComponent(): ToolComponent {
-    return {
-      render: () => null // Will be implemented with React component
-    }
+  // Required fields carry an enabled IsRequiredCondition validation
+  private isRequiredField(element: EloquaFormElement): boolean {
+    return (element.validations || []).some(validation =>
+      validation.condition?.type === 'IsRequiredCondition' && validation.isEnabled !== false
+    )
   }
 }
 
@@ -1,7 +1,12 @@
-import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent, ParameterValidator } from '../shared/toolFramework'
-import eloquaApiService from '../renderer/services/eloquaApi'
+import { createElement } from 'react'
+import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent } from '../shared/toolFramework'
+import { ParameterSchema } from '../shared/parameterSchema'
+import FormBulkSubmitComponent from '../renderer/components/FormBulkSubmitComponent'
 import { csvExamples, parameterExamples, usageGuide } from './FormBulkSubmitExamples'
 import { InputValidator } from '../shared/validation'
+import { isEloquaApiError } from '../shared/apiErrors'
+import { parseCsvLine } from '../shared/tabularData'
+import { runWorkPool, requestsPerSecondFromDelay } from '../shared/workPool'
 
 interface FormBulkSubmitParameters {
   operation?: 'submit' | 'get-examples' | 'get-usage-guide'
@@ -16,68 +21,6 @@ interface FormBulkSubmitParameters {
   exampleType?: 'csv' | 'parameters' | 'all'
 }
 
-interface FormBulkSubmitSchema {
-  operation: {
-    type: 'string'
-    required: false
-    enum: ['submit', 'get-examples', 'get-usage-guide']
-    default: 'submit'
-    description: 'Operation to perform'
-    category: 'basic'
-  }
-  siteId: {
-    type: 'string'
-    required: true
-    description: 'Numeric site identifier for Eloqua'
-    category: 'basic'
-  }
-  elqFormName: {
-    type: 'string'
-    required: true
-    description: 'Eloqua form name parameter'
-    category: 'basic'
-  }
-  csvData: {
-    type: 'string'
-    required: false
-    description: 'CSV data as text (alternative to file upload)'
-    category: 'basic'
-  }
-  requestTimeout: {
-    type: 'number'
-    required: false
-    default: 10
-    min: 1
-    max: 60
-    description: 'Request timeout in seconds'
-    category: 'advanced'
-  }
-  delayBetweenRequests: {
-    type: 'number'
-    required: false
-    default: 100
-    min: 0
-    max: 5000
-    description: 'Delay between requests in milliseconds'
-    category: 'advanced'
-  }
-  validateOnly: {
-    type: 'boolean'
-    required: false
-    default: false
-    description: 'Only validate CSV data without submitting'
-    category: 'advanced'
-  }
-  maxConcurrentRequests: {
-    type: 'number'
-    required: false
-    default: 5
-    min: 1
-    max: 20
-    description: 'Maximum number of concurrent requests'
-    category: 'advanced'
-  }
-}
 
 interface ProcessedRow {
   rowNumber: number
@@ -110,6 +53,7 @@ class FormBulkSubmitTool extends BaseTool {
       id: 'form-bulk-submit-tool',
       name: 'Form Bulk Submit',
       description: 'Submit form data in bulk from CSV files to Eloqua forms',
+      summary: 'Submit CSV data to Eloqua forms',
       icon: 'ClipboardList',
       path: '/form-bulk-submit',
       category: 'operations',
@@ -123,46 +67,14 @@ class FormBulkSubmitTool extends BaseTool {
         'Request timeout management'
       ],
       requiresAuth: false, // Uses direct form submission, not REST API
-      version: '1.0.0'
+      version: '1.0.0',
+      mutatesWhen: { operation: 'submit' },
+      supportsDryRun: true
     }
     super(config)
   }
 
-  validateParameters(parameters: FormBulkSubmitParameters): boolean {
-    if (!parameters) return false
-
-    const operation = parameters.operation || 'submit'
-
-    // For submit operations, siteId and elqFormName are required
-    if (operation === 'submit') {
-      if (!ParameterValidator.isRequired(parameters.siteId) || 
-          !this.validateSiteId(parameters.siteId)) {
-        return false
-      }
-
-      if (!ParameterValidator.isRequired(parameters.elqFormName)) {
-        return false
-      }
-
-      if (!parameters.csvData && !parameters.csvFile) {
-        return false
-      }
-
-      if (parameters.requestTimeout !== undefined && 
-          (!ParameterValidator.isNumber(parameters.requestTimeout) || 
-           parameters.requestTimeout < 1 || 
-           parameters.requestTimeout > 60)) {
-        return false
-      }
-    }
-
-    // get-examples and get-usage-guide operations don't require siteId/elqFormName
-    // since they return static documentation
-
-    return true
-  }
-
-  getParameterSchema(): FormBulkSubmitSchema {
+  getParameterSchema(): ParameterSchema {
     return {
       operation: {
         type: 'string',
@@ -175,36 +87,45 @@ class FormBulkSubmitTool extends BaseTool {
       siteId: {
         type: 'string',
         required: false,
+        requiredWhen: { operation: 'submit' },
+        title: 'Site ID',
+        pattern: '^\\d+$',
+        errorMessage: 'Site ID must be numeric',
         description: 'Numeric site identifier for Eloqua (required for submit operation)',
         category: 'basic'
       },
       elqFormName: {
         type: 'string',
         required: false,
+        requiredWhen: { operation: 'submit' },
+        title: 'Form Name',
         description: 'Eloqua form name parameter (required for submit operation)',
         category: 'basic'
       },
       csvData: {
         type: 'string',
         required: false,
+        requiredWhen: { operation: 'submit' },
+        alternatives: ['csvFile'],
+        title: 'CSV Data',
         description: 'CSV data as text (alternative to file upload)',
         category: 'basic'
       },
       requestTimeout: {
-        type: 'number',
+        type: 'integer',
         required: false,
         default: 10,
-        min: 1,
-        max: 60,
+        minimum: 1,
+        maximum: 60,
         description: 'Request timeout in seconds',
         category: 'advanced'
       },
       delayBetweenRequests: {
-        type: 'number',
+        type: 'integer',
         required: false,
         default: 100,
-        min: 0,
-        max: 5000,
+        minimum: 0,
+        maximum: 5000,
         description: 'Delay between requests in milliseconds',
         category: 'advanced'
       },
@@ -216,11 +137,11 @@ class FormBulkSubmitTool extends BaseTool {
         category: 'advanced'
       },
       maxConcurrentRequests: {
-        type: 'number',
+        type: 'integer',
         required: false,
         default: 5,
-        min: 1,
-        max: 20,
+        minimum: 1,
+        maximum: 20,
         description: 'Maximum number of concurrent requests',
         category: 'advanced'
       },
@@ -271,6 +192,7 @@ class FormBulkSubmitTool extends BaseTool {
       }
 
       context.showProgress(`Found ${csvRows.length} data rows`)
+      const submitUrl = this.getSubmitUrl(siteId, context)
 
       // Validate only mode
       if (validateOnly) {
@@ -281,7 +203,7 @@ class FormBulkSubmitTool extends BaseTool {
               totalRows: csvRows.length,
               validRows: csvRows.length,
               sampleUrls: csvRows.slice(0, 3).map((row, index) => 
-                this.buildEloquaUrl(siteId, elqFormName, row, index + 1)
+                this.buildEloquaUrl(submitUrl, siteId, elqFormName, row, index + 1)
               )
             }
           },
@@ -294,6 +216,7 @@ class FormBulkSubmitTool extends BaseTool {
       
       const results = await this.processBulkSubmissions(
         csvRows,
+        submitUrl,
         siteId,
         elqFormName,
         {
@@ -307,6 +230,19 @@ class FormBulkSubmitTool extends BaseTool {
       // Calculate summary
       const summary = this.calculateSummary(results)
 
+      if (context.signal.aborted) {
+        return {
+          success: true,
+          cancelled: true,
+          data: {
+            summary,
+            results,
+            timestamp: new Date().toISOString()
+          },
+          message: `Bulk submission stopped: ${results.length}/${csvRows.length} rows processed, ${summary.successfulRequests} successful`
+        }
+      }
+
       return {
         success: true,
         data: {
@@ -348,7 +284,7 @@ class FormBulkSubmitTool extends BaseTool {
     context.showProgress('Parsing CSV headers...')
 
     // Parse headers
-    const headers = this.parseCsvLine(lines[0])
+    const headers = parseCsvLine(lines[0])
     if (headers.length === 0) {
       throw new Error('CSV must have column headers')
     }
@@ -362,7 +298,7 @@ class FormBulkSubmitTool extends BaseTool {
       const lineData = lines[i].trim()
       if (!lineData) continue // Skip empty lines
 
-      const values = this.parseCsvLine(lineData)
+      const values = parseCsvLine(lineData)
       
       // Create row object with additional sanitization
       const row: Record<string, string> = {}
@@ -384,41 +320,15 @@ class FormBulkSubmitTool extends BaseTool {
     return rows
   }
 
-  private parseCsvLine(line: string): string[] {
-    const result: string[] = []
-    let current = ''
-    let inQuotes = false
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i]
-      
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          // Escaped quote
-          current += '"'
-          i++ // Skip next quote
-        } else {
-          // Toggle quote state
-          inQuotes = !inQuotes
-        }
-      } else if (char === ',' && !inQuotes) {
-        // End of field
-        result.push(current)
-        current = ''
-      } else {
-        current += char
-      }
+  // Demo sessions submit to the local demo instance instead of Eloqua
+  private getSubmitUrl(siteId: string | undefined, context: ToolExecutionContext): string {
+    if (context.credentials?.authMethod === 'demo') {
+      return `${context.credentials.baseUrl}/e/f2`
     }
-    
-    // Add the last field
-    result.push(current)
-    
-    return result
+    return this.ELOQUA_BASE_URL.replace('{siteId}', siteId || '')
   }
 
-  private buildEloquaUrl(siteId: string, elqFormName: string, csvData: Record<string, string>, rowNumber: number): string {
-    const baseUrl = this.ELOQUA_BASE_URL.replace('{siteId}', siteId)
-    
+  private buildEloquaUrl(baseUrl: string, siteId: string, elqFormName: string, csvData: Record<string, string>, rowNumber: number): string {
     // Start with required parameters
     const params = new URLSearchParams()
     params.append('elqFormName', elqFormName)
@@ -434,6 +344,7 @@ class FormBulkSubmitTool extends BaseTool {
 
   private async processBulkSubmissions(
     csvRows: Array<Record<string, string>>,
+    submitUrl: string,
     siteId: string,
     elqFormName: string,
     options: {
@@ -443,94 +354,83 @@ class FormBulkSubmitTool extends BaseTool {
     },
     context: ToolExecutionContext
   ): Promise<ProcessedRow[]> {
-    const results: ProcessedRow[] = []
-    const semaphore = new Array(options.maxConcurrentRequests).fill(null)
-    let processedCount = 0
-
-    // Process in batches to control concurrency
-    const processBatch = async (batch: Array<{ row: Record<string, string>, index: number }>) => {
-      const batchPromises = batch.map(({ row, index }) => 
-        this.processRow(row, siteId, elqFormName, index + 1, options.requestTimeout)
-      )
-      
-      const batchResults = await Promise.allSettled(batchPromises)
-      
-      batchResults.forEach((result, batchIndex) => {
-        const rowIndex = batch[batchIndex].index
-        
-        if (result.status === 'fulfilled') {
-          results[rowIndex] = result.value
-        } else {
-          results[rowIndex] = {
-            rowNumber: rowIndex + 1,
-            success: false,
-            processingTime: 0,
-            parametersCount: Object.keys(batch[batchIndex].row).length,
-            error: `Promise rejected: ${result.reason}`
-          }
+    context.reportProgress({ phase: 'Submitting rows', total: csvRows.length })
+
+    const poolResults = await runWorkPool(
+      csvRows,
+      (row, index) => this.processRow(row, submitUrl, siteId, elqFormName, index + 1, options.requestTimeout, context),
+      {
+        concurrency: options.maxConcurrentRequests,
+        requestsPerSecond: requestsPerSecondFromDelay(options.delayBetweenRequests),
+        rateKey: context.credentials?.baseUrl,
+        signal: context.signal,
+        onProgress: ({ completed }) => {
+          context.showProgress(`Processed ${completed}/${csvRows.length} rows (${Math.round((completed / csvRows.length) * 100)}%)`)
+        },
+        onItemComplete: result => {
+          if (result.status === 'skipped') return
+          // processRow reports HTTP failures in its result rather than throwing
+          const error = result.status === 'rejected' ? String(result.error) : result.value.error
+          context.reportItem({
+            id: String(result.index + 1),
+            label: `Row ${result.index + 1}`,
+            status: result.status === 'fulfilled' && result.value.success ? 'succeeded' : 'failed',
+            error
+          })
         }
-        
-        processedCount++
-        context.showProgress(`Processed ${processedCount}/${csvRows.length} rows (${Math.round((processedCount / csvRows.length) * 100)}%)`)
-      })
-    }
+      }
+    )
 
-    // Process rows in batches
-    for (let i = 0; i < csvRows.length; i += options.maxConcurrentRequests) {
-      const batch = csvRows
-        .slice(i, i + options.maxConcurrentRequests)
-        .map((row, batchIndex) => ({ row, index: i + batchIndex }))
-      
-      await processBatch(batch)
-      
-      // Add delay between batches if specified
-      if (options.delayBetweenRequests > 0 && i + options.maxConcurrentRequests < csvRows.length) {
-        await new Promise(resolve => setTimeout(resolve, options.delayBetweenRequests))
+    // Rows not started before Stop are left out of the results
+    const results: ProcessedRow[] = []
+    for (const result of poolResults) {
+      if (result.status === 'fulfilled') {
+        results.push(result.value)
+      } else if (result.status === 'rejected') {
+        results.push({
+          rowNumber: result.index + 1,
+          success: false,
+          processingTime: 0,
+          parametersCount: Object.keys(result.item).length,
+          error: `Promise rejected: ${result.error}`
+        })
       }
     }
 
+    if (context.signal.aborted) {
+      context.showProgress(`Stopped after ${results.length}/${csvRows.length} rows`)
+    }
+
     return results
   }
 
   private async processRow(
     rowData: Record<string, string>,
+    submitUrl: string,
     siteId: string,
     elqFormName: string,
     rowNumber: number,
-    timeout: number
+    timeout: number,
+    context: ToolExecutionContext
   ): Promise<ProcessedRow> {
     const startTime = performance.now()
     
     try {
-      const targetUrl = this.buildEloquaUrl(siteId, elqFormName, rowData, rowNumber)
+      const targetUrl = this.buildEloquaUrl(submitUrl, siteId, elqFormName, rowData, rowNumber)
       
-      // Use fetch with AbortController for timeout
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), timeout * 1000)
-      
-      const response = await fetch(targetUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'User-Agent': 'EloquaAdminToolbox-BulkSubmit/1.0'
-        },
-        body: new URLSearchParams(rowData),
-        signal: controller.signal
-      })
-      
-      clearTimeout(timeoutId)
+      // Sent through the run's service, so a dry run records the submission instead
+      const response = await context.eloquaApi.submitForm(targetUrl, rowData, timeout * 1000)
       
       const processingTime = performance.now() - startTime
-      const responseText = await response.text()
       
       return {
         rowNumber,
         success: true,
-        statusCode: response.status,
+        statusCode: response?.status,
         processingTime: Math.round(processingTime),
         url: targetUrl,
         parametersCount: Object.keys(rowData).length,
-        responseSize: responseText.length,
+        responseSize: response?.body.length,
         data: rowData
       }
       
@@ -538,7 +438,9 @@ class FormBulkSubmitTool extends BaseTool {
       const processingTime = performance.now() - startTime
       
       let errorMessage: string
-      if (error instanceof Error) {
+      if (isEloquaApiError(error) && error.isAborted()) {
+        errorMessage = 'Stopped'
+      } else if (error instanceof Error) {
         if (error.name === 'AbortError') {
           errorMessage = 'Request timeout'
         } else {
@@ -563,23 +465,19 @@ class FormBulkSubmitTool extends BaseTool {
     const successfulRequests = results.filter(r => r.success).length
     const failedRequests = results.length - successfulRequests
     const totalProcessingTime = results.reduce((sum, r) => sum + r.processingTime, 0)
-    const averageProcessingTime = totalProcessingTime / results.length
+    const averageProcessingTime = results.length > 0 ? totalProcessingTime / results.length : 0
     
     return {
       totalRows: results.length,
       successfulRequests,
       failedRequests,
-      successRate: Math.round((successfulRequests / results.length) * 100 * 10) / 10,
+      successRate: results.length > 0 ? Math.round((successfulRequests / results.length) * 100 * 10) / 10 : 0,
       totalProcessingTime: Math.round(totalProcessingTime),
       averageProcessingTime: Math.round(averageProcessingTime * 10) / 10,
       averageResponseTime: Math.round(averageProcessingTime * 10) / 10
     }
   }
 
-  private validateSiteId(siteId: string): boolean {
-    return /^\d+$/.test(siteId)
-  }
-
   private getExamples(exampleType: string): ToolResult {
     let examples: any
 
@@ -623,7 +521,7 @@ class FormBulkSubmitTool extends BaseTool {
 
   getComponent(): ToolComponent {
     return {
-      render: () => 'FormBulkSubmitComponent' // Component name for dynamic loading
+      render: () => createElement(FormBulkSubmitComponent)
     }
   }
 }
@@ -1,5 +1,5 @@
-import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent, ParameterValidator } from '../shared/toolFramework'
-import eloquaApiService from '../renderer/services/eloquaApi'
+import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult } from '../shared/toolFramework'
+import { ParameterErrors, ParameterSchema } from '../shared/parameterSchema'
 import { formTemplates, formExamples } from './FormTemplates'
 
 interface FormManagementParameters {
@@ -17,81 +17,6 @@ interface FormManagementParameters {
   templateType?: 'forms' | 'fields' | 'validations' | 'examples'
 }
 
-interface FormManagementSchema {
-  operation: {
-    type: 'string'
-    required: true
-    enum: ['create', 'update', 'delete', 'copy', 'analyze', 'manage-fields', 'export-submissions', 'get-templates']
-    default: 'analyze'
-    description: 'Form management operation to perform'
-    category: 'basic'
-  }
-  formId: {
-    type: 'string'
-    required: false
-    description: 'Form ID (required for update, delete, copy, analyze, manage-fields, export-submissions)'
-    category: 'basic'
-  }
-  formData: {
-    type: 'object'
-    required: false
-    description: 'Form data for create/update operations (JSON object)'
-    category: 'advanced'
-  }
-  newName: {
-    type: 'string'
-    required: false
-    description: 'New name for copy operation'
-    category: 'basic'
-  }
-  targetFolderId: {
-    type: 'string'
-    required: false
-    description: 'Target folder ID for copy operation'
-    category: 'basic'
-  }
-  fieldId: {
-    type: 'string'
-    required: false
-    description: 'Field ID for field management operations'
-    category: 'basic'
-  }
-  fieldData: {
-    type: 'object'
-    required: false
-    description: 'Field data for field management (JSON object)'
-    category: 'advanced'
-  }
-  startDate: {
-    type: 'string'
-    required: false
-    description: 'Start date for analytics/submissions (YYYY-MM-DD)'
-    category: 'basic'
-  }
-  endDate: {
-    type: 'string'
-    required: false
-    description: 'End date for analytics/submissions (YYYY-MM-DD)'
-    category: 'basic'
-  }
-  exportFormat: {
-    type: 'string'
-    required: false
-    enum: ['csv', 'json']
-    default: 'json'
-    description: 'Export format for results'
-    category: 'basic'
-  }
-  maxResults: {
-    type: 'number'
-    required: false
-    default: 1000
-    min: 1
-    max: 10000
-    description: 'Maximum number of results'
-    category: 'basic'
-  }
-}
 
 class FormManagementTool extends BaseTool {
   constructor() {
@@ -99,6 +24,7 @@ class FormManagementTool extends BaseTool {
       id: 'form-management-tool',
       name: 'Form Management Center',
       description: 'Comprehensive form management: create, update, delete, copy, analyze, and manage fields',
+      summary: 'Create, copy, analyze and delete forms',
       icon: 'Wrench',
       path: '/form-management',
       category: 'management',
@@ -109,51 +35,24 @@ class FormManagementTool extends BaseTool {
         'Delete forms with safety checks',
         'Form analytics and submission data',
         'Field management (add, update, remove)',
+        'Dry run of changes, reviewed before they are applied',
         'Submission data export',
         'Performance metrics and insights'
       ],
       requiresAuth: true,
-      version: '1.0.0'
+      version: '1.0.0',
+      mutatesWhen: { operation: ['create', 'update', 'delete', 'copy', 'manage-fields'] },
+      supportsDryRun: true
     }
     super(config)
   }
 
-  validateParameters(parameters: FormManagementParameters): boolean {
-    if (!parameters) return false
-
-    // Validate operation
-    if (!ParameterValidator.isRequired(parameters.operation) ||
-        !['create', 'update', 'delete', 'copy', 'analyze', 'manage-fields', 'export-submissions', 'get-templates'].includes(parameters.operation)) {
-      return false
-    }
-
-    // Validate form ID for operations that require it
-    const operationsRequiringFormId = ['update', 'delete', 'copy', 'analyze', 'manage-fields', 'export-submissions']
-    if (operationsRequiringFormId.includes(parameters.operation) && 
-        !ParameterValidator.isRequired(parameters.formId)) {
-      return false
-    }
-
-    // Validate form data for create/update operations
-    if ((parameters.operation === 'create' || parameters.operation === 'update') && 
-        !parameters.formData) {
-      return false
-    }
-
-    // Validate new name for copy operation
-    if (parameters.operation === 'copy' && !ParameterValidator.isRequired(parameters.newName)) {
-      return false
-    }
-
-    return true
-  }
-
-  getParameterSchema(): FormManagementSchema {
+  getParameterSchema(): ParameterSchema {
     return {
       operation: {
         type: 'string',
         required: true,
-        enum: ['create', 'update', 'delete', 'copy', 'analyze', 'manage-fields', 'export-submissions'],
+        enum: ['create', 'update', 'delete', 'copy', 'analyze', 'manage-fields', 'export-submissions', 'get-templates'],
         default: 'analyze',
         description: 'Form management operation to perform',
         category: 'basic'
@@ -161,18 +60,24 @@ class FormManagementTool extends BaseTool {
       formId: {
         type: 'string',
         required: false,
+        requiredWhen: { operation: ['update', 'delete', 'copy', 'analyze', 'manage-fields', 'export-submissions'] },
+        title: 'Form ID',
+        pattern: '^\\d+$',
+        errorMessage: 'Form ID must be numeric',
         description: 'Form ID (required for update, delete, copy, analyze, manage-fields, export-submissions)',
         category: 'basic'
       },
       formData: {
         type: 'object',
         required: false,
+        requiredWhen: { operation: ['create', 'update'] },
         description: 'Form data for create/update operations (JSON object)',
         category: 'advanced'
       },
       newName: {
         type: 'string',
         required: false,
+        requiredWhen: { operation: 'copy' },
         description: 'New name for copy operation',
         category: 'basic'
       },
@@ -185,6 +90,7 @@ class FormManagementTool extends BaseTool {
       fieldId: {
         type: 'string',
         required: false,
+        title: 'Field ID',
         description: 'Field ID for field management operations',
         category: 'basic'
       },
@@ -197,12 +103,14 @@ class FormManagementTool extends BaseTool {
       startDate: {
         type: 'string',
         required: false,
+        format: 'date',
         description: 'Start date for analytics/submissions (YYYY-MM-DD)',
         category: 'basic'
       },
       endDate: {
         type: 'string',
         required: false,
+        format: 'date',
         description: 'End date for analytics/submissions (YYYY-MM-DD)',
         category: 'basic'
       },
@@ -215,11 +123,11 @@ class FormManagementTool extends BaseTool {
         category: 'basic'
       },
       maxResults: {
-        type: 'number',
+        type: 'integer',
         required: false,
         default: 1000,
-        min: 1,
-        max: 10000,
+        minimum: 1,
+        maximum: 10000,
         description: 'Maximum number of results',
         category: 'basic'
       },
@@ -234,9 +142,21 @@ class FormManagementTool extends BaseTool {
     }
   }
 
+  validateParameters(parameters: FormManagementParameters): ParameterErrors {
+    const errors = super.validateParameters(parameters)
+
+    // Updating or removing a field needs to know which one
+    const action = parameters?.fieldData?.action
+    if (parameters?.operation === 'manage-fields' && (action === 'update' || action === 'remove') && !parameters.fieldId) {
+      errors.fieldId = `Field ID is required to ${action} a field`
+    }
+
+    return errors
+  }
+
   async execute(context: ToolExecutionContext, parameters: FormManagementParameters): Promise<ToolResult> {
     try {
-      if (!eloquaApiService) {
+      if (!context.eloquaApi) {
         throw new Error('Eloqua API service not initialized')
       }
 
@@ -273,7 +193,7 @@ class FormManagementTool extends BaseTool {
   private async createForm(context: ToolExecutionContext, parameters: FormManagementParameters): Promise<ToolResult> {
     context.showProgress('Creating new form...')
     
-    const result = await eloquaApiService.createForm(parameters.formData)
+    const result = await context.eloquaApi.createForm(parameters.formData)
     
     return {
       success: true,
@@ -285,7 +205,7 @@ class FormManagementTool extends BaseTool {
   private async updateForm(context: ToolExecutionContext, parameters: FormManagementParameters): Promise<ToolResult> {
     context.showProgress(`Updating form ${parameters.formId}...`)
     
-    const result = await eloquaApiService.updateForm(parameters.formId!, parameters.formData)
+    const result = await context.eloquaApi.updateForm(parameters.formId!, parameters.formData)
     
     return {
       success: true,
@@ -298,10 +218,10 @@ class FormManagementTool extends BaseTool {
     context.showProgress(`Deleting form ${parameters.formId}...`)
     
     // Get form details first for confirmation
-    const form = await eloquaApiService.getFormDetails(parameters.formId!)
+    const form = await context.eloquaApi.getFormDetails(parameters.formId!)
     
     // Perform deletion
-    await eloquaApiService.deleteForm(parameters.formId!)
+    await context.eloquaApi.deleteForm(parameters.formId!)
     
     return {
       success: true,
@@ -313,7 +233,7 @@ class FormManagementTool extends BaseTool {
   private async copyForm(context: ToolExecutionContext, parameters: FormManagementParameters): Promise<ToolResult> {
     context.showProgress(`Copying form ${parameters.formId}...`)
     
-    const result = await eloquaApiService.copyForm(
+    const result = await context.eloquaApi.copyForm(
       parameters.formId!,
       parameters.newName!,
       parameters.targetFolderId
@@ -330,11 +250,11 @@ class FormManagementTool extends BaseTool {
     context.showProgress(`Analyzing form ${parameters.formId}...`)
     
     // Get form details
-    const form = await eloquaApiService.getFormDetails(parameters.formId!)
+    const form = await context.eloquaApi.getFormDetails(parameters.formId!)
     
     // Get form analytics
     context.showProgress('Fetching form analytics...')
-    const analytics = await eloquaApiService.getFormAnalytics(
+    const analytics = await context.eloquaApi.getFormAnalytics(
       parameters.formId!,
       parameters.startDate,
       parameters.endDate
@@ -342,7 +262,7 @@ class FormManagementTool extends BaseTool {
     
     // Get form fields
     context.showProgress('Analyzing form fields...')
-    const fields = await eloquaApiService.getFormFields(parameters.formId!)
+    const fields = await context.eloquaApi.getFormFields(parameters.formId!)
     
     // Calculate field statistics
     const fieldStats = {
@@ -388,7 +308,7 @@ class FormManagementTool extends BaseTool {
     
     if (!parameters.fieldData) {
       // Just return current fields
-      const fields = await eloquaApiService.getFormFields(parameters.formId!)
+      const fields = await context.eloquaApi.getFormFields(parameters.formId!)
       return {
         success: true,
         data: { fields },
@@ -401,13 +321,13 @@ class FormManagementTool extends BaseTool {
     
     if (fieldData.action === 'add') {
       context.showProgress('Adding new field...')
-      result = await eloquaApiService.addFormField(parameters.formId!, fieldData.field)
+      result = await context.eloquaApi.addFormField(parameters.formId!, fieldData.field)
     } else if (fieldData.action === 'update' && parameters.fieldId) {
       context.showProgress('Updating field...')
-      result = await eloquaApiService.updateFormField(parameters.formId!, parameters.fieldId, fieldData.field)
+      result = await context.eloquaApi.updateFormField(parameters.formId!, parameters.fieldId, fieldData.field)
     } else if (fieldData.action === 'remove' && parameters.fieldId) {
       context.showProgress('Removing field...')
-      result = await eloquaApiService.removeFormField(parameters.formId!, parameters.fieldId)
+      result = await context.eloquaApi.removeFormField(parameters.formId!, parameters.fieldId)
     } else {
       throw new Error('Invalid field management action or missing fieldId')
     }
@@ -422,22 +342,27 @@ class FormManagementTool extends BaseTool {
   private async exportSubmissions(context: ToolExecutionContext, parameters: FormManagementParameters): Promise<ToolResult> {
     context.showProgress(`Exporting submissions for form ${parameters.formId}...`)
     
-    const submissions = await eloquaApiService.getFormSubmissions(
-      parameters.formId!,
-      parameters.startDate,
-      parameters.endDate,
-      1,
-      parameters.maxResults || 1000
-    )
+    let totalCount = 0
+    const submissions = await context.eloquaApi.listAll(`/api/REST/1.0/data/form/${parameters.formId}`, {
+      params: {
+        startAt: parameters.startDate,
+        endAt: parameters.endDate
+      },
+      maxItems: parameters.maxResults || 1000,
+      onPage: ({ fetched, total }) => {
+        totalCount = total ?? fetched
+        context.showProgress(`Fetched ${fetched}${total !== undefined ? ` of ${total}` : ''} submissions...`)
+      }
+    })
     
     // Process submissions for export
-    const processedSubmissions = this.processSubmissionsForExport(submissions.elements || [])
+    const processedSubmissions = this.processSubmissionsForExport(submissions)
     
     return {
       success: true,
       data: {
         submissions: processedSubmissions,
-        totalCount: submissions.totalResults || 0,
+        totalCount,
         exportFormat: parameters.exportFormat || 'json',
         dateRange: {
           startDate: parameters.startDate,
@@ -521,12 +446,6 @@ class FormManagementTool extends BaseTool {
         return 'Form templates and examples'
     }
   }
-
-  getComponent(): ToolComponent {
-    return {
-      render: () => null // Will be implemented with React component
-    }
-  }
 }
 
 export default FormManagementTool
\ No newline at end of file
@@ -1,5 +1,8 @@
-import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent, ParameterValidator } from '../shared/toolFramework'
-import eloquaApiService from '../renderer/services/eloquaApi'
+import { createElement } from 'react'
+import { BaseTool, ToolConfig, ToolExecutionContext, ToolResult, ToolComponent } from '../shared/toolFramework'
+import { ParameterSchema } from '../shared/parameterSchema'
+import ProgramExportComponent from '../renderer/components/ProgramExportComponent'
+import { EloquaCanvasElement, EloquaProgram } from '../shared/apiTypes'
 
 interface ProgramExportParameters {
   operation?: 'export-programs' | 'get-usage-guide'
@@ -22,7 +25,7 @@ interface Program {
   memberCount: number
   runAsUserId: string
   defaultMembershipPolicyId: string
-  elements: any[]
+  elements: EloquaCanvasElement[]
 }
 
 interface ProgramExportSummary {
@@ -34,31 +37,6 @@ interface ProgramExportSummary {
   format: string
 }
 
-interface ProgramExportSchema {
-  operation: {
-    type: 'string'
-    required: false
-    enum: ['export-programs', 'get-usage-guide']
-    default: 'export-programs'
-    description: 'Operation to perform'
-    category: 'basic'
-  }
-  filename: {
-    type: 'string'
-    required: false
-    default: 'programs-export'
-    description: 'Name for the exported file (without extension)'
-    category: 'basic'
-  }
-  format: {
-    type: 'string'
-    required: false
-    enum: ['csv', 'json']
-    default: 'csv'
-    description: 'Export format'
-    category: 'basic'
-  }
-}
 
 class ProgramExportTool extends BaseTool {
   constructor() {
@@ -66,6 +44,7 @@ class ProgramExportTool extends BaseTool {
       id: 'program-export-tool',
       name: 'Program Export',
       description: 'Export all Eloqua programs to CSV or JSON format',
+      summary: 'Export all programs to CSV or JSON',
       icon: 'Download',
       path: '/program-export',
       category: 'data-export',
@@ -83,20 +62,7 @@ class ProgramExportTool extends BaseTool {
     super(config)
   }
 
-  validateParameters(parameters: ProgramExportParameters): boolean {
-    if (!parameters) return false
-
-    // Validate filename if provided
-    if (parameters.filename !== undefined && 
-        (!ParameterValidator.isString(parameters.filename) || 
-         parameters.filename.trim().length === 0)) {
-      return false
-    }
-
-    return true
-  }
-
-  getParameterSchema(): ProgramExportSchema {
+  getParameterSchema(): ParameterSchema {
     return {
       operation: {
         type: 'string',
@@ -110,6 +76,7 @@ class ProgramExportTool extends BaseTool {
         type: 'string',
         required: false,
         default: 'programs-export',
+        minLength: 1,
         description: 'Name for the exported file (without extension)',
         category: 'basic'
       },
@@ -127,7 +94,7 @@ class ProgramExportTool extends BaseTool {
   async execute(context: ToolExecutionContext, parameters: ProgramExportParameters): Promise<ToolResult> {
     try {
       // Initialize API service if needed
-      if (!eloquaApiService) {
+      if (!context.eloquaApi) {
         throw new Error('Eloqua API service not initialized')
       }
 
@@ -169,18 +136,15 @@ class ProgramExportTool extends BaseTool {
     try {
       context.showProgress('Fetching programs from Eloqua...')
       
-      // Fetch all programs
-      const response = await eloquaApiService.makeRequest('GET', '/api/rest/2.0/assets/programs', {
-        depth: 'complete',
-        count: 1000, // Get up to 1000 programs
-        orderBy: 'name'
+      // Fetch all programs, following every page
+      const elements = await context.eloquaApi.listAll<EloquaProgram>('/api/rest/2.0/assets/programs', {
+        params: { depth: 'complete', orderBy: 'name' },
+        onPage: ({ fetched, total }) => {
+          context.showProgress(`Fetched ${fetched}${total !== undefined ? ` of ${total}` : ''} programs...`)
+        }
       })
 
-      if (!response.elements || !Array.isArray(response.elements)) {
-        throw new Error('Invalid response format from Eloqua API')
-      }
-
-      const programs: Program[] = response.elements.map((program: any) => ({
+      const programs: Program[] = elements.map(program => ({
         id: program.id || '',
         name: program.name || '',
         description: program.description || '',
@@ -360,7 +324,7 @@ class ProgramExportTool extends BaseTool {
 
   getComponent(): ToolComponent {
     return {
-      render: () => null // Will be implemented with React component
+      render: () => createElement(ProgramExportComponent)
     }
   }
 }
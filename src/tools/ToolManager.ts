@@ -1,4 +1,5 @@
 import { toolRegistry } from '../shared/toolFramework'
+import { ParameterErrors } from '../shared/parameterSchema'
 import EmailAssetTool from './EmailAssetTool'
 import FormAssetTool from './FormAssetTool'
 import FormManagementTool from './FormManagementTool'
@@ -8,10 +9,22 @@ import BulkSyncDeletionTool from './BulkSyncDeletionTool'
 import ContactFieldExportTool from './ContactFieldExportTool'
 import ProgramExportTool from './ProgramExportTool'
 import CampaignExportTool from './CampaignExportTool'
+import BulkImportTool from './BulkImportTool'
+import { loadToolPlugins } from './pluginLoader'
+
+// Outcome of loading one enabled plugin, shown on the Plugins page
+export interface ToolPluginStatus {
+  pluginId: string
+  toolId?: string
+  error?: string
+}
 
 class ToolManager {
   private static instance: ToolManager
   private initialized = false
+  private pluginsLoaded: Promise<void> = Promise.resolve()
+  private pluginStatuses: ToolPluginStatus[] = []
+  private listeners = new Set<() => void>()
 
   private constructor() {}
 
@@ -30,6 +43,7 @@ class ToolManager {
     this.initialized = true
   }
 
+  // Registration order is the order of the navigation and the dashboard
   private registerTools(): void {
     // Register Email Asset Tool
     toolRegistry.register(new EmailAssetTool())
@@ -43,6 +57,9 @@ class ToolManager {
     // Register Form Bulk Submit Tool
     toolRegistry.register(new FormBulkSubmitTool())
 
+    // Register Bulk Import Tool
+    toolRegistry.register(new BulkImportTool())
+
     // Register Asset Dependency Tool
     toolRegistry.register(new AssetDependencyTool())
 
@@ -57,6 +74,52 @@ class ToolManager {
 
     // Register Campaign Export Tool
     toolRegistry.register(new CampaignExportTool())
+
+    // Plugin tools follow the built-in ones once their bundles are loaded
+    this.pluginsLoaded = this.registerPlugins()
+  }
+
+  private async registerPlugins(): Promise<void> {
+    // Plugins are served by the Electron main process
+    if (typeof window === 'undefined' || !window.electronAPI?.listPlugins) return
+
+    try {
+      for (const plugin of await loadToolPlugins()) {
+        const toolId = plugin.tool?.getConfig().id
+        if (!plugin.tool || !toolId) {
+          this.pluginStatuses.push({ pluginId: plugin.pluginId, error: plugin.error })
+        } else if (this.isToolRegistered(toolId)) {
+          this.pluginStatuses.push({ pluginId: plugin.pluginId, error: `A tool with the id "${toolId}" is already registered` })
+        } else {
+          toolRegistry.register(plugin.tool)
+          this.pluginStatuses.push({ pluginId: plugin.pluginId, toolId })
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load plugins:', error instanceof Error ? error.message : error)
+    }
+    this.listeners.forEach(listener => listener())
+  }
+
+  // Resolves once enabled plugins have been loaded and their tools registered
+  whenPluginsLoaded(): Promise<void> {
+    return this.pluginsLoaded
+  }
+
+  getPluginStatuses(): ToolPluginStatus[] {
+    return [...this.pluginStatuses]
+  }
+
+  /**
+   * Calls the listener when tools are added to the registry after start-up
+   * @param listener - Change callback
+   * @returns () => void - Unsubscribes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
   }
 
   getToolsForNavigation() {
@@ -66,10 +129,12 @@ class ToolManager {
         id: config.id,
         name: config.name,
         description: config.description,
+        summary: config.summary,
         icon: config.icon,
         path: config.path,
         category: config.category,
-        features: config.features
+        features: config.features,
+        pluginId: config.pluginId
       }
     })
   }
@@ -92,11 +157,29 @@ class ToolManager {
     return tool?.getConfig()
   }
 
+  // Custom page of the tool, or null when it uses the form generated from its schema
+  getToolComponent(toolId: string) {
+    const tool = toolRegistry.get(toolId)
+    return tool?.getComponent() || null
+  }
+
   getToolParameterSchema(toolId: string) {
     const tool = toolRegistry.get(toolId)
     return tool?.getParameterSchema()
   }
 
+  // Field errors for the given parameters; empty when they are valid or the tool is unknown
+  validateToolParameters(toolId: string, parameters: any): ParameterErrors {
+    const tool = toolRegistry.get(toolId)
+    return tool ? tool.validateParameters(parameters) : {}
+  }
+
+  // True when a run of the tool with these parameters changes data in Eloqua
+  isToolRunMutating(toolId: string, parameters: any): boolean {
+    const tool = toolRegistry.get(toolId)
+    return tool ? tool.isMutating(parameters) : false
+  }
+
   isToolRegistered(toolId: string): boolean {
     return toolRegistry.get(toolId) !== undefined
   }
@@ -0,0 +1,109 @@
+import { ToolExecutionContext, ToolExecutor, ToolResult, toolRegistry } from '../shared/toolFramework'
+import { ToolProgressTracker, formatDuration } from '../shared/toolProgress'
+import { HeadlessRunOptions, HeadlessToolInfo } from '../shared/headlessRunner'
+import eloquaApiService from '../renderer/services/eloquaApi'
+import { setToolServiceApi } from '../renderer/services/toolServiceApi'
+import ToolManager from './ToolManager'
+
+// Counts are printed at most this often while a phase runs
+const PROGRESS_INTERVAL_MS = 2000
+
+/**
+ * Lists the built-in tools. Plugins are loaded by the app window only.
+ * @returns HeadlessToolInfo[] - Tools in registration order
+ */
+export function listTools(): HeadlessToolInfo[] {
+  ToolManager.getInstance().initialize()
+  return toolRegistry.getAll().map(tool => {
+    const config = tool.getConfig()
+    return {
+      id: config.id,
+      name: config.name,
+      description: config.description,
+      mutating: !!config.mutatesWhen
+    }
+  })
+}
+
+export function isToolRunMutating(toolId: string, parameters: Record<string, unknown>): boolean {
+  const toolManager = ToolManager.getInstance()
+  toolManager.initialize()
+  return toolManager.isToolRunMutating(toolId, parameters)
+}
+
+/**
+ * Runs a tool outside the app window. The Eloqua services call the main
+ * process through options.api instead of the preload bridge.
+ * @param options - Tool, parameters, session and callbacks of the run
+ * @returns Promise<ToolResult> - Result of the run; failures are returned, not thrown
+ */
+export async function runTool(options: HeadlessRunOptions): Promise<ToolResult> {
+  ToolManager.getInstance().initialize()
+  setToolServiceApi(options.api)
+  eloquaApiService.initialize(options.session)
+
+  const runId = `cli-${Date.now().toString(36)}`
+  const unsubscribeRetries = eloquaApiService.onRetry(notice => {
+    if (notice.runId !== runId) return
+    const seconds = Math.max(1, Math.round(notice.delayMs / 1000))
+    options.onProgress(`${notice.reason} on ${notice.method}, retry ${notice.attempt}/${notice.maxRetries} in ${seconds}s`)
+  })
+
+  const tracker = new ToolProgressTracker()
+  let lastPhase = ''
+  let lastPrintedAt = 0
+  const printProgress = (force: boolean) => {
+    const progress = tracker.getProgress()
+    const now = Date.now()
+    if (!progress || (!force && progress.phase === lastPhase && now - lastPrintedAt < PROGRESS_INTERVAL_MS)) return
+
+    lastPhase = progress.phase
+    lastPrintedAt = now
+    const counts = progress.total !== undefined ? `${progress.completed}/${progress.total}` : `${progress.completed}`
+    const failed = progress.failed > 0 ? `, ${progress.failed} failed` : ''
+    const eta = progress.etaMs !== undefined ? `, about ${formatDuration(progress.etaMs)} left` : ''
+    options.onProgress(`${progress.phase}: ${counts}${failed}${eta}`)
+  }
+
+  const context: ToolExecutionContext = {
+    credentials: options.session,
+    electronAPI: options.api,
+    showProgress: options.onProgress,
+    reportProgress: update => {
+      tracker.update(update)
+      printProgress(false)
+    },
+    reportItem: item => {
+      tracker.recordItem(item)
+      options.onItem(item)
+      printProgress(false)
+    },
+    hideProgress: () => {},
+    showError: options.onProgress,
+    // Success is reported from the result
+    showSuccess: () => {},
+    signal: options.signal,
+    eloquaApi: eloquaApiService.forRun({
+      runId,
+      toolId: options.toolId,
+      signal: options.signal,
+      bypassCache: options.bypassCache
+    }),
+    // Plans need someone to review them, so command-line runs always send their changes
+    dryRun: false
+  }
+
+  try {
+    return await ToolExecutor.execute(options.toolId, context, options.parameters)
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+  } finally {
+    printProgress(true)
+    unsubscribeRetries()
+    eloquaApiService.reset()
+    setToolServiceApi(null)
+  }
+}
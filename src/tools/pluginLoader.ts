@@ -0,0 +1,154 @@
+import { ComponentType, createElement, Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { BaseTool, ToolExecutionContext, ToolResult } from '../shared/toolFramework'
+import { PLUGIN_API_LEVEL, PLUGIN_SCHEME } from '../shared/pluginManifest'
+import eloquaApiService, { EloquaApiService } from '../renderer/services/eloquaApi'
+import useTool from '../renderer/hooks/useTool'
+
+// API service methods plugins may call. Session, cache, run and traffic
+// management stay with the app.
+const PLUGIN_ELOQUA_METHODS = [
+  'testConnection',
+  'getEmails', 'getEmailDetails', 'getEmailGroups',
+  'getForms', 'getFormDetails', 'createForm', 'updateForm', 'deleteForm', 'copyForm',
+  'getFormSubmissions', 'getFormAnalytics', 'getFormFields', 'updateFormField', 'addFormField', 'removeFormField',
+  'getBulkOperations', 'deleteBulkOperation',
+  'getCampaigns', 'getCampaignDetails', 'getAssetsByType',
+  'analyzeDependencies', 'getAssetDependencies', 'getMultipleAssetDependencies', 'findAssetUsage',
+  'makeRequest', 'listAll', 'runDetached'
+] as const
+
+export type PluginEloquaApi = Pick<EloquaApiService, typeof PLUGIN_ELOQUA_METHODS[number]>
+
+// What a plugin tool's execute() receives: the run's reporting helpers, Stop
+// signal and dry-run flag, and its API service limited to the plugin methods.
+// Session credentials and the preload bridge are not passed on.
+export type PluginToolExecutionContext = Pick<
+  ToolExecutionContext,
+  'showProgress' | 'reportProgress' | 'reportItem' | 'hideProgress' | 'showError' | 'showSuccess' | 'signal' | 'dryRun'
+> & {
+  eloquaApi: PluginEloquaApi
+}
+
+/**
+ * Everything a plugin bundle gets from the app, passed to its activate(api).
+ * Tools get a PluginToolExecutionContext in execute(): they reach Eloqua
+ * through context.eloquaApi, which has the same methods as eloquaApi but
+ * belongs to the run, and report through its helpers; components use the app's React and useTool so hooks
+ * and runs work as in built-in pages. Plugins run in the app window, so only
+ * plugins from trusted sources should be enabled.
+ */
+export interface ToolPluginApi {
+  apiLevel: number
+  BaseTool: typeof BaseTool
+  eloquaApi: PluginEloquaApi
+  react: {
+    createElement: typeof createElement
+    Fragment: typeof Fragment
+    useState: typeof useState
+    useEffect: typeof useEffect
+    useMemo: typeof useMemo
+    useCallback: typeof useCallback
+    useRef: typeof useRef
+  }
+  useTool: typeof useTool
+}
+
+// What activate(api) returns: the tool class and, optionally, a page for it
+export interface ToolPluginExports {
+  Tool: new () => BaseTool
+  Component?: ComponentType
+}
+
+export interface LoadedToolPlugin {
+  pluginId: string
+  tool?: BaseTool
+  error?: string
+}
+
+let pluginApi: ToolPluginApi | null = null
+
+// The methods plugins may call, bound to the service or to the view of one run
+function createPluginEloquaApi(service: EloquaApiService): PluginEloquaApi {
+  const eloquaApi: Record<string, unknown> = {}
+  for (const method of PLUGIN_ELOQUA_METHODS) {
+    eloquaApi[method] = (service[method] as (...args: any[]) => unknown).bind(service)
+  }
+  return Object.freeze(eloquaApi) as PluginEloquaApi
+}
+
+function getPluginApi(): ToolPluginApi {
+  if (!pluginApi) {
+    pluginApi = Object.freeze({
+      apiLevel: PLUGIN_API_LEVEL,
+      BaseTool,
+      eloquaApi: createPluginEloquaApi(eloquaApiService),
+      react: Object.freeze({ createElement, Fragment, useState, useEffect, useMemo, useCallback, useRef }),
+      useTool
+    })
+  }
+  return pluginApi
+}
+
+/**
+ * Imports the bundles of enabled, compatible plugins and creates their tools.
+ * Each tool is given the route /plugins/<plugin id>. A plugin that fails to
+ * load is reported with its error and does not stop the others.
+ * @returns Promise<LoadedToolPlugin[]> - One entry per enabled plugin
+ */
+export async function loadToolPlugins(): Promise<LoadedToolPlugin[]> {
+  const plugins = await window.electronAPI.listPlugins()
+
+  const loaded: LoadedToolPlugin[] = []
+  for (const plugin of plugins) {
+    if (!plugin.enabled || !plugin.compatible || !plugin.manifest) continue
+
+    try {
+      const bundle = await import(/* @vite-ignore */ `${PLUGIN_SCHEME}://${plugin.id}/${plugin.manifest.main}`)
+      if (typeof bundle.activate !== 'function') {
+        throw new Error('The bundle does not export activate(api)')
+      }
+
+      const exports: ToolPluginExports | undefined = bundle.activate(getPluginApi())
+      if (typeof exports?.Tool !== 'function') {
+        throw new Error('activate(api) must return { Tool } with a subclass of api.BaseTool')
+      }
+
+      const tool = new exports.Tool()
+      if (!(tool instanceof BaseTool)) {
+        throw new Error('Tool must extend api.BaseTool')
+      }
+
+      const config = tool.getConfig()
+      if (!config || typeof config.id !== 'string' || typeof config.name !== 'string') {
+        throw new Error('The tool config needs an id and a name')
+      }
+      config.path = `/plugins/${plugin.id}`
+      config.pluginId = plugin.id
+
+      // Plugin tools are written against PluginToolExecutionContext, so they get
+      // only its fields and the run's service limited to the api.eloquaApi methods
+      const execute = tool.execute.bind(tool) as unknown as (context: PluginToolExecutionContext, parameters: any) => Promise<ToolResult>
+      tool.execute = (context, parameters) => execute({
+        showProgress: context.showProgress,
+        reportProgress: context.reportProgress,
+        reportItem: context.reportItem,
+        hideProgress: context.hideProgress,
+        showError: context.showError,
+        showSuccess: context.showSuccess,
+        signal: context.signal,
+        dryRun: context.dryRun,
+        eloquaApi: createPluginEloquaApi(context.eloquaApi)
+      }, parameters)
+
+      const Component = exports.Component
+      if (Component) {
+        tool.getComponent = () => ({ render: () => createElement(Component) })
+      }
+
+      loaded.push({ pluginId: plugin.id, tool })
+    } catch (error) {
+      loaded.push({ pluginId: plugin.id, error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+  return loaded
+}
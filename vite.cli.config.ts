@@ -0,0 +1,28 @@
+import { defineConfig } from 'vite'
+import { resolve } from 'path'
+
+// Tools bundle for the command line (src/main/commandLine.ts). The tools are
+// written for the renderer, so Vite builds them for Node instead of tsc.
+// Dependencies stay in node_modules, which the packaged app includes.
+export default defineConfig({
+  build: {
+    ssr: resolve(__dirname, 'src/tools/headlessRunner.ts'),
+    outDir: 'dist/cli',
+    emptyOutDir: true,
+    target: 'node16',
+    rollupOptions: {
+      output: {
+        format: 'cjs',
+        entryFileNames: 'headlessRunner.js',
+      },
+    },
+  },
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, 'src'),
+      '@shared': resolve(__dirname, 'src/shared'),
+      '@renderer': resolve(__dirname, 'src/renderer'),
+      '@main': resolve(__dirname, 'src/main'),
+    },
+  },
+})